@@ -0,0 +1,29 @@
+import postgres from 'postgres';
+
+// Database connection setup
+const sql = postgres(process.env.NEON_DATABASE_URL || process.env.DATABASE_URL, { ssl: 'require' });
+
+// Accounts made before email verification existed never got a link, so they'd be locked out
+// of everything that needs a verified address. Every account since has an auth token, a
+// verification or activation link or a password reset, so this is safe to run again
+async function backfillEmailVerified() {
+  console.log('Marking accounts from before email verification as verified...');
+
+  try {
+    const verified = await sql`
+      UPDATE users
+      SET email_verified_at = created_at
+      WHERE email_verified_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM auth_tokens WHERE auth_tokens.user_id = users.id)
+      RETURNING id
+    `;
+    console.log(`Marked ${verified.length} accounts as verified.`);
+  } catch (error) {
+    console.error('Error backfilling email verification:', error);
+  } finally {
+    await sql.end();
+    console.log('Operation complete');
+  }
+}
+
+backfillEmailVerified();
@@ -3,13 +3,22 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminStudentsPage from "@/pages/admin-students-page";
 import AdminSchoolsPage from "@/pages/admin-schools-page";
+import AdminOrdersPage from "@/pages/admin-orders-page";
 import SchoolDashboard from "@/pages/school-dashboard";
 import SchoolStudentsPage from "@/pages/school-students-page";
 import SchoolFundraisersPage from "@/pages/school-fundraisers-page";
 import SchoolProfilePage from "@/pages/school-profile-page";
+import SchoolCheckInPage from "@/pages/school-check-in-page";
+import SchoolOrdersPage from "@/pages/school-orders-page";
+import SchoolAbandonedCheckoutsPage from "@/pages/school-abandoned-checkouts-page";
+import SchoolCashPaymentsPage from "@/pages/school-cash-payments-page";
+import SchoolPromoCodesPage from "@/pages/school-promo-codes-page";
 import StudentDashboard from "@/pages/student-dashboard";
 import StudentFundraisersPage from "@/pages/student-fundraisers-page";
 import CheckoutPage from "@/pages/checkout-page";
@@ -18,6 +27,7 @@ import CartPage from "@/pages/cart-page";
 import CartPaymentPage from "@/pages/cart-payment-page";
 import PaystackCheckoutPage from "@/pages/paystack-checkout-page";
 import PublicFundraiserPage from "@/pages/public-fundraiser-page";
+import DonatePage from "@/pages/donate-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
 import { queryClient } from "./lib/queryClient";
@@ -26,6 +36,14 @@ function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/auth/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/auth/reset-password">
+        <ResetPasswordPage />
+      </Route>
+      <Route path="/auth/verify-email" component={VerifyEmailPage} />
+      <Route path="/auth/activate">
+        <ResetPasswordPage activation />
+      </Route>
       <ProtectedRoute
         path="/"
         roleCheck={(user) => user.role === "admin"}
@@ -44,6 +62,12 @@ function Router() {
         component={AdminSchoolsPage}
         fallbackPath="/"
       />
+      <ProtectedRoute
+        path="/admin/orders"
+        roleCheck={(user) => user.role === "admin"}
+        component={AdminOrdersPage}
+        fallbackPath="/"
+      />
       <ProtectedRoute
         path="/school"
         roleCheck={(user) => user.role === "school"}
@@ -62,6 +86,36 @@ function Router() {
         component={SchoolFundraisersPage}
         fallbackPath="/school"
       />
+      <ProtectedRoute
+        path="/school/fundraisers/:id/check-in"
+        roleCheck={(user) => user.role === "school"}
+        component={SchoolCheckInPage}
+        fallbackPath="/school"
+      />
+      <ProtectedRoute
+        path="/school/orders"
+        roleCheck={(user) => user.role === "school"}
+        component={SchoolOrdersPage}
+        fallbackPath="/school"
+      />
+      <ProtectedRoute
+        path="/school/abandoned-checkouts"
+        roleCheck={(user) => user.role === "school"}
+        component={SchoolAbandonedCheckoutsPage}
+        fallbackPath="/school"
+      />
+      <ProtectedRoute
+        path="/school/cash-payments"
+        roleCheck={(user) => user.role === "school"}
+        component={SchoolCashPaymentsPage}
+        fallbackPath="/school"
+      />
+      <ProtectedRoute
+        path="/school/promo-codes"
+        roleCheck={(user) => user.role === "school"}
+        component={SchoolPromoCodesPage}
+        fallbackPath="/school"
+      />
       <ProtectedRoute
         path="/school/profile"
         roleCheck={(user) => user.role === "school"}
@@ -86,16 +140,12 @@ function Router() {
         component={CheckoutPage}
         fallbackPath="/student/fundraisers"
       />
-      <ProtectedRoute
-        path="/payment-success"
-        roleCheck={(user) => user.role === "student"}
-        component={PaymentSuccessPage}
-        fallbackPath="/student/fundraisers"
-      />
+      <Route path="/payment-success" component={PaymentSuccessPage} />
       <Route path="/cart" component={CartPage} />
       <Route path="/payment/cart" component={CartPaymentPage} />
       <Route path="/payment/paystack" component={PaystackCheckoutPage} />
       <Route path="/fundraiser/:id" component={PublicFundraiserPage} />
+      <Route path="/donate/:fundraiserId" component={DonatePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -3,10 +3,13 @@ import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Loader2, ShoppingCart, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { Fundraiser } from "@shared/schema";
+import { Fundraiser, TicketTypeWithAvailability } from "@shared/schema";
+import { ticketLimit } from "@/lib/utils";
+import { addToCart } from "@/lib/cart";
+import TicketTypeSelect, { defaultTicketTypeId } from "./ticket-type-select";
 
 interface AddToCartButtonProps {
-  fundraiser: Fundraiser;
+  fundraiser: Fundraiser & { ticketsRemaining?: number | null; ticketTypes?: TicketTypeWithAvailability[] };
   quantity?: number;
   variant?: "default" | "outline" | "ghost" | "link";
   size?: "default" | "sm" | "lg" | "icon";
@@ -24,58 +27,35 @@ export default function AddToCartButton({
   const [added, setAdded] = useState(false);
   const { toast } = useToast();
   const [, navigate] = useLocation();
+  const ticketTypes = fundraiser.ticketTypes ?? [];
+  const [ticketTypeId, setTicketTypeId] = useState<number | null>(() => defaultTicketTypeId(ticketTypes));
+  const ticketType = ticketTypes.find((type) => type.id === ticketTypeId);
+  const isSoldOut = fundraiser.ticketsRemaining === 0 || (ticketTypes.length > 0 && !ticketType);
+  const maxQuantity = ticketLimit(fundraiser, ticketType);
   
   // Function to add item to cart
-  const addToCart = () => {
+  const handleAddToCart = async () => {
     setIsAdding(true);
     
     try {
-      // Get existing cart from local storage
-      const existingCartJson = localStorage.getItem('fundraiser-cart');
-      let cart = existingCartJson ? JSON.parse(existingCartJson) : [];
-      
-      // Check if this fundraiser is already in the cart
-      const existingItemIndex = cart.findIndex(
-        (item: any) => item.fundraiserId === fundraiser.id
-      );
-      
-      if (existingItemIndex >= 0) {
-        // Update quantity if item exists
-        const newQuantity = Math.min(cart[existingItemIndex].quantity + quantity, 10);
-        cart[existingItemIndex].quantity = newQuantity;
-        
-        toast({
-          title: "Cart updated",
-          description: `Updated quantity for "${fundraiser.name}" to ${newQuantity} tickets.`
-        });
-      } else {
-        // Add new item if it doesn't exist
-        cart.push({
-          id: Date.now(), // Generate a unique ID
-          fundraiserId: fundraiser.id,
-          name: fundraiser.name,
-          eventDate: fundraiser.eventDate,
-          location: fundraiser.location,
-          quantity: quantity,
-          price: 10 // Fixed price for now - $10 per ticket
-        });
-        
-        toast({
-          title: "Added to cart",
-          description: `"${fundraiser.name}" has been added to your cart.`,
-          action: (
-            <div 
-              className="cursor-pointer underline" 
-              onClick={() => window.location.href = "/cart"}
-            >
-              Go to cart
-            </div>
-          )
-        });
-      }
+      await addToCart({
+        fundraiserId: fundraiser.id,
+        ticketTypeId: ticketType?.id,
+        quantity: Math.min(quantity, maxQuantity)
+      });
       
-      // Save updated cart back to local storage
-      localStorage.setItem('fundraiser-cart', JSON.stringify(cart));
+      toast({
+        title: "Added to cart",
+        description: `"${fundraiser.name}" has been added to your cart.`,
+        action: (
+          <div 
+            className="cursor-pointer underline" 
+            onClick={() => window.location.href = "/cart"}
+          >
+            Go to cart
+          </div>
+        )
+      });
       
       // Show success state
       setAdded(true);
@@ -84,11 +64,11 @@ export default function AddToCartButton({
       setTimeout(() => {
         window.location.href = "/cart";
       }, 1500);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error adding to cart:", error);
       toast({
         title: "Error",
-        description: "There was a problem adding this item to your cart.",
+        description: error.message || "There was a problem adding this item to your cart.",
         variant: "destructive"
       });
     } finally {
@@ -103,11 +83,20 @@ export default function AddToCartButton({
   
   return (
     <div className="flex space-x-2">
+      {ticketTypes.length > 0 && (
+        <TicketTypeSelect
+          ticketTypes={ticketTypes}
+          value={ticketTypeId}
+          onChange={setTicketTypeId}
+          className="w-48"
+        />
+      )}
+      
       <Button
         variant={variant}
         size={size}
-        onClick={addToCart}
-        disabled={isAdding}
+        onClick={handleAddToCart}
+        disabled={isAdding || isSoldOut}
         className={className}
       >
         {isAdding ? (
@@ -123,7 +112,7 @@ export default function AddToCartButton({
         ) : (
           <>
             <ShoppingCart className="mr-2 h-4 w-4" />
-            Add to Cart
+            {isSoldOut ? "Sold Out" : "Add to Cart"}
           </>
         )}
       </Button>
@@ -32,8 +32,17 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import TicketTypesField, { ticketTypeFormSchema, toTicketTypePayload } from "@/components/ticket-types-field";
+import DonationSettingsField, { donationSettingsFormSchema, toDonationPayload } from "@/components/donation-settings-field";
+import GoalSettingsField, { goalSettingsFormSchema, toGoalPayload } from "@/components/goal-settings-field";
 import { cn } from "@/lib/utils";
-import { Fundraiser } from "@shared/schema";
+import { DEFAULT_MAX_TICKETS_PER_ORDER, Fundraiser, FundraiserMode } from "@shared/schema";
+
+// Ticket limits are optional, left empty the fundraiser has no capacity or uses the default per-order limit
+const ticketLimitSchema = z.string().optional().refine(
+  (val) => !val || (Number.isInteger(Number(val)) && Number(val) > 0),
+  { message: "Must be a whole number greater than 0" }
+);
 
 // Form schema
 const fundraiserFormSchema = z.object({
@@ -49,6 +58,11 @@ const fundraiserFormSchema = z.object({
     ),
   image: z.instanceof(File).optional().or(z.string()).optional(),
   description: z.string().max(500, "Description must be less than 500 characters").optional(),
+  capacity: ticketLimitSchema,
+  maxTicketsPerOrder: ticketLimitSchema,
+  ticketTypes: z.array(ticketTypeFormSchema),
+  ...donationSettingsFormSchema,
+  ...goalSettingsFormSchema,
 });
 
 type FundraiserFormValues = z.infer<typeof fundraiserFormSchema>;
@@ -71,8 +85,17 @@ export default function CreateFundraiserForm({ onSuccess }: CreateFundraiserForm
       price: "10.00",
       image: "",
       description: "",
+      capacity: "",
+      maxTicketsPerOrder: "",
+      ticketTypes: [],
+      mode: FundraiserMode.TICKETS,
+      donationGoal: "",
+      suggestedDonations: "",
+      goalAmount: "",
+      studentGoalAmount: "",
     },
   });
+  const mode = form.watch("mode");
 
   const createFundraiserMutation = useMutation({
     mutationFn: async (values: FundraiserFormValues) => {
@@ -107,6 +130,35 @@ export default function CreateFundraiserForm({ onSuccess }: CreateFundraiserForm
         formData.append('description', values.description);
       }
       
+      if (values.capacity) {
+        formData.append('capacity', values.capacity);
+      }
+      
+      if (values.maxTicketsPerOrder) {
+        formData.append('maxTicketsPerOrder', values.maxTicketsPerOrder);
+      }
+      
+      if (values.ticketTypes.length > 0 && values.mode !== FundraiserMode.DONATIONS) {
+        formData.append('ticketTypes', JSON.stringify(toTicketTypePayload(values.ticketTypes)));
+      }
+      
+      const donationSettings = toDonationPayload(values);
+      formData.append('mode', donationSettings.mode);
+      if (donationSettings.donationGoal) {
+        formData.append('donationGoal', donationSettings.donationGoal.toString());
+      }
+      if (donationSettings.suggestedDonations) {
+        formData.append('suggestedDonations', JSON.stringify(donationSettings.suggestedDonations));
+      }
+      
+      const goalSettings = toGoalPayload(values);
+      if (goalSettings.goalAmount && values.mode !== FundraiserMode.DONATIONS) {
+        formData.append('goalAmount', goalSettings.goalAmount.toString());
+      }
+      if (goalSettings.studentGoalAmount && values.mode !== FundraiserMode.DONATIONS) {
+        formData.append('studentGoalAmount', goalSettings.studentGoalAmount.toString());
+      }
+      
       // Custom fetch to handle FormData properly instead of using apiRequest
       const res = await fetch('/api/school/fundraisers', {
         method: 'POST',
@@ -135,6 +187,14 @@ export default function CreateFundraiserForm({ onSuccess }: CreateFundraiserForm
         price: "10.00",
         image: "",
         description: "",
+        capacity: "",
+        maxTicketsPerOrder: "",
+        ticketTypes: [],
+        mode: FundraiserMode.TICKETS,
+        donationGoal: "",
+        suggestedDonations: "",
+        goalAmount: "",
+        studentGoalAmount: "",
       });
       setOpen(false);
       queryClient.invalidateQueries({ queryKey: ["/api/school/fundraisers"] });
@@ -158,7 +218,7 @@ export default function CreateFundraiserForm({ onSuccess }: CreateFundraiserForm
       <DialogTrigger asChild>
         <Button>Create New Event</Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Fundraiser Event</DialogTitle>
           <DialogDescription>
@@ -239,26 +299,66 @@ export default function CreateFundraiserForm({ onSuccess }: CreateFundraiserForm
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="price"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Ticket Price ($)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      min="0.01"
-                      step="0.01"
-                      placeholder="10.00"
-                      {...field}
-                      aria-label="Ticket Price"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <DonationSettingsField control={form.control} mode={mode} />
+
+            {mode !== FundraiserMode.DONATIONS && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ticket Price ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          placeholder="10.00"
+                          {...field}
+                          aria-label="Ticket Price"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="capacity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Capacity</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" placeholder="Unlimited" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxTicketsPerOrder"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Tickets per Order</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" placeholder={DEFAULT_MAX_TICKETS_PER_ORDER.toString()} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <TicketTypesField control={form.control} />
+
+                <GoalSettingsField control={form.control} />
+              </>
+            )}
 
             <FormField
               control={form.control}
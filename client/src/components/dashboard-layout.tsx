@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import DashboardSidebar from "./dashboard-sidebar";
 import DashboardHeader from "./dashboard-header";
+import VerifyEmailBanner from "./verify-email-banner";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -39,6 +40,7 @@ export default function DashboardLayout({ children, title, role }: DashboardLayo
         {/* Main Content Area */}
         <main className="flex-grow p-4 sm:p-6 lg:p-8">
           <h1 className="text-2xl font-bold text-gray-900 mb-6">{title}</h1>
+          {user && !user.emailVerifiedAt && <VerifyEmailBanner email={user.email} />}
           {children}
         </main>
       </div>
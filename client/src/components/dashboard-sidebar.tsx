@@ -24,6 +24,7 @@ export default function DashboardSidebar({
     { label: "Schools", icon: "school", path: "/admin/schools" },
     { label: "Students", icon: "user-graduate", path: "/admin/students" },
     { label: "Fundraisers", icon: "hand-holding-usd", path: "/admin/fundraisers" },
+    { label: "Orders", icon: "receipt", path: "/admin/orders" },
     { label: "Settings", icon: "cog", path: "/admin/settings" },
   ];
 
@@ -31,6 +32,10 @@ export default function DashboardSidebar({
     { label: "Dashboard", icon: "tachometer-alt", path: "/school" },
     { label: "Students", icon: "user-graduate", path: "/school/students" },
     { label: "Fundraisers", icon: "hand-holding-usd", path: "/school/fundraisers" },
+    { label: "Orders", icon: "receipt", path: "/school/orders" },
+    { label: "Abandoned Carts", icon: "shopping-cart", path: "/school/abandoned-checkouts" },
+    { label: "Cash Payments", icon: "money-bill-wave", path: "/school/cash-payments" },
+    { label: "Promo Codes", icon: "tags", path: "/school/promo-codes" },
     { label: "School Profile", icon: "id-card", path: "/school/profile" },
   ];
 
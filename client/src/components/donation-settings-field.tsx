@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { Control } from "react-hook-form";
+import { Fundraiser, FundraiserMode } from "@shared/schema";
+
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+function parseAmounts(val: string): number[] {
+  return val.split(",").map((amount) => amount.trim()).filter(Boolean).map(parseFloat);
+}
+
+// Donation settings of the fundraiser form, amounts are entered like the fundraiser's price
+export const donationSettingsFormSchema = {
+  mode: z.enum([FundraiserMode.TICKETS, FundraiserMode.DONATIONS, FundraiserMode.TICKETS_AND_DONATIONS]),
+  donationGoal: z.string().optional().refine(
+    (val) => !val || (!isNaN(parseFloat(val)) && parseFloat(val) > 0),
+    { message: "Must be a positive number" }
+  ),
+  suggestedDonations: z.string().optional().refine(
+    (val) => !val || parseAmounts(val).every((amount) => !isNaN(amount) && amount > 0),
+    { message: "Separate positive amounts with commas, e.g. 50, 100, 250" }
+  ),
+};
+
+// Fill the donation settings from a saved fundraiser
+export function toDonationFormValues(fundraiser: Fundraiser) {
+  return {
+    mode: fundraiser.mode,
+    donationGoal: fundraiser.donationGoal ? (fundraiser.donationGoal / 100).toFixed(2) : "",
+    suggestedDonations: (fundraiser.suggestedDonations ?? []).map((amount) => amount / 100).join(", "),
+  };
+}
+
+// Donation settings as the API expects them, amounts in cents
+export function toDonationPayload(values: { mode: string; donationGoal?: string; suggestedDonations?: string }) {
+  const acceptsDonations = values.mode !== FundraiserMode.TICKETS;
+  return {
+    mode: values.mode,
+    donationGoal: acceptsDonations && values.donationGoal ? Math.round(parseFloat(values.donationGoal) * 100) : null,
+    suggestedDonations: acceptsDonations && values.suggestedDonations
+      ? parseAmounts(values.suggestedDonations).map((amount) => Math.round(amount * 100))
+      : null,
+  };
+}
+
+interface DonationSettingsFieldProps {
+  control: Control<any>;
+  mode: string;
+}
+
+export default function DonationSettingsField({ control, mode }: DonationSettingsFieldProps) {
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={control}
+        name="mode"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Raise Money With</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={FundraiserMode.TICKETS}>Ticket sales</SelectItem>
+                <SelectItem value={FundraiserMode.DONATIONS}>Donations only</SelectItem>
+                <SelectItem value={FundraiserMode.TICKETS_AND_DONATIONS}>Tickets and donations</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {mode !== FundraiserMode.TICKETS && (
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="donationGoal"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Donation Goal ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0.01" step="0.01" placeholder="No goal" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name="suggestedDonations"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Suggested Amounts ($)</FormLabel>
+                <FormControl>
+                  <Input placeholder="50, 100, 250" {...field} />
+                </FormControl>
+                <FormDescription className="text-xs">Donors can always enter their own amount</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
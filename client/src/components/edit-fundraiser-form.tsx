@@ -5,7 +5,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Fundraiser } from "@shared/schema";
+import { DEFAULT_MAX_TICKETS_PER_ORDER, Fundraiser, FundraiserMode, TicketType } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 import {
@@ -28,9 +28,30 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import TicketTypesField, {
+  ticketTypeFormSchema,
+  toTicketTypeFormValues,
+  toTicketTypePayload,
+} from "@/components/ticket-types-field";
+import DonationSettingsField, {
+  donationSettingsFormSchema,
+  toDonationFormValues,
+  toDonationPayload,
+} from "@/components/donation-settings-field";
+import GoalSettingsField, {
+  goalSettingsFormSchema,
+  toGoalFormValues,
+  toGoalPayload,
+} from "@/components/goal-settings-field";
 import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+// Ticket limits are optional, left empty the fundraiser has no capacity or uses the default per-order limit
+const ticketLimitSchema = z.string().optional().refine(
+  (val) => !val || (Number.isInteger(Number(val)) && Number(val) > 0),
+  { message: "Must be a whole number greater than 0" }
+);
+
 // Schema for the form
 const formSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -40,12 +61,17 @@ const formSchema = z.object({
   price: z.coerce.number().min(1, "Price must be at least 1"),
   description: z.string().optional(),
   image: z.string().optional(),
+  capacity: ticketLimitSchema,
+  maxTicketsPerOrder: ticketLimitSchema,
+  ticketTypes: z.array(ticketTypeFormSchema),
+  ...donationSettingsFormSchema,
+  ...goalSettingsFormSchema,
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
 interface EditFundraiserFormProps {
-  fundraiser?: Fundraiser;
+  fundraiser?: Fundraiser & { ticketTypes?: TicketType[] };
   open: boolean;
   onOpenChange: (open: boolean) => void;
   schoolId: number;
@@ -73,8 +99,16 @@ export default function EditFundraiserForm({
       price: fundraiser?.price ? fundraiser.price / 100 : 10,
       description: fundraiser?.description || "",
       image: fundraiser?.image || "",
+      capacity: fundraiser?.capacity?.toString() ?? "",
+      maxTicketsPerOrder: fundraiser?.maxTicketsPerOrder?.toString() ?? "",
+      ticketTypes: toTicketTypeFormValues(fundraiser?.ticketTypes ?? []),
+      ...(fundraiser
+        ? toDonationFormValues(fundraiser)
+        : { mode: FundraiserMode.TICKETS, donationGoal: "", suggestedDonations: "" }),
+      ...(fundraiser ? toGoalFormValues(fundraiser) : { goalAmount: "", studentGoalAmount: "" }),
     },
   });
+  const mode = form.watch("mode");
 
   // Mutation for creating/updating fundraiser
   const mutation = useMutation({
@@ -83,6 +117,12 @@ export default function EditFundraiserForm({
       const dataToSend = {
         ...values,
         price: Math.round(values.price * 100),
+        // An emptied limit is sent as null so the server removes it
+        capacity: values.capacity ? Number(values.capacity) : null,
+        maxTicketsPerOrder: values.maxTicketsPerOrder ? Number(values.maxTicketsPerOrder) : null,
+        ticketTypes: toTicketTypePayload(values.ticketTypes),
+        ...toDonationPayload(values),
+        ...toGoalPayload(values),
         schoolId: schoolId,
       };
 
@@ -162,7 +202,7 @@ export default function EditFundraiserForm({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {isEditMode ? "Edit Fundraiser" : "Create Fundraiser"}
@@ -218,25 +258,65 @@ export default function EditFundraiserForm({
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="price"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Ticket Price ($)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      min="1"
-                      step="0.01"
-                      placeholder="10.00"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <DonationSettingsField control={form.control} mode={mode} />
+
+            {mode !== FundraiserMode.DONATIONS && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ticket Price ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="0.01"
+                          placeholder="10.00"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="capacity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Capacity</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" placeholder="Unlimited" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxTicketsPerOrder"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Tickets per Order</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" placeholder={DEFAULT_MAX_TICKETS_PER_ORDER.toString()} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <TicketTypesField control={form.control} />
+
+                <GoalSettingsField control={form.control} />
+              </>
+            )}
 
             <FormField
               control={form.control}
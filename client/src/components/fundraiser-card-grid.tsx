@@ -1,8 +1,10 @@
-import { useQuery } from "@tanstack/react-query";
-import { Fundraiser } from "@shared/schema";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FundraiserWithAvailability, GoalProgress } from "@shared/schema";
 import { format } from "date-fns";
-import { CalendarIcon, MapPinIcon, InfoIcon, ArrowRightIcon } from "lucide-react";
+import { CalendarIcon, MapPinIcon, InfoIcon, ArrowRightIcon, UserPlusIcon, UserMinusIcon } from "lucide-react";
 import { cn, formatCurrency } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 import {
   Card,
@@ -17,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import FundraiserDetailsDialog from "./fundraiser-details-dialog";
 import AddToCartButton from "./add-to-cart-button";
+import { GoalProgressBars } from "./goal-progress-bar";
 
 interface FundraiserCardGridProps {
   limit?: number;
@@ -29,9 +32,34 @@ export default function FundraiserCardGrid({
   schoolId,
   showHeader = true,
 }: FundraiserCardGridProps) {
-  const { data: fundraisers, isLoading } = useQuery<Fundraiser[]>({
+  const { data: fundraisers, isLoading } = useQuery<FundraiserWithAvailability[]>({
     queryKey: ["/api/student/fundraisers"],
   });
+  const { data: goalProgress } = useQuery<GoalProgress[]>({
+    queryKey: ["/api/student/goal-progress"],
+  });
+  const { data: enrolments } = useQuery<number[]>({
+    queryKey: ["/api/student/enrolments"],
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Join or leave a fundraiser, only sales of fundraisers the student is in are credited to them
+  const enrolmentMutation = useMutation({
+    mutationFn: async ({ fundraiserId, join }: { fundraiserId: number; join: boolean }) => {
+      await apiRequest(join ? "POST" : "DELETE", `/api/student/fundraisers/${fundraiserId}/enrolment`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/student/enrolments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update fundraiser: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
 
   // Filtered and limited fundraisers
   const displayFundraisers = fundraisers
@@ -39,6 +67,11 @@ export default function FundraiserCardGrid({
       ? fundraisers.slice(0, limit)
       : fundraisers
     : [];
+  const progressByFundraiser = new Map(
+    (goalProgress || [])
+      .filter((progress) => progress.goal !== null || progress.studentGoal !== null)
+      .map((progress) => [progress.fundraiserId, progress])
+  );
 
   if (isLoading) {
     return (
@@ -146,9 +179,22 @@ export default function FundraiserCardGrid({
                   {fundraiser.description || "Join our fundraising event to support our school!"}
                 </p>
                 <div className="text-sm font-medium ml-2 flex-shrink-0">
-                  {formatCurrency(fundraiser.price ? fundraiser.price / 100 : 10)}
+                  {fundraiser.ticketTypes.length > 0
+                    ? `From ${formatCurrency(Math.min(...fundraiser.ticketTypes.map((ticketType) => ticketType.price)) / 100)}`
+                    : formatCurrency(fundraiser.price ? fundraiser.price / 100 : 10)}
                 </div>
               </div>
+              {fundraiser.ticketsRemaining !== null && (
+                <p className={cn(
+                  "mt-2 text-sm font-medium",
+                  fundraiser.ticketsRemaining > 0 ? "text-muted-foreground" : "text-destructive"
+                )}>
+                  {fundraiser.ticketsRemaining > 0 ? `${fundraiser.ticketsRemaining} left` : "Sold out"}
+                </p>
+              )}
+              {progressByFundraiser.has(fundraiser.id) && (
+                <GoalProgressBars className="mt-3" progress={progressByFundraiser.get(fundraiser.id)!} />
+              )}
             </CardContent>
             
             <CardFooter className="pt-2 flex flex-col gap-2 mt-auto">
@@ -161,6 +207,27 @@ export default function FundraiserCardGrid({
                   </Button>
                 }
               />
+              {enrolments?.includes(fundraiser.id) ? (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={enrolmentMutation.isPending}
+                  onClick={() => enrolmentMutation.mutate({ fundraiserId: fundraiser.id, join: false })}
+                >
+                  <UserMinusIcon className="h-4 w-4 mr-1" />
+                  Leave Fundraiser
+                </Button>
+              ) : fundraiser.isActive && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={enrolmentMutation.isPending}
+                  onClick={() => enrolmentMutation.mutate({ fundraiserId: fundraiser.id, join: true })}
+                >
+                  <UserPlusIcon className="h-4 w-4 mr-1" />
+                  Join Fundraiser
+                </Button>
+              )}
             </CardFooter>
           </Card>
         ))}
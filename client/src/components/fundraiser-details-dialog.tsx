@@ -2,7 +2,7 @@ import { useState } from "react";
 import { format } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
-import { Fundraiser, School } from "@shared/schema";
+import { FundraiserWithAvailability, School } from "@shared/schema";
 import { 
   CalendarIcon, MapPinIcon, SchoolIcon, InfoIcon, TicketIcon, 
   ShoppingCart, Share2Icon, Copy, CheckCircle2 
@@ -35,6 +35,8 @@ import {
   TooltipTrigger 
 } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { addToCart } from "@/lib/cart";
+import TicketTypeSelect, { defaultTicketTypeId } from "./ticket-type-select";
 
 interface FundraiserDetailsDialogProps {
   fundraiserId: number;
@@ -47,11 +49,12 @@ export default function FundraiserDetailsDialog({
 }: FundraiserDetailsDialogProps) {
   const [open, setOpen] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [selectedTicketTypeId, setSelectedTicketTypeId] = useState<number | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
   // Get fundraiser details
-  const { data: fundraiser, isLoading: isLoadingFundraiser } = useQuery<Fundraiser>({
+  const { data: fundraiser, isLoading: isLoadingFundraiser } = useQuery<FundraiserWithAvailability>({
     queryKey: [`/api/fundraisers/${fundraiserId}`],
     enabled: open,
   });
@@ -69,12 +72,23 @@ export default function FundraiserDetailsDialog({
   });
 
   const isLoading = isLoadingFundraiser || isLoadingSchool;
+  const isSoldOut = fundraiser?.ticketsRemaining === 0;
+  const ticketTypes = fundraiser?.ticketTypes ?? [];
+  const ticketTypeId = selectedTicketTypeId ?? defaultTicketTypeId(ticketTypes);
+  const ticketType = ticketTypes.find((type) => type.id === ticketTypeId);
   
   // Student ID for sharing, if the user is a student
   const studentId = userInfo?.student?.id;
   
-  const shareableLink = studentId 
-    ? `${window.location.origin}/fundraiser/${fundraiserId}?ref=${studentId}` 
+  // The student's referral code, only handed out once they've joined the fundraiser
+  const { data: referral, isError: isReferralUnavailable } = useQuery<{ code: string }>({
+    queryKey: [`/api/student/fundraisers/${fundraiserId}/referral-code`],
+    enabled: !!studentId && open,
+    retry: false,
+  });
+  
+  const shareableLink = referral 
+    ? `${window.location.origin}/fundraiser/${fundraiserId}?ref=${referral.code}` 
     : `${window.location.origin}/fundraiser/${fundraiserId}`;
     
   const copyShareableLink = () => {
@@ -187,10 +201,36 @@ export default function FundraiserDetailsDialog({
                       <div>
                         <p className="text-sm font-medium">Ticket Price</p>
                         <p className="text-sm text-muted-foreground font-medium">
-                          {formatCurrency(fundraiser?.price ? fundraiser.price / 100 : 10)}
+                          {formatCurrency(ticketType ? ticketType.price / 100 : fundraiser?.price ? fundraiser.price / 100 : 10)}
                         </p>
                       </div>
                     </div>
+
+                    {ticketTypes.length > 0 && (
+                      <div className="flex items-center space-x-2">
+                        <TicketIcon className="h-5 w-5 text-primary flex-shrink-0" />
+                        <div className="flex-1">
+                          <p className="text-sm font-medium mb-1">Ticket Type</p>
+                          <TicketTypeSelect
+                            ticketTypes={ticketTypes}
+                            value={ticketTypeId}
+                            onChange={setSelectedTicketTypeId}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {fundraiser && fundraiser.ticketsRemaining !== null && (
+                      <div className="flex items-center space-x-2">
+                        <TicketIcon className="h-5 w-5 text-primary flex-shrink-0" />
+                        <div>
+                          <p className="text-sm font-medium">Availability</p>
+                          <p className={isSoldOut ? "text-sm font-medium text-destructive" : "text-sm text-muted-foreground"}>
+                            {isSoldOut ? "Sold out" : `${fundraiser.ticketsRemaining} left`}
+                          </p>
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <Separator />
@@ -213,32 +253,40 @@ export default function FundraiserDetailsDialog({
                       <Separator />
                       <div>
                         <h4 className="text-sm font-medium mb-2">Share With Friends</h4>
-                        <div className="flex items-center">
-                          <div className="flex-1 py-2 px-3 border rounded-l-md bg-muted text-xs text-muted-foreground overflow-hidden whitespace-nowrap text-ellipsis">
-                            {shareableLink}
-                          </div>
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button
-                                  variant="outline"
-                                  size="icon"
-                                  className="rounded-l-none h-9"
-                                  onClick={copyShareableLink}
-                                >
-                                  {copied ? <CheckCircle2 className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Copy link</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-2">
-                          Share this link with friends and family. When they purchase tickets, 
-                          it will be tracked for your fundraising efforts.
-                        </p>
+                        {isReferralUnavailable ? (
+                          <p className="text-xs text-muted-foreground">
+                            Join this fundraiser to get a link that tracks the sales you bring in.
+                          </p>
+                        ) : (
+                          <>
+                            <div className="flex items-center">
+                              <div className="flex-1 py-2 px-3 border rounded-l-md bg-muted text-xs text-muted-foreground overflow-hidden whitespace-nowrap text-ellipsis">
+                                {shareableLink}
+                              </div>
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      className="rounded-l-none h-9"
+                                      onClick={copyShareableLink}
+                                    >
+                                      {copied ? <CheckCircle2 className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>Copy link</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Share this link with friends and family. When they purchase tickets, 
+                              it will be tracked for your fundraising efforts.
+                            </p>
+                          </>
+                        )}
                       </div>
                     </>
                   )}
@@ -250,28 +298,19 @@ export default function FundraiserDetailsDialog({
               <Button
                 variant="default"
                 className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary sm:flex-1"
-                onClick={() => {
-                  // Add to cart first
-                  // Get existing cart from local storage
-                  const existingCartJson = localStorage.getItem('fundraiser-cart');
-                  let cart = existingCartJson ? JSON.parse(existingCartJson) : [];
-                  
-                  // Add new item with student reference if available
-                  cart.push({
-                    id: Date.now(), // Generate a unique ID
-                    fundraiserId: fundraiserId,
-                    name: fundraiser?.name || 'Fundraiser',
-                    eventDate: fundraiser?.eventDate,
-                    location: fundraiser?.location || 'Unknown',
-                    quantity: 1,
-                    price: fundraiser?.price ? fundraiser.price / 100 : 10,
-                    studentId: studentId || null, // Include the student ID if available
-                    referral: studentId ? 'self' : null, // Mark as self-referral if the student is buying
-                    image: fundraiser?.image || ''
-                  });
-                  
-                  // Save updated cart back to local storage
-                  localStorage.setItem('fundraiser-cart', JSON.stringify(cart));
+                disabled={isSoldOut || (ticketTypes.length > 0 && !ticketType)}
+                onClick={async () => {
+                  try {
+                    // A student buying for themselves is credited by the server
+                    await addToCart({ fundraiserId, ticketTypeId: ticketType?.id });
+                  } catch (error: any) {
+                    toast({
+                      title: "Could not add to cart",
+                      description: error.message,
+                      variant: "destructive",
+                    });
+                    return;
+                  }
                   
                   // Close dialog
                   setOpen(false);
@@ -281,7 +320,7 @@ export default function FundraiserDetailsDialog({
                 }}
               >
                 <ShoppingCart className="h-4 w-4 mr-2" />
-                Add to Cart
+                {isSoldOut ? "Sold Out" : "Add to Cart"}
               </Button>
               <Button onClick={() => setOpen(false)} variant="outline" className="sm:flex-none">
                 Close
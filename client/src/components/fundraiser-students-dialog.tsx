@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { EnrolledStudent, StudentGroup, StudentGroupField } from "@shared/schema";
+import { format } from "date-fns";
+import { Loader2, Trash2, UserPlus, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GROUP_KIND_LABELS } from "@/components/student-group-select";
+
+// Every student, a list of students, or the students in one grade, class or house
+type AssignInput =
+  | { studentIds: number[] }
+  | { all: true }
+  | { grade: string }
+  | { className: string }
+  | { house: string };
+
+interface FundraiserStudentsDialogProps {
+  fundraiserId: number;
+  fundraiserName: string;
+  trigger: React.ReactNode;
+}
+
+export default function FundraiserStudentsDialog({
+  fundraiserId,
+  fundraiserName,
+  trigger,
+}: FundraiserStudentsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedStudentId, setSelectedStudentId] = useState("");
+  const [selectedGroupId, setSelectedGroupId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const enrolledUrl = `/api/school/fundraisers/${fundraiserId}/students`;
+
+  const { data: enrolled, isLoading } = useQuery<EnrolledStudent[]>({
+    queryKey: [enrolledUrl],
+    enabled: open,
+  });
+
+  const { data: students } = useQuery<any[]>({
+    queryKey: ["/api/school/students"],
+    enabled: open,
+  });
+
+  const { data: groups } = useQuery<StudentGroup[]>({
+    queryKey: ["/api/school/student-groups"],
+    enabled: open,
+  });
+
+  // Students of the school who aren't taking part yet
+  const enrolledIds = new Set((enrolled || []).map((student) => student.studentId));
+  const available = (students || []).filter((student) => !enrolledIds.has(student.id));
+
+  const assignMutation = useMutation({
+    mutationFn: async (input: AssignInput) => {
+      const res = await apiRequest("POST", enrolledUrl, input);
+      return res.json();
+    },
+    onSuccess: (data: { assigned: number }) => {
+      toast({
+        title: "Students assigned",
+        description: `${data.assigned} student${data.assigned === 1 ? "" : "s"} added to ${fundraiserName}`,
+      });
+      setSelectedStudentId("");
+      setSelectedGroupId("");
+      queryClient.invalidateQueries({ queryKey: [enrolledUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to assign students: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignGroup = () => {
+    const group = groups?.find((group) => group.id.toString() === selectedGroupId);
+    if (group) {
+      assignMutation.mutate({ [StudentGroupField[group.kind]]: group.name } as AssignInput);
+    }
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async (studentId: number) => {
+      await apiRequest("DELETE", `${enrolledUrl}/${studentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [enrolledUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove student: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Students in {fundraiserName}</DialogTitle>
+          <DialogDescription>
+            Only sales referred by these students are credited to them
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
+            <SelectTrigger className="flex-1" aria-label="Student">
+              <SelectValue placeholder={available.length ? "Choose a student" : "No students left to add"} />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((student) => (
+                <SelectItem key={student.id} value={student.id.toString()}>
+                  {student.user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={!selectedStudentId || assignMutation.isPending}
+            onClick={() => assignMutation.mutate({ studentIds: [parseInt(selectedStudentId, 10)] })}
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!available.length || assignMutation.isPending}
+            onClick={() => assignMutation.mutate({ all: true })}
+          >
+            Add all
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={selectedGroupId} onValueChange={setSelectedGroupId}>
+            <SelectTrigger className="flex-1" aria-label="Grade, class or house">
+              <SelectValue placeholder={groups?.length ? "Choose a grade, class or house" : "No grades, classes or houses yet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {(groups || []).map((group) => (
+                <SelectItem key={group.id} value={group.id.toString()}>
+                  {GROUP_KIND_LABELS[group.kind]}: {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={!selectedGroupId || assignMutation.isPending}
+            onClick={assignGroup}
+          >
+            <Users className="h-4 w-4 mr-1" />
+            Add group
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !enrolled?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No students are taking part yet
+          </p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto divide-y">
+            {enrolled.map((student) => (
+              <div key={student.studentId} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium">{student.username}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {student.email} · joined {format(new Date(student.enrolledAt), "PP")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove ${student.username}`}
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(student.studentId)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
-import { Fundraiser } from "@shared/schema";
+import { Link } from "wouter";
+import { Fundraiser, CheckInSummary } from "@shared/schema";
 import { format } from "date-fns";
-import { CalendarIcon, MapPinIcon, InfoIcon } from "lucide-react";
+import { CalendarIcon, MapPinIcon, InfoIcon, ScanLineIcon, UsersIcon } from "lucide-react";
 
 import {
   Table,
@@ -16,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import FundraiserDetailsDialog from "./fundraiser-details-dialog";
+import FundraiserStudentsDialog from "./fundraiser-students-dialog";
 
 interface FundraiserTableProps {
   limit?: number;
@@ -32,6 +34,12 @@ export default function FundraiserTable({
     queryKey: ["/api/school/fundraisers"],
   });
 
+  // Admitted vs sold counts, polled so they stay live during an event
+  const { data: checkInSummaries } = useQuery<CheckInSummary[]>({
+    queryKey: ["/api/school/check-in-summary"],
+    refetchInterval: 10000,
+  });
+
   // Filtered and limited fundraisers
   const displayFundraisers = fundraisers 
     ? (limit ? fundraisers.slice(0, limit) : fundraisers)
@@ -91,43 +99,68 @@ export default function FundraiserTable({
               <TableHead>Location</TableHead>
               <TableHead>Date</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Admitted</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {displayFundraisers.map((fundraiser) => (
-              <TableRow key={fundraiser.id}>
-                <TableCell className="font-medium">{fundraiser.name}</TableCell>
-                <TableCell>
-                  <div className="flex items-center">
-                    <MapPinIcon size={14} className="mr-1" />
-                    {fundraiser.location}
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center">
-                    <CalendarIcon size={14} className="mr-1" />
-                    {format(new Date(fundraiser.eventDate), "PPP")}
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <Badge variant={fundraiser.isActive ? "default" : "secondary"}>
-                    {fundraiser.isActive ? "Active" : "Inactive"}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <FundraiserDetailsDialog 
-                    fundraiserId={fundraiser.id}
-                    trigger={
-                      <Button variant="outline" size="sm">
-                        <InfoIcon className="h-4 w-4 mr-1" />
-                        Details
+            {displayFundraisers.map((fundraiser) => {
+              const checkIns = checkInSummaries?.find((summary) => summary.fundraiserId === fundraiser.id);
+              return (
+                <TableRow key={fundraiser.id}>
+                  <TableCell className="font-medium">{fundraiser.name}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <MapPinIcon size={14} className="mr-1" />
+                      {fundraiser.location}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <CalendarIcon size={14} className="mr-1" />
+                      {format(new Date(fundraiser.eventDate), "PPP")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={fundraiser.isActive ? "default" : "secondary"}>
+                      {fundraiser.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {checkIns ? `${checkIns.admitted} / ${checkIns.sold}` : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <FundraiserDetailsDialog 
+                        fundraiserId={fundraiser.id}
+                        trigger={
+                          <Button variant="outline" size="sm">
+                            <InfoIcon className="h-4 w-4 mr-1" />
+                            Details
+                          </Button>
+                        }
+                      />
+                      <FundraiserStudentsDialog
+                        fundraiserId={fundraiser.id}
+                        fundraiserName={fundraiser.name}
+                        trigger={
+                          <Button variant="outline" size="sm">
+                            <UsersIcon className="h-4 w-4 mr-1" />
+                            Students
+                          </Button>
+                        }
+                      />
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/school/fundraisers/${fundraiser.id}/check-in`}>
+                          <ScanLineIcon className="h-4 w-4 mr-1" />
+                          Check-in
+                        </Link>
                       </Button>
-                    }
-                  />
-                </TableCell>
-              </TableRow>
-            ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
           </TableBody>
         </Table>
       </CardContent>
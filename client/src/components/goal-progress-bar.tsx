@@ -0,0 +1,40 @@
+import { GoalProgress } from "@shared/schema";
+import { cn, formatCurrency } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+
+interface GoalProgressBarProps {
+  label: string;
+  raised: number; // in cents
+  goal: number; // in cents
+  className?: string;
+}
+
+export default function GoalProgressBar({ label, raised, goal, className }: GoalProgressBarProps) {
+  const percentage = Math.round((raised / goal) * 100);
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-xs text-muted-foreground mb-1">
+        <span>{label}</span>
+        <span>
+          {formatCurrency(raised / 100)} of {formatCurrency(goal / 100)} ({percentage}%)
+        </span>
+      </div>
+      <Progress value={Math.min(percentage, 100)} className="h-2" />
+    </div>
+  );
+}
+
+// The fundraiser's goal and, for a student, their own goal, whichever are set
+export function GoalProgressBars({ progress, className }: { progress: GoalProgress; className?: string }) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      {progress.studentGoal !== null && (
+        <GoalProgressBar label="My sales" raised={progress.studentRaised ?? 0} goal={progress.studentGoal} />
+      )}
+      {progress.goal !== null && (
+        <GoalProgressBar label="Raised" raised={progress.raised} goal={progress.goal} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { Control } from "react-hook-form";
+import { Fundraiser } from "@shared/schema";
+
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const optionalAmount = z.string().optional().refine(
+  (val) => !val || (!isNaN(parseFloat(val)) && parseFloat(val) > 0),
+  { message: "Must be a positive number" }
+);
+
+// Sales goals of the fundraiser form, amounts are entered like the fundraiser's price
+export const goalSettingsFormSchema = {
+  goalAmount: optionalAmount,
+  studentGoalAmount: optionalAmount,
+};
+
+function toRands(amount: number | null): string {
+  return amount ? (amount / 100).toFixed(2) : "";
+}
+
+function toCents(amount?: string): number | null {
+  return amount ? Math.round(parseFloat(amount) * 100) : null;
+}
+
+// Fill the goals from a saved fundraiser
+export function toGoalFormValues(fundraiser: Fundraiser) {
+  return {
+    goalAmount: toRands(fundraiser.goalAmount),
+    studentGoalAmount: toRands(fundraiser.studentGoalAmount),
+  };
+}
+
+// Goals as the API expects them, amounts in cents
+export function toGoalPayload(values: { goalAmount?: string; studentGoalAmount?: string }) {
+  return {
+    goalAmount: toCents(values.goalAmount),
+    studentGoalAmount: toCents(values.studentGoalAmount),
+  };
+}
+
+export default function GoalSettingsField({ control }: { control: Control<any> }) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name="goalAmount"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sales Goal ($)</FormLabel>
+            <FormControl>
+              <Input type="number" min="0.01" step="0.01" placeholder="No goal" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="studentGoalAmount"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Goal per Student ($)</FormLabel>
+            <FormControl>
+              <Input type="number" min="0.01" step="0.01" placeholder="No goal" {...field} />
+            </FormControl>
+            <FormDescription className="text-xs">Each student is notified at 50% and 100%</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Mail, X } from "lucide-react";
+import { SentInvite } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface InvitesCardProps {
+  title: string;
+  description: string;
+}
+
+// Send invites to register and revoke the ones that haven't been accepted. The server decides
+// who's being invited - schools by an admin, students by their school
+export default function InvitesCard({ title, description }: InvitesCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const { data: invites, isLoading } = useQuery<SentInvite[]>({
+    queryKey: ["/api/invites"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("POST", "/api/invites", { email });
+      return (await res.json()) as SentInvite;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+      toast({
+        title: "Invite sent",
+        description: `An invite link was emailed to ${invite.email}`,
+      });
+      setEmail("");
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate(email);
+          }}
+        >
+          <Input
+            type="email"
+            placeholder="Email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button type="submit" disabled={!email.trim() || inviteMutation.isPending}>
+            {inviteMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Mail className="mr-2 h-4 w-4" />
+            )}
+            Invite
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : invites && invites.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {invites.map((invite) => (
+              <li key={invite.id} className="flex items-center justify-between py-2">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{invite.email}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(invite.expiresAt) < new Date()
+                      ? "Expired"
+                      : `Expires ${format(new Date(invite.expiresAt), "MMM dd, yyyy")}`}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(invite.id)}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No pending invites</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
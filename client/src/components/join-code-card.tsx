@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+// The code a school hands out so its students can register without an invite
+export default function JoinCodeCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ joinCode: string }>({
+    queryKey: ["/api/school/join-code"],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/school/join-code");
+      return (await res.json()) as { joinCode: string };
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/school/join-code"], data);
+      toast({
+        title: "Join code replaced",
+        description: "The old code no longer works",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Student Join Code</CardTitle>
+        <CardDescription>
+          Students enter this code when they register to join your school
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between gap-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        ) : (
+          <span className="text-2xl font-mono font-bold tracking-widest text-gray-900">
+            {data?.joinCode}
+          </span>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={regenerateMutation.isPending}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${regenerateMutation.isPending ? "animate-spin" : ""}`} />
+          New Code
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Fundraiser, LeaderboardEntry } from "@shared/schema";
+import { Loader2, Trophy } from "lucide-react";
+import { cn, formatCurrency } from "@/lib/utils";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface LeaderboardTableProps {
+  endpoint: "/api/school/leaderboard" | "/api/student/leaderboard";
+  fundraisers: Pick<Fundraiser, "id" | "name">[];
+  action?: React.ReactNode;
+}
+
+// Fundraiser choice for the whole school
+const SCHOOL_WIDE = "all";
+
+export default function LeaderboardTable({ endpoint, fundraisers, action }: LeaderboardTableProps) {
+  const [fundraiserId, setFundraiserId] = useState(SCHOOL_WIDE);
+  const url = fundraiserId === SCHOOL_WIDE ? endpoint : `${endpoint}?fundraiserId=${fundraiserId}`;
+
+  const { data, isLoading } = useQuery<{ entries: LeaderboardEntry[] }>({
+    queryKey: [url],
+  });
+  const entries = data?.entries || [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center">
+          <Trophy className="h-5 w-5 mr-2 text-primary" />
+          Leaderboard
+        </CardTitle>
+        <div className="flex items-center space-x-4">
+          {action}
+          <Select value={fundraiserId} onValueChange={setFundraiserId}>
+            <SelectTrigger className="w-[220px]" aria-label="Fundraiser">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SCHOOL_WIDE}>All fundraisers</SelectItem>
+              {fundraisers.map((fundraiser) => (
+                <SelectItem key={fundraiser.id} value={fundraiser.id.toString()}>
+                  {fundraiser.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No sales yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rank
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Student
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tickets
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Raised
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map((entry, index) => (
+                <tr key={entry.studentId ?? `anonymous-${index}`} className={cn(entry.isCurrentStudent && "bg-primary/5 font-medium")}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">#{entry.rank}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {entry.displayName ?? "Anonymous"}
+                    {entry.isCurrentStudent && " (you)"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.ticketsSold}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(entry.amountRaised / 100)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -33,12 +34,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { StudentGroup, StudentGroupField, StudentGroupKind, UserRole } from "@shared/schema";
+import StudentGroupSelect, { GROUP_KIND_LABELS } from "@/components/student-group-select";
 
 const massNotificationFormSchema = z.object({
   title: z.string().min(2, "Title is required"),
   message: z.string().min(5, "Message is required"),
   type: z.string().default("info"),
   schoolId: z.number(),
+  // Only notify the students in these, any when they're left empty
+  grade: z.string().nullable(),
+  className: z.string().nullable(),
+  house: z.string().nullable(),
 });
 
 type MassNotificationFormValues = z.infer<typeof massNotificationFormSchema>;
@@ -59,6 +66,8 @@ export default function MassNotificationForm({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const isVerified = !!user?.emailVerifiedAt;
 
   // Fetch students for the school to get count
   const { data: students, isLoading } = useQuery<any[]>({
@@ -66,6 +75,12 @@ export default function MassNotificationForm({
     enabled: open, // Only fetch when dialog is open
   });
 
+  // Schools can narrow the notification down to a grade, class or house
+  const { data: groups = [] } = useQuery<StudentGroup[]>({
+    queryKey: ["/api/school/student-groups"],
+    enabled: open && user?.role === UserRole.SCHOOL,
+  });
+
   const form = useForm<MassNotificationFormValues>({
     resolver: zodResolver(massNotificationFormSchema),
     defaultValues: {
@@ -73,9 +88,20 @@ export default function MassNotificationForm({
       message: "",
       type: "info",
       schoolId: schoolId,
+      grade: null,
+      className: null,
+      house: null,
     },
   });
 
+  const target = form.watch();
+  const recipients = students?.filter(student =>
+    Object.values(StudentGroupKind).every(kind => {
+      const name = target[StudentGroupField[kind]];
+      return !name || student[StudentGroupField[kind]] === name;
+    })
+  );
+
   const sendMassNotificationMutation = useMutation({
     mutationFn: async (values: MassNotificationFormValues) => {
       const res = await apiRequest("POST", "/api/notifications/mass", values);
@@ -124,9 +150,37 @@ export default function MassNotificationForm({
         ) : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {students && (
+              {!isVerified && (
+                <div className="text-sm text-destructive mb-2">
+                  Verify your email address before notifying all students. Use the link we emailed you.
+                </div>
+              )}
+              {recipients && (
                 <div className="text-sm text-muted-foreground mb-2">
-                  This will send a notification to <strong>{students.length}</strong> students.
+                  This will send a notification to <strong>{recipients.length}</strong> students.
+                </div>
+              )}
+              {groups.length > 0 && (
+                <div className="grid grid-cols-3 gap-2">
+                  {Object.values(StudentGroupKind).map(kind => (
+                    <FormField
+                      key={kind}
+                      control={form.control}
+                      name={StudentGroupField[kind]}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{GROUP_KIND_LABELS[kind]}</FormLabel>
+                          <StudentGroupSelect
+                            kind={kind}
+                            groups={groups}
+                            value={field.value}
+                            onChange={field.onChange}
+                            emptyLabel="Any"
+                          />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
                 </div>
               )}
               <FormField
@@ -188,9 +242,13 @@ export default function MassNotificationForm({
               <DialogFooter>
                 <Button 
                   type="submit" 
-                  disabled={sendMassNotificationMutation.isPending}
+                  disabled={!isVerified || recipients?.length === 0 || sendMassNotificationMutation.isPending}
                 >
-                  {sendMassNotificationMutation.isPending ? "Sending..." : "Send to All Students"}
+                  {sendMassNotificationMutation.isPending
+                    ? "Sending..."
+                    : recipients && recipients.length !== students?.length
+                      ? `Send to ${recipients.length} Students`
+                      : "Send to All Students"}
                 </Button>
               </DialogFooter>
             </form>
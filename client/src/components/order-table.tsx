@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Eye, Loader2, Search, X } from "lucide-react";
+import { OrderItem, OrderWithItems } from "@shared/schema";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+interface OrderTableProps {
+  // Schools only see their own lines of an order, admins see every line
+  scope: "school" | "admin";
+  // Paid orders, or checkouts that were started but never paid for
+  view?: "paid" | "abandoned";
+}
+
+interface PendingRefund {
+  url: string;
+  label: string;
+  amount: number; // in cents
+}
+
+// Totals are summed from the visible lines, which for a school may be part of the order
+function visibleTotal(order: OrderWithItems): number {
+  return order.items.reduce((sum, item) => sum + item.amount, 0);
+}
+
+function refundableAmount(item: OrderItem): number {
+  if (item.paymentStatus !== "completed" && item.paymentStatus !== "partially_refunded") {
+    return 0;
+  }
+  return item.amount - item.refundedAmount;
+}
+
+function statusLabel(status: string): string {
+  return status.replace(/_/g, " ");
+}
+
+function ordersUrl(scope: OrderTableProps["scope"], view: OrderTableProps["view"]): string {
+  if (scope === "admin") {
+    return "/api/admin/orders";
+  }
+  return view === "abandoned" ? "/api/school/abandoned-checkouts" : "/api/school/orders";
+}
+
+function statusVariant(status: string): "default" | "secondary" | "destructive" {
+  if (status === "completed") {
+    return "default";
+  }
+  return status === "failed" ? "destructive" : "secondary";
+}
+
+export default function OrderTable({ scope, view = "paid" }: OrderTableProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+  const [pendingRefund, setPendingRefund] = useState<PendingRefund | null>(null);
+  const [refundReason, setRefundReason] = useState("");
+
+  const queryKey = [ordersUrl(scope, view)];
+  const { data: orders, isLoading } = useQuery<OrderWithItems[]>({
+    queryKey,
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async ({ url, reason }: { url: string; reason: string }) => {
+      const res = await apiRequest("POST", url, { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Refund issued",
+        description: "The buyer has been refunded and their tickets voided",
+      });
+      setPendingRefund(null);
+      setRefundReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Refund failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredOrders = (orders || []).filter((order) =>
+    !query ||
+    order.orderNumber.toLowerCase().includes(query) ||
+    order.customerName.toLowerCase().includes(query) ||
+    order.customerEmail.toLowerCase().includes(query)
+  );
+  const selectedOrder = orders?.find((order) => order.id === selectedOrderId) || null;
+  const orderRefundable = selectedOrder
+    ? selectedOrder.items.reduce((sum, item) => sum + refundableAmount(item), 0)
+    : 0;
+
+  return (
+    <div>
+      {/* Search box */}
+      <div className="relative mb-4">
+        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+          <Search className="h-4 w-4 text-gray-400" />
+        </div>
+        <Input
+          type="text"
+          placeholder="Search by order number, buyer name or email..."
+          className="pl-10 pr-10"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+        {searchQuery && (
+          <button
+            className="absolute inset-y-0 right-0 flex items-center pr-3"
+            onClick={() => setSearchQuery("")}
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4 text-gray-400" />
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredOrders.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Order
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Buyer
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tickets
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredOrders.map((order) => (
+                <tr key={order.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-mono font-medium text-gray-900">{order.orderNumber}</div>
+                    <div className="text-xs text-gray-500 capitalize">{order.provider}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{order.customerName}</div>
+                    <div className="text-sm text-gray-500">{order.customerEmail}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {format(new Date(order.createdAt), "MMM dd, yyyy HH:mm")}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {order.items.reduce((sum, item) => sum + item.quantity, 0)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(visibleTotal(order) / 100)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant={statusVariant(order.status)} className="capitalize">
+                      {statusLabel(order.status)}
+                    </Badge>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-primary hover:text-indigo-800 p-0 h-auto"
+                      onClick={() => setSelectedOrderId(order.id)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center">
+            <p className="text-gray-500">
+              {searchQuery
+                ? "No orders match your search"
+                : view === "abandoned" ? "No abandoned checkouts" : "No orders yet"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrderId(null)}>
+        <DialogContent>
+          {selectedOrder && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono">{selectedOrder.orderNumber}</DialogTitle>
+                <DialogDescription>
+                  {selectedOrder.customerName} · {selectedOrder.customerEmail}
+                  {selectedOrder.customerPhone ? ` · ${selectedOrder.customerPhone}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                {selectedOrder.items.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {item.fundraiserName}{item.ticketTypeName && ` (${item.ticketTypeName})`} × {item.quantity}
+                      {item.paymentStatus !== "completed" && (
+                        <Badge variant="secondary" className="ml-2 capitalize">{statusLabel(item.paymentStatus)}</Badge>
+                      )}
+                      {item.flaggedForReview && (
+                        <Badge variant="destructive" className="ml-2">Review</Badge>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {formatCurrency(item.amount / 100)}
+                      {refundableAmount(item) > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingRefund({
+                            url: `/api/ticket-purchases/${item.id}/refund`,
+                            label: `${item.fundraiserName} × ${item.quantity}`,
+                            amount: refundableAmount(item),
+                          })}
+                        >
+                          Refund
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-2 font-semibold">
+                  <span>Total</span>
+                  <span>{formatCurrency(visibleTotal(selectedOrder) / 100)}</span>
+                </div>
+                {selectedOrder.refundedAmount > 0 && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Refunded</span>
+                    <span>{formatCurrency(selectedOrder.refundedAmount / 100)}</span>
+                  </div>
+                )}
+                {visibleTotal(selectedOrder) !== selectedOrder.totalAmount && (
+                  <p className="text-xs text-muted-foreground">
+                    This order also includes tickets for other schools, order total {formatCurrency(selectedOrder.totalAmount / 100)}
+                  </p>
+                )}
+              </div>
+
+              <div className="text-sm text-muted-foreground space-y-1">
+                <p>Payment via <span className="capitalize">{selectedOrder.provider}</span>, reference <span className="font-mono break-all">{selectedOrder.paymentReference}</span></p>
+                <p>Placed {format(new Date(selectedOrder.createdAt), "PPP 'at' HH:mm")}</p>
+                {/* Every line of a flagged cart carries the same reason, show it once */}
+                {Array.from(new Set(selectedOrder.items.map((item) => item.reviewReason).filter(Boolean))).map((reason) => (
+                  <p key={reason} className="text-red-700">{reason}</p>
+                ))}
+              </div>
+
+              {orderRefundable > 0 && (
+                <Button
+                  variant="destructive"
+                  onClick={() => setPendingRefund({
+                    url: `/api/orders/${selectedOrder.id}/refund`,
+                    label: `order ${selectedOrder.orderNumber}`,
+                    amount: orderRefundable,
+                  })}
+                >
+                  Refund Order
+                </Button>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRefund} onOpenChange={(open) => !open && setPendingRefund(null)}>
+        <AlertDialogContent>
+          {pendingRefund && (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Refund {formatCurrency(pendingRefund.amount / 100)}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This refunds {pendingRefund.label} through the original payment method
+                  and voids its unused tickets. Cash refunds are only recorded, hand the
+                  money back to the buyer yourself.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Textarea
+                placeholder="Reason for the refund (optional)"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={refundMutation.isPending}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  disabled={refundMutation.isPending}
+                  onClick={(e) => {
+                    // Keep the dialog open until the refund has gone through
+                    e.preventDefault();
+                    refundMutation.mutate({ url: pendingRefund.url, reason: refundReason });
+                  }}
+                >
+                  {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Refund
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
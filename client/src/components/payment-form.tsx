@@ -9,11 +9,13 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useAuth } from "@/hooks/use-auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { apiRequest } from "@/lib/queryClient";
+import { useCart, clearCart, checkoutItems } from "@/lib/cart";
+import { paymentSuccessPath } from "@/lib/utils";
 import PaystackCheckout from "@/components/paystack-checkout";
 
 interface PaymentFormProps {
   fundraiserId: number;
-  onSuccess?: () => void;
+  onSuccess?: (reference: string) => void;
   onError?: (error: Error) => void;
 }
 
@@ -27,6 +29,11 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<"idle" | "processing" | "success" | "error">("idle");
   const [paymentError, setPaymentError] = useState<string>("");
+  const { data: cart } = useCart();
+  
+  // Buyer email, used to look up the issued tickets after payment
+  const storedCustomerInfo = sessionStorage.getItem("cart_customer_info");
+  const customerEmail: string = (storedCustomerInfo && JSON.parse(storedCustomerInfo).email) || user?.email || "";
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,8 +59,9 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
       const result = await stripe.confirmPayment({
         elements,
         confirmParams: {
-          // Make sure to include the fundraiser ID in the redirect URL
-          return_url: `${window.location.origin}/payment-success?fundraiser=${fundraiserId}`,
+          // Make sure to include the fundraiser ID and buyer email in the redirect URL;
+          // Stripe appends the payment_intent reference itself
+          return_url: `${window.location.origin}/payment-success?fundraiser=${fundraiserId}&email=${encodeURIComponent(customerEmail)}`,
         },
         redirect: "if_required",
       });
@@ -85,13 +93,15 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
           description: "Your ticket purchase was successful!",
         });
         
+        const reference = result.paymentIntent.id;
+        
         // Call onSuccess callback if provided
         if (onSuccess) {
-          onSuccess();
+          onSuccess(reference);
         } else {
           // Redirect after a short delay if no callback provided
           setTimeout(() => {
-            navigate(`/payment-success?fundraiser=${fundraiserId}`);
+            navigate(paymentSuccessPath(reference, customerEmail, fundraiserId));
           }, 2000);
         }
       } else if (result.paymentIntent) {
@@ -179,12 +189,14 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
   const [processingCash, setProcessingCash] = useState(false);
   const [paystackProcessing, setPaystackProcessing] = useState(false);
   
+  // Only students and school admins take cash, everyone else pays online
+  const canRecordCash = user?.role === "student" || user?.role === "school";
+  
   const handleCashPayment = async () => {
     setProcessingCash(true);
     setPaymentError("");
     try {
-      // Get cart info from session storage (for cart payments)
-      const cartItemsStr = sessionStorage.getItem("cart_items");
+      // Get the buyer's details from session storage
       const customerInfoStr = sessionStorage.getItem("cart_customer_info");
       
       let endpoint, requestData;
@@ -198,15 +210,17 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
         endpoint = "/api/cash-payment";
         requestData = {
           fundraiserId,
+          ticketTypeId: Number(sessionStorage.getItem("ticket_type_id")) || undefined,
           quantity,
           customerInfo: customerInfo || {
             name: user?.username || "Guest",
             email: user?.email || "guest@example.com"
-          }
+          },
+          promoCode: sessionStorage.getItem("promo_code") || undefined
         };
       } else {
         // Cart checkout
-        const cartItems = cartItemsStr ? JSON.parse(cartItemsStr) : [];
+        const cartItems = checkoutItems(cart);
         const customerInfo = customerInfoStr ? JSON.parse(customerInfoStr) : null;
         
         endpoint = "/api/cart/cash-payment";
@@ -215,7 +229,8 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
           customerInfo: customerInfo || {
             name: user?.username || "Guest",
             email: user?.email || "guest@example.com"
-          }
+          },
+          promoCode: sessionStorage.getItem("promo_code") || undefined
         };
       }
       
@@ -228,33 +243,33 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
       }
       
       const result = await response.json();
+      const reference: string = fundraiserId > 0
+        ? result.ticketPurchase.paymentIntentId
+        : result.paymentReference;
       
       // Success handling
       setPaymentStatus("success");
       
       // Clear session storage
       if (fundraiserId === 0) { // For cart payments
-        localStorage.removeItem("fundraiser-cart");
+        clearCart().catch((error) => console.error("Error clearing cart:", error));
         sessionStorage.removeItem("cart_payment_client_secret");
         sessionStorage.removeItem("cart_payment_amount");
         sessionStorage.removeItem("cart_customer_info");
-        sessionStorage.removeItem("cart_items");
       }
       
       toast({
         title: "Cash Payment Recorded",
-        description: "Your order has been processed as a cash payment.",
+        description: result.message || "Your order has been processed as a cash payment.",
       });
       
       // Call onSuccess callback if provided
       if (onSuccess) {
-        onSuccess();
+        onSuccess(reference);
       } else {
         // Redirect after a short delay if no callback provided
         setTimeout(() => {
-          navigate(fundraiserId > 0 
-            ? `/payment-success?fundraiser=${fundraiserId}` 
-            : "/payment-success");
+          navigate(paymentSuccessPath(reference, customerEmail, fundraiserId));
         }, 2000);
       }
     } catch (err: any) {
@@ -289,10 +304,10 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
       )}
       
       <Tabs defaultValue="stripe" onValueChange={(v) => setPaymentMethod(v as "stripe" | "paystack" | "cash")} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${canRecordCash ? "grid-cols-3" : "grid-cols-2"}`}>
           <TabsTrigger value="stripe">Stripe</TabsTrigger>
           <TabsTrigger value="paystack">Paystack</TabsTrigger>
-          <TabsTrigger value="cash">Cash</TabsTrigger>
+          {canRecordCash && <TabsTrigger value="cash">Cash</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="stripe">
@@ -336,6 +351,7 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
                   reference={`fundraiser-${fundraiserId}-${Date.now()}`}
                   metadata={{
                     fundraiserId,
+                    ticketTypeId: Number(sessionStorage.getItem("ticket_type_id")) || undefined,
                     quantity: Number(sessionStorage.getItem("ticket_quantity") || "1"),
                     customerInfo: sessionStorage.getItem("cart_customer_info")
                       ? JSON.parse(sessionStorage.getItem("cart_customer_info") || "{}")
@@ -352,10 +368,10 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
                     });
                     
                     if (onSuccess) {
-                      onSuccess();
+                      onSuccess(reference);
                     } else {
                       setTimeout(() => {
-                        navigate(`/payment-success?fundraiser=${fundraiserId}&reference=${reference}`);
+                        navigate(paymentSuccessPath(reference, customerEmail, fundraiserId));
                       }, 2000);
                     }
                   }}
@@ -386,9 +402,7 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
                   reference={`cart-${Date.now()}`}
                   metadata={{
                     isCart: true,
-                    items: sessionStorage.getItem("cart_items") 
-                      ? JSON.parse(sessionStorage.getItem("cart_items") || "[]") 
-                      : [],
+                    items: checkoutItems(cart),
                     customerInfo: sessionStorage.getItem("cart_customer_info")
                       ? JSON.parse(sessionStorage.getItem("cart_customer_info") || "{}")
                       : {
@@ -400,11 +414,10 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
                     setPaymentStatus("success");
                     
                     // Clear cart data
-                    localStorage.removeItem("fundraiser-cart");
+                    clearCart().catch((error) => console.error("Error clearing cart:", error));
                     sessionStorage.removeItem("cart_payment_client_secret");
                     sessionStorage.removeItem("cart_payment_amount");
                     sessionStorage.removeItem("cart_customer_info");
-                    sessionStorage.removeItem("cart_items");
                     
                     toast({
                       title: "Payment Successful",
@@ -412,10 +425,10 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
                     });
                     
                     if (onSuccess) {
-                      onSuccess();
+                      onSuccess(reference);
                     } else {
                       setTimeout(() => {
-                        navigate(`/payment-success?reference=${reference}`);
+                        navigate(paymentSuccessPath(reference, customerEmail));
                       }, 2000);
                     }
                   }}
@@ -466,6 +479,7 @@ export default function PaymentForm({ fundraiserId, onSuccess, onError }: Paymen
             
             <p className="text-sm text-muted-foreground text-center">
               Cash payments are tracked internally and linked to the student who recorded the sale.
+              Cash taken by a student counts once the school confirms it was handed in.
             </p>
           </div>
         </TabsContent>
@@ -112,7 +112,7 @@ export default function PaystackCheckout({
     };
   }, [toast]);
   
-  const handlePayment = () => {
+  const handlePayment = async () => {
     console.log("Paystack initialization starting...");
     console.log("Paystack script loaded:", paystackLoaded);
     console.log("PaystackPop available:", typeof window.PaystackPop !== 'undefined');
@@ -149,21 +149,47 @@ export default function PaystackCheckout({
     
     setIsLoading(true);
     
-    // Log the payment details for debugging
-    console.log("Initializing Paystack payment with:", {
-      key: import.meta.env.VITE_PAYSTACK_PUBLIC_KEY ? "Available (masked)" : "Missing",
-      email,
-      amount: amount * 100, // convert to kobo (smallest currency unit)
-      ref: reference || 'auto-generated',
-      metadata: JSON.stringify(metadata || {})
-    });
-    
     try {
+      // Start the checkout on the server, which prices it and tracks it until it's paid
+      const customerInfo = metadata?.customerInfo || { name: email, email };
+      const items = metadata?.isCart
+        ? metadata.items
+        : [{
+            fundraiserId: metadata?.fundraiserId,
+            ticketTypeId: metadata?.ticketTypeId,
+            quantity: metadata?.quantity,
+            referralCode: metadata?.referralCode
+          }];
+      const checkoutResponse = metadata?.isDonation
+        ? await apiRequest('POST', '/api/donations/paystack/initialize', {
+            fundraiserId: metadata.fundraiserId,
+            amount: metadata.amount,
+            customerInfo,
+            message: metadata.message,
+            isAnonymous: metadata.isAnonymous,
+            referralCode: metadata.referralCode
+          })
+        : await apiRequest('POST', '/api/paystack/initialize', {
+            items,
+            customerInfo,
+            promoCode: sessionStorage.getItem("promo_code") || undefined
+          });
+      const checkout: { reference: string; amount: number } = await checkoutResponse.json();
+      
+      // Log the payment details for debugging
+      console.log("Initializing Paystack payment with:", {
+        key: import.meta.env.VITE_PAYSTACK_PUBLIC_KEY ? "Available (masked)" : "Missing",
+        email,
+        amount: checkout.amount,
+        ref: checkout.reference,
+        metadata: JSON.stringify(metadata || {})
+      });
+      
       const paystackOptions = {
         key: import.meta.env.VITE_PAYSTACK_PUBLIC_KEY,
         email,
-        amount: amount * 100, // convert to kobo (smallest currency unit)
-        ref: reference || '',
+        amount: checkout.amount, // already in kobo (smallest currency unit)
+        ref: checkout.reference,
         metadata: metadata || {},
         onClose: () => {
           console.log("Paystack payment modal closed by user");
@@ -173,11 +199,13 @@ export default function PaystackCheckout({
         callback: async (response: { reference: string }) => {
           console.log("Paystack callback received:", response);
           try {
-            // Check if this is a cart payment by looking at metadata
+            // Check if this is a cart payment or a donation by looking at metadata
             const isCartPayment = metadata && metadata.isCart;
-            const endpoint = isCartPayment 
-              ? '/api/paystack/verify-cart' 
-              : '/api/paystack/verify';
+            const endpoint = metadata?.isDonation
+              ? '/api/donations/paystack/verify'
+              : isCartPayment 
+                ? '/api/paystack/verify-cart' 
+                : '/api/paystack/verify';
             
             console.log(`Verifying payment using endpoint: ${endpoint}`);
             
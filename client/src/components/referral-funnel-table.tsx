@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Fundraiser, ReferralFunnel } from "@shared/schema";
+import { Loader2, Share2Icon } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ReferralFunnelTableProps {
+  endpoint: "/api/school/referral-funnels" | "/api/student/referral-funnels";
+  fundraisers?: Pick<Fundraiser, "id" | "name">[]; // Lets the school pick one fundraiser
+}
+
+const ALL_FUNDRAISERS = "all";
+
+// Share of visits that ended in a purchase
+function conversion(funnel: ReferralFunnel): string {
+  return funnel.visits > 0 ? `${Math.round((funnel.purchases / funnel.visits) * 100)}%` : "-";
+}
+
+export default function ReferralFunnelTable({ endpoint, fundraisers }: ReferralFunnelTableProps) {
+  const [fundraiserId, setFundraiserId] = useState(ALL_FUNDRAISERS);
+  const url = fundraiserId === ALL_FUNDRAISERS ? endpoint : `${endpoint}?fundraiserId=${fundraiserId}`;
+  const showStudent = endpoint === "/api/school/referral-funnels";
+
+  const { data: funnels, isLoading } = useQuery<ReferralFunnel[]>({
+    queryKey: [url],
+  });
+
+  const headers = [
+    ...(fundraiserId === ALL_FUNDRAISERS ? ["Fundraiser"] : []),
+    ...(showStudent ? ["Student"] : []),
+    "Visits",
+    "Carts",
+    "Purchases",
+    "Conversion",
+  ];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="text-lg font-medium flex items-center">
+          <Share2Icon className="h-5 w-5 mr-2 text-primary" />
+          Referral Links
+        </CardTitle>
+        {fundraisers && (
+          <Select value={fundraiserId} onValueChange={setFundraiserId}>
+            <SelectTrigger className="w-[220px]" aria-label="Fundraiser">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FUNDRAISERS}>All fundraisers</SelectItem>
+              {fundraisers.map((fundraiser) => (
+                <SelectItem key={fundraiser.id} value={fundraiser.id.toString()}>
+                  {fundraiser.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !funnels?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No referral links shared yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {headers.map((header) => (
+                  <th
+                    key={header}
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {funnels.map((funnel) => (
+                <tr key={`${funnel.fundraiserId}-${funnel.studentId}`}>
+                  {fundraiserId === ALL_FUNDRAISERS && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{funnel.fundraiserName}</td>
+                  )}
+                  {showStudent && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{funnel.username}</td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{funnel.visits}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{funnel.carts}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{funnel.purchases}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{conversion(funnel)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { StudentGroup, StudentGroupKindType } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const GROUP_KIND_LABELS: Record<StudentGroupKindType, string> = {
+  grade: "Grade",
+  class: "Class",
+  house: "House",
+};
+
+// Select items can't have an empty value, so this stands in for none
+const NO_GROUP = "__none__";
+
+interface StudentGroupSelectProps {
+  kind: StudentGroupKindType;
+  groups: StudentGroup[];
+  value: string | null;
+  onChange: (value: string | null) => void;
+  emptyLabel: string;
+  className?: string;
+}
+
+// Pick one of the school's grades, classes or houses, or none of them
+export default function StudentGroupSelect({
+  kind,
+  groups,
+  value,
+  onChange,
+  emptyLabel,
+  className,
+}: StudentGroupSelectProps) {
+  return (
+    <Select
+      value={value ?? NO_GROUP}
+      onValueChange={(selected) => onChange(selected === NO_GROUP ? null : selected)}
+    >
+      <SelectTrigger className={className} aria-label={GROUP_KIND_LABELS[kind]}>
+        <SelectValue placeholder={emptyLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GROUP}>{emptyLabel}</SelectItem>
+        {groups
+          .filter((group) => group.kind === kind)
+          .map((group) => (
+            <SelectItem key={group.id} value={group.name}>
+              {group.name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
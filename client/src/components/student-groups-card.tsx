@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, X } from "lucide-react";
+import { StudentGroup, StudentGroupKind, StudentGroupKindType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { GROUP_KIND_LABELS } from "@/components/student-group-select";
+
+const EMPTY_NAMES: Record<StudentGroupKindType, string> = {
+  grade: "",
+  class: "",
+  house: "",
+};
+
+// The school's lists of grades, classes and houses to put students in
+export default function StudentGroupsCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newNames, setNewNames] = useState(EMPTY_NAMES);
+
+  const { data: groups, isLoading } = useQuery<StudentGroup[]>({
+    queryKey: ["/api/school/student-groups"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async ({ kind, name }: { kind: StudentGroupKindType; name: string }) => {
+      const res = await apiRequest("POST", "/api/school/student-groups", { kind, name });
+      return (await res.json()) as StudentGroup;
+    },
+    onSuccess: (group) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school/student-groups"] });
+      setNewNames({ ...newNames, [group.kind]: "" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/school/student-groups/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school/student-groups"] });
+      // Students in a removed group no longer have one of that kind
+      queryClient.invalidateQueries({ queryKey: ["/api/school/students"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Grades, Classes and Houses</CardTitle>
+        <CardDescription>
+          The options for grouping your students. Removing one takes its students out of it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {Object.values(StudentGroupKind).map((kind) => (
+              <div key={kind} className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-900">{GROUP_KIND_LABELS[kind]}</h3>
+                <div className="flex flex-wrap gap-2 min-h-6">
+                  {groups
+                    ?.filter((group) => group.kind === kind)
+                    .map((group) => (
+                      <Badge key={group.id} variant="secondary" className="gap-1">
+                        {group.name}
+                        <button
+                          onClick={() => removeMutation.mutate(group.id)}
+                          disabled={removeMutation.isPending}
+                          aria-label={`Remove ${group.name}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                </div>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addMutation.mutate({ kind, name: newNames[kind] });
+                  }}
+                >
+                  <Input
+                    placeholder={`Add a ${GROUP_KIND_LABELS[kind].toLowerCase()}`}
+                    value={newNames[kind]}
+                    onChange={(e) => setNewNames({ ...newNames, [kind]: e.target.value })}
+                  />
+                  <Button
+                    type="submit"
+                    size="icon"
+                    variant="outline"
+                    disabled={!newNames[kind].trim() || addMutation.isPending}
+                    aria-label={`Add ${GROUP_KIND_LABELS[kind].toLowerCase()}`}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Users } from "lucide-react";
+import { StudentGroup, StudentGroupField, StudentGroupKind, StudentGroupKindType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import StudentGroupSelect, { GROUP_KIND_LABELS } from "@/components/student-group-select";
+
+type GroupNames = Record<StudentGroupKindType, string | null>;
+
+interface StudentGroupsDialogProps {
+  student: { id: number; grade: string | null; className: string | null; house: string | null };
+  studentName: string;
+  groups: StudentGroup[];
+}
+
+// Put one student in a grade, class and house from the school's lists
+export default function StudentGroupsDialog({ student, studentName, groups }: StudentGroupsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [names, setNames] = useState<GroupNames>({
+    grade: student.grade,
+    class: student.className,
+    house: student.house,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (names: GroupNames) => {
+      const res = await apiRequest("PATCH", `/api/school/students/${student.id}/groups`, {
+        [StudentGroupField.grade]: names.grade,
+        [StudentGroupField.class]: names.class,
+        [StudentGroupField.house]: names.house,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school/students"] });
+      toast({
+        title: "Student updated",
+        description: `${studentName}'s grade, class and house were saved`,
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    // Start from what's saved each time
+    if (isOpen) {
+      setNames({ grade: student.grade, class: student.className, house: student.house });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="p-0 h-auto" aria-label="Grade, class and house">
+          <Users className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{studentName}</DialogTitle>
+          <DialogDescription>
+            Choose from your school's grades, classes and houses
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {Object.values(StudentGroupKind).map((kind) => (
+            <div key={kind} className="space-y-2">
+              <Label>{GROUP_KIND_LABELS[kind]}</Label>
+              <StudentGroupSelect
+                kind={kind}
+                groups={groups}
+                value={names[kind]}
+                onChange={(name) => setNames({ ...names, [kind]: name })}
+                emptyLabel="None"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate(names)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
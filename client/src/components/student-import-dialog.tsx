@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, Loader2, Upload } from "lucide-react";
+import { StudentImportPreview } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+// Post the file as a multipart upload, apiRequest only sends JSON
+async function uploadCsv<T>(url: string, file: File, failure: string): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const res = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.message || failure);
+  }
+  return data as T;
+}
+
+// Upload a CSV of students, check it and then create every student in it at once
+export default function StudentImportDialog() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<StudentImportPreview | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (file: File) =>
+      uploadCsv<StudentImportPreview>("/api/school/students/import/preview", file, "Failed to read the file"),
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) =>
+      uploadCsv<{ imported: number }>("/api/school/students/import", file, "Failed to import students"),
+    onSuccess: ({ imported }) => {
+      toast({
+        title: "Students imported",
+        description: `${imported} students were added and emailed a link to activate their accounts`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/school/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/info"] });
+      // The file's grades and classes are added to the school's lists
+      queryClient.invalidateQueries({ queryKey: ["/api/school/student-groups"] });
+      setOpen(false);
+    },
+    onError,
+  });
+
+  const onOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setFile(null);
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import Students
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Students</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with name, email, grade and class columns, and optionally guardian email.
+            Nothing is created until the file has no errors
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+            }}
+          />
+          <Button
+            variant="outline"
+            disabled={!file || previewMutation.isPending}
+            onClick={() => file && previewMutation.mutate(file)}
+          >
+            {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Check File
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            {preview.errorCount > 0 ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                <span>
+                  {preview.errorCount} of {preview.rows.length} rows have errors. Fix them in the file and check it again
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="h-4 w-4" />
+                <span>All {preview.rows.length} students are ready to import</span>
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Line</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Grade</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Class</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Guardian</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {preview.rows.map((row) => (
+                    <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-900">{row.name}</div>
+                        {row.errors.map((error) => (
+                          <div key={error} className="text-xs text-destructive">{error}</div>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">{row.email}</td>
+                      <td className="px-3 py-2 text-gray-900">{row.grade}</td>
+                      <td className="px-3 py-2 text-gray-900">{row.className}</td>
+                      <td className="px-3 py-2 text-gray-500">{row.guardianEmail || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            disabled={!file || !preview || preview.errorCount > 0 || importMutation.isPending}
+            onClick={() => file && importMutation.mutate(file)}
+          >
+            {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {preview && preview.errorCount === 0 ? `${preview.rows.length} Students` : "Students"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
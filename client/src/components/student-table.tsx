@@ -7,6 +7,9 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Link } from "wouter";
 import CreateNotificationForm from "@/components/create-notification-form";
+import StudentGroupSelect, { GROUP_KIND_LABELS } from "@/components/student-group-select";
+import StudentGroupsDialog from "@/components/student-groups-dialog";
+import { StudentGroup, StudentGroupField, StudentGroupKind, StudentGroupKindType } from "@shared/schema";
 
 interface StudentTableProps {
   limit?: number;
@@ -25,6 +28,11 @@ export default function StudentTable({
 }: StudentTableProps) {
   const [searchQuery, setSearchQuery] = useState(externalSearchQuery || "");
   const [filteredStudents, setFilteredStudents] = useState<any[]>([]);
+  const [groupFilter, setGroupFilter] = useState<Record<StudentGroupKindType, string | null>>({
+    grade: null,
+    class: null,
+    house: null,
+  });
   
   // If schoolId is provided, fetch only students from that school
   const queryKey = schoolId 
@@ -36,22 +44,27 @@ export default function StudentTable({
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
-  // Filter students based on search query
+  // A school's own grades, classes and houses to filter and group by
+  const { data: groups = [] } = useQuery<StudentGroup[]>({
+    queryKey: ["/api/school/student-groups"],
+    enabled: !!schoolId,
+  });
+
+  // Filter students based on search query and the chosen grade, class and house
   useEffect(() => {
     if (!students) return;
     
-    if (!searchQuery) {
-      setFilteredStudents(students);
-      return;
-    }
-    
     const query = searchQuery.toLowerCase();
     const filtered = students.filter(student => 
-      student.user.username.toLowerCase().includes(query) || 
-      student.user.email.toLowerCase().includes(query)
+      (!query ||
+        student.user.username.toLowerCase().includes(query) || 
+        student.user.email.toLowerCase().includes(query)) &&
+      Object.values(StudentGroupKind).every(kind =>
+        !groupFilter[kind] || student[StudentGroupField[kind]] === groupFilter[kind]
+      )
     );
     setFilteredStudents(filtered);
-  }, [students, searchQuery]);
+  }, [students, searchQuery, groupFilter]);
 
   // Update when external search query changes
   useEffect(() => {
@@ -113,6 +126,25 @@ export default function StudentTable({
           </button>
         )}
       </div>
+
+      {/* Grade, class and house filters, for the kinds the school has set up */}
+      {schoolId && groups.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {Object.values(StudentGroupKind)
+            .filter(kind => groups.some(group => group.kind === kind))
+            .map(kind => (
+              <StudentGroupSelect
+                key={kind}
+                kind={kind}
+                groups={groups}
+                value={groupFilter[kind]}
+                onChange={(name) => setGroupFilter({ ...groupFilter, [kind]: name })}
+                emptyLabel={`Any ${GROUP_KIND_LABELS[kind].toLowerCase()}`}
+                className="w-44"
+              />
+            ))}
+        </div>
+      )}
       
       <div className="bg-white rounded-lg shadow overflow-hidden">
         {displayedStudents && displayedStudents.length > 0 ? (
@@ -130,6 +162,11 @@ export default function StudentTable({
                     School
                   </th>
                 )}
+                {schoolId && (
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Grade / Class / House
+                  </th>
+                )}
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Registered
                 </th>
@@ -161,6 +198,13 @@ export default function StudentTable({
                       <div className="text-sm text-gray-900">{student.school?.name}</div>
                     </td>
                   )}
+                  {schoolId && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {[student.grade, student.className, student.house].filter(Boolean).join(" / ") || "-"}
+                      </div>
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-500">
                       {format(new Date(student.createdAt), 'MMM dd, yyyy')}
@@ -177,6 +221,13 @@ export default function StudentTable({
                         <Mail className="h-4 w-4 text-gray-500 hover:text-gray-700" />
                       }
                     />
+                    {schoolId && (
+                      <StudentGroupsDialog
+                        student={student}
+                        studentName={student.user.username}
+                        groups={groups}
+                      />
+                    )}
                   </td>
                 </tr>
               ))}
@@ -185,7 +236,9 @@ export default function StudentTable({
         ) : (
           <div className="p-8 text-center">
             <p className="text-gray-500">
-              {searchQuery ? "No students match your search" : "No students found"}
+              {searchQuery || Object.values(groupFilter).some(Boolean)
+                ? "No students match your search"
+                : "No students found"}
             </p>
           </div>
         )}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { Html5Qrcode } from "html5-qrcode";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+interface TicketScannerProps {
+  onScan: (code: string) => void;
+}
+
+// Ignore the same code seen again within this window, the camera reads it many times a second
+const RESCAN_DELAY_MS = 3000;
+
+export default function TicketScanner({ onScan }: TicketScannerProps) {
+  const [cameraError, setCameraError] = useState<string>("");
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const scanner = new Html5Qrcode("ticket-scanner-region");
+    let started = false;
+    let unmounted = false;
+
+    scanner
+      .start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: 240 },
+        (decodedText) => {
+          const now = Date.now();
+          if (lastScan.current?.code === decodedText && now - lastScan.current.at < RESCAN_DELAY_MS) {
+            return;
+          }
+          lastScan.current = { code: decodedText, at: now };
+          onScanRef.current(decodedText);
+        },
+        () => {
+          // Frames without a readable QR code are expected, nothing to do
+        }
+      )
+      .then(() => {
+        started = true;
+        // The page may have been left while the camera was still starting
+        if (unmounted) {
+          scanner.stop().catch(() => {});
+        }
+      })
+      .catch((error: unknown) => {
+        console.error("Error starting camera:", error);
+        setCameraError("Could not access the camera. Check the browser permissions or type the code instead.");
+      });
+
+    return () => {
+      unmounted = true;
+      if (started) {
+        scanner.stop().catch((error: unknown) => {
+          console.error("Error stopping camera:", error);
+        });
+      }
+    };
+  }, []);
+
+  return (
+    <div className="space-y-3">
+      <div id="ticket-scanner-region" className="mx-auto w-full max-w-sm overflow-hidden rounded-lg bg-black" />
+      {cameraError && (
+        <Alert variant="destructive">
+          <AlertDescription>{cameraError}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { TicketTypeWithAvailability } from "@shared/schema";
+import { formatCurrency, isTicketTypeOnSale } from "@/lib/utils";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface TicketTypeSelectProps {
+  ticketTypes: TicketTypeWithAvailability[];
+  value: number | null;
+  onChange: (ticketTypeId: number) => void;
+  className?: string;
+}
+
+// Why a ticket type can't be bought right now, if it can't
+function unavailableReason(ticketType: TicketTypeWithAvailability): string | null {
+  if (ticketType.ticketsRemaining === 0) {
+    return "Sold out";
+  }
+  if (!isTicketTypeOnSale(ticketType)) {
+    return ticketType.salesStartAt && new Date(ticketType.salesStartAt) > new Date()
+      ? "Not on sale yet"
+      : "Sales closed";
+  }
+  return null;
+}
+
+// Preselect the first ticket type that can be bought
+export function defaultTicketTypeId(ticketTypes: TicketTypeWithAvailability[]): number | null {
+  const available = ticketTypes.find((ticketType) => unavailableReason(ticketType) === null);
+  return available ? available.id : null;
+}
+
+export default function TicketTypeSelect({ ticketTypes, value, onChange, className }: TicketTypeSelectProps) {
+  return (
+    <Select
+      value={value !== null ? value.toString() : undefined}
+      onValueChange={(selected) => onChange(parseInt(selected, 10))}
+    >
+      <SelectTrigger className={className} aria-label="Ticket type">
+        <SelectValue placeholder="Choose a ticket type" />
+      </SelectTrigger>
+      <SelectContent>
+        {ticketTypes.map((ticketType) => {
+          const reason = unavailableReason(ticketType);
+          return (
+            <SelectItem key={ticketType.id} value={ticketType.id.toString()} disabled={reason !== null}>
+              {ticketType.name} · {formatCurrency(ticketType.price / 100)}
+              {reason && ` (${reason})`}
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { Control, useFieldArray } from "react-hook-form";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { TicketType } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+// One row of the ticket types editor, prices are entered like the fundraiser's price
+export const ticketTypeFormSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().trim().min(1, "Name is required"),
+  price: z.string().refine(
+    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+    { message: "Must be a positive number" }
+  ),
+  capacity: z.string().optional().refine(
+    (val) => !val || (Number.isInteger(Number(val)) && Number(val) > 0),
+    { message: "Must be a whole number greater than 0" }
+  ),
+  salesStartAt: z.string().optional(),
+  salesEndAt: z.string().optional(),
+}).refine(
+  (val) => !val.salesStartAt || !val.salesEndAt || new Date(val.salesEndAt) > new Date(val.salesStartAt),
+  { message: "Sales must end after they start", path: ["salesEndAt"] }
+);
+
+export type TicketTypeFormValues = z.infer<typeof ticketTypeFormSchema>;
+
+// Fill the editor from a fundraiser's saved ticket types
+export function toTicketTypeFormValues(ticketTypes: TicketType[]): TicketTypeFormValues[] {
+  return ticketTypes.map((ticketType) => ({
+    id: ticketType.id,
+    name: ticketType.name,
+    price: (ticketType.price / 100).toFixed(2),
+    capacity: ticketType.capacity ? ticketType.capacity.toString() : "",
+    salesStartAt: ticketType.salesStartAt ? format(new Date(ticketType.salesStartAt), "yyyy-MM-dd'T'HH:mm") : "",
+    salesEndAt: ticketType.salesEndAt ? format(new Date(ticketType.salesEndAt), "yyyy-MM-dd'T'HH:mm") : "",
+  }));
+}
+
+// Ticket types as the API expects them, prices in cents and sale windows as ISO dates
+export function toTicketTypePayload(values: TicketTypeFormValues[]) {
+  return values.map((value) => ({
+    id: value.id ?? null,
+    name: value.name.trim(),
+    price: Math.round(parseFloat(value.price) * 100),
+    capacity: value.capacity ? parseInt(value.capacity, 10) : null,
+    salesStartAt: value.salesStartAt ? new Date(value.salesStartAt).toISOString() : null,
+    salesEndAt: value.salesEndAt ? new Date(value.salesEndAt).toISOString() : null,
+  }));
+}
+
+interface TicketTypesFieldProps {
+  control: Control<any>;
+}
+
+export default function TicketTypesField({ control }: TicketTypesFieldProps) {
+  const { fields, append, remove } = useFieldArray({ control, name: "ticketTypes" });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Ticket Types</p>
+          <p className="text-xs text-muted-foreground">
+            Optional, e.g. Adult, Child, Family or VIP. Without them every ticket sells at the price above
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: "", price: "", capacity: "", salesStartAt: "", salesEndAt: "" })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-start gap-2">
+            <FormField
+              control={control}
+              name={`ticketTypes.${index}.name`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Adult" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-8"
+              onClick={() => remove(index)}
+              aria-label="Remove ticket type"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={control}
+              name={`ticketTypes.${index}.price`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price ($)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0.01" step="0.01" placeholder="10.00" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`ticketTypes.${index}.capacity`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Capacity</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" step="1" placeholder="Unlimited" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`ticketTypes.${index}.salesStartAt`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sales Start</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`ticketTypes.${index}.salesEndAt`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sales End</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface VerifyEmailBannerProps {
+  email: string;
+}
+
+// Reminds a user who hasn't followed their verification link yet, with a way to get a new one
+export default function VerifyEmailBanner({ email }: VerifyEmailBannerProps) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email/resend");
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Verification email sent",
+        description: data.message,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to send the verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Alert className="mb-6">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Verify your email address</AlertTitle>
+      <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <span>
+          Follow the link we sent to {email} to confirm it's yours. Some features stay locked until you do.
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          {resendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Resend link
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
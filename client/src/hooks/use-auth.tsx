@@ -33,8 +33,9 @@ type RegisterData = {
   username: string;
   password: string;
   role: string;
+  // From an emailed invite link
+  inviteToken?: string;
 } & (
-  | { role: typeof UserRole.ADMIN }
   | { 
       role: typeof UserRole.SCHOOL; 
       name: string;
@@ -43,7 +44,8 @@ type RegisterData = {
     }
   | { 
       role: typeof UserRole.STUDENT; 
-      schoolId: number;
+      // Students join with their school's code unless they have an invite
+      joinCode?: string;
     }
 );
 
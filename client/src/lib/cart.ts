@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartWithLines } from "@shared/schema";
+import { queryClient } from "./queryClient";
+
+// A guest's cart is kept on the server under a token only their browser holds
+const CART_TOKEN_KEY = "fundraiser-cart-token";
+const CART_URL = "/api/cart";
+
+export interface AddToCartInput {
+  fundraiserId: number;
+  ticketTypeId?: number | null;
+  quantity?: number;
+  referralCode?: string | null; // Code of the student whose link the buyer followed
+}
+
+// Send a cart request with the guest's token, keeping the cart it returns
+async function cartRequest(method: string, url: string, data?: unknown): Promise<CartWithLines> {
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  const token = localStorage.getItem(CART_TOKEN_KEY);
+  if (token) {
+    headers["X-Cart-Token"] = token;
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch (e) {
+      // Not JSON, keep the text as it is
+    }
+    throw new Error(message);
+  }
+
+  const cart: CartWithLines = await res.json();
+  // The token goes once a guest cart has been merged into the signed-in account
+  if (cart.token) {
+    localStorage.setItem(CART_TOKEN_KEY, cart.token);
+  } else {
+    localStorage.removeItem(CART_TOKEN_KEY);
+  }
+  queryClient.setQueryData([CART_URL], cart);
+  return cart;
+}
+
+// The cart as the server last priced it, read afresh whenever a page showing it mounts
+export function useCart() {
+  return useQuery<CartWithLines>({
+    queryKey: [CART_URL],
+    queryFn: () => cartRequest("GET", CART_URL),
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+}
+
+export function addToCart(item: AddToCartInput) {
+  return cartRequest("POST", `${CART_URL}/items`, item);
+}
+
+export function updateCartItem(id: number, quantity: number) {
+  return cartRequest("PATCH", `${CART_URL}/items/${id}`, { quantity });
+}
+
+export function removeCartItem(id: number) {
+  return cartRequest("DELETE", `${CART_URL}/items/${id}`);
+}
+
+export function clearCart() {
+  return cartRequest("DELETE", CART_URL);
+}
+
+// The items to check out, in the form the checkout endpoints take. Items that can't be
+// bought as they are are left out, the cart page holds checkout back until they're fixed
+export function checkoutItems(cart: CartWithLines | undefined) {
+  return (cart?.items ?? [])
+    .filter((item) => item.issue === null)
+    .map((item) => ({
+      fundraiserId: item.fundraiserId,
+      ticketTypeId: item.ticketTypeId,
+      quantity: item.quantity,
+      referralCode: item.referralCode,
+      amount: item.amount,
+    }));
+}
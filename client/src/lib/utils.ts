@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_MAX_TICKETS_PER_ORDER, type Fundraiser, type TicketType } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -13,3 +14,37 @@ export function formatCurrency(amount: number): string {
     maximumFractionDigits: 2
   }).format(amount)
 }
+
+// Confirmation page URL from which the buyer's tickets are looked up
+export function paymentSuccessPath(reference: string, email: string, fundraiserId?: number): string {
+  const params = new URLSearchParams({ reference, email })
+  if (fundraiserId) {
+    params.set("fundraiser", fundraiserId.toString())
+  }
+  return `/payment-success?${params.toString()}`
+}
+
+// Most tickets a buyer can order for a fundraiser at once: the school's per-order
+// limit, capped by the tickets still on sale for the fundraiser and the chosen ticket type
+export function ticketLimit(
+  fundraiser: Fundraiser & { ticketsRemaining?: number | null },
+  ticketType?: TicketType & { ticketsRemaining?: number | null }
+): number {
+  let limit = fundraiser.maxTicketsPerOrder ?? DEFAULT_MAX_TICKETS_PER_ORDER
+  if (fundraiser.ticketsRemaining != null) {
+    limit = Math.min(limit, fundraiser.ticketsRemaining)
+  }
+  if (ticketType && ticketType.ticketsRemaining != null) {
+    limit = Math.min(limit, ticketType.ticketsRemaining)
+  }
+  return limit
+}
+
+// Whether a ticket type's sale window is open right now
+export function isTicketTypeOnSale(ticketType: TicketType): boolean {
+  const now = new Date()
+  if (ticketType.salesStartAt && new Date(ticketType.salesStartAt) > now) {
+    return false
+  }
+  return !ticketType.salesEndAt || new Date(ticketType.salesEndAt) > now
+}
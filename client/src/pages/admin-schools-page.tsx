@@ -1,6 +1,7 @@
 import { useState } from "react";
 import DashboardLayout from "@/components/dashboard-layout";
 import SchoolTable from "@/components/school-table";
+import InvitesCard from "@/components/invites-card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, RefreshCw, Plus } from "lucide-react";
@@ -160,6 +161,13 @@ export default function AdminSchoolsPage() {
         </div>
       </div>
 
+      <div className="mb-6">
+        <InvitesCard
+          title="Invite a School"
+          description="The school gets an emailed link to register, which works for a week"
+        />
+      </div>
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         {!filteredSchools || filteredSchools.length === 0 ? (
           <div className="p-8 text-center">
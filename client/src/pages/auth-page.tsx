@@ -1,11 +1,11 @@
 import { useEffect, useState } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useQuery } from "@tanstack/react-query";
-import { School, UserRole } from "@shared/schema";
+import { InviteSummary, UserRole } from "@shared/schema";
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,7 +36,9 @@ const registerSchema = z.object({
   adminName: z.string().optional(),
   address: z.string().optional(),
   // Student-specific fields
-  schoolId: z.coerce.number().optional(),
+  joinCode: z.string().optional(),
+  // From an emailed invite link, stands in for the join code
+  inviteToken: z.string().optional(),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
@@ -47,10 +49,10 @@ const registerSchema = z.object({
     path: ["name"],
   }
 ).refine(
-  data => !(data.role === UserRole.STUDENT && !data.schoolId),
+  data => !(data.role === UserRole.STUDENT && !data.joinCode?.trim() && !data.inviteToken),
   {
-    message: "Please select a school",
-    path: ["schoolId"],
+    message: "Enter the join code your school gave you",
+    path: ["joinCode"],
   }
 );
 
@@ -61,10 +63,20 @@ export default function AuthPage() {
   const [location, navigate] = useLocation();
   const { user, isLoading, loginMutation, registerMutation } = useAuth();
 
-  // Fetch schools for student registration
-  const { data: schools, isLoading: isLoadingSchools } = useQuery<School[]>({
-    queryKey: ["/api/schools/list"],
-    enabled: currentTab === "register",
+  // The token from an emailed invite link
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+
+  const { data: invite, error: inviteError } = useQuery<InviteSummary, Error>({
+    queryKey: [`/api/invites/${inviteToken}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/invites/${inviteToken}`, { credentials: "include" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "This invite is invalid or has expired");
+      }
+      return data;
+    },
+    enabled: !!inviteToken,
   });
 
   // Login form
@@ -88,10 +100,21 @@ export default function AuthPage() {
       name: "",
       adminName: "",
       address: "",
-      schoolId: undefined,
+      joinCode: "",
+      inviteToken: undefined,
     },
   });
 
+  // An invite decides the role and email being registered
+  useEffect(() => {
+    if (invite && inviteToken) {
+      setCurrentTab("register");
+      registerForm.setValue("role", invite.role as RegisterFormValues["role"]);
+      registerForm.setValue("email", invite.email);
+      registerForm.setValue("inviteToken", inviteToken);
+    }
+  }, [invite, inviteToken]);
+
   // If already logged in, redirect to appropriate dashboard
   useEffect(() => {
     if (user) {
@@ -184,12 +207,29 @@ export default function AuthPage() {
                         ) : null}
                         Log In
                       </Button>
+                      <div className="text-center text-sm">
+                        <Link href="/auth/forgot-password" className="text-primary hover:underline">
+                          Forgot your password?
+                        </Link>
+                      </div>
                     </form>
                   </Form>
                 </TabsContent>
 
                 {/* Register Tab */}
                 <TabsContent value="register">
+                  {invite && (
+                    <div className="mb-4 rounded-md bg-primary/10 p-3 text-sm">
+                      {invite.schoolName
+                        ? `You've been invited to join ${invite.schoolName}.`
+                        : "You've been invited to register your school."}
+                    </div>
+                  )}
+                  {inviteError && (
+                    <div className="mb-4 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                      {inviteError.message}. Ask for a new invite, or register with your school's join code.
+                    </div>
+                  )}
                   <Form {...registerForm}>
                     <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
                       <FormField
@@ -202,6 +242,7 @@ export default function AuthPage() {
                               onValueChange={field.onChange} 
                               defaultValue={field.value}
                               value={field.value}
+                              disabled={!!invite}
                             >
                               <FormControl>
                                 <SelectTrigger>
@@ -225,7 +266,7 @@ export default function AuthPage() {
                           <FormItem>
                             <FormLabel>Email</FormLabel>
                             <FormControl>
-                              <Input placeholder="Enter your email" {...field} />
+                              <Input placeholder="Enter your email" readOnly={!!invite} {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -320,40 +361,16 @@ export default function AuthPage() {
                       )}
 
                       {/* Student-specific fields */}
-                      {selectedRole === UserRole.STUDENT && (
+                      {selectedRole === UserRole.STUDENT && !invite && (
                         <FormField
                           control={registerForm.control}
-                          name="schoolId"
+                          name="joinCode"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Select Your School</FormLabel>
-                              <Select 
-                                onValueChange={(value) => field.onChange(parseInt(value))} 
-                                value={field.value?.toString()}
-                              >
-                                <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select a school" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  {isLoadingSchools ? (
-                                    <div className="flex items-center justify-center p-2">
-                                      <Loader2 className="h-4 w-4 animate-spin" />
-                                    </div>
-                                  ) : schools && schools.length > 0 ? (
-                                    schools.map((school) => (
-                                      <SelectItem key={school.id} value={school.id.toString()}>
-                                        {school.name}
-                                      </SelectItem>
-                                    ))
-                                  ) : (
-                                    <SelectItem value="none" disabled>
-                                      No schools available
-                                    </SelectItem>
-                                  )}
-                                </SelectContent>
-                              </Select>
+                              <FormLabel>School Join Code</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter the code your school gave you" {...field} />
+                              </FormControl>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/dashboard-layout";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,23 +9,29 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { Loader2, Trash2, CreditCard, DollarSign, ArrowRight, CreditCard as PaymentIcon } from "lucide-react";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, paymentSuccessPath } from "@/lib/utils";
+import { CartLine } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import CustomerInfoForm from "@/components/customer-info-form";
+import { apiRequest } from "@/lib/queryClient";
+import { useCart, updateCartItem, removeCartItem, clearCart, checkoutItems } from "@/lib/cart";
 
-// Interface for cart items
-interface CartItem {
-  id: number;
-  fundraiserId: number;
-  name: string;
-  eventDate: string;
-  location: string;
-  quantity: number;
-  price: number;
-  studentId?: number | null;
-  referral?: string | null;
-  customerEmail?: string;
+// Server-side pricing of the cart, amounts in cents
+interface CartQuote {
+  items: {
+    fundraiserId: number;
+    ticketTypeId: number | null;
+    name: string;
+    ticketTypeName: string | null;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    amount: number;
+  }[];
+  promoCode: string | null;
+  discountAmount: number;
+  totalAmount: number;
 }
 
 // Interface for customer information
@@ -39,44 +46,103 @@ export default function CartPage() {
   const { toast } = useToast();
   const [currentPath, setLocation] = useLocation();
   
-  // State for cart items, loading state, payment method
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  // The cart as the server last checked it, plus loading state and payment method
+  const { data: cart, isLoading: isLoadingCart } = useCart();
+  const cartItems = cart?.items ?? [];
+  const hasIssues = cartItems.some(item => item.issue !== null);
   const [isLoading, setIsLoading] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<string>("stripe");
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
   const [showCustomerInfoForm, setShowCustomerInfoForm] = useState(true);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [isApplyingPromoCode, setIsApplyingPromoCode] = useState(false);
   
-  // Calculate totals
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const tax = subtotal * 0.0; // No tax for now
-  const total = subtotal + tax;
+  // Price the cart on the server so the totals match what will be charged
+  const quoteItems = checkoutItems(cart).map(item => ({
+    fundraiserId: item.fundraiserId,
+    ticketTypeId: item.ticketTypeId,
+    quantity: item.quantity
+  }));
+  const { data: quote, error: quoteError } = useQuery<CartQuote>({
+    queryKey: ["/api/cart/quote", quoteItems, promoCode],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/cart/quote", { items: quoteItems, promoCode });
+      return await res.json();
+    },
+    enabled: quoteItems.length > 0,
+  });
   
-  // Get cart items from localStorage on component mount
+  // Drop a promo code that stops applying once the cart changes
   useEffect(() => {
-    const storedCart = localStorage.getItem('fundraiser-cart');
-    if (storedCart) {
-      try {
-        const parsedCart = JSON.parse(storedCart);
-        setCartItems(parsedCart);
-        
-        // Check if any cart item has a customer email (from public share link)
-        const firstItemWithEmail = parsedCart.find(item => item.customerEmail);
-        if (firstItemWithEmail?.customerEmail && !user) {
-          // Pre-fill email for guest users if available from cart
-          setCustomerInfo({
-            name: "",
-            email: firstItemWithEmail.customerEmail,
-            phone: ""
-          });
-        }
-      } catch (error) {
-        console.error("Error parsing cart from localStorage:", error);
-        // Clear invalid cart data
-        localStorage.removeItem('fundraiser-cart');
-      }
+    if (quoteError && promoCode) {
+      setPromoCode(null);
+      toast({
+        title: "Promo code removed",
+        description: `${promoCode} doesn't apply to this cart any more`,
+        variant: "destructive",
+      });
+    }
+  }, [quoteError]);
+  
+  // Unit price in rands, preferring the promo code quote over the price the cart was read with
+  const unitPriceFor = (item: CartLine) => {
+    const quotedItem = quote?.items.find(line =>
+      line.fundraiserId === item.fundraiserId && line.ticketTypeId === item.ticketTypeId
+    );
+    return (quotedItem ? quotedItem.unitPrice : item.unitPrice) / 100;
+  };
+  
+  // Calculate totals, items that can't be bought as they are aren't counted
+  const subtotal = quote
+    ? (quote.totalAmount + quote.discountAmount) / 100
+    : (cart?.totalAmount ?? 0) / 100;
+  const discount = quote ? quote.discountAmount / 100 : 0;
+  const tax = subtotal * 0.0; // No tax for now
+  const total = subtotal - discount + tax;
+  
+  // Check the promo code against the cart before applying it to the totals
+  const handleApplyPromoCode = async () => {
+    const code = promoCodeInput.trim();
+    if (!code) {
+      return;
     }
     
-    // If user is logged in, pre-fill customer info
+    setIsApplyingPromoCode(true);
+    try {
+      const response = await fetch("/api/cart/quote", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ items: quoteItems, promoCode: code }),
+        credentials: "include",
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || "This promo code can't be used");
+      }
+      
+      setPromoCode(data.promoCode);
+      setPromoCodeInput("");
+      toast({
+        title: "Promo code applied",
+        description: `You save ${formatCurrency(data.discountAmount / 100)}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Promo code not applied",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingPromoCode(false);
+    }
+  };
+  
+  // Pre-fill the contact details of a logged-in user, or the email a guest gave on a shared fundraiser page
+  useEffect(() => {
     if (user) {
       setCustomerInfo({
         name: user.username || "",
@@ -84,39 +150,58 @@ export default function CartPage() {
         phone: ""
       });
       setShowCustomerInfoForm(false);
+      return;
+    }
+    
+    const sharedEmail = sessionStorage.getItem("cart_customer_email");
+    if (sharedEmail) {
+      setCustomerInfo({
+        name: "",
+        email: sharedEmail,
+        phone: ""
+      });
     }
   }, [user]);
   
   // Handle quantity changes
-  const handleQuantityChange = (id: number, newQuantity: number) => {
+  const handleQuantityChange = async (item: CartLine, newQuantity: number) => {
     if (newQuantity < 1) return;
-    if (newQuantity > 10) {
+    if (newQuantity > item.maxQuantity) {
       toast({
         title: "Maximum quantity exceeded",
-        description: "You can purchase up to 10 tickets per item.",
+        description: `You can purchase up to ${item.maxQuantity} tickets for this item.`,
         variant: "destructive"
       });
-      newQuantity = 10;
+      newQuantity = Math.max(item.maxQuantity, 1);
     }
+    if (newQuantity === item.quantity) return;
     
-    const updatedCart = cartItems.map(item => 
-      item.id === id ? { ...item, quantity: newQuantity } : item
-    );
-    
-    setCartItems(updatedCart);
-    localStorage.setItem('fundraiser-cart', JSON.stringify(updatedCart));
+    try {
+      await updateCartItem(item.id, newQuantity);
+    } catch (error: any) {
+      toast({
+        title: "Cart not updated",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   };
   
   // Remove item from cart
-  const handleRemoveItem = (id: number) => {
-    const updatedCart = cartItems.filter(item => item.id !== id);
-    setCartItems(updatedCart);
-    localStorage.setItem('fundraiser-cart', JSON.stringify(updatedCart));
-    
-    toast({
-      title: "Item removed",
-      description: "The item has been removed from your cart."
-    });
+  const handleRemoveItem = async (id: number) => {
+    try {
+      await removeCartItem(id);
+      toast({
+        title: "Item removed",
+        description: "The item has been removed from your cart."
+      });
+    } catch (error: any) {
+      toast({
+        title: "Item not removed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   };
   
   // Handle customer info submission
@@ -151,26 +236,32 @@ export default function CartPage() {
       return;
     }
     
+    if (hasIssues) {
+      toast({
+        title: "Check your cart",
+        description: "Some items can't be bought as they are. Change or remove them before checkout.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
     setIsLoading(true);
     
     try {
       // Prepare common checkout data
       const checkoutData = {
-        items: cartItems.map(item => ({
-          fundraiserId: item.fundraiserId,
-          quantity: item.quantity
-        })),
-        customerInfo
+        items: checkoutItems(cart),
+        customerInfo,
+        promoCode
       };
       
-      // Store cart items data for all payment methods
-      const cartItemsData = cartItems.map(item => ({
-        fundraiserId: item.fundraiserId,
-        quantity: item.quantity,
-        amount: item.price * item.quantity * 100 // Convert to cents
-      }));
-      sessionStorage.setItem("cart_items", JSON.stringify(cartItemsData));
+      // The payment pages read the items from the cart, only the buyer's details are passed on
       sessionStorage.setItem("cart_customer_info", JSON.stringify(customerInfo));
+      if (promoCode) {
+        sessionStorage.setItem("promo_code", promoCode);
+      } else {
+        sessionStorage.removeItem("promo_code");
+      }
       
       // Check if we should process as cash payment
       if (paymentMethod === "cash") {
@@ -199,22 +290,22 @@ export default function CartPage() {
         const result = await response.json();
         
         // Clear cart after successful cash payment
-        localStorage.removeItem('fundraiser-cart');
+        clearCart().catch((error) => console.error("Error clearing cart:", error));
         
         toast({
           title: "Cash payment recorded",
-          description: "Your cash payment has been recorded. Please pay when you receive your tickets.",
+          description: result.message || "Your cash payment has been recorded.",
         });
         
-        // Redirect to success page
-        window.location.href = "/payment/success?type=cart&method=cash";
+        // Redirect to success page, where the issued tickets are shown
+        window.location.href = paymentSuccessPath(result.paymentReference, customerInfo.email);
         return;
       }
       
       // Check if we should process as Paystack
       if (paymentMethod === "paystack") {
-        // Calculate total amount for Paystack
-        const amount = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+        // Total amount for Paystack, as priced by the server
+        const amount = total;
         sessionStorage.setItem("cart_payment_amount", amount.toString());
         
         toast({
@@ -227,8 +318,9 @@ export default function CartPage() {
         return;
       }
       
-      // Check if we should process as a multi-item cart or single item checkout with Stripe
-      if (cartItems.length === 1 && paymentMethod === "stripe") {
+      // Check if we should process as a multi-item cart or single item checkout with Stripe,
+      // the single item checkout page only sells a fundraiser's own price, without the applied promo code or a referral
+      if (cartItems.length === 1 && !cartItems[0].ticketTypeId && !cartItems[0].referralCode && !promoCode && paymentMethod === "stripe") {
         // Single item checkout - use the existing checkout page
         const item = cartItems[0];
         window.location.href = `/checkout/${item.fundraiserId}?quantity=${item.quantity}`;
@@ -289,14 +381,20 @@ export default function CartPage() {
   };
   
   // Clear cart
-  const handleClearCart = () => {
-    setCartItems([]);
-    localStorage.removeItem('fundraiser-cart');
-    
-    toast({
-      title: "Cart cleared",
-      description: "All items have been removed from your cart."
-    });
+  const handleClearCart = async () => {
+    try {
+      await clearCart();
+      toast({
+        title: "Cart cleared",
+        description: "All items have been removed from your cart."
+      });
+    } catch (error: any) {
+      toast({
+        title: "Cart not cleared",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   };
   
   return (
@@ -321,7 +419,11 @@ export default function CartPage() {
             </CardHeader>
             
             <CardContent className="pt-6">
-              {cartItems.length === 0 ? (
+              {isLoadingCart ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : cartItems.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-muted-foreground mb-4">Your cart is empty.</p>
                   <Button onClick={() => window.location.href = "/student/fundraisers"}>
@@ -334,12 +436,18 @@ export default function CartPage() {
                     <div key={item.id} className="flex items-center justify-between border-b pb-4">
                       <div className="flex-1">
                         <h3 className="font-medium">{item.name}</h3>
+                        {item.ticketTypeName && (
+                          <p className="text-sm">{item.ticketTypeName}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">
                           {new Date(item.eventDate).toLocaleDateString()} at {item.location}
                         </p>
                         <p className="text-sm font-medium mt-1">
-                          {formatCurrency(item.price)} per ticket
+                          {formatCurrency(unitPriceFor(item))} per ticket
                         </p>
+                        {item.issue && (
+                          <p className="text-sm text-destructive mt-1">{item.issue}</p>
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-4">
@@ -348,7 +456,7 @@ export default function CartPage() {
                             variant="outline" 
                             size="icon" 
                             className="h-8 w-8 rounded-r-none"
-                            onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                            onClick={() => handleQuantityChange(item, item.quantity - 1)}
                             disabled={item.quantity <= 1}
                           >
                             -
@@ -356,24 +464,24 @@ export default function CartPage() {
                           <Input 
                             type="number" 
                             min="1" 
-                            max="10"
+                            max={item.maxQuantity}
                             value={item.quantity} 
-                            onChange={(e) => handleQuantityChange(item.id, parseInt(e.target.value) || 1)}
+                            onChange={(e) => handleQuantityChange(item, parseInt(e.target.value) || 1)}
                             className="h-8 w-16 rounded-none text-center [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
                           />
                           <Button 
                             variant="outline" 
                             size="icon" 
                             className="h-8 w-8 rounded-l-none"
-                            onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                            disabled={item.quantity >= 10}
+                            onClick={() => handleQuantityChange(item, item.quantity + 1)}
+                            disabled={item.quantity >= item.maxQuantity}
                           >
                             +
                           </Button>
                         </div>
                         
                         <div className="w-20 text-right font-medium">
-                          {formatCurrency(item.price * item.quantity)}
+                          {formatCurrency(unitPriceFor(item) * item.quantity)}
                         </div>
                         
                         <Button 
@@ -451,6 +559,23 @@ export default function CartPage() {
                   <span>{formatCurrency(subtotal)}</span>
                 </div>
                 
+                {discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span className="flex items-center gap-2">
+                      Discount ({promoCode})
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setPromoCode(null)}
+                      >
+                        Remove
+                      </Button>
+                    </span>
+                    <span>-{formatCurrency(discount)}</span>
+                  </div>
+                )}
+                
                 <div className="flex justify-between">
                   <span>Tax</span>
                   <span>{formatCurrency(tax)}</span>
@@ -463,6 +588,24 @@ export default function CartPage() {
                   <span>{formatCurrency(total)}</span>
                 </div>
                 
+                {!promoCode && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Promo code"
+                      value={promoCodeInput}
+                      onChange={(e) => setPromoCodeInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleApplyPromoCode()}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleApplyPromoCode}
+                      disabled={!promoCodeInput.trim() || isApplyingPromoCode}
+                    >
+                      {isApplyingPromoCode ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                    </Button>
+                  </div>
+                )}
+                
                 <div className="pt-4">
                   <Label className="mb-3 block">Payment Method</Label>
                   <RadioGroup 
@@ -486,13 +629,16 @@ export default function CartPage() {
                       </Label>
                     </div>
                     
-                    <div className="flex items-center space-x-2 border rounded-md p-3">
-                      <RadioGroupItem value="cash" id="cash" />
-                      <Label htmlFor="cash" className="flex items-center">
-                        <DollarSign className="mr-2 h-4 w-4" />
-                        Cash Payment
-                      </Label>
-                    </div>
+                    {/* Only students and school admins take cash, everyone else pays online */}
+                    {(user?.role === "student" || user?.role === "school") && (
+                      <div className="flex items-center space-x-2 border rounded-md p-3">
+                        <RadioGroupItem value="cash" id="cash" />
+                        <Label htmlFor="cash" className="flex items-center">
+                          <DollarSign className="mr-2 h-4 w-4" />
+                          Cash Payment
+                        </Label>
+                      </div>
+                    )}
                   </RadioGroup>
                 </div>
               </div>
@@ -502,7 +648,7 @@ export default function CartPage() {
               <Button 
                 className="w-full" 
                 size="lg"
-                disabled={cartItems.length === 0 || isLoading}
+                disabled={cartItems.length === 0 || hasIssues || isLoading}
                 onClick={handleCheckout}
               >
                 {isLoading ? (
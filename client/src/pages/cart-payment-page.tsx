@@ -13,8 +13,10 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, CheckCircle, AlertCircle } from "lucide-react";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, paymentSuccessPath } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useCart, clearCart, checkoutItems } from "@/lib/cart";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import DashboardLayout from "@/components/dashboard-layout";
@@ -54,6 +56,7 @@ export default function CartPaymentPage() {
   const [location, navigate] = useLocation();
   const { toast } = useToast();
   
+  const { data: cart } = useCart();
   const [clientSecret, setClientSecret] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [paymentStatus, setPaymentStatus] = useState<"pending" | "success" | "error">("pending");
@@ -132,10 +135,10 @@ export default function CartPaymentPage() {
     }
   }, [toast]);
   
-  // Clear cart and payment info after successful payment and redirect to dashboard
-  const handlePaymentSuccess = () => {
+  // Clear cart and payment info after successful payment and redirect to the tickets
+  const handlePaymentSuccess = (reference: string) => {
     // Clear cart
-    localStorage.removeItem("fundraiser-cart");
+    clearCart().catch((error) => console.error("Error clearing cart:", error));
     
     // Clear payment session
     sessionStorage.removeItem("cart_payment_client_secret");
@@ -149,9 +152,9 @@ export default function CartPaymentPage() {
       description: "Your order has been processed successfully.",
     });
     
-    // Redirect to student dashboard after a short delay to show the success message
+    // Redirect to the confirmation page after a short delay to show the success message
     setTimeout(() => {
-      window.location.href = "/student/dashboard";
+      window.location.href = paymentSuccessPath(reference, customerInfo?.email || "");
     }, 2000);
   };
   
@@ -303,14 +306,8 @@ export default function CartPaymentPage() {
                     publicKey: paystackKey ? "Available" : "Missing"
                   });
                   
-                  // Parse cart items for metadata
-                  let cartItems = [];
-                  try {
-                    cartItems = JSON.parse(sessionStorage.getItem("cart_items") || "[]");
-                    console.log("Cart items for Paystack:", cartItems);
-                  } catch (error) {
-                    console.error("Error parsing cart items:", error);
-                  }
+                  // Cart items for metadata
+                  const cartItems = checkoutItems(cart);
                   
                   // Direct implementation without the component
                   const handleDirectPaystackPayment = () => {
@@ -330,7 +327,7 @@ export default function CartPaymentPage() {
                   };
                   
                   // Function to initialize Paystack after script is loaded
-                  const initializePaystack = () => {
+                  const initializePaystack = async () => {
                     if (typeof window.PaystackPop === 'undefined') {
                       console.error("PaystackPop still undefined after script load");
                       toast({
@@ -343,10 +340,19 @@ export default function CartPaymentPage() {
                     
                     console.log("Initializing Paystack payment...");
                     try {
+                      // Start the checkout on the server, which prices it and tracks it until it's paid
+                      const checkoutResponse = await apiRequest("POST", "/api/paystack/initialize", {
+                        items: cartItems,
+                        customerInfo,
+                        promoCode: sessionStorage.getItem("promo_code") || undefined
+                      });
+                      const checkout: { reference: string; amount: number } = await checkoutResponse.json();
+                      
                       const paystackHandler = window.PaystackPop.setup({
                         key: paystackKey,
                         email: customerInfo.email,
-                        amount: amount * 100, // Convert to kobo
+                        amount: checkout.amount, // Already in kobo
+                        ref: checkout.reference,
                         metadata: {
                           isCart: true,
                           customerName: customerInfo.name,
@@ -376,7 +382,7 @@ export default function CartPaymentPage() {
                               throw new Error(errorData.message || 'Payment verification failed');
                             }
                             
-                            handlePaymentSuccess();
+                            handlePaymentSuccess(response.reference);
                           } catch (error) {
                             console.error("Payment verification error:", error);
                             handlePaymentError(error instanceof Error ? error : new Error('Payment verification failed'));
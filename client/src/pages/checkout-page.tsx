@@ -3,7 +3,7 @@ import { useLocation, useRoute, Link, useParams } from "wouter";
 import { loadStripe } from "@stripe/stripe-js";
 import { Elements } from "@stripe/react-stripe-js";
 import { useQuery } from "@tanstack/react-query";
-import { Fundraiser, School } from "@shared/schema";
+import { DEFAULT_MAX_TICKETS_PER_ORDER, FundraiserWithAvailability, School } from "@shared/schema";
 import { ChevronLeft, ChevronRight, Ticket, Calendar, Users } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -22,7 +22,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import CustomerInfoForm from "@/components/customer-info-form";
 import PaymentForm from "@/components/payment-form";
+import TicketTypeSelect, { defaultTicketTypeId } from "@/components/ticket-type-select";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, ticketLimit } from "@/lib/utils";
 
 // Initialize Stripe
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
@@ -37,7 +39,10 @@ export default function CheckoutPage() {
   
   const [step, setStep] = useState<string>("details");
   const [quantity, setQuantity] = useState<number>(1);
+  const [selectedTicketTypeId, setSelectedTicketTypeId] = useState<number | null>(null);
   const [clientSecret, setClientSecret] = useState<string>("");
+  const [promoCode, setPromoCode] = useState<string>("");
+  const [discount, setDiscount] = useState<number>(0); // in rands, as applied by the server
   const [customerInfo, setCustomerInfo] = useState<{
     name: string;
     email: string;
@@ -49,7 +54,7 @@ export default function CheckoutPage() {
   });
   
   // Fetch fundraiser details
-  const { data: fundraiser, isLoading: isLoadingFundraiser, error } = useQuery<Fundraiser>({
+  const { data: fundraiser, isLoading: isLoadingFundraiser, error } = useQuery<FundraiserWithAvailability>({
     queryKey: [`/api/fundraisers/${fundraiserId}`],
     enabled: !!fundraiserId,
   });
@@ -61,15 +66,29 @@ export default function CheckoutPage() {
   });
   
   const isLoading = isLoadingFundraiser || isLoadingSchool;
+  const ticketTypes = fundraiser?.ticketTypes ?? [];
+  const ticketTypeId = selectedTicketTypeId ?? defaultTicketTypeId(ticketTypes);
+  const ticketType = ticketTypes.find((type) => type.id === ticketTypeId);
   
-  // Fixed ticket price for now (in dollars)
-  const ticketPrice = 10;
-  const totalAmount = ticketPrice * quantity;
+  // Ticket price in rands, the server prices the actual payment from the same stored value
+  const ticketPrice = (ticketType?.price ?? fundraiser?.price ?? 0) / 100;
+  const totalAmount = ticketPrice * quantity - discount;
+  const maxQuantity = fundraiser ? ticketLimit(fundraiser, ticketType) : DEFAULT_MAX_TICKETS_PER_ORDER;
+  
+  // A different ticket type may have fewer tickets left, and a different price to discount
+  const handleTicketTypeChange = (id: number) => {
+    setSelectedTicketTypeId(id);
+    setDiscount(0);
+    if (fundraiser) {
+      const limit = ticketLimit(fundraiser, ticketTypes.find((type) => type.id === id));
+      setQuantity((current) => Math.max(1, Math.min(current, limit)));
+    }
+  };
   
   // Handle quantity changes
   const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
-    if (value > 0 && value <= 10) {
+    if (value > 0 && value <= maxQuantity) {
       setQuantity(value);
     }
   };
@@ -80,13 +99,24 @@ export default function CheckoutPage() {
       console.log("Customer info submitted:", info);
       setCustomerInfo(info);
       
-      // Store quantity and customer info in sessionStorage for cash payment
+      // Store the ticket type, quantity, customer info and promo code in sessionStorage for cash payment
       sessionStorage.setItem("ticket_quantity", quantity.toString());
+      if (ticketType) {
+        sessionStorage.setItem("ticket_type_id", ticketType.id.toString());
+      } else {
+        sessionStorage.removeItem("ticket_type_id");
+      }
       sessionStorage.setItem("cart_customer_info", JSON.stringify(info));
+      if (promoCode.trim()) {
+        sessionStorage.setItem("promo_code", promoCode.trim());
+      } else {
+        sessionStorage.removeItem("promo_code");
+      }
       
       // Create payment intent
       console.log("Creating payment intent with data:", {
         fundraiserId: parseInt(fundraiserId!),
+        ticketTypeId: ticketType?.id,
         quantity,
         customerInfo: info,
       });
@@ -98,8 +128,10 @@ export default function CheckoutPage() {
         },
         body: JSON.stringify({
           fundraiserId: parseInt(fundraiserId!),
+          ticketTypeId: ticketType?.id,
           quantity,
           customerInfo: info,
+          promoCode: promoCode.trim() || undefined,
         }),
         credentials: "include",
       });
@@ -131,6 +163,10 @@ export default function CheckoutPage() {
       
       console.log("Setting client secret and proceeding to payment step");
       setClientSecret(data.clientSecret);
+      setDiscount(data.discountAmount || 0);
+      
+      // Server-computed total, used by the Paystack option of the payment step
+      sessionStorage.setItem("ticket_total", data.amount.toString());
       
       // Proceed to payment step
       setStep("payment");
@@ -214,16 +250,23 @@ export default function CheckoutPage() {
                     <div className="flex justify-between">
                       <div className="flex items-center">
                         <Ticket className="mr-2 h-5 w-5 text-muted-foreground" />
-                        <span>Tickets</span>
+                        <span>{ticketType ? `${ticketType.name} Tickets` : "Tickets"}</span>
                       </div>
-                      <span>{quantity} × ${ticketPrice}</span>
+                      <span>{quantity} × {formatCurrency(ticketPrice)}</span>
                     </div>
                     
+                    {discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount ({promoCode.trim().toUpperCase()})</span>
+                        <span>-{formatCurrency(discount)}</span>
+                      </div>
+                    )}
+                    
                     <Separator />
                     
                     <div className="flex justify-between font-bold">
                       <span>Total</span>
-                      <span>${totalAmount.toFixed(2)}</span>
+                      <span>{formatCurrency(totalAmount)}</span>
                     </div>
                   </>
                 )}
@@ -246,18 +289,42 @@ export default function CheckoutPage() {
                   </TabsList>
                   
                   <TabsContent value="details" className="space-y-4 py-4">
+                    {ticketTypes.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Ticket Type</Label>
+                        <TicketTypeSelect
+                          ticketTypes={ticketTypes}
+                          value={ticketTypeId}
+                          onChange={handleTicketTypeChange}
+                        />
+                      </div>
+                    )}
+                    
                     <div className="space-y-2">
                       <Label htmlFor="quantity">Number of Tickets</Label>
                       <Input
                         id="quantity"
                         type="number"
                         min="1"
-                        max="10"
+                        max={maxQuantity}
                         value={quantity}
                         onChange={handleQuantityChange}
                       />
                     </div>
                     
+                    <div className="space-y-2">
+                      <Label htmlFor="promoCode">Promo Code (optional)</Label>
+                      <Input
+                        id="promoCode"
+                        value={promoCode}
+                        onChange={(e) => {
+                          setPromoCode(e.target.value);
+                          setDiscount(0);
+                        }}
+                        placeholder="e.g. EARLYBIRD"
+                      />
+                    </div>
+                    
                     <CustomerInfoForm onSubmit={handleCustomerInfoSubmit} />
                   </TabsContent>
                   
@@ -0,0 +1,341 @@
+import { useState, useEffect } from "react";
+import { useRoute } from "wouter";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { useQuery } from "@tanstack/react-query";
+import { Fundraiser, FundraiserMode, MIN_DONATION_AMOUNT } from "@shared/schema";
+import { HeartIcon, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import PaystackCheckout from "@/components/paystack-checkout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+// Initialize Stripe
+if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
+  throw new Error("Missing Stripe publishable key");
+}
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+
+// Card form for a donation whose payment intent has been created
+function DonationCardForm({ onSuccess }: { onSuccess: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsProcessing(true);
+    const result = await stripe.confirmPayment({
+      elements,
+      confirmParams: {
+        return_url: window.location.href,
+      },
+      redirect: "if_required",
+    });
+    setIsProcessing(false);
+
+    if (result.error) {
+      toast({
+        title: "Donation Failed",
+        description: result.error.message || "An error occurred during payment processing",
+        variant: "destructive",
+      });
+    } else if (result.paymentIntent?.status === "succeeded") {
+      onSuccess();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <Button type="submit" className="w-full" disabled={!stripe || isProcessing}>
+        {isProcessing ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing
+          </>
+        ) : (
+          "Donate"
+        )}
+      </Button>
+    </form>
+  );
+}
+
+export default function DonatePage() {
+  const [_, params] = useRoute("/donate/:fundraiserId");
+  const fundraiserId = params?.fundraiserId ? parseInt(params.fundraiserId) : 0;
+  const { toast } = useToast();
+
+  const [selectedAmount, setSelectedAmount] = useState<number | null>(null); // in cents
+  const [customAmount, setCustomAmount] = useState(""); // in rands, as typed
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [clientSecret, setClientSecret] = useState("");
+  const [isStartingCardPayment, setIsStartingCardPayment] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+
+  // Referral code of the student who shared the donation link, if any
+  const [referralCode, setReferralCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    setReferralCode(urlParams.get('ref'));
+  }, []);
+
+  const { data: fundraiser, isLoading } = useQuery<Fundraiser>({
+    queryKey: [`/api/fundraisers/${fundraiserId}`],
+  });
+
+  const suggestedDonations = fundraiser?.suggestedDonations ?? [];
+  const amount = customAmount ? Math.round(parseFloat(customAmount) * 100) : selectedAmount ?? 0;
+  const isAmountValid = !isNaN(amount) && amount >= MIN_DONATION_AMOUNT;
+  const canPay = isAmountValid && !!name.trim() && !!email.trim() && !clientSecret;
+
+  const donation = {
+    fundraiserId,
+    amount,
+    customerInfo: { name, email },
+    message: message || undefined,
+    isAnonymous,
+    referralCode: referralCode ?? undefined,
+  };
+
+  const handleSuccess = () => {
+    setIsComplete(true);
+    queryClient.invalidateQueries({ queryKey: [`/api/fundraisers/${fundraiserId}/donations`] });
+  };
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Donation Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const startCardPayment = async () => {
+    setIsStartingCardPayment(true);
+    try {
+      const response = await apiRequest("POST", "/api/donations/create-payment-intent", donation);
+      const data = await response.json();
+      setClientSecret(data.clientSecret);
+    } catch (error: any) {
+      handleError(new Error(error.message || "Could not start the donation"));
+    } finally {
+      setIsStartingCardPayment(false);
+    }
+  };
+
+  const header = (
+    <header className="border-b">
+      <div className="container py-4">
+        <h1 className="text-2xl font-bold">School Fundraiser</h1>
+      </div>
+    </header>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <main className="flex-1 container py-8">
+          <div className="max-w-xl mx-auto">
+            <Skeleton className="h-10 w-3/4 mb-4" />
+            <Skeleton className="h-72 w-full rounded-lg" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!fundraiser || fundraiser.mode === FundraiserMode.TICKETS || !fundraiser.isActive) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <main className="flex-1 container py-8">
+          <div className="max-w-xl mx-auto text-center">
+            <h1 className="text-2xl font-bold mb-2">Donations Unavailable</h1>
+            <p className="text-muted-foreground">This fundraiser isn't taking donations right now.</p>
+            <Button className="mt-6" onClick={() => window.location.href = "/"}>
+              Return Home
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {header}
+
+      <main className="flex-1 container py-8">
+        <div className="max-w-xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Donate to {fundraiser.name}</CardTitle>
+              <CardDescription>
+                Every donation goes directly to the school running this fundraiser.
+              </CardDescription>
+            </CardHeader>
+
+            {isComplete ? (
+              <CardContent className="text-center py-8 space-y-2">
+                <HeartIcon className="h-10 w-10 text-primary mx-auto" />
+                <p className="text-lg font-medium">Thank you for your donation!</p>
+                <p className="text-sm text-muted-foreground">
+                  Your gift of {formatCurrency(amount / 100)} has been received.
+                </p>
+                <Button className="mt-4" variant="outline" onClick={() => window.location.href = `/fundraiser/${fundraiserId}`}>
+                  Back to Fundraiser
+                </Button>
+              </CardContent>
+            ) : (
+              <>
+                <CardContent className="space-y-6">
+                  <div>
+                    <Label className="mb-2 block">Amount</Label>
+                    {suggestedDonations.length > 0 && (
+                      <div className="grid grid-cols-3 gap-2 mb-3">
+                        {suggestedDonations.map((suggested) => (
+                          <Button
+                            key={suggested}
+                            type="button"
+                            variant={!customAmount && selectedAmount === suggested ? "default" : "outline"}
+                            onClick={() => {
+                              setSelectedAmount(suggested);
+                              setCustomAmount("");
+                            }}
+                            disabled={!!clientSecret}
+                          >
+                            {formatCurrency(suggested / 100)}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    <Input
+                      type="number"
+                      min={MIN_DONATION_AMOUNT / 100}
+                      step="0.01"
+                      placeholder={suggestedDonations.length > 0 ? "Or enter your own amount" : "Enter an amount"}
+                      value={customAmount}
+                      onChange={(e) => setCustomAmount(e.target.value)}
+                      disabled={!!clientSecret}
+                    />
+                    {amount > 0 && !isAmountValid && (
+                      <p className="text-sm text-destructive mt-1">
+                        The smallest donation is {formatCurrency(MIN_DONATION_AMOUNT / 100)}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="name" className="mb-2 block">Your Name</Label>
+                      <Input id="name" value={name} onChange={(e) => setName(e.target.value)} disabled={!!clientSecret} />
+                    </div>
+                    <div>
+                      <Label htmlFor="email" className="mb-2 block">Your Email</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="email@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        disabled={!!clientSecret}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="message" className="mb-2 block">Message (optional)</Label>
+                    <Textarea
+                      id="message"
+                      maxLength={500}
+                      placeholder="Leave a few words of encouragement"
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      disabled={!!clientSecret}
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="anonymous"
+                      checked={isAnonymous}
+                      onCheckedChange={(checked) => setIsAnonymous(checked === true)}
+                      disabled={!!clientSecret}
+                    />
+                    <Label htmlFor="anonymous" className="text-sm font-normal">
+                      Hide my name and message on the fundraiser page
+                    </Label>
+                  </div>
+
+                  {clientSecret && (
+                    <>
+                      <Separator />
+                      <Elements stripe={stripePromise} options={{ clientSecret }}>
+                        <DonationCardForm onSuccess={handleSuccess} />
+                      </Elements>
+                    </>
+                  )}
+                </CardContent>
+
+                {!clientSecret && (
+                  <CardFooter className="flex flex-col space-y-2">
+                    <Button className="w-full" onClick={startCardPayment} disabled={!canPay || isStartingCardPayment}>
+                      {isStartingCardPayment ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <HeartIcon className="h-4 w-4 mr-2" />
+                      )}
+                      Donate {isAmountValid ? formatCurrency(amount / 100) : ""} by Card
+                    </Button>
+                    <PaystackCheckout
+                      email={email}
+                      amount={amount / 100}
+                      metadata={{ ...donation, isDonation: true }}
+                      onSuccess={handleSuccess}
+                      onError={handleError}
+                      isDisabled={!canPay}
+                      buttonText="Donate with Paystack"
+                      className="w-full"
+                    />
+                    {referralCode && (
+                      <div className="text-center text-sm text-muted-foreground mt-2">
+                        You are supporting a student with this donation
+                      </div>
+                    )}
+                  </CardFooter>
+                )}
+              </>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <footer className="border-t py-6">
+        <div className="container text-center text-sm text-muted-foreground">
+          &copy; {new Date().getFullYear()} School Fundraiser Platform
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (values: ForgotPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/forgot-password", values);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setSentMessage(data.message);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not send the reset link, please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Forgot your password?</CardTitle>
+          <CardDescription>
+            Enter the email you registered with and we'll send you a link to choose a new password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentMessage ? (
+            <p className="text-sm text-muted-foreground">{sentMessage}</p>
+          ) : (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => forgotPasswordMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={forgotPasswordMutation.isPending}>
+                  {forgotPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send reset link
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-4 text-center text-sm">
+            <Link href="/auth" className="text-primary hover:underline">
+              Back to login
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
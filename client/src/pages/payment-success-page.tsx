@@ -1,8 +1,8 @@
-import { useEffect } from "react";
-import { Link, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { CheckCircle, Calendar, MapPin, Users } from "lucide-react";
-import { Fundraiser, School } from "@shared/schema";
+import { Link, useSearch } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { CheckCircle, Calendar, MapPin, Users, Ticket, Loader2 } from "lucide-react";
+import { Fundraiser, School, OrderDetails } from "@shared/schema";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -14,11 +14,22 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { formatCurrency } from "@/lib/utils";
+
+// Lookups before we stop waiting for the tickets, about a minute at one every 3 seconds
+const MAX_ORDER_LOOKUPS = 20;
+
+function lookupsMade(state?: { dataUpdateCount: number; errorUpdateCount: number }) {
+  return state ? state.dataUpdateCount + state.errorUpdateCount : 0;
+}
 
 export default function PaymentSuccessPage() {
-  const [location] = useLocation();
-  const searchParams = new URLSearchParams(location.split("?")[1]);
+  const queryClient = useQueryClient();
+  const searchParams = new URLSearchParams(useSearch());
   const fundraiserId = searchParams.get("fundraiser");
+  // Stripe redirects append payment_intent instead of our own reference param
+  const reference = searchParams.get("reference") || searchParams.get("payment_intent");
+  const email = searchParams.get("email");
   
   // Fetch fundraiser details if ID is available
   const { data: fundraiser } = useQuery<Fundraiser>({
@@ -32,8 +43,26 @@ export default function PaymentSuccessPage() {
     enabled: !!fundraiser?.schoolId,
   });
   
-  // Generate a random confirmation number
-  const confirmationCode = `SCH${Math.floor(100000 + Math.random() * 900000)}`;
+  // Fetch the order recorded for this payment. Card payments are recorded by the
+  // webhook, so keep polling until the order and its tickets appear, for a while.
+  // Cash taken by a student gets its tickets once the school confirms it, which can take days.
+  const orderQueryKey = [`/api/orders/lookup?${new URLSearchParams({ reference: reference || "", email: email || "" })}`];
+  const { data: order } = useQuery<OrderDetails>({
+    queryKey: orderQueryKey,
+    enabled: !!reference && !!email,
+    refetchInterval: (query) =>
+      query.state.data?.tickets.length ||
+      query.state.data?.status === "cash_pending" ||
+      lookupsMade(query.state) >= MAX_ORDER_LOOKUPS
+        ? false
+        : 3000,
+  });
+  const tickets = order?.tickets;
+  const awaitingCashConfirmation = order?.status === "cash_pending";
+  const lookingForTickets = !!reference && !!email && !tickets?.length && !awaitingCashConfirmation;
+  const stoppedLooking = lookupsMade(queryClient.getQueryState(orderQueryKey)) >= MAX_ORDER_LOOKUPS;
+  const waitingForTickets = lookingForTickets && !stoppedLooking;
+  const ticketsDelayed = lookingForTickets && stoppedLooking;
   
   return (
     <div className="container max-w-2xl mx-auto py-12">
@@ -50,10 +79,68 @@ export default function PaymentSuccessPage() {
         
         <CardContent className="space-y-6">
           <div className="rounded-lg bg-muted p-4 text-center">
-            <p className="text-sm text-muted-foreground">Confirmation Code</p>
-            <p className="text-xl font-mono font-semibold mt-1">{confirmationCode}</p>
+            <p className="text-sm text-muted-foreground">{order ? "Order Number" : "Payment Reference"}</p>
+            <p className="text-xl font-mono font-semibold mt-1 break-all">
+              {order?.orderNumber || reference || "Unavailable"}
+            </p>
           </div>
           
+          {order && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">Order Summary</h3>
+              {order.items.map((item) => (
+                <div key={item.id} className="flex justify-between text-sm">
+                  <span>{item.fundraiserName} × {item.quantity}</span>
+                  <span>{formatCurrency(item.amount / 100)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t pt-2 font-semibold">
+                <span>Total</span>
+                <span>{formatCurrency(order.totalAmount / 100)}</span>
+              </div>
+            </div>
+          )}
+          
+          {tickets && tickets.length > 0 ? (
+            <>
+              <Separator />
+              
+              <div className="space-y-3">
+                <h3 className="font-semibold">Your Tickets</h3>
+                <p className="text-sm text-muted-foreground">
+                  Show each code at the door. Every ticket admits one person.
+                </p>
+                
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {tickets.map((ticket, index) => (
+                    <div key={ticket.id} className="flex flex-col items-center rounded-lg border p-4">
+                      <QRCodeSVG value={ticket.code} size={160} />
+                      <p className="mt-3 text-sm font-medium">
+                        <Ticket className="mr-1 inline h-4 w-4" />
+                        {ticket.fundraiserName} · Ticket {index + 1}
+                      </p>
+                      <p className="mt-1 font-mono text-xs text-muted-foreground break-all">{ticket.code}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : waitingForTickets ? (
+            <div className="flex items-center justify-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Issuing your tickets...
+            </div>
+          ) : awaitingCashConfirmation ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Your tickets will be emailed to you once the school confirms your cash payment.
+            </p>
+          ) : ticketsDelayed ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Your tickets are taking longer than usual. They'll be emailed to {email} as soon as
+              they're issued, keep your payment reference in case you need to contact the school.
+            </p>
+          ) : null}
+          
           {fundraiser && (
             <>
               <Separator />
@@ -11,12 +11,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, paymentSuccessPath } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import DashboardLayout from "@/components/dashboard-layout";
 import { apiRequest } from "@/lib/queryClient";
+import { useCart, clearCart, checkoutItems } from "@/lib/cart";
 
 // Add PaystackPop type to global Window interface
 declare global {
@@ -52,7 +53,8 @@ export default function PaystackCheckoutPage() {
     email: string;
     phone?: string;
   } | null>(null);
-  const [cartItems, setCartItems] = useState<any[]>([]);
+  const { data: cart } = useCart();
+  const cartItems = checkoutItems(cart);
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
 
   // Load Paystack script
@@ -103,7 +105,6 @@ export default function PaystackCheckoutPage() {
     try {
       const amountStr = sessionStorage.getItem("cart_payment_amount");
       const customerInfoStr = sessionStorage.getItem("cart_customer_info");
-      const cartItemsStr = sessionStorage.getItem("cart_items");
       
       if (!amountStr || !customerInfoStr) {
         toast({
@@ -119,10 +120,6 @@ export default function PaystackCheckoutPage() {
       setAmount(parseFloat(amountStr));
       setCustomerInfo(JSON.parse(customerInfoStr));
       
-      if (cartItemsStr) {
-        setCartItems(JSON.parse(cartItemsStr));
-      }
-      
       setIsLoading(false);
     } catch (error) {
       console.error("Error retrieving payment info:", error);
@@ -136,23 +133,22 @@ export default function PaystackCheckoutPage() {
     }
   }, [toast]);
 
-  // Initialize Paystack when both script is loaded and data is available
+  // Initialize Paystack when the script is loaded and the payment information and cart are available
   useEffect(() => {
-    if (scriptLoaded && customerInfo && amount > 0 && !isInitialized && paymentStatus === "pending") {
+    if (scriptLoaded && customerInfo && cart && amount > 0 && !isInitialized && paymentStatus === "pending") {
       initializePaystack();
     }
-  }, [scriptLoaded, customerInfo, amount, isInitialized, paymentStatus]);
+  }, [scriptLoaded, customerInfo, cart, amount, isInitialized, paymentStatus]);
 
-  // Clear cart and payment info after successful payment and redirect to dashboard
-  const handlePaymentSuccess = () => {
+  // Clear cart and payment info after successful payment and redirect to the tickets
+  const handlePaymentSuccess = (reference: string) => {
     // Clear cart
-    localStorage.removeItem("fundraiser-cart");
+    clearCart().catch((error) => console.error("Error clearing cart:", error));
     
     // Clear payment session
     sessionStorage.removeItem("cart_payment_client_secret");
     sessionStorage.removeItem("cart_payment_amount");
     sessionStorage.removeItem("cart_customer_info");
-    sessionStorage.removeItem("cart_items");
     
     setPaymentStatus("success");
     
@@ -161,9 +157,9 @@ export default function PaystackCheckoutPage() {
       description: "Your order has been processed successfully.",
     });
     
-    // Redirect to student dashboard after a short delay to show the success message
+    // Redirect to the confirmation page after a short delay to show the success message
     setTimeout(() => {
-      window.location.href = "/student/dashboard";
+      window.location.href = paymentSuccessPath(reference, customerInfo?.email || "");
     }, 2000);
   };
   
@@ -186,7 +182,7 @@ export default function PaystackCheckoutPage() {
   };
 
   // Initialize Paystack payment
-  const initializePaystack = () => {
+  const initializePaystack = async () => {
     if (!customerInfo) return;
     setIsInitialized(true);
     
@@ -213,9 +209,18 @@ export default function PaystackCheckoutPage() {
     }
     
     try {
+      // Start the checkout on the server, which prices it and tracks it until it's paid
+      const checkoutResponse = await apiRequest("POST", "/api/paystack/initialize", {
+        items: cartItems,
+        customerInfo,
+        promoCode: sessionStorage.getItem("promo_code") || undefined
+      });
+      const checkout: { reference: string; amount: number } = await checkoutResponse.json();
+      
       console.log("Initializing Paystack checkout with:", {
         email: customerInfo.email,
-        amount: amount,
+        amount: checkout.amount,
+        reference: checkout.reference,
         metadata: {
           isCart: true,
           customerInfo: customerInfo,
@@ -226,7 +231,8 @@ export default function PaystackCheckoutPage() {
       const paystackHandler = window.PaystackPop.setup({
         key: paystackKey,
         email: customerInfo.email,
-        amount: amount * 100, // Convert to kobo
+        amount: checkout.amount, // Already in kobo
+        ref: checkout.reference,
         metadata: {
           isCart: true,
           customerInfo: customerInfo,
@@ -255,7 +261,7 @@ export default function PaystackCheckoutPage() {
               throw new Error(errorData.message || 'Payment verification failed');
             }
             
-            handlePaymentSuccess();
+            handlePaymentSuccess(response.reference);
           } catch (error: any) {
             console.error("Payment verification error:", error);
             handlePaymentError(new Error(error.message || 'Payment verification failed'));
@@ -2,9 +2,11 @@ import { useState, useEffect } from "react";
 import { useRoute } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Fundraiser, School } from "@shared/schema";
-import { ShoppingCart, CalendarIcon, MapPinIcon, SchoolIcon, InfoIcon, TicketIcon, Share2Icon } from "lucide-react";
+import { DonationProgress, FundraiserMode, FundraiserWithAvailability, ReferralEventType, ReferralEventTypeType, School } from "@shared/schema";
+import { ShoppingCart, CalendarIcon, MapPinIcon, SchoolIcon, InfoIcon, TicketIcon, Share2Icon, HeartIcon } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { addToCart } from "@/lib/cart";
+import { useToast } from "@/hooks/use-toast";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,25 +15,39 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import TicketTypeSelect, { defaultTicketTypeId } from "@/components/ticket-type-select";
+
+// Analytics only, the page works the same if logging fails
+function recordReferralEvent(code: string, type: ReferralEventTypeType) {
+  fetch(`/api/referrals/${encodeURIComponent(code)}/events`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type }),
+  }).catch((error) => console.error("Error recording referral:", error));
+}
 
 export default function PublicFundraiserPage() {
   const [_, params] = useRoute("/fundraiser/:id");
   const fundraiserId = params?.id ? parseInt(params.id) : 0;
   const [email, setEmail] = useState("");
+  const { toast } = useToast();
+  const [selectedTicketTypeId, setSelectedTicketTypeId] = useState<number | null>(null);
   
-  // Get referral ID from query string if it exists
-  const [referralId, setReferralId] = useState<number | null>(null);
+  // Get referral code from query string if it exists, and log the visit for the student who shared it
+  const [referralCode, setReferralCode] = useState<string | null>(null);
   
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const ref = urlParams.get('ref');
     if (ref) {
-      setReferralId(parseInt(ref));
+      setReferralCode(ref);
+      recordReferralEvent(ref, ReferralEventType.VISIT);
     }
   }, []);
   
   // Get fundraiser details
-  const { data: fundraiser, isLoading: isLoadingFundraiser } = useQuery<Fundraiser>({
+  const { data: fundraiser, isLoading: isLoadingFundraiser } = useQuery<FundraiserWithAvailability>({
     queryKey: [`/api/fundraisers/${fundraiserId}`],
   });
   
@@ -41,29 +57,42 @@ export default function PublicFundraiserPage() {
     enabled: !!fundraiser?.schoolId,
   });
   
+  const acceptsDonations = !!fundraiser && fundraiser.mode !== FundraiserMode.TICKETS;
+  const sellsTickets = !!fundraiser && fundraiser.mode !== FundraiserMode.DONATIONS;
+  
+  // Get donations against the goal when the fundraiser takes them
+  const { data: donationProgress } = useQuery<DonationProgress>({
+    queryKey: [`/api/fundraisers/${fundraiserId}/donations`],
+    enabled: acceptsDonations,
+  });
+  
   const isLoading = isLoadingFundraiser || isLoadingSchool;
+  const isSoldOut = fundraiser?.ticketsRemaining === 0;
+  const ticketTypes = fundraiser?.ticketTypes ?? [];
+  const ticketTypeId = selectedTicketTypeId ?? defaultTicketTypeId(ticketTypes);
+  const ticketType = ticketTypes.find((type) => type.id === ticketTypeId);
   
-  const addToCart = () => {
-    // Get existing cart from local storage
-    const existingCartJson = localStorage.getItem('fundraiser-cart');
-    let cart = existingCartJson ? JSON.parse(existingCartJson) : [];
+  const handleAddToCart = async () => {
+    if (referralCode) {
+      recordReferralEvent(referralCode, ReferralEventType.CART);
+    }
     
-    // Add new item with student reference if available
-    cart.push({
-      id: Date.now(), // Generate a unique ID
-      fundraiserId: fundraiserId,
-      name: fundraiser?.name || 'Fundraiser',
-      eventDate: fundraiser?.eventDate,
-      location: fundraiser?.location || 'Unknown',
-      quantity: 1,
-      price: 10, // Fixed price at $10 per ticket
-      studentId: referralId, // Include the referring student's ID
-      referral: 'external', // Mark as external referral
-      customerEmail: email || undefined // Include email if provided
-    });
+    try {
+      // Include the referring student's code
+      await addToCart({ fundraiserId, ticketTypeId: ticketType?.id, referralCode });
+    } catch (error: any) {
+      toast({
+        title: "Could not add to cart",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
     
-    // Save updated cart back to local storage
-    localStorage.setItem('fundraiser-cart', JSON.stringify(cart));
+    // Pre-fill the cart's contact details with the email given here
+    if (email) {
+      sessionStorage.setItem("cart_customer_email", email);
+    }
     
     // Navigate to cart page
     window.location.href = "/cart";
@@ -169,17 +198,66 @@ export default function PublicFundraiserPage() {
                   </div>
                 </div>
 
-                <div className="flex items-center space-x-2">
-                  <TicketIcon className="h-5 w-5 text-primary" />
-                  <div>
-                    <p className="text-sm font-medium">Ticket Price</p>
-                    <p className="text-sm text-muted-foreground font-medium">
-                      {formatCurrency(10)}
-                    </p>
+                {sellsTickets && (
+                  <div className="flex items-center space-x-2">
+                    <TicketIcon className="h-5 w-5 text-primary" />
+                    <div>
+                      <p className="text-sm font-medium">Ticket Price</p>
+                      <p className="text-sm text-muted-foreground font-medium">
+                        {formatCurrency((ticketType?.price ?? fundraiser.price) / 100)}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                )}
+
+                {sellsTickets && fundraiser.ticketsRemaining !== null && (
+                  <div className="flex items-center space-x-2">
+                    <TicketIcon className="h-5 w-5 text-primary" />
+                    <div>
+                      <p className="text-sm font-medium">Availability</p>
+                      <p className={isSoldOut ? "text-sm font-medium text-destructive" : "text-sm text-muted-foreground"}>
+                        {isSoldOut ? "Sold out" : `${fundraiser.ticketsRemaining} left`}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {donationProgress && (
+                <>
+                  <Separator />
+                  
+                  <div className="space-y-3">
+                    <div className="flex items-baseline justify-between">
+                      <p className="text-lg font-semibold">{formatCurrency(donationProgress.raised / 100)} raised</p>
+                      {donationProgress.goal && (
+                        <p className="text-sm text-muted-foreground">of {formatCurrency(donationProgress.goal / 100)} goal</p>
+                      )}
+                    </div>
+                    {donationProgress.goal && (
+                      <Progress value={Math.min(100, (donationProgress.raised / donationProgress.goal) * 100)} />
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {donationProgress.donorCount} {donationProgress.donorCount === 1 ? "donation" : "donations"}
+                    </p>
+                    
+                    {donationProgress.recentDonations.length > 0 && (
+                      <ul className="space-y-2">
+                        {donationProgress.recentDonations.map((donation) => (
+                          <li key={donation.id} className="text-sm">
+                            <span className="font-medium">{donation.donorName ?? "Anonymous"}</span>
+                            <span className="text-muted-foreground"> gave {formatCurrency(donation.amount / 100)}</span>
+                            {donation.message && (
+                              <p className="text-muted-foreground italic">"{donation.message}"</p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </>
+              )}
+
               <Separator />
 
               <div>
@@ -194,8 +272,29 @@ export default function PublicFundraiserPage() {
             </CardContent>
 
             <CardFooter className="flex flex-col space-y-4">
-              {fundraiser.isActive && (
+              {fundraiser.isActive && acceptsDonations && (
+                <Button
+                  className="w-full"
+                  variant={sellsTickets ? "outline" : "default"}
+                  onClick={() => window.location.href = `/donate/${fundraiserId}${referralCode ? `?ref=${referralCode}` : ""}`}
+                >
+                  <HeartIcon className="h-4 w-4 mr-2" />
+                  Donate
+                </Button>
+              )}
+              
+              {fundraiser.isActive && sellsTickets && !isSoldOut && (
                 <>
+                  {ticketTypes.length > 0 && (
+                    <div className="w-full">
+                      <Label className="mb-2 block">Ticket Type</Label>
+                      <TicketTypeSelect
+                        ticketTypes={ticketTypes}
+                        value={ticketTypeId}
+                        onChange={setSelectedTicketTypeId}
+                      />
+                    </div>
+                  )}
                   <div className="w-full">
                     <Label htmlFor="email" className="mb-2 block">Your Email (for ticket confirmation)</Label>
                     <Input 
@@ -209,7 +308,8 @@ export default function PublicFundraiserPage() {
                   </div>
                   <Button 
                     className="w-full bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary"
-                    onClick={addToCart}
+                    onClick={handleAddToCart}
+                    disabled={ticketTypes.length > 0 && !ticketType}
                   >
                     <ShoppingCart className="h-4 w-4 mr-2" />
                     Add to Cart
@@ -226,7 +326,16 @@ export default function PublicFundraiserPage() {
                 </div>
               )}
               
-              {referralId && (
+              {fundraiser.isActive && sellsTickets && isSoldOut && (
+                <div className="w-full p-4 rounded-md bg-muted text-center">
+                  <p className="font-medium">Sold out</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Every ticket for this event has been sold.
+                  </p>
+                </div>
+              )}
+              
+              {referralCode && (
                 <div className="text-center text-sm text-muted-foreground mt-2">
                   You are supporting a student with this purchase
                 </div>
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string().min(6, "Confirm password must be at least 6 characters"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordPageProps {
+  // A student a school imported choosing their first password, rather than a reset
+  activation?: boolean;
+}
+
+export default function ResetPasswordPage({ activation = false }: ResetPasswordPageProps) {
+  // The token from the emailed link
+  const token = new URLSearchParams(window.location.search).get("token");
+  const [error, setError] = useState<string | null>(token ? null : "This link is missing its token.");
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordFormValues) => {
+      const res = await fetch(activation ? "/api/activate-account" : "/api/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Could not reset your password");
+      }
+      return data;
+    },
+    onMutate: () => setError(null),
+    onError: (err: Error) => setError(err.message),
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{activation ? "Activate your account" : "Choose a new password"}</CardTitle>
+          <CardDescription>
+            {activation
+              ? "Choose the password you'll log in with. Activation links work once, for 2 weeks after they're sent."
+              : "Reset links work once, for an hour after they're sent."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {resetPasswordMutation.isSuccess ? (
+            <p className="text-sm text-muted-foreground">{resetPasswordMutation.data.message}</p>
+          ) : (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => resetPasswordMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Enter a new password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Enter it again" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {error && (
+                  <p className="text-sm text-destructive">
+                    {error}{" "}
+                    <Link href="/auth/forgot-password" className="underline">
+                      Request a new link
+                    </Link>
+                  </p>
+                )}
+                <Button type="submit" className="w-full" disabled={!token || resetPasswordMutation.isPending}>
+                  {resetPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {activation ? "Activate account" : "Reset password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-4 text-center text-sm">
+            <Link href="/auth" className="text-primary hover:underline">
+              Back to login
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import DashboardLayout from "@/components/dashboard-layout";
+import OrderTable from "@/components/order-table";
+
+export default function SchoolAbandonedCheckoutsPage() {
+  return (
+    <DashboardLayout title="Abandoned Carts" role="school">
+      <div className="mb-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold">Abandoned Carts</h1>
+          <p className="text-muted-foreground">
+            Checkouts for your school's fundraisers that were started but never paid for
+          </p>
+        </div>
+
+        <OrderTable scope="school" view="abandoned" />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { CashOrder } from "@shared/schema";
+
+import DashboardLayout from "@/components/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+interface ReconciliationResult {
+  reconciled: { id: number }[];
+  skipped: number[];
+}
+
+function cashTotal(order: CashOrder): number {
+  return order.items.reduce((sum, item) => sum + item.amount, 0);
+}
+
+export default function SchoolCashPaymentsPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [rejectingIds, setRejectingIds] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const { data: orders, isLoading } = useQuery<CashOrder[]>({
+    queryKey: ["/api/school/cash-payments"],
+  });
+
+  const onReconciled = (action: string) => (result: ReconciliationResult) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/school/cash-payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/school/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/school/sales-summary"] });
+    toast({
+      title: `Cash ${action}`,
+      description: result.skipped.length > 0
+        ? `${result.reconciled.length} orders ${action}, ${result.skipped.length} had already been reconciled`
+        : `${result.reconciled.length} orders ${action}`,
+    });
+    setSelectedIds([]);
+  };
+
+  const onReconcileError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: async (orderIds: number[]) => {
+      const res = await apiRequest("POST", "/api/school/cash-payments/confirm", { orderIds });
+      return (await res.json()) as ReconciliationResult;
+    },
+    onSuccess: onReconciled("confirmed"),
+    onError: onReconcileError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ orderIds, reason }: { orderIds: number[]; reason: string }) => {
+      const res = await apiRequest("POST", "/api/school/cash-payments/reject", { orderIds, reason });
+      return (await res.json()) as ReconciliationResult;
+    },
+    onSuccess: (result) => {
+      onReconciled("rejected")(result);
+      setRejectingIds(null);
+      setRejectReason("");
+    },
+    onError: onReconcileError,
+  });
+
+  const pendingOrders = orders || [];
+  const allSelected = pendingOrders.length > 0 && selectedIds.length === pendingOrders.length;
+  const selectedTotal = pendingOrders
+    .filter((order) => selectedIds.includes(order.id))
+    .reduce((sum, order) => sum + cashTotal(order), 0);
+  const isReconciling = confirmMutation.isPending || rejectMutation.isPending;
+
+  const toggleSelected = (orderId: number, checked: boolean) => {
+    setSelectedIds((ids) => checked ? [...ids, orderId] : ids.filter((id) => id !== orderId));
+  };
+
+  return (
+    <DashboardLayout title="Cash Payments" role="school">
+      <div className="mb-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Cash Payments</h1>
+            <p className="text-muted-foreground">
+              Confirm the cash students have handed in. Sales only count once their cash is confirmed
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={selectedIds.length === 0 || isReconciling}
+              onClick={() => setRejectingIds(selectedIds)}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Reject Selected
+            </Button>
+            <Button
+              disabled={selectedIds.length === 0 || isReconciling}
+              onClick={() => confirmMutation.mutate(selectedIds)}
+            >
+              {confirmMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 h-4 w-4" />
+              )}
+              Confirm Selected{selectedIds.length > 0 ? ` (${formatCurrency(selectedTotal / 100)})` : ""}
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : pendingOrders.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? pendingOrders.map((order) => order.id) : [])}
+                      aria-label="Select all"
+                    />
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Taken By
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Buyer
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tickets
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pendingOrders.map((order) => (
+                  <tr key={order.id}>
+                    <td className="px-6 py-4">
+                      <Checkbox
+                        checked={selectedIds.includes(order.id)}
+                        onCheckedChange={(checked) => toggleSelected(order.id, checked === true)}
+                        aria-label={`Select order ${order.orderNumber}`}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{order.recordedByName || "Unknown"}</div>
+                      <div className="text-xs font-mono text-gray-500">{order.orderNumber}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{order.customerName}</div>
+                      <div className="text-sm text-gray-500">{order.customerEmail}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {order.items.map((item) => (
+                        <div key={item.id}>{item.fundraiserName}{item.ticketTypeName && ` (${item.ticketTypeName})`} × {item.quantity}</div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(cashTotal(order) / 100)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(order.createdAt), "MMM dd, yyyy HH:mm")}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={isReconciling}
+                          onClick={() => confirmMutation.mutate([order.id])}
+                        >
+                          Confirm
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isReconciling}
+                          onClick={() => setRejectingIds([order.id])}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">No cash waiting to be confirmed</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={!!rejectingIds} onOpenChange={(open) => !open && setRejectingIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Reject cash for {rejectingIds?.length === 1 ? "this order" : `${rejectingIds?.length} orders`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Rejected sales never count toward your totals and no tickets are issued for them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="What didn't add up? e.g. cash was never handed in"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rejectMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!rejectReason.trim() || rejectMutation.isPending}
+              onClick={(e) => {
+                // Keep the dialog open until the rejection has gone through
+                e.preventDefault();
+                if (rejectingIds) {
+                  rejectMutation.mutate({ orderIds: rejectingIds, reason: rejectReason });
+                }
+              }}
+            >
+              {rejectMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
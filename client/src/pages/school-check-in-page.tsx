@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle, XCircle, Camera, CameraOff, ChevronLeft, Loader2 } from "lucide-react";
+import { Fundraiser, CheckInSummary } from "@shared/schema";
+
+import DashboardLayout from "@/components/dashboard-layout";
+import TicketScanner from "@/components/ticket-scanner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+// Outcome of a single scan, shown in the recent scans list
+interface ScanResult {
+  code: string;
+  success: boolean;
+  message: string;
+  at: Date;
+}
+
+export default function SchoolCheckInPage() {
+  const { id } = useParams();
+  const fundraiserId = parseInt(id!);
+
+  const [manualCode, setManualCode] = useState("");
+  const [cameraOn, setCameraOn] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [results, setResults] = useState<ScanResult[]>([]);
+
+  const { data: fundraiser } = useQuery<Fundraiser>({
+    queryKey: [`/api/fundraisers/${fundraiserId}`],
+    enabled: !isNaN(fundraiserId),
+  });
+
+  // Poll so counts stay live when several staff members scan at different doors
+  const summaryKey = `/api/school/fundraisers/${fundraiserId}/check-in-summary`;
+  const { data: summary } = useQuery<CheckInSummary>({
+    queryKey: [summaryKey],
+    enabled: !isNaN(fundraiserId),
+    refetchInterval: 5000,
+  });
+
+  const checkIn = async (code: string) => {
+    if (!code.trim()) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/school/fundraisers/${fundraiserId}/check-in`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code }),
+        credentials: "include",
+      });
+      const data = await response.json();
+
+      let message = data.message || "Check-in failed";
+      if (response.status === 409 && data.redeemedAt) {
+        // Show the time in the door staff's own timezone
+        message = `Already checked in at ${format(new Date(data.redeemedAt), "HH:mm")}`;
+      }
+
+      setResults((previous) => [
+        { code, success: response.ok, message, at: new Date() },
+        ...previous.slice(0, 19),
+      ]);
+
+      if (response.ok) {
+        queryClient.setQueryData([summaryKey], data.summary);
+        queryClient.invalidateQueries({ queryKey: ["/api/school/check-in-summary"] });
+      }
+    } catch (error: any) {
+      console.error("Check-in error:", error);
+      setResults((previous) => [
+        { code, success: false, message: error.message || "Check-in failed", at: new Date() },
+        ...previous.slice(0, 19),
+      ]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await checkIn(manualCode);
+    setManualCode("");
+  };
+
+  const latest = results[0];
+  const sold = summary?.sold ?? 0;
+  const admitted = summary?.admitted ?? 0;
+
+  return (
+    <DashboardLayout title="Door Check-in" role="school">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Link to="/school/fundraisers">
+          <Button variant="ghost" className="justify-start p-0">
+            <ChevronLeft className="mr-2 h-4 w-4" />
+            Back to Fundraisers
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{fundraiser?.name || "Loading..."}</CardTitle>
+            <CardDescription>
+              {fundraiser ? `${format(new Date(fundraiser.eventDate), "PPP")} at ${fundraiser.location}` : ""}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Admitted</span>
+              <span className="font-semibold">{admitted} of {sold} sold</span>
+            </div>
+            <Progress value={sold > 0 ? (admitted / sold) * 100 : 0} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Scan Tickets</CardTitle>
+              <CardDescription>Scan the QR code or type the code printed below it</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setCameraOn(!cameraOn)}>
+              {cameraOn ? (
+                <>
+                  <CameraOff className="mr-2 h-4 w-4" />
+                  Stop Camera
+                </>
+              ) : (
+                <>
+                  <Camera className="mr-2 h-4 w-4" />
+                  Start Camera
+                </>
+              )}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {cameraOn && <TicketScanner onScan={checkIn} />}
+
+            <form onSubmit={handleManualSubmit} className="flex gap-2">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="Ticket code"
+                className="font-mono uppercase"
+                autoComplete="off"
+              />
+              <Button type="submit" disabled={isSubmitting || !manualCode.trim()}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Check In"}
+              </Button>
+            </form>
+
+            {latest && (
+              <div
+                className={cn(
+                  "flex items-center rounded-lg p-4 text-lg font-semibold",
+                  latest.success ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                )}
+              >
+                {latest.success ? (
+                  <CheckCircle className="mr-3 h-8 w-8" />
+                ) : (
+                  <XCircle className="mr-3 h-8 w-8" />
+                )}
+                {latest.message}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {results.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Scans</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {results.map((result, index) => (
+                  <li key={index} className="flex items-center justify-between border-b pb-2">
+                    <span className="font-mono text-xs">{result.code}</span>
+                    <span className={result.success ? "text-green-700" : "text-red-700"}>
+                      {result.message} · {format(result.at, "HH:mm:ss")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -9,22 +9,45 @@ import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
 import { Loader2, Search, MessageCircle, Ticket, BanknoteIcon, Users } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { GoalProgress, StudentGroupKind, StudentGroupKindType, StudentGroupSales, TicketTypeSales } from "@shared/schema";
+import GoalProgressBar from "@/components/goal-progress-bar";
+import { GROUP_KIND_LABELS } from "@/components/student-group-select";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface SalesSummary {
+  totalAmount: number;
+  totalTickets: number;
+  studentCount: number;
+  ticketTypes: TicketTypeSales[];
+  groupSales: StudentGroupSales[];
+}
 
 export default function SchoolDashboard() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [groupKind, setGroupKind] = useState<StudentGroupKindType>(StudentGroupKind.GRADE);
   const { data: userInfo, isLoading } = useQuery({
     queryKey: ["/api/user/info"],
   });
   
-  const { data: salesSummary, isLoading: isLoadingSales } = useQuery({
+  const { data: salesSummary, isLoading: isLoadingSales } = useQuery<SalesSummary>({
     queryKey: ["/api/school/sales-summary"],
     enabled: !!userInfo
   });
 
+  const { data: goalProgress } = useQuery<GoalProgress[]>({
+    queryKey: ["/api/school/goal-progress"],
+    enabled: !!userInfo
+  });
+
   const school = userInfo?.school?.school;
   const studentCount = userInfo?.school?.studentCount || 0;
-  const sales = salesSummary || { totalAmount: 0, totalTickets: 0, studentCount: 0 };
+  const sales = salesSummary || { totalAmount: 0, totalTickets: 0, studentCount: 0, ticketTypes: [], groupSales: [] };
+  const hasTicketTypes = sales.ticketTypes.some((row) => row.ticketTypeId !== null);
+  // Only worth breaking down once some sales came from students in a grade, class or house
+  const hasGroupSales = sales.groupSales.some((row) => row.name !== null);
+  const groupSales = sales.groupSales.filter((row) => row.kind === groupKind);
+  const fundraiserGoals = (goalProgress || []).filter((progress) => progress.goal !== null);
 
   if (isLoading) {
     return (
@@ -86,6 +109,117 @@ export default function SchoolDashboard() {
         </Card>
       </div>
       
+      {/* Fundraiser Goals */}
+      {fundraiserGoals.length > 0 && (
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Fundraiser Goals</h2>
+            <div className="space-y-4">
+              {fundraiserGoals.map((progress) => (
+                <GoalProgressBar
+                  key={progress.fundraiserId}
+                  label={progress.fundraiserName}
+                  raised={progress.raised}
+                  goal={progress.goal!}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
+      {/* Sales by Ticket Type */}
+      {hasTicketTypes && (
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Sales by Ticket Type</h2>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fundraiser
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ticket Type
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tickets
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sales.ticketTypes.map((row) => (
+                  <tr key={`${row.fundraiserId}-${row.ticketTypeId}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.fundraiserName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.ticketTypeName || "Standard"}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.totalTickets}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(row.totalAmount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+      
+      {/* Sales by Grade, Class or House */}
+      {hasGroupSales && (
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Sales by {GROUP_KIND_LABELS[groupKind]}</h2>
+              <Select value={groupKind} onValueChange={(value) => setGroupKind(value as StudentGroupKindType)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(StudentGroupKind).map((kind) => (
+                    <SelectItem key={kind} value={kind}>{GROUP_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {GROUP_KIND_LABELS[groupKind]}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Students Selling
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tickets
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Raised
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {groupSales.map((row) => (
+                  <tr key={row.name ?? "none"}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {row.name ?? `No ${GROUP_KIND_LABELS[groupKind].toLowerCase()}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.studentCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.totalTickets}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(row.totalAmount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* School Information */}
       <Card className="mb-8">
         <CardContent className="pt-6">
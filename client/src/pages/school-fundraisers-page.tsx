@@ -3,8 +3,11 @@ import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/dashboard-layout";
 import FundraiserTable from "@/components/fundraiser-table";
 import CreateFundraiserForm from "@/components/create-fundraiser-form";
+import LeaderboardTable from "@/components/leaderboard-table";
+import ReferralFunnelTable from "@/components/referral-funnel-table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CalendarIcon, MapPinIcon, UsersIcon } from "lucide-react";
+import { Fundraiser } from "@shared/schema";
 
 export default function SchoolFundraisersPage() {
   const { user } = useAuth();
@@ -13,6 +16,10 @@ export default function SchoolFundraisersPage() {
   const { data: userInfo } = useQuery({
     queryKey: ["/api/user/info"],
   });
+  
+  const { data: fundraisers } = useQuery<Fundraiser[]>({
+    queryKey: ["/api/school/fundraisers"],
+  });
 
   return (
     <DashboardLayout title="Fundraising Events" role="school">
@@ -81,6 +88,16 @@ export default function SchoolFundraisersPage() {
         {/* Fundraisers Table */}
         <FundraiserTable />
       </div>
+      
+      {/* Student Leaderboard */}
+      <div className="mb-8">
+        <LeaderboardTable endpoint="/api/school/leaderboard" fundraisers={fundraisers || []} />
+      </div>
+      
+      {/* Referral link funnels */}
+      <div className="mb-8">
+        <ReferralFunnelTable endpoint="/api/school/referral-funnels" fundraisers={fundraisers || []} />
+      </div>
     </DashboardLayout>
   );
 }
\ No newline at end of file
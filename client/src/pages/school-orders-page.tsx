@@ -0,0 +1,19 @@
+import DashboardLayout from "@/components/dashboard-layout";
+import OrderTable from "@/components/order-table";
+
+export default function SchoolOrdersPage() {
+  return (
+    <DashboardLayout title="Orders" role="school">
+      <div className="mb-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold">Orders</h1>
+          <p className="text-muted-foreground">
+            Ticket orders placed for your school's fundraisers
+          </p>
+        </div>
+
+        <OrderTable scope="school" />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus } from "lucide-react";
+import { DiscountType, Fundraiser, PromoCode, PromoCodeWithRedemptions } from "@shared/schema";
+
+import DashboardLayout from "@/components/dashboard-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+interface PromoCodeForm {
+  code: string;
+  discountType: string;
+  discountValue: string;
+  fundraiserId: string;
+  maxRedemptions: string;
+  startsAt: string;
+  expiresAt: string;
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: "",
+  discountType: DiscountType.PERCENTAGE,
+  discountValue: "",
+  fundraiserId: "all",
+  maxRedemptions: "",
+  startsAt: "",
+  expiresAt: "",
+};
+
+function describeDiscount(promoCode: PromoCode): string {
+  return promoCode.discountType === DiscountType.PERCENTAGE
+    ? `${promoCode.discountValue}% off`
+    : `${formatCurrency(promoCode.discountValue / 100)} off`;
+}
+
+function describeWindow(promoCode: PromoCode): string {
+  if (!promoCode.startsAt && !promoCode.expiresAt) {
+    return "Always";
+  }
+  const from = promoCode.startsAt ? format(new Date(promoCode.startsAt), "MMM dd, yyyy HH:mm") : "Now";
+  const until = promoCode.expiresAt ? format(new Date(promoCode.expiresAt), "MMM dd, yyyy HH:mm") : "no end";
+  return `${from} – ${until}`;
+}
+
+// The promo code as the API expects it, fixed discounts in cents and dates as ISO strings
+function toPayload(form: PromoCodeForm) {
+  const value = parseFloat(form.discountValue);
+  return {
+    code: form.code.trim(),
+    discountType: form.discountType,
+    discountValue: form.discountType === DiscountType.FIXED ? Math.round(value * 100) : value,
+    fundraiserId: form.fundraiserId === "all" ? null : parseInt(form.fundraiserId, 10),
+    maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions, 10) : null,
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+  };
+}
+
+export default function SchoolPromoCodesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<PromoCodeForm>(EMPTY_FORM);
+
+  const { data: promoCodes, isLoading } = useQuery<PromoCodeWithRedemptions[]>({
+    queryKey: ["/api/school/promo-codes"],
+  });
+
+  const { data: fundraisers } = useQuery<Fundraiser[]>({
+    queryKey: ["/api/school/fundraisers"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: PromoCodeForm) => {
+      const res = await apiRequest("POST", "/api/school/promo-codes", toPayload(values));
+      return (await res.json()) as PromoCode;
+    },
+    onSuccess: (promoCode) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school/promo-codes"] });
+      toast({
+        title: "Promo code created",
+        description: `${promoCode.code} can now be used at checkout`,
+      });
+      setIsCreating(false);
+      setForm(EMPTY_FORM);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/school/promo-codes/${id}`, { isActive });
+      return (await res.json()) as PromoCode;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/school/promo-codes"] });
+    },
+    onError,
+  });
+
+  const setField = (field: keyof PromoCodeForm) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const statusFor = (promoCode: PromoCodeWithRedemptions) => {
+    const now = new Date();
+    if (!promoCode.isActive) {
+      return <Badge variant="secondary">Inactive</Badge>;
+    }
+    if (promoCode.expiresAt && new Date(promoCode.expiresAt) <= now) {
+      return <Badge variant="secondary">Expired</Badge>;
+    }
+    if (promoCode.maxRedemptions !== null && promoCode.redemptions >= promoCode.maxRedemptions) {
+      return <Badge variant="secondary">Used up</Badge>;
+    }
+    if (promoCode.startsAt && new Date(promoCode.startsAt) > now) {
+      return <Badge variant="outline">Scheduled</Badge>;
+    }
+    return <Badge>Active</Badge>;
+  };
+
+  return (
+    <DashboardLayout title="Promo Codes" role="school">
+      <div className="mb-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Promo Codes</h1>
+            <p className="text-muted-foreground">
+              Hand out discount codes for early birds, families or staff and see how often they are used
+            </p>
+          </div>
+
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Promo Code
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : promoCodes && promoCodes.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Applies To
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Redemptions
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount Given
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Valid
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {promoCodes.map((promoCode) => (
+                  <tr key={promoCode.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-mono font-medium text-gray-900">{promoCode.code}</div>
+                      <div className="text-sm text-gray-500">{describeDiscount(promoCode)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {promoCode.fundraiserName || "All fundraisers"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {promoCode.redemptions}
+                      {promoCode.maxRedemptions !== null && ` / ${promoCode.maxRedemptions}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(promoCode.discountTotal / 100)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {describeWindow(promoCode)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {statusFor(promoCode)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={toggleMutation.isPending}
+                        onClick={() => toggleMutation.mutate({ id: promoCode.id, isActive: !promoCode.isActive })}
+                      >
+                        {promoCode.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">No promo codes yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Promo Code</DialogTitle>
+            <DialogDescription>
+              Buyers enter the code at checkout. The discount can't be changed once the code is created
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                placeholder="EARLYBIRD"
+                value={form.code}
+                onChange={(e) => setField("code")(e.target.value.toUpperCase())}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Discount Type</Label>
+                <Select value={form.discountType} onValueChange={setField("discountType")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DiscountType.PERCENTAGE}>Percentage</SelectItem>
+                    <SelectItem value={DiscountType.FIXED}>Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discountValue">
+                  {form.discountType === DiscountType.PERCENTAGE ? "Discount (%)" : "Discount ($)"}
+                </Label>
+                <Input
+                  id="discountValue"
+                  type="number"
+                  min={form.discountType === DiscountType.PERCENTAGE ? "1" : "0.01"}
+                  max={form.discountType === DiscountType.PERCENTAGE ? "99" : undefined}
+                  step={form.discountType === DiscountType.PERCENTAGE ? "1" : "0.01"}
+                  value={form.discountValue}
+                  onChange={(e) => setField("discountValue")(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={form.fundraiserId} onValueChange={setField("fundraiserId")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All fundraisers</SelectItem>
+                  {fundraisers?.map((fundraiser) => (
+                    <SelectItem key={fundraiser.id} value={fundraiser.id.toString()}>
+                      {fundraiser.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxRedemptions">Usage Limit</Label>
+              <Input
+                id="maxRedemptions"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Unlimited"
+                value={form.maxRedemptions}
+                onChange={(e) => setField("maxRedemptions")(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setField("startsAt")(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expiresAt">Expires</Label>
+                <Input
+                  id="expiresAt"
+                  type="datetime-local"
+                  value={form.expiresAt}
+                  onChange={(e) => setField("expiresAt")(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
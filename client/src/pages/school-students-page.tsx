@@ -3,6 +3,10 @@ import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/dashboard-layout";
 import StudentTable from "@/components/student-table";
 import MassNotificationForm from "@/components/mass-notification-form";
+import InvitesCard from "@/components/invites-card";
+import JoinCodeCard from "@/components/join-code-card";
+import StudentImportDialog from "@/components/student-import-dialog";
+import StudentGroupsCard from "@/components/student-groups-card";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
 
@@ -64,16 +68,32 @@ export default function SchoolStudentsPage() {
         </Card>
       </div>
       
+      {/* Ways for students to join */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <JoinCodeCard />
+        <InvitesCard
+          title="Invite Students"
+          description="Each student gets an emailed link to register, which works for a week"
+        />
+      </div>
+
+      <div className="mb-8">
+        <StudentGroupsCard />
+      </div>
+
       {/* Students List */}
       <div>
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-bold text-gray-900">All Students</h2>
           {school && (
-            <MassNotificationForm 
-              schoolId={school.id}
-              schoolName={school.name}
-              triggerLabel="Notify All Students"
-            />
+            <div className="flex gap-2">
+              <StudentImportDialog />
+              <MassNotificationForm 
+                schoolId={school.id}
+                schoolName={school.name}
+                triggerLabel="Notify All Students"
+              />
+            </div>
           )}
         </div>
         
@@ -3,12 +3,27 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import DashboardLayout from "@/components/dashboard-layout";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Ticket, BanknoteIcon, BarChart, PlusCircle } from "lucide-react";
+import { Loader2, Ticket, BanknoteIcon, BarChart, PlusCircle, Hourglass, HeartIcon } from "lucide-react";
 import FundraiserCardGrid from "@/components/fundraiser-card-grid";
 import PastFundraiserCardGrid from "@/components/past-fundraiser-card-grid";
 import { formatCurrency } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { GoalProgressBars } from "@/components/goal-progress-bar";
+import LeaderboardTable from "@/components/leaderboard-table";
+import ReferralFunnelTable from "@/components/referral-funnel-table";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { FundraiserWithAvailability, GoalProgress } from "@shared/schema";
+
+interface SalesSummary {
+  totalAmount: number;
+  totalTickets: number;
+  pendingCashAmount: number; // Cash not yet confirmed by the school
+  pendingCashTickets: number;
+  donationAmount: number; // Completed donations from the student's links
+  donationCount: number;
+}
 
 export default function StudentDashboard() {
   const [isCreatingTestPurchase, setIsCreatingTestPurchase] = useState(false);
@@ -24,21 +39,51 @@ export default function StudentDashboard() {
     enabled: !!userInfo
   });
   
-  const { data: salesSummary, isLoading: isLoadingSales } = useQuery({
+  const { data: salesSummary, isLoading: isLoadingSales } = useQuery<SalesSummary>({
     queryKey: ["/api/student/sales-summary"],
     enabled: !!userInfo
   });
   
+  const { data: goalProgress } = useQuery<GoalProgress[]>({
+    queryKey: ["/api/student/goal-progress"],
+    enabled: !!userInfo
+  });
+  
   const { data: ticketPurchases, isLoading: isLoadingPurchases } = useQuery({
     queryKey: ["/api/student/ticket-purchases"],
     enabled: !!userInfo
   });
 
-  const { data: fundraisers, isLoading: isLoadingFundraisers } = useQuery({
+  const { data: fundraisers, isLoading: isLoadingFundraisers } = useQuery<FundraiserWithAvailability[]>({
     queryKey: ["/api/student/fundraisers"],
     enabled: !!userInfo
   });
   
+  // Whether other students see this student's name, returned with the school-wide leaderboard
+  const { data: leaderboard } = useQuery<{ showNameOnLeaderboard: boolean }>({
+    queryKey: ["/api/student/leaderboard"],
+    enabled: !!userInfo
+  });
+  
+  const leaderboardPreferencesMutation = useMutation({
+    mutationFn: async (showNameOnLeaderboard: boolean) => {
+      const response = await apiRequest("PATCH", "/api/student/leaderboard-preferences", { showNameOnLeaderboard });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/student/leaderboard"),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update leaderboard preferences: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Create test ticket purchase mutation
   const createTestPurchaseMutation = useMutation({
     mutationFn: async () => {
@@ -110,15 +155,16 @@ export default function StudentDashboard() {
   }
   
   // Default values to avoid null/undefined errors
-  const sales = salesSummary || { totalAmount: 0, totalTickets: 0 };
+  const sales = salesSummary || { totalAmount: 0, totalTickets: 0, pendingCashAmount: 0, pendingCashTickets: 0, donationAmount: 0, donationCount: 0 };
   const purchases = ticketPurchases || [];
   const userSchool = schoolData || { name: "School Not Found", address: "" };
   const schoolFundraisers = fundraisers || [];
+  const goals = (goalProgress || []).filter((progress) => progress.studentGoal !== null || progress.goal !== null);
 
   return (
     <DashboardLayout title="Student Dashboard" role="student">
       {/* Ticket Sales Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 mb-8">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
@@ -163,8 +209,75 @@ export default function StudentDashboard() {
             </p>
           </CardContent>
         </Card>
+        
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Cash Awaiting Confirmation
+            </CardTitle>
+            <Hourglass className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(sales.pendingCashAmount)}</div>
+            <p className="text-xs text-muted-foreground">
+              {sales.pendingCashTickets} tickets, counted once your school confirms the cash was handed in
+            </p>
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Donations Raised
+            </CardTitle>
+            <HeartIcon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(sales.donationAmount)}</div>
+            <p className="text-xs text-muted-foreground">
+              From {sales.donationCount} donations made through your links
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Goal Progress */}
+      {goals.length > 0 && (
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">My Goals</h2>
+            <div className="space-y-6">
+              {goals.map((progress) => (
+                <div key={progress.fundraiserId}>
+                  <h3 className="text-sm font-medium mb-2">{progress.fundraiserName}</h3>
+                  <GoalProgressBars progress={progress} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Leaderboard */}
+      <LeaderboardTable
+        endpoint="/api/student/leaderboard"
+        fundraisers={schoolFundraisers}
+        action={
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="show-name"
+              checked={leaderboard?.showNameOnLeaderboard ?? true}
+              onCheckedChange={(checked) => leaderboardPreferencesMutation.mutate(checked)}
+              disabled={leaderboardPreferencesMutation.isPending}
+            />
+            <Label htmlFor="show-name" className="text-sm font-normal">Show my name</Label>
+          </div>
+        }
+      />
+
+      {/* Referral link funnels */}
+      <ReferralFunnelTable endpoint="/api/student/referral-funnels" />
+
       {/* School Information Card */}
       <Card className="mb-8">
         <CardContent className="pt-6">
@@ -298,6 +411,7 @@ export default function StudentDashboard() {
                     <th scope="col" className="px-6 py-3">Tickets</th>
                     <th scope="col" className="px-6 py-3">Amount</th>
                     <th scope="col" className="px-6 py-3">Date</th>
+                    <th scope="col" className="px-6 py-3">Status</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -318,6 +432,11 @@ export default function StudentDashboard() {
                       <td className="px-6 py-4">
                         {new Date(purchase.createdAt).toLocaleDateString()}
                       </td>
+                      <td className="px-6 py-4 capitalize">
+                        {purchase.paymentStatus === "cash_pending"
+                          ? "Cash awaiting confirmation"
+                          : (purchase.paymentStatus || "completed").replace(/_/g, " ")}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  // The token from the emailed link
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/verify-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Could not verify your email address");
+      }
+      return data as { message: string };
+    },
+    onSuccess: () => {
+      // A logged-in user's verification banner goes away
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Links are single use, so verify once when the page opens
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate();
+    }
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Email verification</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              <span>This link is missing its verification token.</span>
+            </div>
+          ) : verifyMutation.isSuccess ? (
+            <div className="flex items-center gap-2 text-green-600">
+              <CheckCircle className="h-5 w-5" />
+              <span>{verifyMutation.data.message}</span>
+            </div>
+          ) : verifyMutation.isError ? (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              <span>
+                {verifyMutation.error.message}. Log in to have a new link sent.
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span>Verifying your email address...</span>
+            </div>
+          )}
+          <div className="mt-4 text-center text-sm">
+            <Link href="/auth" className="text-primary hover:underline">
+              Continue to SchoolRaise
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
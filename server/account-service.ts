@@ -0,0 +1,196 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { sendEmailInBackground } from "./email-service";
+import { AuthTokenPurpose, type AuthTokenPurposeType, type User } from "@shared/schema";
+import { HttpError } from "./http-error";
+
+// How long an emailed link works for
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60; // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 1000 * 60 * 60 * 48; // 2 days
+const ACCOUNT_ACTIVATION_TTL_MS = 1000 * 60 * 60 * 24 * 14; // 2 weeks
+
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Raised when an account action can't be completed
+ */
+export class AccountError extends HttpError {}
+
+// Emailed tokens are stored hashed, so a leaked table can't be used to take over accounts
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Make a token for the user, replacing any earlier link for the same purpose that hasn't been used
+async function issueToken(user: User, purpose: AuthTokenPurposeType, ttlMs: number): Promise<string> {
+  await storage.deleteUnusedAuthTokens(user.id, purpose);
+
+  const token = randomBytes(32).toString("hex");
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+  return token;
+}
+
+// Use up a token from an emailed link, returning the user it was issued to
+async function consumeToken(token: unknown, purpose: AuthTokenPurposeType): Promise<User> {
+  const consumed = typeof token === "string" && token
+    ? await storage.consumeAuthToken(hashToken(token), purpose)
+    : undefined;
+  const user = consumed ? await storage.getUser(consumed.userId) : undefined;
+  if (!user) {
+    throw new AccountError("This link is invalid or has expired");
+  }
+  return user;
+}
+
+function deliver(to: string, subject: string, text: string) {
+  sendEmailInBackground({ to, subject, text });
+}
+
+/**
+ * Check whether a user has confirmed they own their email address
+ */
+export function isEmailVerified(user: Pick<User, "emailVerifiedAt">): boolean {
+  return user.emailVerifiedAt !== null;
+}
+
+/**
+ * Check a new password is acceptable before it's hashed
+ *
+ * @throws AccountError if it's too short
+ */
+export function checkNewPassword(password: unknown): asserts password is string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+/**
+ * Email a user a link to verify their email address, any earlier link stops working
+ *
+ * @param user - The user to verify
+ * @param appUrl - Where the app is served from, the link points there
+ * @throws AccountError if the address is already verified
+ */
+export async function sendVerificationEmail(user: User, appUrl: string): Promise<void> {
+  if (isEmailVerified(user)) {
+    throw new AccountError("Your email address is already verified");
+  }
+
+  const token = await issueToken(user, AuthTokenPurpose.EMAIL_VERIFICATION, EMAIL_VERIFICATION_TTL_MS);
+  deliver(user.email, "Verify your email address", [
+    `Hi ${user.username}, please confirm this is your email address by opening the link below:`,
+    `${appUrl}/auth/verify-email?token=${token}`,
+    "The link works for 2 days."
+  ].join("\n"));
+}
+
+/**
+ * Mark a user's email address as verified with the token from their verification link
+ *
+ * @param token - The token from the link
+ * @returns The verified user
+ * @throws AccountError if the token is unknown, used or expired
+ */
+export async function verifyEmail(token: unknown): Promise<User> {
+  const user = await consumeToken(token, AuthTokenPurpose.EMAIL_VERIFICATION);
+  if (isEmailVerified(user)) {
+    return user;
+  }
+  return (await storage.updateUser(user.id, { emailVerifiedAt: new Date() }))!;
+}
+
+/**
+ * Email a link to choose a new password. Nothing is sent for an unknown address, but the
+ * caller can't tell, so the endpoint doesn't reveal who has an account
+ *
+ * @param email - The address the user entered
+ * @param appUrl - Where the app is served from, the link points there
+ */
+export async function requestPasswordReset(email: unknown, appUrl: string): Promise<void> {
+  const user = typeof email === "string" && email.trim()
+    ? await storage.getUserByEmail(email.trim())
+    : undefined;
+  if (!user) {
+    console.log("Password reset requested for an unknown email address");
+    return;
+  }
+
+  const token = await issueToken(user, AuthTokenPurpose.PASSWORD_RESET, PASSWORD_RESET_TTL_MS);
+  deliver(user.email, "Reset your password", [
+    `Hi ${user.username}, a password reset was requested for your account.`,
+    `Choose a new password here: ${appUrl}/auth/reset-password?token=${token}`,
+    "The link works for an hour. If you didn't ask for this, you can ignore this email."
+  ].join("\n"));
+}
+
+/**
+ * Set a new password with the token from a password reset link. Following the link also
+ * proves the user owns their email address, so it's marked as verified. The user is signed
+ * out everywhere, whoever knew the old password loses their session too
+ *
+ * @param token - The token from the link
+ * @param hashedPassword - The new password, already hashed
+ * @returns The updated user
+ * @throws AccountError if the token is unknown, used or expired
+ */
+export async function resetPassword(token: unknown, hashedPassword: string): Promise<User> {
+  const user = await consumeToken(token, AuthTokenPurpose.PASSWORD_RESET);
+  const updated = await storage.updateUser(user.id, {
+    password: hashedPassword,
+    emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+  });
+  await storage.deleteSessionsByUserId(user.id);
+  console.log(`Password reset for user ${user.id}`);
+  return updated!;
+}
+
+/**
+ * Email a student a school imported a link to choose their password and start using their account
+ *
+ * @param user - The imported student's user
+ * @param schoolName - The school that imported them
+ * @param appUrl - Where the app is served from, the link points there
+ */
+export async function sendActivationEmail(user: User, schoolName: string, appUrl: string): Promise<void> {
+  const token = await issueToken(user, AuthTokenPurpose.ACCOUNT_ACTIVATION, ACCOUNT_ACTIVATION_TTL_MS);
+  deliver(user.email, `Your ${schoolName} fundraising account`, [
+    `Hi ${user.username}, ${schoolName} has set up a SchoolRaise account for you.`,
+    `Choose a password to start using it: ${appUrl}/auth/activate?token=${token}`,
+    "The link works for 2 weeks."
+  ].join("\n"));
+}
+
+/**
+ * Set the first password of an imported student with the token from their activation link,
+ * which also verifies their email address
+ *
+ * @param token - The token from the link
+ * @param hashedPassword - The chosen password, already hashed
+ * @returns The activated user
+ * @throws AccountError if the token is unknown, used or expired
+ */
+export async function activateAccount(token: unknown, hashedPassword: string): Promise<User> {
+  const user = await consumeToken(token, AuthTokenPurpose.ACCOUNT_ACTIVATION);
+  const updated = await storage.updateUser(user.id, {
+    password: hashedPassword,
+    emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+  });
+  console.log(`Account activated for user ${user.id}`);
+  return updated!;
+}
+
+export default {
+  isEmailVerified,
+  checkNewPassword,
+  sendVerificationEmail,
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword,
+  sendActivationEmail,
+  activateAccount
+};
@@ -1,12 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User, UserRole, SchoolRegister, StudentRegister } from "@shared/schema";
-import { db } from "./db";
+import { User, UserRole, SchoolRegister, StudentRegister, Invite } from "@shared/schema";
+import { db, inTransaction } from "./db";
+import * as accountService from "./account-service";
+import * as inviteService from "./invite-service";
+import { sendHttpError } from "./http-error";
 
 declare global {
   namespace Express {
@@ -16,7 +19,7 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -37,6 +40,33 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
+// Where emailed links point. APP_URL when it's set, so a forged Host header can't send them elsewhere
+export function appUrl(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Following an emailed invite proves the user owns the address it was sent to
+async function verifyInvitedUser(user: User, invite: Invite | null): Promise<User> {
+  if (!invite) {
+    return user;
+  }
+  return (await storage.updateUser(user.id, { emailVerifiedAt: invite.acceptedAt })) ?? user;
+}
+
+// Email the new user the link to verify their address unless their invite already did, then log them in
+function welcomeNewUser(req: Request, res: Response, next: NextFunction, user: User) {
+  if (!accountService.isEmailVerified(user)) {
+    accountService.sendVerificationEmail(user, appUrl(req)).catch((error) => {
+      console.error(`Error sending verification email to user ${user.id}:`, error);
+    });
+  }
+
+  req.login(user, (err) => {
+    if (err) return next(err);
+    return res.status(201).json(user);
+  });
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "schoolraise-session-secret",
@@ -87,11 +117,16 @@ export function setupAuth(app: Express) {
     }
   });
 
-  // Register route for all user types
+  // Register route for schools and students. Students need an invite or their school's join code,
+  // admins can't register themselves
   app.post("/api/register", async (req, res, next) => {
     try {
       const { role } = req.body;
 
+      if (role === UserRole.ADMIN) {
+        return res.status(403).json({ message: "Admin accounts can't be registered" });
+      }
+
       // Check if email already exists
       const existingUser = await storage.getUserByEmail(req.body.email);
       if (existingUser) {
@@ -109,79 +144,72 @@ export function setupAuth(app: Express) {
       // Hash the password
       const hashedPassword = await hashPassword(req.body.password);
 
-      // Create user based on role
+      // Create user based on role. The invite is used up in the same transaction as the
+      // account is created, so a registration that fails part way leaves it usable
       if (role === UserRole.SCHOOL) {
-        // Register school
+        // Register school, invited by an admin or on its own
         const schoolData = req.body as SchoolRegister;
-        
-        // Create the user
-        const user = await storage.createUser({
-          email: schoolData.email,
-          username: schoolData.username,
-          password: hashedPassword,
-          role: UserRole.SCHOOL,
-        });
+        const user = await inTransaction(async () => {
+          const invite = schoolData.inviteToken
+            ? await inviteService.acceptInvite(schoolData.inviteToken, UserRole.SCHOOL, schoolData.email)
+            : null;
+
+          // Create the user
+          const user = await verifyInvitedUser(await storage.createUser({
+            email: invite ? invite.email : schoolData.email,
+            username: schoolData.username,
+            password: hashedPassword,
+            role: UserRole.SCHOOL,
+          }), invite);
 
-        // Create the school
-        await storage.createSchool({
-          name: schoolData.name,
-          adminName: schoolData.adminName,
-          address: schoolData.address || null,
-          userId: user.id,
+          // Create the school
+          await storage.createSchool({
+            name: schoolData.name,
+            adminName: schoolData.adminName,
+            address: schoolData.address || null,
+            userId: user.id,
+          });
+          return user;
         });
 
         // Login
-        req.login(user, (err) => {
-          if (err) return next(err);
-          return res.status(201).json(user);
-        });
+        welcomeNewUser(req, res, next, user);
       } else if (role === UserRole.STUDENT) {
-        // Register student
+        // Register student, who joins the school that invited them or whose join code they have
         const studentData = req.body as StudentRegister;
-        
-        // Verify school exists
-        const school = await storage.getSchool(studentData.schoolId);
-        if (!school) {
-          return res.status(400).json({ message: "Selected school does not exist" });
-        }
+        const user = await inTransaction(async () => {
+          const invite = studentData.inviteToken
+            ? await inviteService.acceptInvite(studentData.inviteToken, UserRole.STUDENT, studentData.email)
+            : null;
+          const schoolId = invite
+            ? invite.schoolId!
+            : (await inviteService.findSchoolByJoinCode(studentData.joinCode)).id;
 
-        // Create the user
-        const user = await storage.createUser({
-          email: studentData.email,
-          username: studentData.username,
-          password: hashedPassword,
-          role: UserRole.STUDENT,
-        });
-
-        // Create the student
-        await storage.createStudent({
-          userId: user.id,
-          schoolId: studentData.schoolId,
-        });
+          // Create the user
+          const user = await verifyInvitedUser(await storage.createUser({
+            email: invite ? invite.email : studentData.email,
+            username: studentData.username,
+            password: hashedPassword,
+            role: UserRole.STUDENT,
+          }), invite);
 
-        // Login
-        req.login(user, (err) => {
-          if (err) return next(err);
-          return res.status(201).json(user);
-        });
-      } else if (role === UserRole.ADMIN) {
-        // Register admin (simple user)
-        const user = await storage.createUser({
-          email: req.body.email,
-          username: req.body.username,
-          password: hashedPassword,
-          role: UserRole.ADMIN,
+          // Create the student
+          await storage.createStudent({
+            userId: user.id,
+            schoolId,
+          });
+          return user;
         });
 
         // Login
-        req.login(user, (err) => {
-          if (err) return next(err);
-          return res.status(201).json(user);
-        });
+        welcomeNewUser(req, res, next, user);
       } else {
         return res.status(400).json({ message: "Invalid role specified" });
       }
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       next(error);
     }
   });
@@ -207,21 +235,84 @@ export function setupAuth(app: Express) {
     });
   });
 
-  // Get current user
-  app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+  // Email a link to choose a new password, the response is the same whether or not the email has an account
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      await accountService.requestPasswordReset(req.body.email, appUrl(req));
+      res.json({ message: "If an account uses that email, a link to reset its password is on its way" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Set a new password with the token from a reset link
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const { token, password } = req.body;
+      accountService.checkNewPassword(password);
+      await accountService.resetPassword(token, await hashPassword(password));
+      res.json({ message: "Your password has been reset, you can now log in" });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      next(error);
     }
-    res.json(req.user);
   });
 
-  // Get schools (for student registration)
-  app.get("/api/schools/list", async (req, res, next) => {
+  // Choose the first password of an account a school imported, with the token from its activation link
+  app.post("/api/activate-account", async (req, res, next) => {
     try {
-      const schools = await storage.getAllSchools();
-      res.json(schools);
+      const { token, password } = req.body;
+      accountService.checkNewPassword(password);
+      await accountService.activateAccount(token, await hashPassword(password));
+      res.json({ message: "Your account is ready, you can now log in" });
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       next(error);
     }
   });
+
+  // Verify an email address with the token from the link sent on registration
+  app.post("/api/verify-email", async (req, res, next) => {
+    try {
+      const user = await accountService.verifyEmail(req.body.token);
+      res.json({ message: `${user.email} is verified` });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      next(error);
+    }
+  });
+
+  // Send the logged-in user a new verification link
+  app.post("/api/verify-email/resend", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      await accountService.sendVerificationEmail(user, appUrl(req));
+      res.json({ message: `A new verification link has been sent to ${user.email}` });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      next(error);
+    }
+  });
+
+  // Get current user
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(req.user);
+  });
 }
@@ -0,0 +1,299 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import * as pricingService from "./pricing-service";
+import * as inventoryService from "./inventory-service";
+import {
+  clearableSchema,
+  insertCartItemSchema,
+  type Cart,
+  type CartItem,
+  type CartLine,
+  type CartWithLines
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+
+// Who a cart belongs to: the signed-in user, or the guest whose browser sent its cart token
+export interface CartOwner {
+  userId: number | null;
+  token: string | null;
+}
+
+/**
+ * Raised when a cart can't be changed as asked
+ */
+export class CartError extends HttpError {}
+
+function idSchema(message: string) {
+  return z.coerce.number({ message }).int(message).positive(message);
+}
+
+const addItemSchema = insertCartItemSchema
+  .pick({ fundraiserId: true, ticketTypeId: true, quantity: true, referralCode: true })
+  .extend({
+    fundraiserId: idSchema("Invalid item data"),
+    ticketTypeId: clearableSchema(idSchema("Invalid item data")).optional(),
+    quantity: idSchema("Invalid quantity").default(1),
+    referralCode: z.string({ message: "Invalid referral code" })
+      .trim()
+      .toUpperCase()
+      .nullish()
+      .transform((code) => code || null)
+  });
+
+function generateCartToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// Today in the YYYY-MM-DD form event dates are stored in
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function sameLine(item: CartItem, fundraiserId: number, ticketTypeId: number | null): boolean {
+  return item.fundraiserId === fundraiserId && item.ticketTypeId === ticketTypeId;
+}
+
+function parseQuantity(value: unknown): number {
+  const quantity = parseInt(String(value), 10);
+  if (isNaN(quantity) || quantity < 1) {
+    throw new CartError("Invalid quantity");
+  }
+  return quantity;
+}
+
+// Move a guest's items into the account's cart, adding to the quantities of items it already holds
+async function mergeGuestCart(guestCart: Cart, cart: Cart): Promise<void> {
+  const items = await storage.getCartItems(cart.id);
+  for (const guestItem of await storage.getCartItems(guestCart.id)) {
+    const existing = items.find((item) => sameLine(item, guestItem.fundraiserId, guestItem.ticketTypeId));
+    if (existing) {
+      await storage.updateCartItem(existing.id, {
+        quantity: existing.quantity + guestItem.quantity,
+        referralCode: existing.referralCode ?? guestItem.referralCode
+      });
+    } else {
+      await storage.createCartItem({
+        cartId: cart.id,
+        fundraiserId: guestItem.fundraiserId,
+        ticketTypeId: guestItem.ticketTypeId,
+        quantity: guestItem.quantity,
+        referralCode: guestItem.referralCode
+      });
+    }
+  }
+  await storage.deleteCart(guestCart.id);
+  console.log(`Merged guest cart ${guestCart.id} into cart ${cart.id}`);
+}
+
+// The owner's cart. A guest cart the browser still holds once its user has signed in is
+// merged into their account's cart, making one if they don't have one yet
+async function findCart(owner: CartOwner, create: boolean): Promise<Cart | undefined> {
+  if (owner.userId === null) {
+    const cart = owner.token ? await storage.getCartByToken(owner.token) : undefined;
+    return cart ?? (create ? storage.createCart({ token: generateCartToken() }) : undefined);
+  }
+
+  const guestCart = owner.token ? await storage.getCartByToken(owner.token) : undefined;
+  let cart = await storage.getCartByUserId(owner.userId);
+  if (!cart && (create || guestCart)) {
+    // Another request may have made the account's cart in the meantime
+    cart = (await storage.createCart({ userId: owner.userId })) ?? await storage.getCartByUserId(owner.userId);
+  }
+  if (cart && guestCart) {
+    await mergeGuestCart(guestCart, cart);
+  }
+  return cart;
+}
+
+// Price and check an item as things stand now. Items whose fundraiser or ticket type has
+// since been deleted are dropped from the cart
+async function toCartLine(item: CartItem): Promise<CartLine | null> {
+  const fundraiser = await storage.getFundraiser(item.fundraiserId);
+  const ticketType = item.ticketTypeId !== null ? await storage.getTicketType(item.ticketTypeId) : null;
+  if (!fundraiser || (item.ticketTypeId !== null && (!ticketType || ticketType.fundraiserId !== fundraiser.id))) {
+    await storage.deleteCartItem(item.id);
+    return null;
+  }
+
+  let maxQuantity = pricingService.maxTicketsPerOrder(fundraiser);
+  const ticketsLeft = (await inventoryService.getTicketsRemaining([fundraiser])).get(fundraiser.id);
+  if (ticketsLeft !== undefined) {
+    maxQuantity = Math.min(maxQuantity, ticketsLeft);
+  }
+  if (ticketType) {
+    const typeLeft = (await inventoryService.getTicketTypesRemaining([ticketType])).get(ticketType.id);
+    if (typeLeft !== undefined) {
+      maxQuantity = Math.min(maxQuantity, typeLeft);
+    }
+  }
+
+  let issue: string | null = null;
+  if (fundraiser.eventDate < today()) {
+    issue = `'${fundraiser.name}' has already taken place`;
+  } else {
+    try {
+      await pricingService.priceOrder([{
+        fundraiserId: item.fundraiserId,
+        ticketTypeId: item.ticketTypeId,
+        quantity: item.quantity
+      }]);
+    } catch (error) {
+      if (!(error instanceof pricingService.PricingError)) {
+        throw error;
+      }
+      issue = error.message;
+    }
+  }
+
+  const unitPrice = ticketType ? ticketType.price : fundraiser.price;
+  return {
+    id: item.id,
+    fundraiserId: fundraiser.id,
+    ticketTypeId: ticketType ? ticketType.id : null,
+    name: fundraiser.name,
+    ticketTypeName: ticketType ? ticketType.name : null,
+    eventDate: fundraiser.eventDate,
+    location: fundraiser.location,
+    image: fundraiser.image,
+    quantity: item.quantity,
+    unitPrice,
+    amount: unitPrice * item.quantity,
+    maxQuantity,
+    referralCode: item.referralCode,
+    issue
+  };
+}
+
+async function describeCart(cart: Cart | undefined): Promise<CartWithLines> {
+  if (!cart) {
+    return { token: null, items: [], totalAmount: 0 };
+  }
+
+  const items: CartLine[] = [];
+  for (const item of await storage.getCartItems(cart.id)) {
+    const line = await toCartLine(item);
+    if (line) {
+      items.push(line);
+    }
+  }
+
+  return {
+    token: cart.token,
+    items,
+    totalAmount: items.filter((line) => line.issue === null).reduce((sum, line) => sum + line.amount, 0)
+  };
+}
+
+async function getCartItem(owner: CartOwner, itemId: number): Promise<{ cart: Cart; item: CartItem }> {
+  const cart = await findCart(owner, false);
+  const item = cart ? (await storage.getCartItems(cart.id)).find((cartItem) => cartItem.id === itemId) : undefined;
+  if (!cart || !item) {
+    throw new CartError("Cart item not found", 404);
+  }
+  return { cart, item };
+}
+
+/**
+ * Read a cart, with every item priced and checked against the fundraiser as it is now
+ *
+ * @param owner - Whose cart to read
+ * @returns The cart's items, an empty cart if the owner doesn't have one yet
+ */
+export async function getCart(owner: CartOwner): Promise<CartWithLines> {
+  return describeCart(await findCart(owner, false));
+}
+
+/**
+ * Add tickets to a cart, making the cart the first time
+ *
+ * Tickets of a fundraiser and ticket type already in the cart are added to that item,
+ * up to the fundraiser's per-order limit.
+ *
+ * @param owner - Whose cart to add to
+ * @param input - The fundraiserId, ticketTypeId and quantity to add, with the referralCode the buyer arrived with
+ * @returns The updated cart, holding the token a guest keeps it by
+ * @throws CartError if the input is invalid or the event has passed, PricingError if the tickets aren't on sale
+ */
+export async function addItem(owner: CartOwner, input: unknown): Promise<CartWithLines> {
+  const { fundraiserId, ticketTypeId, quantity, referralCode } = parseBody(addItemSchema, input, CartError);
+
+  // The quantity is checked against the cart once the item has been added
+  const { items: [priced] } = await pricingService.priceOrder([{ fundraiserId, ticketTypeId, quantity: 1 }]);
+  if (priced.fundraiser.eventDate < today()) {
+    throw new CartError(`'${priced.fundraiser.name}' has already taken place`);
+  }
+
+  const cart = (await findCart(owner, true))!;
+  const limit = pricingService.maxTicketsPerOrder(priced.fundraiser);
+  const existing = (await storage.getCartItems(cart.id)).find((item) =>
+    sameLine(item, priced.fundraiserId, priced.ticketTypeId)
+  );
+  if (existing) {
+    await storage.updateCartItem(existing.id, {
+      quantity: Math.min(existing.quantity + quantity, limit),
+      referralCode: existing.referralCode ?? referralCode
+    });
+  } else {
+    await storage.createCartItem({
+      cartId: cart.id,
+      fundraiserId: priced.fundraiserId,
+      ticketTypeId: priced.ticketTypeId,
+      quantity: Math.min(quantity, limit),
+      referralCode
+    });
+  }
+
+  return describeCart(cart);
+}
+
+/**
+ * Change how many tickets of a cart item the buyer wants
+ *
+ * @param owner - Whose cart the item is in
+ * @param itemId - The item
+ * @param quantity - The new quantity, at least 1
+ * @returns The updated cart
+ * @throws CartError if the item isn't in the owner's cart or the quantity is invalid
+ */
+export async function updateItem(owner: CartOwner, itemId: number, quantity: unknown): Promise<CartWithLines> {
+  const { cart, item } = await getCartItem(owner, itemId);
+  await storage.updateCartItem(item.id, { quantity: parseQuantity(quantity) });
+  return describeCart(cart);
+}
+
+/**
+ * Take an item out of a cart
+ *
+ * @param owner - Whose cart the item is in
+ * @param itemId - The item
+ * @returns The updated cart
+ * @throws CartError if the item isn't in the owner's cart
+ */
+export async function removeItem(owner: CartOwner, itemId: number): Promise<CartWithLines> {
+  const { cart, item } = await getCartItem(owner, itemId);
+  await storage.deleteCartItem(item.id);
+  return describeCart(cart);
+}
+
+/**
+ * Empty a cart, e.g. once it has been paid for
+ *
+ * @param owner - Whose cart to empty
+ * @returns The empty cart
+ */
+export async function clearCart(owner: CartOwner): Promise<CartWithLines> {
+  const cart = await findCart(owner, false);
+  if (cart) {
+    await storage.deleteCartItems(cart.id);
+  }
+  return describeCart(cart);
+}
+
+export default {
+  getCart,
+  addItem,
+  updateItem,
+  removeItem,
+  clearCart
+};
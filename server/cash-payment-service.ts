@@ -0,0 +1,238 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import * as ticketService from "./ticket-service";
+import * as goalService from "./goal-service";
+import {
+  PaymentProvider,
+  PaymentStatus,
+  type CashOrder,
+  type Order,
+  type TicketPurchase
+} from "@shared/schema";
+import { PaymentGatewayError, type PaymentGateway } from "./payment-gateway";
+import type { PricedOrderItem } from "./pricing-service";
+import { HttpError } from "./http-error";
+
+export interface ReconciliationResult {
+  reconciled: Order[];
+  skipped: number[]; // Orders with no cash left for the school to reconcile
+}
+
+/**
+ * Raised when cash can't be reconciled
+ */
+export class CashPaymentError extends HttpError {}
+
+async function belongsToSchool(purchase: TicketPurchase, schoolId: number): Promise<boolean> {
+  const fundraiser = await storage.getFundraiser(purchase.fundraiserId);
+  return !!fundraiser && fundraiser.schoolId === schoolId;
+}
+
+// A cart paid in cash can span schools, each treasurer reconciles their own school's lines.
+// The order is settled once no line is waiting any more
+async function reconcileOrder(
+  orderId: number,
+  schoolId: number,
+  userId: number,
+  confirm: boolean,
+  note: string | null
+): Promise<Order | null> {
+  const order = await storage.getOrder(orderId);
+  if (!order || order.provider !== PaymentProvider.CASH) {
+    return null;
+  }
+
+  const items = await storage.getOrderItems(order.id);
+  const confirmed: TicketPurchase[] = [];
+  let reconciledLines = 0;
+  for (const item of items) {
+    if (item.paymentStatus !== PaymentStatus.CASH_PENDING || !await belongsToSchool(item, schoolId)) {
+      continue;
+    }
+
+    const purchase = await storage.updateTicketPurchaseStatus(
+      item.id,
+      confirm ? PaymentStatus.COMPLETED : PaymentStatus.CASH_REJECTED
+    );
+    if (purchase && confirm) {
+      await ticketService.issueTicketsForPurchase(purchase);
+      confirmed.push(purchase);
+    }
+    item.paymentStatus = confirm ? PaymentStatus.COMPLETED : PaymentStatus.CASH_REJECTED;
+    reconciledLines++;
+  }
+
+  if (reconciledLines === 0) {
+    return null;
+  }
+
+  // Confirmed cash counts towards the goals, the notifications mustn't hold up reconciling
+  if (confirmed.length > 0) {
+    goalService.checkGoalMilestones(confirmed).catch(error => {
+      console.error("Error checking goal milestones:", error);
+    });
+  }
+
+  const stillPending = items.some((item) => item.paymentStatus === PaymentStatus.CASH_PENDING);
+  const anyConfirmed = items.some((item) => item.paymentStatus === PaymentStatus.COMPLETED);
+  let status = order.status;
+  if (!stillPending) {
+    status = anyConfirmed ? PaymentStatus.COMPLETED : PaymentStatus.CASH_REJECTED;
+  }
+
+  return storage.updateOrder(order.id, {
+    status,
+    reconciledBy: userId,
+    reconciledAt: new Date(),
+    reconciliationNote: note,
+  });
+}
+
+async function reconcileOrders(
+  orderIds: number[],
+  schoolId: number,
+  userId: number,
+  confirm: boolean,
+  note: string | null
+): Promise<ReconciliationResult> {
+  if (!Array.isArray(orderIds) || orderIds.length === 0) {
+    throw new CashPaymentError("No orders selected");
+  }
+
+  const reconciled: Order[] = [];
+  const skipped: number[] = [];
+  for (const orderId of orderIds) {
+    const order = await reconcileOrder(orderId, schoolId, userId, confirm, note);
+    if (order) {
+      reconciled.push(order);
+    } else {
+      skipped.push(orderId);
+    }
+  }
+
+  console.log(`${confirm ? "Confirmed" : "Rejected"} cash for ${reconciled.length} orders, skipped ${skipped.length}`);
+  return { reconciled, skipped };
+}
+
+/**
+ * Check a school only records cash as paid for its own fundraisers. Its cash counts straight
+ * away, so it mustn't issue tickets or credit sales for another school's events
+ *
+ * @param userId - The school user recording the cash
+ * @param items - The priced lines of the order
+ * @throws CashPaymentError if any line is for another school's fundraiser
+ */
+export async function checkSchoolFundraisers(userId: number, items: PricedOrderItem[]): Promise<void> {
+  const school = await storage.getSchoolByUserId(userId);
+  const other = items.find((item) => !school || item.fundraiser.schoolId !== school.id);
+  if (other) {
+    throw new CashPaymentError(`'${other.fundraiser.name}' belongs to another school, its cash can't be recorded here`, 403);
+  }
+}
+
+/**
+ * List the cash orders still waiting for the school's treasurer
+ *
+ * @param schoolId - The school reconciling its cash
+ * @returns The waiting orders with the school's lines and who took the cash
+ */
+export async function getPendingCashOrders(schoolId: number): Promise<CashOrder[]> {
+  const orders = await storage.getOrdersBySchoolId(schoolId, [PaymentStatus.CASH_PENDING]);
+
+  const names = new Map<number, string>();
+  const cashOrders: CashOrder[] = [];
+  for (const order of orders) {
+    let recordedByName: string | null = null;
+    if (order.recordedBy) {
+      if (!names.has(order.recordedBy)) {
+        const user = await storage.getUser(order.recordedBy);
+        names.set(order.recordedBy, user ? user.username : "Unknown user");
+      }
+      recordedByName = names.get(order.recordedBy) ?? null;
+    }
+    cashOrders.push({
+      ...order,
+      // Lines already reconciled by this school aren't waiting any more
+      items: order.items.filter((item) => item.paymentStatus === PaymentStatus.CASH_PENDING),
+      recordedByName,
+    });
+  }
+
+  return cashOrders.filter((order) => order.items.length > 0);
+}
+
+/**
+ * Confirm the cash for orders was handed in, so they count as sales and tickets are issued
+ *
+ * @param orderIds - The orders to confirm
+ * @param schoolId - The school whose lines are confirmed
+ * @param userId - The treasurer confirming the cash
+ * @param note - Optional note kept on the orders
+ * @returns The confirmed orders and the IDs of orders with nothing to confirm
+ * @throws CashPaymentError if no orders were given
+ */
+export async function confirmCashOrders(
+  orderIds: number[],
+  schoolId: number,
+  userId: number,
+  note: string | null = null
+): Promise<ReconciliationResult> {
+  return reconcileOrders(orderIds, schoolId, userId, true, note);
+}
+
+/**
+ * Reject cash that was never handed in, the orders then never count as sales
+ *
+ * @param orderIds - The orders to reject
+ * @param schoolId - The school whose lines are rejected
+ * @param userId - The treasurer rejecting the cash
+ * @param reason - Why the cash was rejected
+ * @returns The rejected orders and the IDs of orders with nothing to reject
+ * @throws CashPaymentError if no orders or no reason were given
+ */
+export async function rejectCashOrders(
+  orderIds: number[],
+  schoolId: number,
+  userId: number,
+  reason: string
+): Promise<ReconciliationResult> {
+  if (!reason || !reason.trim()) {
+    throw new CashPaymentError("A reason is required to reject cash");
+  }
+  return reconcileOrders(orderIds, schoolId, userId, false, reason.trim());
+}
+
+// Cash handed to a student or the school. Nothing goes through a provider, so the gateway
+// only hands out references and refunds are recorded without moving any money
+export const cashGateway: PaymentGateway = {
+  provider: PaymentProvider.CASH,
+
+  async createCheckout() {
+    return { reference: `cash_payment_${Date.now()}_${randomBytes(4).toString("hex")}`, clientSecret: null };
+  },
+
+  async cancelCheckout() {
+    // Nothing was taken yet
+  },
+
+  async verifyPayment() {
+    // Cash is confirmed by the school's treasurer, not looked up
+    return null;
+  },
+
+  async refund() {
+    return null;
+  },
+
+  parseWebhook() {
+    throw new PaymentGatewayError("Cash payments have no webhook", 404);
+  }
+};
+
+export default {
+  cashGateway,
+  checkSchoolFundraisers,
+  getPendingCashOrders,
+  confirmCashOrders,
+  rejectCashOrders
+};
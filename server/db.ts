@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as dotenv from "dotenv";
@@ -26,5 +27,57 @@ console.log(
   `Using database URL: ${process.env.NEON_DATABASE_URL ? "NEON_DATABASE_URL" : "DATABASE_URL"}`,
 );
 
-// Create drizzle database instance
-export const db = drizzle(client, { schema });
+const rootDb = drizzle(client, { schema });
+
+type Database = typeof rootDb;
+
+interface TransactionScope {
+  tx: Database;
+  afterCommit: (() => void)[];
+}
+
+const transactionScope = new AsyncLocalStorage<TransactionScope>();
+
+// Create drizzle database instance. Queries made inside inTransaction run on its transaction
+export const db: Database = new Proxy(rootDb, {
+  get: (target, property) => Reflect.get(transactionScope.getStore()?.tx ?? target, property),
+});
+
+/**
+ * Run work in one database transaction, every query it makes through db is part of it
+ *
+ * Work started inside another transaction joins that one.
+ *
+ * @param work - The queries to run together
+ * @returns What the work returns, once the transaction has committed
+ */
+export async function inTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return work();
+  }
+
+  const afterCommit: (() => void)[] = [];
+  const result = await rootDb.transaction((tx) =>
+    transactionScope.run({ tx: tx as unknown as Database, afterCommit }, work)
+  );
+  for (const callback of afterCommit) {
+    callback();
+  }
+  return result;
+}
+
+/**
+ * Run a side effect, e.g. an email, once the current transaction has committed
+ *
+ * Outside a transaction it runs straight away, if the transaction rolls back it never runs.
+ *
+ * @param callback - The side effect
+ */
+export function afterCommit(callback: () => void): void {
+  const scope = transactionScope.getStore();
+  if (scope) {
+    scope.afterCommit.push(callback);
+  } else {
+    callback();
+  }
+}
@@ -0,0 +1,292 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import * as enrolmentService from "./enrolment-service";
+import {
+  FundraiserMode,
+  MIN_DONATION_AMOUNT,
+  PaymentStatus,
+  centsSchema,
+  clearableSchema,
+  insertDonationSchema,
+  insertFundraiserSchema,
+  type Donation,
+  type DonationProgress,
+  type Fundraiser,
+  type InsertDonation,
+  type InsertFundraiser,
+  type PaymentProviderType,
+  type PaymentStatusType,
+  type PublicDonation
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+
+// Longest message a donor can leave, it has to fit in Stripe's metadata too
+const MAX_MESSAGE_LENGTH = 500;
+
+// Suggested amounts a fundraiser can offer, more than this doesn't fit on a phone
+const MAX_SUGGESTED_DONATIONS = 6;
+
+// Donations shown on the public fundraiser page
+const RECENT_DONATIONS_SHOWN = 10;
+
+// Donations still waiting for their payment, a late payment still completes them
+const UNPAID_DONATION_STATUSES: PaymentStatusType[] = [PaymentStatus.PENDING, PaymentStatus.FAILED, PaymentStatus.ABANDONED];
+
+export interface DonationInput {
+  fundraiser: Fundraiser;
+  amount: number; // in cents
+  donorName: string;
+  donorEmail: string;
+  message: string | null;
+  isAnonymous: boolean;
+}
+
+/**
+ * Raised when a donation or a fundraiser's donation settings are invalid
+ */
+export class DonationError extends HttpError {}
+
+// Multipart forms send the suggested amounts as a JSON string
+const suggestedDonationsSchema = z.preprocess((value, ctx) => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Suggested donations are not valid JSON" });
+    return z.NEVER;
+  }
+}, z.array(centsSchema("Suggested donation"), { message: "Suggested donations must be a list" })
+  .max(MAX_SUGGESTED_DONATIONS, `Offer at most ${MAX_SUGGESTED_DONATIONS} suggested donations`)
+  .nullable());
+
+const donationSettingsSchema = insertFundraiserSchema
+  .pick({ mode: true, donationGoal: true, suggestedDonations: true })
+  .extend({
+    mode: z.enum([FundraiserMode.TICKETS, FundraiserMode.DONATIONS, FundraiserMode.TICKETS_AND_DONATIONS], {
+      message: "Mode must be tickets, donations or tickets_and_donations"
+    }),
+    donationGoal: clearableSchema(centsSchema("Donation goal")),
+    suggestedDonations: suggestedDonationsSchema
+  })
+  .partial();
+
+const donorTextSchema = z.string({ message: "Donor name and email are required" })
+  .trim()
+  .min(1, "Donor name and email are required");
+
+const donationSchema = insertDonationSchema
+  .pick({ amount: true, message: true, isAnonymous: true })
+  .extend({
+    amount: centsSchema("Donation").min(MIN_DONATION_AMOUNT, `The smallest donation is ${MIN_DONATION_AMOUNT / 100}`),
+    customerInfo: z.object(
+      { name: donorTextSchema, email: donorTextSchema },
+      { message: "Donor name and email are required" }
+    ),
+    message: z.string({ message: "Invalid message" })
+      .trim()
+      .max(MAX_MESSAGE_LENGTH, `Messages are at most ${MAX_MESSAGE_LENGTH} characters`)
+      .nullish()
+      .transform((message) => message || null),
+    // Multipart forms send the flag as a string
+    isAnonymous: z.unknown().transform((value) => value === true || value === "true")
+  });
+
+/**
+ * Whether a fundraiser takes donations
+ *
+ * @param fundraiser - The fundraiser to check
+ * @returns True for donation drives and fundraisers selling tickets alongside donations
+ */
+export function acceptsDonations(fundraiser: Fundraiser): boolean {
+  return fundraiser.mode === FundraiserMode.DONATIONS || fundraiser.mode === FundraiserMode.TICKETS_AND_DONATIONS;
+}
+
+/**
+ * Whether a fundraiser sells tickets
+ *
+ * @param fundraiser - The fundraiser to check
+ * @returns False only for pure donation drives
+ */
+export function sellsTickets(fundraiser: Fundraiser): boolean {
+  return fundraiser.mode !== FundraiserMode.DONATIONS;
+}
+
+/**
+ * Validate the donation settings sent with a fundraiser form
+ *
+ * Settings left out of the form are left out of the result, so an update keeps them.
+ *
+ * @param body - The submitted form, from JSON or a multipart form
+ * @returns The mode, donation goal and suggested amounts to store
+ * @throws DonationError if a setting is invalid
+ */
+export function parseDonationSettings(body: unknown): Partial<InsertFundraiser> {
+  const { suggestedDonations, ...settings } = parseBody(donationSettingsSchema, body, DonationError);
+  if (suggestedDonations === undefined) {
+    return settings;
+  }
+  return {
+    ...settings,
+    suggestedDonations: suggestedDonations && suggestedDonations.length > 0
+      ? Array.from(new Set(suggestedDonations)).sort((a, b) => a - b)
+      : null,
+  };
+}
+
+/**
+ * Validate a donation before its payment is started
+ *
+ * @param fundraiserId - The fundraiser being donated to
+ * @param body - The submitted amount in cents, donor info, message and anonymity flag
+ * @returns The donation to take payment for
+ * @throws DonationError if the fundraiser doesn't take donations or the donation is invalid
+ */
+export async function prepareDonation(fundraiserId: unknown, body: unknown): Promise<DonationInput> {
+  const fundraiser = await storage.getFundraiser(parseInt(String(fundraiserId), 10));
+  if (!fundraiser) {
+    throw new DonationError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+  }
+  if (!fundraiser.isActive) {
+    throw new DonationError(`Fundraiser '${fundraiser.name}' is not currently active`);
+  }
+  if (!acceptsDonations(fundraiser)) {
+    throw new DonationError(`Fundraiser '${fundraiser.name}' doesn't take donations`);
+  }
+
+  const { amount, customerInfo, message, isAnonymous } = parseBody(donationSchema, body, DonationError);
+  return {
+    fundraiser,
+    amount,
+    donorName: customerInfo.name,
+    donorEmail: customerInfo.email,
+    message,
+    isAnonymous,
+  };
+}
+
+/**
+ * Record a donation the donor has started paying for
+ *
+ * @param input - The validated donation
+ * @param provider - The provider taking the payment
+ * @param paymentReference - The provider's payment reference
+ * @param studentId - The student who referred the donor, credited if they're enrolled in the fundraiser
+ * @returns The pending donation
+ */
+export async function startDonation(
+  input: DonationInput,
+  provider: PaymentProviderType,
+  paymentReference: string,
+  studentId: number | null
+): Promise<Donation> {
+  const donation = await storage.createDonation({
+    fundraiserId: input.fundraiser.id,
+    studentId: await enrolmentService.creditedStudentId(input.fundraiser.id, studentId),
+    donorName: input.donorName,
+    donorEmail: input.donorEmail,
+    amount: input.amount,
+    message: input.message,
+    isAnonymous: input.isAnonymous,
+    provider,
+    paymentReference,
+    status: PaymentStatus.PENDING,
+  });
+  console.log(`Started donation ${donation.id} of ${input.amount} cents to fundraiser ${input.fundraiser.id}`);
+  return donation;
+}
+
+/**
+ * Record a confirmed donation payment
+ *
+ * Completing a donation twice is harmless, so repeated webhook deliveries and
+ * verifications don't need to be told apart.
+ *
+ * @param reference - The provider's payment reference
+ * @param capturedAmount - What the provider took, in cents
+ * @param fallback - The donation to record if its checkout was never recorded
+ * @returns The completed donation, or undefined if there is no donation for the payment
+ */
+export async function completeDonation(
+  reference: string,
+  capturedAmount: number,
+  fallback?: Omit<InsertDonation, "status" | "capturedAmount">
+): Promise<Donation | undefined> {
+  const donation = await storage.getDonationByPaymentReference(reference);
+  if (!donation) {
+    if (!fallback) {
+      return undefined;
+    }
+    const recorded = await storage.createDonation({
+      ...fallback,
+      studentId: await enrolmentService.creditedStudentId(fallback.fundraiserId, fallback.studentId ?? null),
+      status: PaymentStatus.COMPLETED,
+      capturedAmount
+    });
+    console.log(`Recorded donation ${recorded.id} for payment ${reference}`);
+    return recorded;
+  }
+
+  if (!UNPAID_DONATION_STATUSES.includes(donation.status)) {
+    return donation;
+  }
+
+  const completed = await storage.updateDonation(donation.id, { status: PaymentStatus.COMPLETED, capturedAmount });
+  console.log(`Completed donation ${completed.id} for payment ${reference}`);
+  return completed;
+}
+
+/**
+ * Mark a pending donation as failed after the provider declined the payment
+ *
+ * @param reference - The provider's payment reference
+ * @returns The failed donation, or undefined if there was no pending donation for the payment
+ */
+export async function failDonation(reference: string): Promise<Donation | undefined> {
+  const donation = await storage.getDonationByPaymentReference(reference);
+  if (!donation || donation.status !== PaymentStatus.PENDING) {
+    return undefined;
+  }
+  return storage.updateDonation(donation.id, { status: PaymentStatus.FAILED });
+}
+
+function toPublicDonation(donation: Donation): PublicDonation {
+  return {
+    id: donation.id,
+    donorName: donation.isAnonymous ? null : donation.donorName,
+    message: donation.isAnonymous ? null : donation.message,
+    amount: donation.amount,
+    createdAt: donation.createdAt,
+  };
+}
+
+/**
+ * Summarise the donations a fundraiser has received against its goal
+ *
+ * @param fundraiser - The fundraiser to summarise
+ * @returns The amount raised, number of donors and most recent donations
+ */
+export async function getDonationProgress(fundraiser: Fundraiser): Promise<DonationProgress> {
+  const totals = await storage.getDonationTotals([fundraiser.id], [PaymentStatus.COMPLETED]);
+  const recent = await storage.getDonationsByFundraiserId(fundraiser.id, [PaymentStatus.COMPLETED], RECENT_DONATIONS_SHOWN);
+
+  return {
+    fundraiserId: fundraiser.id,
+    goal: fundraiser.donationGoal,
+    raised: totals.get(fundraiser.id)?.amount ?? 0,
+    donorCount: totals.get(fundraiser.id)?.donorCount ?? 0,
+    recentDonations: recent.map(toPublicDonation),
+  };
+}
+
+export default {
+  acceptsDonations,
+  sellsTickets,
+  parseDonationSettings,
+  prepareDonation,
+  startDonation,
+  completeDonation,
+  failDonation,
+  getDonationProgress
+};
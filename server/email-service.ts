@@ -24,6 +24,18 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
   return true; // Always return true since we're not actually sending emails
 }
 
+/**
+ * Send an email without waiting for it, delivery shouldn't hold up the response to the
+ * request that triggered it. Failures are only logged
+ * 
+ * @param params Email parameters (to, subject, text/html content)
+ */
+export function sendEmailInBackground(params: EmailParams): void {
+  sendEmail(params).catch(err => {
+    console.error(`Error sending "${params.subject}" email:`, err);
+  });
+}
+
 /**
  * Simulated notification email function
  * 
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  insertStudentSchema,
+  type EnrolledStudent,
+  type Fundraiser,
+  type Student,
+  type StudentFundraiser
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+import * as studentGroupService from "./student-group-service";
+
+/**
+ * Raised when a student can't be enrolled in or removed from a fundraiser
+ */
+export class EnrolmentError extends HttpError {}
+
+// Who to assign, every student, those in a grade, class or house, or a list of students
+const assignStudentsSchema = insertStudentSchema
+  .pick({ grade: true, className: true, house: true })
+  .partial()
+  .extend({
+    all: z.boolean().optional(),
+    studentIds: z.array(z.coerce.number().int().positive(), { message: "Invalid student IDs" }).optional()
+  });
+
+async function getSchoolFundraiser(schoolId: number, fundraiserId: number): Promise<Fundraiser> {
+  const fundraiser = await storage.getFundraiser(fundraiserId);
+  if (!fundraiser || fundraiser.schoolId !== schoolId) {
+    throw new EnrolmentError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+  }
+  return fundraiser;
+}
+
+async function notifyEnrolled(fundraiser: Fundraiser, enrolments: StudentFundraiser[]) {
+  for (const enrolment of enrolments) {
+    const student = await storage.getStudent(enrolment.studentId);
+    if (!student) {
+      continue;
+    }
+    await storage.createNotification({
+      userId: student.userId,
+      title: "Added to Fundraiser",
+      message: `Your school has added you to ${fundraiser.name}, sales you refer now count towards it`,
+      type: "info",
+      read: false
+    });
+  }
+}
+
+/**
+ * List the students taking part in one of the school's fundraisers
+ *
+ * @param schoolId - The school running the fundraiser
+ * @param fundraiserId - The fundraiser
+ * @returns The enrolled students by name
+ * @throws EnrolmentError if the fundraiser isn't the school's
+ */
+export async function getEnrolledStudents(schoolId: number, fundraiserId: number): Promise<EnrolledStudent[]> {
+  await getSchoolFundraiser(schoolId, fundraiserId);
+  return storage.getEnrolledStudents(fundraiserId);
+}
+
+/**
+ * Assign students of the school to one of its fundraisers
+ *
+ * @param schoolId - The school running the fundraiser
+ * @param fundraiserId - The fundraiser
+ * @param input - all to assign every student of the school, a grade, className or house to assign
+ * the students in it, or the studentIds to assign
+ * @returns The new enrolments, students who were already enrolled are skipped
+ * @throws EnrolmentError if the fundraiser or a student isn't the school's, or a group has no students
+ */
+export async function assignStudents(
+  schoolId: number,
+  fundraiserId: number,
+  input: unknown
+): Promise<StudentFundraiser[]> {
+  const fundraiser = await getSchoolFundraiser(schoolId, fundraiserId);
+  const { all, studentIds: requestedIds, ...groups } = parseBody(assignStudentsSchema, input, EnrolmentError);
+
+  let studentIds: number[];
+  if (all) {
+    studentIds = (await storage.getStudentsWithUserInfoBySchoolId(schoolId)).map((student) => student.id);
+  } else if (Object.values(groups).some(Boolean)) {
+    const students = await storage.getStudentsWithUserInfoBySchoolId(schoolId);
+    studentIds = studentGroupService.filterStudents(students, groups).map((student) => student.id);
+    if (studentIds.length === 0) {
+      throw new EnrolmentError("No students are in that grade, class or house");
+    }
+  } else {
+    if (!requestedIds || requestedIds.length === 0) {
+      throw new EnrolmentError("Choose the students to assign, a grade, class or house, or assign all students");
+    }
+    studentIds = [];
+    for (const id of requestedIds) {
+      const student = await storage.getStudent(id);
+      if (!student || student.schoolId !== schoolId) {
+        throw new EnrolmentError(`Student with ID ${id} not found`, 404);
+      }
+      studentIds.push(student.id);
+    }
+  }
+
+  const enrolments = await storage.createStudentFundraisers(
+    Array.from(new Set(studentIds)).map((studentId) => ({ studentId, fundraiserId: fundraiser.id }))
+  );
+  await notifyEnrolled(fundraiser, enrolments);
+  console.log(`Assigned ${enrolments.length} students to fundraiser ${fundraiser.id}`);
+  return enrolments;
+}
+
+/**
+ * Take a student off one of the school's fundraisers
+ *
+ * Sales already credited to the student stay theirs.
+ *
+ * @param schoolId - The school running the fundraiser
+ * @param fundraiserId - The fundraiser
+ * @param studentId - The student to remove
+ * @throws EnrolmentError if the fundraiser isn't the school's
+ */
+export async function unassignStudent(schoolId: number, fundraiserId: number, studentId: number): Promise<void> {
+  await getSchoolFundraiser(schoolId, fundraiserId);
+  await storage.deleteStudentFundraiser(studentId, fundraiserId);
+}
+
+/**
+ * List the fundraisers a student takes part in
+ *
+ * @param studentId - The student
+ * @returns The IDs of the fundraisers they are enrolled in
+ */
+export async function getEnrolledFundraiserIds(studentId: number): Promise<number[]> {
+  return (await storage.getStudentFundraisersByStudentId(studentId)).map((enrolment) => enrolment.fundraiserId);
+}
+
+/**
+ * Let a student sign up to one of their school's active fundraisers
+ *
+ * @param student - The student opting in
+ * @param fundraiserId - The fundraiser
+ * @throws EnrolmentError if the fundraiser isn't the student's school's or has ended
+ */
+export async function optIn(student: Student, fundraiserId: number): Promise<void> {
+  const fundraiser = await getSchoolFundraiser(student.schoolId, fundraiserId);
+  if (!fundraiser.isActive) {
+    throw new EnrolmentError(`Fundraiser '${fundraiser.name}' is not currently active`);
+  }
+  await storage.createStudentFundraisers([{ studentId: student.id, fundraiserId: fundraiser.id }]);
+}
+
+/**
+ * Let a student leave a fundraiser they signed up to or were assigned
+ *
+ * @param student - The student opting out
+ * @param fundraiserId - The fundraiser
+ * @throws EnrolmentError if the fundraiser isn't the student's school's
+ */
+export async function optOut(student: Student, fundraiserId: number): Promise<void> {
+  await getSchoolFundraiser(student.schoolId, fundraiserId);
+  await storage.deleteStudentFundraiser(student.id, fundraiserId);
+}
+
+/**
+ * Work out which student a sale is credited to
+ *
+ * @param fundraiserId - The fundraiser being sold
+ * @param studentId - The student who referred the sale, if any
+ * @returns The student, or null if nobody referred it or they aren't enrolled in the fundraiser
+ */
+export async function creditedStudentId(fundraiserId: number, studentId: number | null): Promise<number | null> {
+  if (studentId === null) {
+    return null;
+  }
+  if (!await storage.isStudentEnrolled(studentId, fundraiserId)) {
+    console.log(`Not crediting student ${studentId}, they aren't enrolled in fundraiser ${fundraiserId}`);
+    return null;
+  }
+  return studentId;
+}
+
+export default {
+  getEnrolledStudents,
+  assignStudents,
+  unassignStudent,
+  getEnrolledFundraiserIds,
+  optIn,
+  optOut,
+  creditedStudentId
+};
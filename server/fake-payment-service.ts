@@ -0,0 +1,121 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import type { IncomingHttpHeaders } from "http";
+import { PaymentProvider } from "@shared/schema";
+import {
+  PaymentGatewayError,
+  type PaymentGateway,
+  type PaymentWebhookEvent,
+  type ProviderPayment
+} from "./payment-gateway";
+
+interface FakePayment {
+  payment: ProviderPayment;
+  refundedAmount: number;
+}
+
+// Lost on restart, which is all local testing needs
+const payments = new Map<string, FakePayment>();
+
+function fakeId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString("hex")}`;
+}
+
+// Anyone who can reach the webhook can post one, nothing is signed
+const referenceSchema = z.string({ message: "Payment reference is required" });
+const webhookBodySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("payment.succeeded"), reference: referenceSchema }),
+  z.object({ type: z.literal("payment.failed"), reference: referenceSchema, reason: z.string().optional() })
+], { errorMap: () => ({ message: "Unsupported fake event" }) });
+
+function findPayment(reference: string): FakePayment {
+  const found = payments.get(reference);
+  if (!found) {
+    throw new PaymentGatewayError(`Fake payment ${reference} not found`, 404);
+  }
+  return found;
+}
+
+/**
+ * Read a simulated webhook event, settling the payment it is about
+ *
+ * There is no signature, the body is plain JSON of the form
+ * { "type": "payment.succeeded" | "payment.failed", "reference": "...", "reason"?: "..." }
+ *
+ * @param rawBody - The request body exactly as received
+ * @returns The event in the form the app handles
+ * @throws PaymentGatewayError if the body isn't a simulated event for a known payment
+ */
+function parseWebhook(rawBody: Buffer, _headers: IncomingHttpHeaders): PaymentWebhookEvent {
+  let json: unknown;
+  try {
+    json = JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    throw new PaymentGatewayError("invalid event", 400);
+  }
+  const parsed = webhookBodySchema.safeParse(json);
+  if (!parsed.success) {
+    throw new PaymentGatewayError(parsed.error.errors[0].message, 400);
+  }
+  const body = parsed.data;
+
+  const found = findPayment(body.reference);
+  const logged = { id: `${body.type}:${found.payment.reference}`, type: body.type };
+  switch (body.type) {
+    case "payment.succeeded":
+      found.payment.status = "succeeded";
+      found.payment.capturedAmount = found.payment.amount;
+      return { ...logged, kind: "payment.succeeded", payment: { ...found.payment } };
+    case "payment.failed":
+      found.payment.status = "failed";
+      return {
+        ...logged,
+        kind: "payment.failed",
+        reference: found.payment.reference,
+        reason: body.reason || "declined by the fake provider"
+      };
+  }
+}
+
+// An in-memory provider for trying checkouts locally without a Stripe or Paystack account.
+// Payments stay pending until a simulated webhook settles them. Only registered when
+// ENABLE_FAKE_PAYMENTS=true, never set it where real buyers can reach the app
+export const fakeGateway: PaymentGateway = {
+  provider: PaymentProvider.FAKE,
+
+  async createCheckout({ amount, metadata }) {
+    const reference = fakeId("fake_payment");
+    payments.set(reference, {
+      payment: { reference, status: "pending", amount, capturedAmount: 0, currency: "usd", metadata },
+      refundedAmount: 0
+    });
+    return { reference, clientSecret: null };
+  },
+
+  async cancelCheckout(reference) {
+    const found = payments.get(reference);
+    if (found && found.payment.status === "pending") {
+      found.payment.status = "failed";
+    }
+  },
+
+  async verifyPayment(reference) {
+    const found = payments.get(reference);
+    return found ? { ...found.payment } : null;
+  },
+
+  async refund(reference, amount) {
+    const found = findPayment(reference);
+    if (found.payment.status !== "succeeded" || found.refundedAmount + amount > found.payment.capturedAmount) {
+      throw new PaymentGatewayError("Fake refund failed");
+    }
+    found.refundedAmount += amount;
+    return fakeId("fake_refund");
+  },
+
+  parseWebhook
+};
+
+export default {
+  fakeGateway
+};
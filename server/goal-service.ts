@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import {
+  GOAL_MILESTONES,
+  centsSchema,
+  clearableSchema,
+  insertFundraiserSchema,
+  type Fundraiser,
+  type GoalProgress,
+  type InsertFundraiser,
+  type TicketPurchase
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+
+/**
+ * Raised when a fundraiser's goals are invalid
+ */
+export class GoalError extends HttpError {}
+
+// A goal sent empty is removed
+const goalSettingsSchema = insertFundraiserSchema
+  .pick({ goalAmount: true, studentGoalAmount: true })
+  .extend({
+    goalAmount: clearableSchema(centsSchema("Goal")),
+    studentGoalAmount: clearableSchema(centsSchema("Student goal"))
+  })
+  .partial();
+
+/**
+ * Validate the goals sent with a fundraiser form
+ *
+ * Goals left out of the form are left out of the result, so an update keeps them.
+ *
+ * @param body - The submitted form, from JSON or a multipart form
+ * @returns The fundraiser's goal and per-student goal to store
+ * @throws GoalError if a goal is invalid
+ */
+export function parseGoalSettings(body: unknown): Partial<InsertFundraiser> {
+  return parseBody(goalSettingsSchema, body, GoalError);
+}
+
+/**
+ * Work out how far fundraisers are towards their goals
+ *
+ * @param fundraisers - The fundraisers to report on
+ * @param studentId - The student whose own sales to include, if any
+ * @returns The progress of each fundraiser, in the order given
+ */
+export async function getGoalProgress(fundraisers: Fundraiser[], studentId?: number): Promise<GoalProgress[]> {
+  const fundraiserIds = fundraisers.map((fundraiser) => fundraiser.id);
+  const raised = await storage.getSalesTotalsByFundraiserIds(fundraiserIds);
+  const studentRaised = studentId !== undefined
+    ? await storage.getSalesTotalsByFundraiserIds(fundraiserIds, studentId)
+    : null;
+
+  return fundraisers.map((fundraiser) => ({
+    fundraiserId: fundraiser.id,
+    fundraiserName: fundraiser.name,
+    goal: fundraiser.goalAmount,
+    raised: raised.get(fundraiser.id) ?? 0,
+    studentGoal: studentRaised ? fundraiser.studentGoalAmount : null,
+    studentRaised: studentRaised ? studentRaised.get(fundraiser.id) ?? 0 : null,
+  }));
+}
+
+// The milestones reached with this much raised that nobody has been told about yet
+async function claimReachedMilestones(
+  fundraiserId: number,
+  studentId: number | null,
+  goal: number,
+  raised: number
+): Promise<number[]> {
+  const claimed: number[] = [];
+  for (const percentage of GOAL_MILESTONES) {
+    if (raised * 100 < goal * percentage) {
+      continue;
+    }
+    if (await storage.claimGoalMilestone(fundraiserId, studentId, percentage)) {
+      claimed.push(percentage);
+    }
+  }
+  return claimed;
+}
+
+function milestoneTitle(percentage: number): string {
+  return percentage >= 100 ? "Goal Reached" : `${percentage}% of Goal Reached`;
+}
+
+async function checkFundraiserMilestones(fundraiser: Fundraiser) {
+  if (fundraiser.goalAmount === null) {
+    return;
+  }
+
+  const raised = (await storage.getSalesTotalsByFundraiserIds([fundraiser.id])).get(fundraiser.id) ?? 0;
+  const reached = await claimReachedMilestones(fundraiser.id, null, fundraiser.goalAmount, raised);
+  if (reached.length === 0) {
+    return;
+  }
+
+  const school = await storage.getSchool(fundraiser.schoolId);
+  if (!school) {
+    return;
+  }
+  const percentage = Math.max(...reached);
+  await storage.createNotification({
+    userId: school.userId,
+    title: milestoneTitle(percentage),
+    message: `${fundraiser.name} has reached ${percentage}% of its goal`,
+    type: "success",
+    read: false
+  });
+  console.log(`Fundraiser ${fundraiser.id} reached ${percentage}% of its goal`);
+}
+
+async function checkStudentMilestones(fundraiser: Fundraiser, studentId: number) {
+  if (fundraiser.studentGoalAmount === null) {
+    return;
+  }
+
+  const raised = (await storage.getSalesTotalsByFundraiserIds([fundraiser.id], studentId)).get(fundraiser.id) ?? 0;
+  const reached = await claimReachedMilestones(fundraiser.id, studentId, fundraiser.studentGoalAmount, raised);
+  if (reached.length === 0) {
+    return;
+  }
+
+  const student = await storage.getStudent(studentId);
+  if (!student) {
+    return;
+  }
+  const percentage = Math.max(...reached);
+  await storage.createNotification({
+    userId: student.userId,
+    title: milestoneTitle(percentage),
+    message: `You have reached ${percentage}% of your goal for ${fundraiser.name}`,
+    type: "success",
+    read: false
+  });
+  console.log(`Student ${studentId} reached ${percentage}% of their goal for fundraiser ${fundraiser.id}`);
+}
+
+/**
+ * Notify schools and students of the goal milestones newly completed sales have reached
+ *
+ * Each milestone is claimed before it is notified, so sales completing at the same time
+ * notify it once. Crossing several milestones at once only notifies the highest.
+ *
+ * @param purchases - The ticket purchases that were just completed
+ */
+export async function checkGoalMilestones(purchases: TicketPurchase[]): Promise<void> {
+  const fundraiserIds = Array.from(new Set(purchases.map((purchase) => purchase.fundraiserId)));
+  for (const fundraiserId of fundraiserIds) {
+    const fundraiser = await storage.getFundraiser(fundraiserId);
+    if (!fundraiser) {
+      continue;
+    }
+
+    await checkFundraiserMilestones(fundraiser);
+
+    const studentIds = new Set<number>();
+    for (const purchase of purchases) {
+      if (purchase.fundraiserId === fundraiserId && purchase.studentId !== null) {
+        studentIds.add(purchase.studentId);
+      }
+    }
+    for (const studentId of Array.from(studentIds)) {
+      await checkStudentMilestones(fundraiser, studentId);
+    }
+  }
+}
+
+export default {
+  parseGoalSettings,
+  getGoalProgress,
+  checkGoalMilestones
+};
@@ -0,0 +1,58 @@
+import type { Response } from "express";
+import type { z } from "zod";
+
+/**
+ * Raised by a service when a request can't be carried out, carries the HTTP status to respond with.
+ * Each service subclasses it so callers can still tell its errors apart
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+}
+
+/**
+ * Respond with the message and status of an HttpError
+ *
+ * @param res - The response to send
+ * @param error - Whatever the route caught
+ * @returns false if it isn't an HttpError, the route then handles it itself
+ */
+export function sendHttpError(res: Response, error: unknown): boolean {
+  if (!(error instanceof HttpError)) {
+    return false;
+  }
+  res.status(error.status).json({ message: error.message });
+  return true;
+}
+
+/**
+ * Read a request body with a zod schema
+ *
+ * @param schema - What the body should hold
+ * @param body - The body as received
+ * @param ErrorType - The service's error to raise, HttpError by default
+ * @returns The parsed body
+ * @throws ErrorType with the first problem found if the body doesn't match
+ */
+export function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown,
+  ErrorType: new (message: string) => HttpError = HttpError
+): z.output<T> {
+  const parsed = schema.safeParse(body ?? {});
+  if (!parsed.success) {
+    throw new ErrorType(parsed.error.errors[0].message);
+  }
+  return parsed.data;
+}
+
+export default {
+  HttpError,
+  sendHttpError,
+  parseBody
+};
@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import * as orderService from "./order-service";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
+// How often unpaid checkouts are checked for expiry
+const ABANDONED_ORDER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
 const app = express();
-app.use(express.json());
+// Keep the unparsed body, webhook signatures are computed over the exact bytes received
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,4 +82,10 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  setInterval(() => {
+    orderService.expireAbandonedOrders().catch(error => {
+      console.error("Error expiring abandoned orders:", error);
+    });
+  }, ABANDONED_ORDER_CHECK_INTERVAL_MS);
 })();
@@ -0,0 +1,165 @@
+import { storage } from "./storage";
+import {
+  PaymentStatus,
+  type Fundraiser,
+  type FundraiserWithAvailability,
+  type PaymentStatusType,
+  type TicketType
+} from "@shared/schema";
+
+// Ticket purchases holding seats: paid ones, cash awaiting confirmation and checkouts
+// still waiting for their payment. Failed, abandoned, rejected and fully refunded
+// purchases give their seats back
+export const HOLDING_STATUSES: PaymentStatusType[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.CASH_PENDING,
+  PaymentStatus.COMPLETED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+export interface OversoldItem {
+  name: string; // The fundraiser or ticket type that ran out
+  remaining: number; // Tickets left once the oversold reservation is released
+}
+
+interface ReservedLine {
+  fundraiserId: number;
+  ticketTypeId?: number | null;
+  quantity: number;
+}
+
+function sumQuantities(lines: ReservedLine[]): number {
+  return lines.reduce((sum, line) => sum + line.quantity, 0);
+}
+
+/**
+ * Count the tickets each fundraiser still has on sale
+ *
+ * @param fundraisers - The fundraisers to count for
+ * @returns Remaining tickets by fundraiser ID, fundraisers without a capacity are left out
+ */
+export async function getTicketsRemaining(fundraisers: Fundraiser[]): Promise<Map<number, number>> {
+  const limited = fundraisers.filter((fundraiser) => fundraiser.capacity !== null);
+  const held = await storage.getTicketCountsByFundraiserIds(
+    limited.map((fundraiser) => fundraiser.id),
+    HOLDING_STATUSES
+  );
+
+  const remaining = new Map<number, number>();
+  for (const fundraiser of limited) {
+    remaining.set(fundraiser.id, Math.max((fundraiser.capacity ?? 0) - (held.get(fundraiser.id) ?? 0), 0));
+  }
+  return remaining;
+}
+
+/**
+ * Count the tickets of each ticket type still on sale
+ *
+ * @param ticketTypes - The ticket types to count for
+ * @returns Remaining tickets by ticket type ID, types without a capacity are left out
+ */
+export async function getTicketTypesRemaining(ticketTypes: TicketType[]): Promise<Map<number, number>> {
+  const limited = ticketTypes.filter((ticketType) => ticketType.capacity !== null);
+  const held = await storage.getTicketCountsByTicketTypeIds(
+    limited.map((ticketType) => ticketType.id),
+    HOLDING_STATUSES
+  );
+
+  const remaining = new Map<number, number>();
+  for (const ticketType of limited) {
+    remaining.set(ticketType.id, Math.max((ticketType.capacity ?? 0) - (held.get(ticketType.id) ?? 0), 0));
+  }
+  return remaining;
+}
+
+/**
+ * Add the tickets still on sale and the ticket types on offer to fundraisers being shown
+ *
+ * @param fundraisers - The fundraisers to show
+ * @returns The fundraisers with ticketsRemaining and their active ticket types set
+ */
+export async function withAvailability(fundraisers: Fundraiser[]): Promise<FundraiserWithAvailability[]> {
+  const remaining = await getTicketsRemaining(fundraisers);
+  const ticketTypes = (await storage.getTicketTypesByFundraiserIds(fundraisers.map((fundraiser) => fundraiser.id)))
+    .filter((ticketType) => ticketType.isActive);
+  const typesRemaining = await getTicketTypesRemaining(ticketTypes);
+
+  return fundraisers.map((fundraiser) => ({
+    ...fundraiser,
+    ticketsRemaining: remaining.get(fundraiser.id) ?? null,
+    ticketTypes: ticketTypes
+      .filter((ticketType) => ticketType.fundraiserId === fundraiser.id)
+      .map((ticketType) => ({
+        ...ticketType,
+        ticketsRemaining: typesRemaining.get(ticketType.id) ?? null,
+      })),
+  }));
+}
+
+/**
+ * Find a fundraiser or ticket type that has sold more tickets than its capacity
+ *
+ * Run after tickets have been reserved, two buyers taking the last seats at the
+ * same time both see it oversold and neither keeps the seats.
+ *
+ * @param lines - The fundraisers, ticket types and quantities that were just reserved
+ * @returns The first oversold fundraiser or ticket type, or undefined if every reservation fits
+ */
+export async function findOversold(lines: ReservedLine[]): Promise<OversoldItem | undefined> {
+  const fundraisers: Fundraiser[] = [];
+  for (const fundraiserId of Array.from(new Set(lines.map((line) => line.fundraiserId)))) {
+    const fundraiser = await storage.getFundraiser(fundraiserId);
+    if (fundraiser && fundraiser.capacity !== null) {
+      fundraisers.push(fundraiser);
+    }
+  }
+
+  const ticketTypes: TicketType[] = [];
+  for (const line of lines) {
+    if (line.ticketTypeId && !ticketTypes.some((ticketType) => ticketType.id === line.ticketTypeId)) {
+      const ticketType = await storage.getTicketType(line.ticketTypeId);
+      if (ticketType && ticketType.capacity !== null) {
+        ticketTypes.push(ticketType);
+      }
+    }
+  }
+
+  const fundraisersHeld = await storage.getTicketCountsByFundraiserIds(
+    fundraisers.map((fundraiser) => fundraiser.id),
+    HOLDING_STATUSES
+  );
+  const oversoldFundraiser = fundraisers.find(
+    (fundraiser) => (fundraisersHeld.get(fundraiser.id) ?? 0) > (fundraiser.capacity ?? 0)
+  );
+  if (oversoldFundraiser) {
+    const reserved = sumQuantities(lines.filter((line) => line.fundraiserId === oversoldFundraiser.id));
+    return {
+      name: oversoldFundraiser.name,
+      remaining: Math.max((oversoldFundraiser.capacity ?? 0) - (fundraisersHeld.get(oversoldFundraiser.id) ?? 0) + reserved, 0),
+    };
+  }
+
+  const typesHeld = await storage.getTicketCountsByTicketTypeIds(
+    ticketTypes.map((ticketType) => ticketType.id),
+    HOLDING_STATUSES
+  );
+  const oversoldType = ticketTypes.find(
+    (ticketType) => (typesHeld.get(ticketType.id) ?? 0) > (ticketType.capacity ?? 0)
+  );
+  if (oversoldType) {
+    const reserved = sumQuantities(lines.filter((line) => line.ticketTypeId === oversoldType.id));
+    return {
+      name: oversoldType.name,
+      remaining: Math.max((oversoldType.capacity ?? 0) - (typesHeld.get(oversoldType.id) ?? 0) + reserved, 0),
+    };
+  }
+
+  return undefined;
+}
+
+export default {
+  getTicketsRemaining,
+  getTicketTypesRemaining,
+  withAvailability,
+  findOversold
+};
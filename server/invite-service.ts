@@ -0,0 +1,238 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { sendEmailInBackground } from "./email-service";
+import { hashToken } from "./account-service";
+import {
+  UserRole,
+  type Invite,
+  type InviteSummary,
+  type School,
+  type SentInvite,
+  type UserRoleType
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+const INVITE_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 1 week
+
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 8;
+
+const inviteEmailSchema = z.string().trim().toLowerCase().email();
+
+/**
+ * Raised when an invite or join code can't be made or used
+ */
+export class InviteError extends HttpError {}
+
+function generateJoinCode(): string {
+  return Array.from(
+    randomBytes(JOIN_CODE_LENGTH),
+    (byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]
+  ).join("");
+}
+
+// Admins invite schools, schools invite students to themselves
+async function invitingFor(inviterId: number): Promise<{ role: UserRoleType; school: School | null }> {
+  const inviter = await storage.getUser(inviterId);
+  if (inviter?.role === UserRole.ADMIN) {
+    return { role: UserRole.SCHOOL, school: null };
+  }
+  if (inviter?.role === UserRole.SCHOOL) {
+    const school = await storage.getSchoolByUserId(inviter.id);
+    if (!school) {
+      throw new InviteError("School not found", 404);
+    }
+    return { role: UserRole.STUDENT, school };
+  }
+  throw new InviteError("Only admins and schools can send invites", 403);
+}
+
+function withoutTokenHash({ tokenHash, ...invite }: Invite): SentInvite {
+  return invite;
+}
+
+// An invite that can still be accepted, by the token from its link
+async function findPendingInvite(token: unknown): Promise<Invite> {
+  const invite = typeof token === "string" && token
+    ? await storage.getInviteByTokenHash(hashToken(token))
+    : undefined;
+  if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+    throw new InviteError("This invite is invalid or has expired");
+  }
+  return invite;
+}
+
+/**
+ * Email an invite to register, any earlier invite to the same address stops working
+ *
+ * @param inviterId - The user of an admin inviting a school, or of a school inviting a student
+ * @param email - Where to send the invite
+ * @param appUrl - Where the app is served from, the link points there
+ * @returns The invite
+ * @throws InviteError if the inviter can't invite or the email is invalid or already registered
+ */
+export async function createInvite(inviterId: number, email: unknown, appUrl: string): Promise<SentInvite> {
+  const { role, school } = await invitingFor(inviterId);
+  const parsed = inviteEmailSchema.safeParse(email);
+  if (!parsed.success) {
+    throw new InviteError("Please enter a valid email");
+  }
+  if (await storage.getUserByEmail(parsed.data)) {
+    throw new InviteError(`${parsed.data} already has an account`, 409);
+  }
+
+  const schoolId = school ? school.id : null;
+  await storage.deletePendingInvites(parsed.data, role, schoolId);
+
+  const token = randomBytes(32).toString("hex");
+  const invite = await storage.createInvite({
+    email: parsed.data,
+    role,
+    schoolId,
+    invitedByUserId: inviterId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+  });
+
+  sendEmailInBackground({
+    to: invite.email,
+    subject: school ? `Join ${school.name} on SchoolRaise` : "Register your school on SchoolRaise",
+    text: [
+      school
+        ? `${school.name} has invited you to join their fundraisers on SchoolRaise.`
+        : "You've been invited to register your school on SchoolRaise.",
+      `Create your account here: ${appUrl}/auth?invite=${token}`,
+      "The link works for a week."
+    ].join("\n")
+  });
+
+  return withoutTokenHash(invite);
+}
+
+/**
+ * List the invites a user's sent that haven't been accepted yet, along with those of other
+ * admins for an admin, since they invite on behalf of the platform
+ *
+ * @param inviterId - The user of an admin or school
+ * @returns The pending invites, newest first
+ */
+export async function listPendingInvites(inviterId: number): Promise<SentInvite[]> {
+  const { role, school } = await invitingFor(inviterId);
+  const pending = await storage.getPendingInvites(role, school ? school.id : null);
+  return pending.map(withoutTokenHash);
+}
+
+/**
+ * Withdraw an invite before it's accepted
+ *
+ * @param inviterId - The user of an admin or school
+ * @param inviteId - The invite
+ * @throws InviteError if the invite isn't one the user could have sent, or it's been accepted
+ */
+export async function revokeInvite(inviterId: number, inviteId: number): Promise<void> {
+  const { role, school } = await invitingFor(inviterId);
+  const invite = await storage.getInvite(inviteId);
+  if (!invite || invite.role !== role || invite.schoolId !== (school ? school.id : null)) {
+    throw new InviteError("Invite not found", 404);
+  }
+  if (invite.acceptedAt) {
+    throw new InviteError("This invite has already been accepted");
+  }
+  await storage.deleteInvite(invite.id);
+}
+
+/**
+ * Describe an invite for the registration form
+ *
+ * @param token - The token from the invite link
+ * @returns Who the invite is for and the school a student would join
+ * @throws InviteError if the invite is unknown, accepted or expired
+ */
+export async function getInviteSummary(token: unknown): Promise<InviteSummary> {
+  const invite = await findPendingInvite(token);
+  const school = invite.schoolId !== null ? await storage.getSchool(invite.schoolId) : undefined;
+  return {
+    email: invite.email,
+    role: invite.role,
+    schoolName: school ? school.name : null,
+    expiresAt: invite.expiresAt
+  };
+}
+
+/**
+ * Use up an invite as its account is registered
+ *
+ * Call it in the transaction that creates the account, so the invite only counts as used
+ * once the account exists.
+ *
+ * @param token - The token from the invite link
+ * @param role - The role being registered
+ * @param email - The email being registered, which must be the one invited
+ * @returns The accepted invite
+ * @throws InviteError if the invite doesn't work or is for another role or email
+ */
+export async function acceptInvite(token: unknown, role: UserRoleType, email: unknown): Promise<Invite> {
+  const invite = await findPendingInvite(token);
+  if (invite.role !== role) {
+    throw new InviteError(`This invite is for a ${invite.role} account`);
+  }
+  if (typeof email !== "string" || email.trim().toLowerCase() !== invite.email) {
+    throw new InviteError(`This invite is for ${invite.email}`);
+  }
+
+  const accepted = await storage.acceptInvite(invite.id);
+  if (!accepted) {
+    throw new InviteError("This invite is invalid or has expired");
+  }
+  return accepted;
+}
+
+/**
+ * Get the code students register with to join a school, making one the first time
+ *
+ * @param school - The school
+ * @returns The school's join code
+ */
+export async function getJoinCode(school: School): Promise<string> {
+  return school.joinCode ?? regenerateJoinCode(school);
+}
+
+/**
+ * Replace a school's join code, e.g. after it's been shared too widely. The old code stops working
+ *
+ * @param school - The school
+ * @returns The new join code
+ */
+export async function regenerateJoinCode(school: School): Promise<string> {
+  const updated = await storage.updateSchool(school.id, { joinCode: generateJoinCode() });
+  return updated.joinCode!;
+}
+
+/**
+ * Find the school a student is joining by its join code
+ *
+ * @param joinCode - The code the student entered
+ * @returns The school
+ * @throws InviteError if no school has the code
+ */
+export async function findSchoolByJoinCode(joinCode: unknown): Promise<School> {
+  const school = typeof joinCode === "string" && joinCode.trim()
+    ? await storage.getSchoolByJoinCode(joinCode.trim().toUpperCase())
+    : undefined;
+  if (!school) {
+    throw new InviteError("Enter your school's join code or use the invite link your school sent you");
+  }
+  return school;
+}
+
+export default {
+  createInvite,
+  listPendingInvites,
+  revokeInvite,
+  getInviteSummary,
+  acceptInvite,
+  getJoinCode,
+  regenerateJoinCode,
+  findSchoolByJoinCode
+};
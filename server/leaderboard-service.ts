@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import {
+  type LeaderboardEntry,
+  type StudentSalesTotal
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+// Places shown to students, their own place is added when they're further down
+const STUDENT_LEADERBOARD_SIZE = 10;
+
+/**
+ * Raised when a leaderboard can't be shown
+ */
+export class LeaderboardError extends HttpError {}
+
+export interface LeaderboardViewer {
+  schoolId: number;
+  studentId?: number; // Set when a student is looking, other students' hidden names stay hidden
+}
+
+// Students with the same amount and tickets share a place, the next place is skipped
+function rank(totals: StudentSalesTotal[], viewer: LeaderboardViewer): LeaderboardEntry[] {
+  const entries: LeaderboardEntry[] = [];
+  totals.forEach((total, index) => {
+    const previous = entries[index - 1];
+    const tied = previous
+      && previous.amountRaised === total.amountRaised
+      && previous.ticketsSold === total.ticketsSold;
+    const isCurrentStudent = total.studentId === viewer.studentId;
+    const nameHidden = viewer.studentId !== undefined && !isCurrentStudent && !total.showNameOnLeaderboard;
+
+    entries.push({
+      rank: tied ? previous.rank : index + 1,
+      studentId: nameHidden ? null : total.studentId,
+      displayName: nameHidden ? null : total.username,
+      ticketsSold: total.ticketsSold,
+      amountRaised: total.amountRaised,
+      isCurrentStudent,
+    });
+  });
+  return entries;
+}
+
+/**
+ * Rank a school's students by amount raised, then tickets sold
+ *
+ * Schools see every student by name. Students see the top of the board and their own
+ * place, with the names of students who asked to stay anonymous left out.
+ *
+ * @param viewer - The school, and the student if a student is looking
+ * @param fundraiserId - The fundraiser to rank for, school-wide when not given
+ * @returns The leaderboard, best seller first
+ * @throws LeaderboardError if the fundraiser isn't the school's
+ */
+export async function getLeaderboard(viewer: LeaderboardViewer, fundraiserId?: unknown): Promise<LeaderboardEntry[]> {
+  let fundraiserFilter: number | undefined;
+  if (fundraiserId !== undefined && fundraiserId !== "") {
+    fundraiserFilter = parseInt(String(fundraiserId), 10);
+    const fundraiser = Number.isNaN(fundraiserFilter) ? undefined : await storage.getFundraiser(fundraiserFilter);
+    if (!fundraiser || fundraiser.schoolId !== viewer.schoolId) {
+      throw new LeaderboardError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+    }
+  }
+
+  const entries = rank(await storage.getStudentSalesTotals(viewer.schoolId, fundraiserFilter), viewer);
+  if (viewer.studentId === undefined) {
+    return entries;
+  }
+
+  return entries.filter((entry, index) => index < STUDENT_LEADERBOARD_SIZE || entry.isCurrentStudent);
+}
+
+export default {
+  getLeaderboard
+};
@@ -0,0 +1,361 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { afterCommit } from "./db";
+import * as ticketService from "./ticket-service";
+import * as inventoryService from "./inventory-service";
+import * as promoService from "./promo-service";
+import * as goalService from "./goal-service";
+import * as enrolmentService from "./enrolment-service";
+import { PricingError, SoldOutError } from "./pricing-service";
+import {
+  PaymentStatus,
+  type Order,
+  type OrderDetails,
+  type PaymentProviderType,
+  type PaymentStatusType,
+  type Ticket,
+  type TicketPurchase
+} from "@shared/schema";
+
+// Unambiguous characters only, order numbers get read out over the phone
+const ORDER_NUMBER_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// How long a checkout may stay unpaid before it counts as abandoned, its tickets are held until then
+const PENDING_ORDER_TTL_MINUTES = Number(process.env.PENDING_ORDER_TTL_MINUTES) || 15;
+
+// Unpaid checkouts one buyer may hold tickets with at once, by address or email
+const MAX_PENDING_ORDERS_PER_BUYER = Number(process.env.MAX_PENDING_ORDERS_PER_BUYER) || 3;
+
+// Orders the buyer paid for, whatever has been refunded since
+export const PAID_ORDER_STATUSES: PaymentStatusType[] = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+// Checkouts that were started but never paid for
+export const UNPAID_ORDER_STATUSES: PaymentStatusType[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.FAILED,
+  PaymentStatus.ABANDONED,
+];
+
+export interface OrderLineInput {
+  fundraiserId: number;
+  ticketTypeId?: number | null;
+  studentId: number | null;
+  quantity: number;
+  amount: number; // in cents
+  capturedAmount?: number | null;
+  flaggedForReview?: boolean;
+  reviewReason?: string | null;
+}
+
+export interface CreateOrderInput {
+  provider: PaymentProviderType;
+  paymentReference: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string | null;
+  lines: OrderLineInput[];
+  capturedAmount?: number | null;
+  recordedBy?: number | null; // User who took a cash payment
+  promoCodeId?: number | null;
+  discountAmount?: number; // Already taken off the line amounts, in cents
+  buyerIp?: string | null; // Where an online checkout was started
+}
+
+export interface RecordedOrder {
+  order: Order;
+  ticketPurchases: TicketPurchase[];
+  tickets: Ticket[];
+}
+
+/**
+ * Generate a new order number
+ *
+ * @returns An order number of the form SR-YYMMDD-XXXXXX
+ */
+export function generateOrderNumber(): string {
+  const date = new Date().toISOString().slice(2, 10).replace(/-/g, "");
+  const suffix = Array.from(randomBytes(6), (byte) => ORDER_NUMBER_ALPHABET[byte % ORDER_NUMBER_ALPHABET.length]).join("");
+  return `SR-${date}-${suffix}`;
+}
+
+// Write the order's ticket purchases, tickets are only issued once the order is paid.
+// A referring student who isn't enrolled in the fundraiser isn't credited with the sale
+async function createOrderLines(order: Order, input: CreateOrderInput): Promise<RecordedOrder> {
+  const ticketPurchases: TicketPurchase[] = [];
+  const tickets: Ticket[] = [];
+  for (const line of input.lines) {
+    const purchase = await storage.createTicketPurchase({
+      orderId: order.id,
+      fundraiserId: line.fundraiserId,
+      ticketTypeId: line.ticketTypeId ?? null,
+      studentId: await enrolmentService.creditedStudentId(line.fundraiserId, line.studentId),
+      customerName: input.customerName,
+      customerEmail: input.customerEmail,
+      customerPhone: input.customerPhone || null,
+      quantity: line.quantity,
+      amount: line.amount,
+      paymentIntentId: input.paymentReference, // Same reference for every line of the order
+      paymentStatus: order.status,
+      capturedAmount: line.capturedAmount ?? null,
+      flaggedForReview: line.flaggedForReview ?? false,
+      reviewReason: line.reviewReason ?? null,
+    });
+
+    ticketPurchases.push(purchase);
+    if (order.status === PaymentStatus.COMPLETED) {
+      tickets.push(...await ticketService.issueTicketsForPurchase(purchase));
+    }
+  }
+
+  return { order, ticketPurchases, tickets };
+}
+
+function orderTotals(input: CreateOrderInput) {
+  return {
+    totalAmount: input.lines.reduce((sum, line) => sum + line.amount, 0),
+    ticketCount: input.lines.reduce((sum, line) => sum + line.quantity, 0),
+  };
+}
+
+async function insertOrder(input: CreateOrderInput, status: PaymentStatusType): Promise<RecordedOrder> {
+  const order = await storage.createOrder({
+    orderNumber: generateOrderNumber(),
+    customerName: input.customerName,
+    customerEmail: input.customerEmail,
+    customerPhone: input.customerPhone || null,
+    provider: input.provider,
+    paymentReference: input.paymentReference,
+    status,
+    capturedAmount: status === PaymentStatus.COMPLETED ? input.capturedAmount ?? null : null,
+    recordedBy: input.recordedBy ?? null,
+    promoCodeId: input.promoCodeId ?? null,
+    discountAmount: input.discountAmount ?? 0,
+    buyerIp: input.buyerIp ?? null,
+    ...orderTotals(input),
+  });
+
+  return createOrderLines(order, input);
+}
+
+async function releaseOrder(input: CreateOrderInput) {
+  await storage.updateTicketPurchaseStatusByPaymentReference(input.paymentReference, PaymentStatus.FAILED);
+  await storage.updateOrderStatusByPaymentReference(input.paymentReference, PaymentStatus.FAILED);
+}
+
+// Hold the order's tickets and promo code redemption until it is paid for or confirmed.
+// Failing the order gives them back, so a checkout that would oversell a fundraiser or
+// ticket type, or use a promo code past its limit, never keeps them
+async function reserveOrder(input: CreateOrderInput, status: PaymentStatusType): Promise<RecordedOrder> {
+  const recorded = await insertOrder(input, status);
+
+  const oversold = await inventoryService.findOversold(input.lines);
+  if (oversold) {
+    await releaseOrder(input);
+    console.log(`Released order ${recorded.order.orderNumber}, '${oversold.name}' is oversold`);
+    throw new SoldOutError(oversold.name, oversold.remaining);
+  }
+
+  if (input.promoCodeId && await promoService.isOverRedeemed(input.promoCodeId)) {
+    await releaseOrder(input);
+    console.log(`Released order ${recorded.order.orderNumber}, its promo code is used up`);
+    throw new PricingError("This promo code has been used up", 409);
+  }
+
+  return recorded;
+}
+
+// Goal notifications are a side effect of the sale, failing to send them mustn't fail the payment.
+// They wait for the sale to be committed, a sale that is rolled back reaches no milestone
+function notifyGoalMilestones(purchases: TicketPurchase[]) {
+  afterCommit(() => {
+    goalService.checkGoalMilestones(purchases).catch(error => {
+      console.error("Error checking goal milestones:", error);
+    });
+  });
+}
+
+/**
+ * Record a paid order, its ticket purchases and their tickets
+ *
+ * @param input - Buyer, payment and line item details
+ * @returns The order with its ticket purchases and issued tickets
+ */
+export async function createOrder(input: CreateOrderInput): Promise<RecordedOrder> {
+  const recorded = await insertOrder(input, PaymentStatus.COMPLETED);
+  console.log(`Recorded order ${recorded.order.orderNumber} with ${recorded.ticketPurchases.length} ticket purchases`);
+  notifyGoalMilestones(recorded.ticketPurchases);
+  return recorded;
+}
+
+/**
+ * Record a checkout the buyer has started but not paid for yet
+ *
+ * The order's tickets are held until the checkout is paid for, fails or is abandoned.
+ * A buyer can only hold a few unpaid checkouts at once, so nobody can take a fundraiser's
+ * tickets off sale by starting checkouts they never pay for.
+ *
+ * @param input - Buyer, payment and line item details
+ * @returns The pending order with its ticket purchases, no tickets are issued
+ * @throws SoldOutError if the fundraiser ran out of tickets, PricingError if the promo code
+ *   was used up or the buyer holds too many unpaid checkouts, the checkout is then failed
+ */
+export async function createPendingOrder(input: CreateOrderInput): Promise<RecordedOrder> {
+  const recorded = await reserveOrder(input, PaymentStatus.PENDING);
+
+  // Counted once this one is held, so checkouts started side by side can't all slip under the limit
+  if (await storage.countPendingOrdersByBuyer(input.buyerIp ?? null, input.customerEmail) > MAX_PENDING_ORDERS_PER_BUYER) {
+    await releaseOrder(input);
+    console.log(`Released order ${recorded.order.orderNumber}, its buyer holds too many unpaid checkouts`);
+    throw new PricingError(
+      `You have ${MAX_PENDING_ORDERS_PER_BUYER} checkouts waiting for payment, pay for one or try again in ${PENDING_ORDER_TTL_MINUTES} minutes`,
+      429
+    );
+  }
+
+  console.log(`Started checkout ${recorded.order.orderNumber} for payment ${input.paymentReference}`);
+  return recorded;
+}
+
+/**
+ * Record cash a student took for tickets, to be confirmed by the school's treasurer
+ *
+ * @param input - Buyer, cash reference and line item details, with who took the cash
+ * @returns The order with its ticket purchases, tickets are issued once the cash is confirmed
+ * @throws SoldOutError if the fundraiser ran out of tickets, PricingError if the promo code
+ *   was used up, the order is then failed
+ */
+export async function createCashPendingOrder(input: CreateOrderInput): Promise<RecordedOrder> {
+  const recorded = await reserveOrder(input, PaymentStatus.CASH_PENDING);
+  console.log(`Recorded cash order ${recorded.order.orderNumber} awaiting confirmation`);
+  return recorded;
+}
+
+/**
+ * Record a confirmed payment, completing the checkout that started it if there is one
+ *
+ * A payment that arrives after its checkout failed or was abandoned still completes it,
+ * the money has been taken either way. The checkout's lines are replaced by the paid
+ * ones, so what the provider confirmed is what gets recorded.
+ *
+ * @param input - Buyer, payment and line item details of the confirmed payment
+ * @returns The completed order with its ticket purchases and issued tickets
+ */
+export async function recordPaidOrder(input: CreateOrderInput): Promise<RecordedOrder> {
+  const checkout = await storage.getOrderByPaymentReference(input.paymentReference);
+  if (!checkout || !UNPAID_ORDER_STATUSES.includes(checkout.status)) {
+    return createOrder(input);
+  }
+
+  await storage.deleteUnpaidTicketPurchasesByOrderId(checkout.id);
+  const order = await storage.updateOrder(checkout.id, {
+    customerName: input.customerName,
+    customerEmail: input.customerEmail,
+    customerPhone: input.customerPhone || null,
+    status: PaymentStatus.COMPLETED,
+    capturedAmount: input.capturedAmount ?? null,
+    ...orderTotals(input),
+  });
+
+  const recorded = await createOrderLines(order, input);
+  console.log(`Completed ${checkout.status} order ${order.orderNumber} with ${recorded.ticketPurchases.length} ticket purchases`);
+  notifyGoalMilestones(recorded.ticketPurchases);
+  return recorded;
+}
+
+/**
+ * Mark a pending checkout as failed after the provider declined the payment
+ *
+ * @param reference - The provider's payment reference
+ * @returns The failed order, or undefined if there was no pending checkout for the payment
+ */
+export async function failPendingOrder(reference: string): Promise<Order | undefined> {
+  const checkout = await storage.getOrderByPaymentReference(reference);
+  if (!checkout || checkout.status !== PaymentStatus.PENDING) {
+    return undefined;
+  }
+
+  await storage.updateTicketPurchaseStatusByPaymentReference(reference, PaymentStatus.FAILED);
+  return storage.updateOrderStatusByPaymentReference(reference, PaymentStatus.FAILED);
+}
+
+/**
+ * Read back what an unpaid checkout was started with, for payments that carry nothing else
+ *
+ * @param reference - The provider's payment reference
+ * @returns The checkout's buyer and line items as priced, or undefined if no unpaid checkout was started for the payment
+ */
+export async function getCheckoutInput(reference: string): Promise<CreateOrderInput | undefined> {
+  const checkout = await storage.getOrderByPaymentReference(reference);
+  if (!checkout || !UNPAID_ORDER_STATUSES.includes(checkout.status)) {
+    return undefined;
+  }
+
+  const purchases = await storage.getOrderItems(checkout.id);
+  return {
+    provider: checkout.provider,
+    paymentReference: reference,
+    customerName: checkout.customerName,
+    customerEmail: checkout.customerEmail,
+    customerPhone: checkout.customerPhone,
+    lines: purchases.map((purchase) => ({
+      fundraiserId: purchase.fundraiserId,
+      ticketTypeId: purchase.ticketTypeId,
+      studentId: purchase.studentId,
+      quantity: purchase.quantity,
+      amount: purchase.amount
+    })),
+    promoCodeId: checkout.promoCodeId,
+    discountAmount: checkout.discountAmount
+  };
+}
+
+/**
+ * Mark checkouts that have stayed pending for too long as abandoned
+ *
+ * @returns The orders that were abandoned
+ */
+export async function expireAbandonedOrders(): Promise<Order[]> {
+  const cutoff = new Date(Date.now() - PENDING_ORDER_TTL_MINUTES * 60 * 1000);
+  const abandoned = await storage.abandonPendingOrders(cutoff);
+  if (abandoned.length > 0) {
+    console.log(`Marked ${abandoned.length} unpaid checkouts as abandoned`);
+  }
+  return abandoned;
+}
+
+/**
+ * Load an order for the buyer who placed it
+ *
+ * @param reference - The payment reference the buyer was given at checkout
+ * @param customerEmail - The buyer's email, acts as the secret for this public lookup
+ * @returns The order with its items and tickets, or undefined if nothing matches
+ */
+export async function getOrderDetailsForBuyer(
+  reference: string,
+  customerEmail: string
+): Promise<OrderDetails | undefined> {
+  const order = await storage.getOrderByPaymentReference(reference);
+  if (!order || order.customerEmail.toLowerCase() !== customerEmail.trim().toLowerCase()) {
+    return undefined;
+  }
+
+  const items = await storage.getOrderItems(order.id);
+  const tickets = await storage.getTicketsByPaymentReference(reference, customerEmail.trim());
+  return { ...order, items, tickets };
+}
+
+export default {
+  generateOrderNumber,
+  createOrder,
+  createPendingOrder,
+  createCashPendingOrder,
+  recordPaidOrder,
+  failPendingOrder,
+  getCheckoutInput,
+  expireAbandonedOrders,
+  getOrderDetailsForBuyer
+};
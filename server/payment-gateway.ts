@@ -0,0 +1,129 @@
+import type { IncomingHttpHeaders } from "http";
+import type { PaymentProviderType } from "@shared/schema";
+import { HttpError } from "./http-error";
+
+/**
+ * Raised when a payment provider can't do what was asked of it, by default a bad gateway
+ */
+export class PaymentGatewayError extends HttpError {
+  constructor(message: string, status = 502) {
+    super(message, status);
+  }
+}
+
+export interface CheckoutRequest {
+  amount: number; // in cents
+  customerEmail: string;
+  metadata: Record<string, string>; // Kept with the payment in case the checkout isn't recorded before it comes in
+}
+
+export interface CheckoutSession {
+  reference: string; // The payment reference orders and donations are tracked by
+  clientSecret: string | null; // For providers the browser completes the payment with
+}
+
+export type ProviderPaymentStatus = "succeeded" | "pending" | "failed";
+
+// A payment as the provider reports it, whether looked up or sent in a webhook
+export interface ProviderPayment {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount: number; // What the checkout asked for, in cents
+  capturedAmount: number; // What the provider actually took, in cents
+  currency: string;
+  metadata: Record<string, any>;
+}
+
+// A webhook event reduced to what the app acts on. The provider's own event ID and type
+// are kept to log the event by
+export type PaymentWebhookEvent = { id: string; type: string } & (
+  | { kind: "payment.succeeded"; payment: ProviderPayment }
+  | { kind: "payment.failed"; reference: string; reason: string }
+  | {
+      kind: "refund.processed";
+      reference: string;
+      refundId: string | null;
+      amount: number; // This refund, in cents
+      // Where the provider says, everything refunded on the payment so far and whether that's all of it
+      totalRefunded: number | null;
+      paymentAmount: number | null;
+      fullyRefunded: boolean | null;
+    }
+  | { kind: "payment.disputed"; reference: string; disputeId: string; reason: string; amount: number }
+  | { kind: "ignored" }
+);
+
+/**
+ * What the app needs from a payment provider. Adding a provider means implementing this
+ * in its own module and registering it when the routes are set up
+ */
+export interface PaymentGateway {
+  provider: PaymentProviderType;
+
+  /**
+   * Start a payment for the given amount
+   *
+   * @throws PaymentGatewayError if the provider refuses it
+   */
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /** Give up on a payment that hasn't been made, e.g. because the checkout couldn't be recorded */
+  cancelCheckout(reference: string): Promise<void>;
+
+  /** Look a payment up with the provider, null if the provider doesn't know it */
+  verifyPayment(reference: string): Promise<ProviderPayment | null>;
+
+  /**
+   * Return part or all of a payment
+   *
+   * @returns The provider's ID for the refund, null if the provider doesn't move the money itself
+   * @throws PaymentGatewayError if the refund fails
+   */
+  refund(reference: string, amount: number): Promise<string | null>;
+
+  /**
+   * Check a webhook request came from the provider and read its event
+   *
+   * @throws PaymentGatewayError with status 400 if the request isn't a genuine event
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
+
+const gateways = new Map<PaymentProviderType, PaymentGateway>();
+
+/**
+ * Make a provider available to take and refund payments
+ *
+ * @param gateway - The provider's gateway, replaces any registered for the same provider
+ */
+export function registerPaymentGateway(gateway: PaymentGateway): void {
+  gateways.set(gateway.provider, gateway);
+}
+
+/**
+ * Check whether a provider is available, e.g. the fake provider unless it's enabled
+ */
+export function hasPaymentGateway(provider: PaymentProviderType): boolean {
+  return gateways.has(provider);
+}
+
+/**
+ * Get the gateway of a provider
+ *
+ * @param provider - The provider
+ * @returns Its registered gateway
+ * @throws PaymentGatewayError if it hasn't been registered
+ */
+export function getPaymentGateway(provider: PaymentProviderType): PaymentGateway {
+  const gateway = gateways.get(provider);
+  if (!gateway) {
+    throw new PaymentGatewayError(`Payment provider ${provider} is not available`, 500);
+  }
+  return gateway;
+}
+
+export default {
+  registerPaymentGateway,
+  hasPaymentGateway,
+  getPaymentGateway
+};
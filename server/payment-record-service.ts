@@ -0,0 +1,106 @@
+import { storage } from "./storage";
+import { inTransaction } from "./db";
+import {
+  PaymentRecordStatus,
+  type Order,
+  type PaymentProviderType,
+  type Ticket,
+  type TicketPurchase
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+export interface RecordedPurchases {
+  order: Order | null; // Null for payments recorded before orders existed
+  ticketPurchases: TicketPurchase[];
+  tickets: Ticket[];
+}
+
+export interface RecordedPayment extends RecordedPurchases {
+  // true when the payment had already been recorded by an earlier call
+  duplicate: boolean;
+}
+
+/**
+ * Raised when another request is still recording the same payment
+ */
+export class PaymentInProgressError extends HttpError {
+  constructor(reference: string) {
+    super(`Payment ${reference} is still being processed`, 409);
+  }
+}
+
+async function loadRecordedPurchases(reference: string): Promise<RecordedPurchases> {
+  const order = await storage.getOrderByPaymentReference(reference);
+  const ticketPurchases = await storage.getTicketPurchasesByPaymentReference(reference);
+  const tickets: Ticket[] = [];
+  for (const purchase of ticketPurchases) {
+    tickets.push(...await storage.getTicketsByPurchaseId(purchase.id));
+  }
+  return { order: order ?? null, ticketPurchases, tickets };
+}
+
+/**
+ * Look up the purchases already recorded for a payment
+ *
+ * @param provider - The payment provider
+ * @param reference - The provider's payment reference
+ * @returns The recorded purchases and tickets, or null if the payment hasn't been recorded
+ * @throws PaymentInProgressError if another request is recording the payment right now
+ */
+export async function findRecordedPayment(
+  provider: PaymentProviderType,
+  reference: string
+): Promise<RecordedPayment | null> {
+  const payment = await storage.getPayment(provider, reference);
+  if (!payment) {
+    return null;
+  }
+
+  if (payment.status !== PaymentRecordStatus.RECORDED) {
+    throw new PaymentInProgressError(reference);
+  }
+
+  return { ...await loadRecordedPurchases(reference), duplicate: true };
+}
+
+/**
+ * Record the purchases for a payment exactly once
+ *
+ * The payment is claimed by provider + reference before anything is written, so
+ * repeated verifications and webhook retries get the original result back instead
+ * of inserting the purchases again. The claim and the purchases are written in one
+ * transaction, a failure part way leaves neither behind and a concurrent request
+ * waits for the claim to commit or roll back.
+ *
+ * @param provider - The payment provider
+ * @param reference - The provider's payment reference
+ * @param record - Creates the purchases and tickets, only called for the first claim
+ * @returns The recorded purchases and tickets
+ * @throws PaymentInProgressError if another request is recording the payment right now
+ */
+export async function recordPaymentOnce(
+  provider: PaymentProviderType,
+  reference: string,
+  record: () => Promise<RecordedPurchases>
+): Promise<RecordedPayment> {
+  return inTransaction(async () => {
+    const payment = await storage.claimPayment(provider, reference);
+    if (!payment) {
+      const existing = await findRecordedPayment(provider, reference);
+      if (existing) {
+        return existing;
+      }
+      // The claim was rolled back between the two queries, let the caller retry
+      throw new PaymentInProgressError(reference);
+    }
+
+    const recorded = await record();
+    await storage.markPaymentRecorded(payment.id);
+    return { ...recorded, duplicate: false };
+  });
+}
+
+export default {
+  findRecordedPayment,
+  recordPaymentOnce
+};
@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import * as orderService from "./order-service";
+import * as donationService from "./donation-service";
+import * as refundService from "./refund-service";
+import { PaymentStatus } from "@shared/schema";
+import type { PaymentWebhookEvent, ProviderPayment } from "./payment-gateway";
+
+type WebhookEventOf<K extends PaymentWebhookEvent["kind"]> = Extract<PaymentWebhookEvent, { kind: K }>;
+
+// A declined payment fails its checkout. The buyer can retry with the same payment,
+// a later success still completes the order
+async function recordPaymentFailed(event: WebhookEventOf<"payment.failed">) {
+  console.warn(`Payment ${event.reference} failed: ${event.reason}`);
+
+  const order = await orderService.failPendingOrder(event.reference);
+  if (order) {
+    console.log(`Marked order ${order.orderNumber} as failed`);
+  }
+
+  const donation = await donationService.failDonation(event.reference);
+  if (donation) {
+    console.log(`Marked donation ${donation.id} as failed`);
+  }
+}
+
+// A refund issued from the provider's dashboard or API, or one the app made itself
+async function recordRefund(event: WebhookEventOf<"refund.processed">) {
+  const order = await storage.getOrderByPaymentReference(event.reference);
+  if (order) {
+    // Refunds made through the app are already recorded against the order's lines, by their refund ID
+    const result = await refundService.recordProviderRefund(order, event.totalRefunded, event.amount, event.refundId);
+    if (!result) {
+      console.log(`Refund on payment ${event.reference} already recorded`);
+    }
+    return;
+  }
+
+  if (event.totalRefunded === null) {
+    console.warn(`Refund ${event.refundId} is for unknown payment ${event.reference}, nothing to update`);
+    return;
+  }
+
+  // Purchases recorded before orders existed only track a status.
+  // Tickets are only voided once the whole payment has been refunded
+  const status = event.fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+  const purchases = await storage.updateTicketPurchaseStatusByPaymentReference(event.reference, status);
+  await storage.updateOrderStatusByPaymentReference(event.reference, status);
+
+  if (event.fullyRefunded) {
+    const voided = await storage.voidTicketsByPaymentReference(event.reference);
+    console.log(`Voided ${voided.length} tickets for refunded payment ${event.reference}`);
+  } else {
+    await storage.flagTicketPurchasesForReview(
+      event.reference,
+      `Partially refunded ${event.totalRefunded} of ${event.paymentAmount} cents`
+    );
+  }
+
+  console.log(`Marked ${purchases.length} ticket purchases as ${status}`);
+}
+
+// A chargeback opened by the buyer's bank. The sale stands until the dispute is resolved,
+// but the school needs to know about it
+async function recordDispute(event: WebhookEventOf<"payment.disputed">) {
+  const purchases = await storage.flagTicketPurchasesForReview(
+    event.reference,
+    `Disputed by the cardholder (${event.reason}), ${event.amount} cents`
+  );
+  console.warn(`Dispute ${event.disputeId} opened, flagged ${purchases.length} ticket purchases for review`);
+}
+
+/**
+ * Act on a webhook event from any payment provider
+ *
+ * @param event - The event as the provider's gateway read it
+ * @param recordPayment - Records a successful payment, each provider keeps what it paid for differently
+ * @returns false if the event isn't one the app acts on
+ */
+export async function handleWebhookEvent(
+  event: PaymentWebhookEvent,
+  recordPayment: (payment: ProviderPayment) => Promise<void>
+): Promise<boolean> {
+  switch (event.kind) {
+    case "payment.succeeded":
+      await recordPayment(event.payment);
+      return true;
+    case "payment.failed":
+      await recordPaymentFailed(event);
+      return true;
+    case "refund.processed":
+      await recordRefund(event);
+      return true;
+    case "payment.disputed":
+      await recordDispute(event);
+      return true;
+    default:
+      return false;
+  }
+}
+
+export default {
+  handleWebhookEvent
+};
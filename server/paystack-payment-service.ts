@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import * as paystackService from "./paystack-service";
+import * as pricingService from "./pricing-service";
+import * as promoService from "./promo-service";
+import * as orderService from "./order-service";
+import * as paymentRecordService from "./payment-record-service";
+import * as donationService from "./donation-service";
+import * as referralService from "./referral-service";
+import {
+  PaymentProvider,
+  PaymentStatus,
+  type Donation,
+  type TicketPurchase
+} from "@shared/schema";
+import type { ProviderPayment } from "./payment-gateway";
+import { HttpError } from "./http-error";
+
+/**
+ * Raised when a successful Paystack transaction can't be recorded as it stands, e.g. its
+ * metadata is incomplete or it paid too little
+ */
+export class PaystackPaymentError extends HttpError {}
+
+interface PaidItem {
+  fundraiserId: number;
+  ticketTypeId?: number | null;
+  quantity: number;
+  referralCode?: string | null;
+}
+
+// The items a transaction paid for, as the checkout put them in its metadata
+function paidItems(metadata: Record<string, any>): PaidItem[] {
+  if (metadata.isCart) {
+    if (!Array.isArray(metadata.items) || metadata.items.length === 0) {
+      throw new PaystackPaymentError("Invalid cart data in transaction metadata");
+    }
+    return metadata.items;
+  }
+
+  if (!metadata.fundraiserId || !metadata.quantity) {
+    throw new PaystackPaymentError("Invalid transaction metadata");
+  }
+  return [{
+    fundraiserId: parseInt(metadata.fundraiserId, 10),
+    ticketTypeId: metadata.ticketTypeId ? parseInt(metadata.ticketTypeId, 10) : null,
+    quantity: parseInt(metadata.quantity, 10),
+    referralCode: metadata.referralCode
+  }];
+}
+
+// The student a paid line is credited to. The checkout worked this out while the buyer was
+// still signed in, so its choice stands. Without a checkout the referral code decides, then
+// the signed-in student buying for themselves
+async function paidItemStudentId(
+  item: PaidItem,
+  checkoutPurchases: TicketPurchase[],
+  loggedInStudentId: number | null
+): Promise<number | null> {
+  const checkoutPurchase = checkoutPurchases.find((purchase) =>
+    purchase.fundraiserId === item.fundraiserId && purchase.ticketTypeId === (item.ticketTypeId ?? null)
+  );
+  if (checkoutPurchase) {
+    return checkoutPurchase.studentId;
+  }
+  if (item.referralCode) {
+    return referralService.referredStudentId(item.referralCode, item.fundraiserId);
+  }
+  return loggedInStudentId;
+}
+
+// The order a transaction paid for. A checkout saved when it was started stands as it was
+// saved, so a price, promo or sale window changing since can't make the payment look short.
+// Only a reference that was never saved is rebuilt from the metadata, priced from the stored
+// prices with the promo code the checkout was started with
+async function paidOrderInput(
+  payment: ProviderPayment,
+  loggedInStudentId: number | null
+): Promise<orderService.CreateOrderInput> {
+  const { reference, metadata } = payment;
+  const checkout = await orderService.getCheckoutInput(reference);
+  if (checkout) {
+    return checkout;
+  }
+
+  const items = paidItems(metadata);
+
+  const { customerInfo } = metadata;
+  if (!customerInfo || !customerInfo.name || !customerInfo.email) {
+    throw new PaystackPaymentError("Customer information is missing");
+  }
+
+  const { items: pricedItems, promoCode, discountAmount } = await pricingService.priceOrder(
+    items,
+    { requireActive: false, promoCode: await promoService.getCheckoutPromoCode(reference) }
+  );
+
+  const checkoutPurchases = await storage.getTicketPurchasesByPaymentReference(reference);
+  const lines: orderService.OrderLineInput[] = [];
+  for (let index = 0; index < pricedItems.length; index++) {
+    const pricedItem = pricedItems[index];
+    lines.push({
+      fundraiserId: pricedItem.fundraiserId,
+      ticketTypeId: pricedItem.ticketTypeId,
+      studentId: await paidItemStudentId(items[index], checkoutPurchases, loggedInStudentId),
+      quantity: pricedItem.quantity,
+      amount: pricedItem.amount
+    });
+  }
+
+  return {
+    provider: PaymentProvider.PAYSTACK,
+    paymentReference: reference,
+    customerName: customerInfo.name,
+    customerEmail: customerInfo.email,
+    customerPhone: customerInfo.phone,
+    lines,
+    promoCodeId: promoCode?.id ?? null,
+    discountAmount
+  };
+}
+
+/**
+ * Record the tickets paid for by a successful Paystack transaction, exactly once
+ *
+ * The buyer's browser verifying the payment and Paystack's webhook both end up here,
+ * whichever comes first records the order and the other gets it back. Paystack has already
+ * taken the money, so a payment that doesn't match the order is still recorded, with every
+ * line flagged for review.
+ *
+ * @param payment - The successful transaction, as verified or as sent by the webhook
+ * @param loggedInStudentId - The student verifying the payment, credited when nobody referred the sale
+ * @returns The recorded order with its ticket purchases and tickets
+ * @throws PaystackPaymentError if the checkout was never saved and the metadata is incomplete,
+ *   PricingError if such an order can't be priced, PaymentInProgressError if it is being recorded right now
+ */
+export async function recordTicketPayment(
+  payment: ProviderPayment,
+  loggedInStudentId: number | null = null
+): Promise<paymentRecordService.RecordedPayment> {
+  const { reference } = payment;
+  const input = await paidOrderInput(payment, loggedInStudentId);
+  const expectedAmount = input.lines.reduce((total, line) => total + line.amount, 0);
+
+  // Compare what Paystack captured with the order total
+  const amountCheck = paystackService.checkTransactionAmount(payment, expectedAmount);
+  let reviewReason: string | null = null;
+  if (!amountCheck.ok) {
+    reviewReason = `${amountCheck.message} (expected ${expectedAmount}, captured ${payment.capturedAmount} ${payment.currency || 'unknown'})`;
+  } else if (amountCheck.overpaidBy > 0) {
+    reviewReason = `Overpaid by ${amountCheck.overpaidBy} cents (expected ${expectedAmount}, captured ${amountCheck.capturedAmount})`;
+  }
+  if (reviewReason) {
+    console.warn(`Paystack transaction ${reference} flagged for review: ${reviewReason}`);
+  }
+
+  const lines = input.lines.map((line, index): orderService.OrderLineInput => ({
+    ...line,
+    // Any surplus is attributed to the first line so the captured amounts add up to the charge.
+    // When the payment doesn't cover the order there's no telling which lines it paid for
+    capturedAmount: !amountCheck.ok
+      ? null
+      : index === 0 ? line.amount + amountCheck.overpaidBy : line.amount,
+    flaggedForReview: reviewReason !== null,
+    reviewReason
+  }));
+
+  return paymentRecordService.recordPaymentOnce(
+    PaymentProvider.PAYSTACK,
+    reference,
+    () => orderService.recordPaidOrder({
+      ...input,
+      lines,
+      capturedAmount: Number.isInteger(payment.capturedAmount) ? payment.capturedAmount : null
+    })
+  );
+}
+
+/**
+ * Complete the donation paid for by a successful Paystack transaction
+ *
+ * @param payment - The successful transaction, as verified or as sent by the webhook
+ * @returns The completed donation, or undefined if the transaction isn't for a donation
+ * @throws PaystackPaymentError if the amount doesn't cover the donation
+ */
+export async function recordDonationPayment(payment: ProviderPayment): Promise<Donation | undefined> {
+  const pending = await storage.getDonationByPaymentReference(payment.reference);
+  if (!pending) {
+    return undefined;
+  }
+  if (pending.status === PaymentStatus.COMPLETED) {
+    return pending;
+  }
+
+  // Compare what Paystack captured with the amount the donation was started with
+  const amountCheck = paystackService.checkTransactionAmount(payment, pending.amount);
+  if (!amountCheck.ok) {
+    console.warn(`Paystack donation ${payment.reference} refused: ${amountCheck.message}`, {
+      expectedAmount: pending.amount,
+      amount: payment.capturedAmount,
+      currency: payment.currency
+    });
+    throw new PaystackPaymentError(amountCheck.message);
+  }
+
+  return donationService.completeDonation(payment.reference, amountCheck.capturedAmount);
+}
+
+export default {
+  recordTicketPayment,
+  recordDonationPayment
+};
@@ -1,4 +1,13 @@
 import Paystack from 'paystack-api';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { PaymentProvider } from '@shared/schema';
+import {
+  PaymentGatewayError,
+  type PaymentGateway,
+  type PaymentWebhookEvent,
+  type ProviderPayment
+} from './payment-gateway';
 
 if (!process.env.PAYSTACK_SECRET_KEY) {
   throw new Error('Missing required Paystack secret: PAYSTACK_SECRET_KEY');
@@ -7,17 +16,57 @@ if (!process.env.PAYSTACK_SECRET_KEY) {
 // Initialize Paystack
 const paystack = Paystack(process.env.PAYSTACK_SECRET_KEY);
 
+// Currency the Paystack account charges in, transactions in any other currency are rejected
+export const PAYSTACK_CURRENCY = (process.env.PAYSTACK_CURRENCY || "ZAR").toUpperCase();
+
+export interface PaystackTransaction {
+  id: number;
+  status: string;
+  reference: string;
+  amount: number; // in the smallest currency unit, the same unit our prices are stored in
+  currency: string;
+  metadata: Record<string, any> | null;
+}
+
+// Refund as sent in Paystack's refund webhook events
+export interface PaystackRefund {
+  id: number; // The refund's ID, also returned when the refund is created
+  status: string;
+  transaction_reference: string;
+  refund_reference: string | null; // The processor's reference, when it has given one
+  amount: number; // in the smallest currency unit
+  currency: string;
+}
+
+export interface PaystackWebhookEvent {
+  event: string; // e.g. charge.success, refund.processed
+  data: Record<string, any>;
+}
+
+export type AmountCheckResult =
+  | { ok: true; capturedAmount: number; overpaidBy: number }
+  | { ok: false; message: string };
+
+/**
+ * Generate a unique reference for a new Paystack transaction
+ * 
+ * @returns A reference the checkout can be tracked by before Paystack has seen it
+ */
+export function generateReference(): string {
+  return `SR-${Date.now()}-${randomBytes(6).toString('hex')}`;
+}
+
 /**
  * Verify a Paystack transaction by reference
  * 
  * @param reference - The transaction reference to verify
- * @returns The verified transaction data or null if verification fails
+ * @returns The transaction data whatever its status, or null if verification fails
  */
-export async function verifyTransaction(reference: string): Promise<any> {
+export async function verifyTransaction(reference: string): Promise<PaystackTransaction | null> {
   try {
     const response = await paystack.transaction.verify({ reference });
     
-    if (response.status && response.data.status === 'success') {
+    if (response.status) {
       return response.data;
     }
     
@@ -28,6 +77,19 @@ export async function verifyTransaction(reference: string): Promise<any> {
   }
 }
 
+/**
+ * Check that a webhook request was signed by Paystack
+ * 
+ * @param rawBody - The request body exactly as received
+ * @param signature - The x-paystack-signature header, an HMAC-SHA512 of the body keyed with our secret key
+ * @returns true if the signature matches
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+  const expected = createHmac('sha512', process.env.PAYSTACK_SECRET_KEY!).update(rawBody).digest('hex');
+  const received = Buffer.from(signature, 'utf8');
+  return received.length === expected.length && timingSafeEqual(received, Buffer.from(expected, 'utf8'));
+}
+
 /**
  * Initialize a Paystack transaction
  * 
@@ -80,8 +142,143 @@ export async function getTransaction(id: number): Promise<any> {
   }
 }
 
+/**
+ * Compare what Paystack actually captured against the server-computed order total
+ * 
+ * @param payment - The verified payment
+ * @param expectedAmount - Order total in the smallest currency unit
+ * @returns The captured amount and any over-payment, or the reason the payment is refused
+ */
+export function checkTransactionAmount(
+  payment: ProviderPayment,
+  expectedAmount: number
+): AmountCheckResult {
+  const currency = (payment.currency || '').toUpperCase();
+  if (currency !== PAYSTACK_CURRENCY) {
+    return { ok: false, message: `Unexpected payment currency: ${currency || 'unknown'}` };
+  }
+  
+  const capturedAmount = Number(payment.capturedAmount);
+  if (!Number.isInteger(capturedAmount) || capturedAmount < expectedAmount) {
+    return { ok: false, message: "Payment amount is insufficient" };
+  }
+  
+  return { ok: true, capturedAmount, overpaidBy: capturedAmount - expectedAmount };
+}
+
+function toProviderPayment(transaction: PaystackTransaction): ProviderPayment {
+  let status: ProviderPayment['status'] = 'pending';
+  if (transaction.status === 'success') {
+    status = 'succeeded';
+  } else if (['failed', 'abandoned', 'reversed'].includes(transaction.status)) {
+    status = 'failed';
+  }
+  
+  return {
+    reference: transaction.reference,
+    status,
+    amount: Number(transaction.amount),
+    capturedAmount: Number(transaction.amount),
+    currency: transaction.currency,
+    metadata: transaction.metadata || {}
+  };
+}
+
+// Paystack's ID of a refund, the same when it's created and when its webhook arrives
+function refundId(refund: { id?: number | string | null }): string | null {
+  return refund.id !== undefined && refund.id !== null ? String(refund.id) : null;
+}
+
+/**
+ * Check a webhook request was signed by Paystack and read its event
+ * 
+ * @param rawBody - The request body exactly as received
+ * @param headers - The request headers, carrying the x-paystack-signature
+ * @returns The event in the form the app handles
+ * @throws PaymentGatewayError if the signature doesn't match or the event can't be read
+ */
+function parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+  const signature = headers['x-paystack-signature'];
+  if (typeof signature !== 'string' || !rawBody || !verifyWebhookSignature(rawBody, signature)) {
+    throw new PaymentGatewayError('invalid signature', 400);
+  }
+  
+  let event: PaystackWebhookEvent;
+  try {
+    event = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw new PaymentGatewayError('invalid event', 400);
+  }
+  if (!event || typeof event.event !== 'string' || !event.data) {
+    throw new PaymentGatewayError('invalid event', 400);
+  }
+  
+  // Paystack events carry no ID of their own, the transaction or refund they're about identifies them
+  const logged = { id: `${event.event}:${event.data.id ?? event.data.reference}`, type: event.event };
+  switch (event.event) {
+    case 'charge.success':
+      return { ...logged, kind: 'payment.succeeded', payment: toProviderPayment(event.data as PaystackTransaction) };
+    case 'refund.processed': {
+      const refund = event.data as PaystackRefund;
+      return {
+        ...logged,
+        kind: 'refund.processed',
+        reference: refund.transaction_reference,
+        refundId: refundId(refund),
+        amount: Number(refund.amount),
+        totalRefunded: null,
+        paymentAmount: null,
+        fullyRefunded: null
+      };
+    }
+    default:
+      return { ...logged, kind: 'ignored' };
+  }
+}
+
+// Payments through Paystack. The browser opens the Paystack popup with the reference,
+// so the transaction only exists at Paystack once the buyer starts paying
+export const paystackGateway: PaymentGateway = {
+  provider: PaymentProvider.PAYSTACK,
+  
+  async createCheckout() {
+    return { reference: generateReference(), clientSecret: null };
+  },
+  
+  async cancelCheckout() {
+    // Nothing to cancel, Paystack hasn't seen the reference yet
+  },
+  
+  async verifyPayment(reference) {
+    const transaction = await verifyTransaction(reference);
+    return transaction ? toProviderPayment(transaction) : null;
+  },
+  
+  async refund(reference, amount) {
+    try {
+      const response = await paystack.refund.create({
+        transaction: reference,
+        amount
+      });
+      
+      if (response.status) {
+        return refundId(response.data);
+      }
+    } catch (error) {
+      console.error('Error creating Paystack refund:', error);
+    }
+    throw new PaymentGatewayError('Paystack refund failed');
+  },
+  
+  parseWebhook
+};
+
 export default {
+  generateReference,
   verifyTransaction,
+  verifyWebhookSignature,
+  checkTransactionAmount,
   initializeTransaction,
-  getTransaction
-};
\ No newline at end of file
+  getTransaction,
+  paystackGateway
+};
@@ -0,0 +1,289 @@
+import { storage } from "./storage";
+import * as inventoryService from "./inventory-service";
+import * as promoService from "./promo-service";
+import * as donationService from "./donation-service";
+import {
+  DEFAULT_MAX_TICKETS_PER_ORDER,
+  DiscountType,
+  MIN_ORDER_AMOUNT,
+  type Fundraiser,
+  type PromoCode,
+  type TicketType
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+export interface OrderItemInput {
+  fundraiserId: number;
+  ticketTypeId?: number | null; // Required when the fundraiser sells ticket types
+  quantity: number;
+}
+
+export interface PricedOrderItem {
+  fundraiser: Fundraiser;
+  fundraiserId: number;
+  ticketType: TicketType | null;
+  ticketTypeId: number | null;
+  quantity: number;
+  unitPrice: number; // in cents
+  discountAmount: number; // Share of the promo code discount, in cents
+  amount: number; // in cents, after the discount
+}
+
+export interface PricedOrder {
+  items: PricedOrderItem[];
+  promoCode: PromoCode | null;
+  discountAmount: number; // in cents
+  totalAmount: number; // in cents, after the discount
+}
+
+interface PriceOrderOptions {
+  // Verification of an already-paid order must not fail because the
+  // fundraiser was deactivated, sold out or had its limits lowered after the buyer paid
+  requireActive?: boolean;
+  promoCode?: string | null; // The code the buyer entered
+}
+
+/**
+ * Raised when an order can't be priced
+ */
+export class PricingError extends HttpError {}
+
+/**
+ * Raised when a fundraiser or ticket type doesn't have the tickets left for an order
+ */
+export class SoldOutError extends PricingError {
+  constructor(name: string, remaining: number) {
+    super(
+      remaining > 0
+        ? `Only ${remaining} tickets left for '${name}'`
+        : `'${name}' is sold out`,
+      409
+    );
+  }
+}
+
+/**
+ * The most tickets a buyer may order for a fundraiser at once
+ *
+ * @param fundraiser - The fundraiser being ordered
+ * @returns The school's limit, or the platform default if it hasn't set one
+ */
+export function maxTicketsPerOrder(fundraiser: Fundraiser): number {
+  return fundraiser.maxTicketsPerOrder ?? DEFAULT_MAX_TICKETS_PER_ORDER;
+}
+
+// The ticket type a line is priced at. Types are only offered within their sale window,
+// while verifying a paid order any type of the fundraiser is accepted as it was when sold
+async function resolveTicketType(
+  fundraiser: Fundraiser,
+  ticketTypeId: number | null,
+  requireActive: boolean
+): Promise<TicketType | null> {
+  if (ticketTypeId === null) {
+    if (requireActive) {
+      const ticketTypes = await storage.getTicketTypesByFundraiserIds([fundraiser.id]);
+      if (ticketTypes.some((ticketType) => ticketType.isActive)) {
+        throw new PricingError(`Choose a ticket type for '${fundraiser.name}'`);
+      }
+    }
+    return null;
+  }
+
+  const ticketType = await storage.getTicketType(ticketTypeId);
+  if (!ticketType || ticketType.fundraiserId !== fundraiser.id) {
+    throw new PricingError(`Ticket type with ID ${ticketTypeId} not found`, 404);
+  }
+
+  if (requireActive) {
+    const now = new Date();
+    if (!ticketType.isActive) {
+      throw new PricingError(`'${ticketType.name}' tickets are no longer sold`);
+    }
+    if (ticketType.salesStartAt && ticketType.salesStartAt > now) {
+      throw new PricingError(`'${ticketType.name}' tickets are not on sale yet`);
+    }
+    if (ticketType.salesEndAt && ticketType.salesEndAt < now) {
+      throw new PricingError(`'${ticketType.name}' ticket sales have closed`);
+    }
+  }
+
+  return ticketType;
+}
+
+function totalQuantities(items: PricedOrderItem[], key: (item: PricedOrderItem) => number | null): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const item of items) {
+    const id = key(item);
+    if (id !== null) {
+      totals.set(id, (totals.get(id) ?? 0) + item.quantity);
+    }
+  }
+  return totals;
+}
+
+// A cart may list the same fundraiser more than once, e.g. adult and learner tickets,
+// its lines share the fundraiser's per-order limit and remaining tickets
+async function checkAvailability(items: PricedOrderItem[]): Promise<void> {
+  const requested = totalQuantities(items, (item) => item.fundraiserId);
+  for (const item of items) {
+    const limit = maxTicketsPerOrder(item.fundraiser);
+    if ((requested.get(item.fundraiserId) ?? 0) > limit) {
+      throw new PricingError(`Maximum ${limit} tickets per order for '${item.fundraiser.name}'`);
+    }
+  }
+
+  const remaining = await inventoryService.getTicketsRemaining(items.map((item) => item.fundraiser));
+  for (const item of items) {
+    const left = remaining.get(item.fundraiserId);
+    if (left !== undefined && (requested.get(item.fundraiserId) ?? 0) > left) {
+      throw new SoldOutError(item.fundraiser.name, left);
+    }
+  }
+
+  const ticketTypes: TicketType[] = [];
+  for (const item of items) {
+    if (item.ticketType) {
+      ticketTypes.push(item.ticketType);
+    }
+  }
+  const requestedTypes = totalQuantities(items, (item) => item.ticketTypeId);
+  const typesRemaining = await inventoryService.getTicketTypesRemaining(ticketTypes);
+  for (const ticketType of ticketTypes) {
+    const left = typesRemaining.get(ticketType.id);
+    if (left !== undefined && (requestedTypes.get(ticketType.id) ?? 0) > left) {
+      throw new SoldOutError(ticketType.name, left);
+    }
+  }
+}
+
+// Take a promo code's discount off the lines it applies to, spread in proportion to their
+// amounts. Like ticket types, a paid order is verified with the code as it was when used.
+// The discount never takes the order below the smallest amount the providers will charge
+async function applyPromoCode(items: PricedOrderItem[], code: string, requireActive: boolean): Promise<PromoCode> {
+  const promoCode = await storage.getPromoCodeByCode(promoService.normalizeCode(code));
+  if (!promoCode) {
+    throw new PricingError(`Promo code '${code.trim()}' not found`, 404);
+  }
+
+  if (requireActive) {
+    const reason = promoService.unavailableReason(promoCode);
+    if (reason) {
+      throw new PricingError(reason);
+    }
+    if (promoCode.maxRedemptions !== null && await promoService.countRedemptions(promoCode.id) >= promoCode.maxRedemptions) {
+      throw new PricingError(`Promo code '${promoCode.code}' has been used up`);
+    }
+  }
+
+  const eligible = items.filter((item) =>
+    item.fundraiser.schoolId === promoCode.schoolId &&
+    (promoCode.fundraiserId === null || item.fundraiserId === promoCode.fundraiserId)
+  );
+  if (eligible.length === 0) {
+    throw new PricingError(`Promo code '${promoCode.code}' doesn't apply to these tickets`);
+  }
+
+  const eligibleAmount = eligible.reduce((sum, item) => sum + item.amount, 0);
+  const orderAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const discount = Math.min(
+    promoCode.discountType === DiscountType.PERCENTAGE
+      ? Math.round(eligibleAmount * promoCode.discountValue / 100)
+      : promoCode.discountValue,
+    eligibleAmount,
+    Math.max(orderAmount - MIN_ORDER_AMOUNT, 0)
+  );
+
+  // Rounding leftovers go on the last line so the shares add up to the discount
+  let undistributed = discount;
+  for (let index = 0; index < eligible.length; index++) {
+    const item = eligible[index];
+    const share = index === eligible.length - 1
+      ? undistributed
+      : Math.floor(discount * item.amount / eligibleAmount);
+    item.discountAmount = share;
+    item.amount -= share;
+    undistributed -= share;
+  }
+
+  return promoCode;
+}
+
+/**
+ * Compute order totals from the stored fundraiser and ticket type prices
+ *
+ * This is the only place ticket amounts are calculated, so the amount charged,
+ * the amount recorded on the purchase and the amount shown in the cart agree.
+ *
+ * @param items - Fundraisers, ticket types and quantities being ordered
+ * @param options - Whether inactive and sold out fundraisers are rejected (default true),
+ *   and the promo code to apply
+ * @returns The priced line items, discount and order total in cents
+ * @throws PricingError if an item or the promo code is invalid, SoldOutError if there aren't enough tickets left
+ */
+export async function priceOrder(
+  items: OrderItemInput[],
+  { requireActive = true, promoCode: code = null }: PriceOrderOptions = {}
+): Promise<PricedOrder> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PricingError("Cart items are required");
+  }
+
+  const pricedItems: PricedOrderItem[] = [];
+
+  for (const item of items) {
+    const fundraiserId = parseInt(String(item?.fundraiserId), 10);
+    const quantity = parseInt(String(item?.quantity), 10);
+    const ticketTypeId = item?.ticketTypeId ? parseInt(String(item.ticketTypeId), 10) : null;
+
+    if (isNaN(fundraiserId) || isNaN(quantity) || quantity < 1 || (ticketTypeId !== null && isNaN(ticketTypeId))) {
+      throw new PricingError("Invalid item data");
+    }
+
+    const fundraiser = await storage.getFundraiser(fundraiserId);
+    if (!fundraiser) {
+      throw new PricingError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+    }
+
+    if (requireActive && !fundraiser.isActive) {
+      throw new PricingError(`Fundraiser '${fundraiser.name}' is not currently active`);
+    }
+    
+    if (requireActive && !donationService.sellsTickets(fundraiser)) {
+      throw new PricingError(`Fundraiser '${fundraiser.name}' only takes donations`);
+    }
+
+    const ticketType = await resolveTicketType(fundraiser, ticketTypeId, requireActive);
+    const unitPrice = ticketType ? ticketType.price : fundraiser.price;
+
+    pricedItems.push({
+      fundraiser,
+      fundraiserId,
+      ticketType,
+      ticketTypeId: ticketType ? ticketType.id : null,
+      quantity,
+      unitPrice,
+      discountAmount: 0,
+      amount: unitPrice * quantity,
+    });
+  }
+
+  if (requireActive) {
+    await checkAvailability(pricedItems);
+  }
+
+  const promoCode = typeof code === "string" && code.trim()
+    ? await applyPromoCode(pricedItems, code, requireActive)
+    : null;
+
+  return {
+    items: pricedItems,
+    promoCode,
+    discountAmount: pricedItems.reduce((sum, item) => sum + item.discountAmount, 0),
+    totalAmount: pricedItems.reduce((sum, item) => sum + item.amount, 0),
+  };
+}
+
+export default {
+  maxTicketsPerOrder,
+  priceOrder
+};
@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { HOLDING_STATUSES } from "./inventory-service";
+import {
+  DiscountType,
+  clearableSchema,
+  insertPromoCodeSchema,
+  type InsertPromoCode,
+  type PromoCode,
+  type PromoCodeWithRedemptions
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+
+// Letters, digits, dashes and underscores, so codes survive being read out or printed on a flyer
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+const CODE_MESSAGE = "Codes are 3 to 32 letters, digits, dashes or underscores";
+
+/**
+ * Raised when a promo code can't be saved
+ */
+export class PromoCodeError extends HttpError {}
+
+/**
+ * Bring a code to the form it is stored in, buyers may type it in any case
+ *
+ * @param code - The code as entered
+ * @returns The trimmed, upper case code
+ */
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Why a promo code can't be used right now
+ *
+ * @param promoCode - The code being used
+ * @param now - The time of the checkout
+ * @returns The reason to show the buyer, or null if the code can be used
+ */
+export function unavailableReason(promoCode: PromoCode, now = new Date()): string | null {
+  if (!promoCode.isActive) {
+    return `Promo code '${promoCode.code}' is no longer valid`;
+  }
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    return `Promo code '${promoCode.code}' can't be used yet`;
+  }
+  if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+    return `Promo code '${promoCode.code}' has expired`;
+  }
+  return null;
+}
+
+/**
+ * Count the orders holding a redemption of a promo code
+ *
+ * Checkouts still waiting for their payment count, failed, abandoned and fully
+ * refunded orders give their redemption back.
+ *
+ * @param promoCodeId - The promo code to count for
+ * @returns The number of redemptions
+ */
+export async function countRedemptions(promoCodeId: number): Promise<number> {
+  const redemptions = await storage.getPromoCodeRedemptions([promoCodeId], HOLDING_STATUSES);
+  return redemptions.get(promoCodeId)?.redemptions ?? 0;
+}
+
+/**
+ * Check whether a promo code has been redeemed more often than it may be
+ *
+ * Run after an order has been reserved with the code, two buyers taking the last
+ * redemption at the same time both see it used up.
+ *
+ * @param promoCodeId - The promo code the order was placed with
+ * @returns True if the code is over its redemption limit
+ */
+export async function isOverRedeemed(promoCodeId: number): Promise<boolean> {
+  const promoCode = await storage.getPromoCode(promoCodeId);
+  if (!promoCode || promoCode.maxRedemptions === null) {
+    return false;
+  }
+  return await countRedemptions(promoCode.id) > promoCode.maxRedemptions;
+}
+
+/**
+ * Find the promo code a checkout was started with
+ *
+ * @param reference - The payment reference of the checkout
+ * @returns The code, or null if the checkout wasn't recorded or had no code
+ */
+export async function getCheckoutPromoCode(reference: string): Promise<string | null> {
+  const checkout = await storage.getOrderByPaymentReference(reference);
+  if (!checkout || checkout.promoCodeId === null) {
+    return null;
+  }
+  const promoCode = await storage.getPromoCode(checkout.promoCodeId);
+  return promoCode ? promoCode.code : null;
+}
+
+function positiveIntegerSchema(label: string) {
+  const message = `${label} must be a positive whole number`;
+  return z.coerce.number({ message }).int(message).positive(message);
+}
+
+function dateSchema(label: string) {
+  return z.coerce.date({ message: `${label} is not a valid date` });
+}
+
+const createPromoCodeSchema = insertPromoCodeSchema
+  .pick({
+    code: true,
+    discountType: true,
+    discountValue: true,
+    fundraiserId: true,
+    maxRedemptions: true,
+    startsAt: true,
+    expiresAt: true
+  })
+  .extend({
+    code: z.string({ message: CODE_MESSAGE }).transform(normalizeCode).pipe(z.string().regex(CODE_PATTERN, CODE_MESSAGE)),
+    discountType: z.enum([DiscountType.PERCENTAGE, DiscountType.FIXED], {
+      message: "Discount type must be percentage or fixed"
+    }),
+    discountValue: positiveIntegerSchema("Discount"),
+    fundraiserId: clearableSchema(positiveIntegerSchema("Fundraiser ID")).optional(),
+    maxRedemptions: clearableSchema(positiveIntegerSchema("Usage limit")).optional(),
+    startsAt: clearableSchema(dateSchema("Start")).optional(),
+    expiresAt: clearableSchema(dateSchema("Expiry")).optional()
+  })
+  .refine(
+    (input) => input.discountType !== DiscountType.PERCENTAGE || input.discountValue < 100,
+    "A percentage discount must be less than 100%"
+  );
+
+// Settings left out keep their stored value, ones sent empty are removed
+const updatePromoCodeSchema = insertPromoCodeSchema
+  .pick({ isActive: true, maxRedemptions: true, startsAt: true, expiresAt: true })
+  .extend({
+    isActive: z.boolean({ message: "Active must be true or false" }),
+    maxRedemptions: clearableSchema(positiveIntegerSchema("Usage limit")),
+    startsAt: clearableSchema(dateSchema("Start")),
+    expiresAt: clearableSchema(dateSchema("Expiry"))
+  })
+  .partial();
+
+function checkWindow(startsAt: Date | null, expiresAt: Date | null) {
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    throw new PromoCodeError("A promo code must expire after it starts");
+  }
+}
+
+/**
+ * List a school's promo codes with how often they have been redeemed
+ *
+ * @param schoolId - The school whose codes to list
+ * @returns The codes, newest first
+ */
+export async function getPromoCodesWithRedemptions(schoolId: number): Promise<PromoCodeWithRedemptions[]> {
+  const promoCodes = await storage.getPromoCodesBySchoolId(schoolId);
+  const redemptions = await storage.getPromoCodeRedemptions(
+    promoCodes.map((promoCode) => promoCode.id),
+    HOLDING_STATUSES
+  );
+  const fundraisers = await storage.getFundraisersBySchoolId(schoolId);
+
+  return promoCodes.map((promoCode) => ({
+    ...promoCode,
+    fundraiserName: fundraisers.find((fundraiser) => fundraiser.id === promoCode.fundraiserId)?.name ?? null,
+    redemptions: redemptions.get(promoCode.id)?.redemptions ?? 0,
+    discountTotal: redemptions.get(promoCode.id)?.discountTotal ?? 0,
+  }));
+}
+
+/**
+ * Create a promo code for a school
+ *
+ * @param schoolId - The school handing out the code
+ * @param input - The submitted code, discount, scope, limit and validity window
+ * @returns The created promo code
+ * @throws PromoCodeError if the input is invalid or the code is taken
+ */
+export async function createPromoCode(schoolId: number, input: unknown): Promise<PromoCode> {
+  const {
+    code,
+    discountType,
+    discountValue,
+    fundraiserId = null,
+    maxRedemptions = null,
+    startsAt = null,
+    expiresAt = null
+  } = parseBody(createPromoCodeSchema, input, PromoCodeError);
+
+  if (fundraiserId !== null) {
+    const fundraiser = await storage.getFundraiser(fundraiserId);
+    if (!fundraiser || fundraiser.schoolId !== schoolId) {
+      throw new PromoCodeError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+    }
+  }
+
+  checkWindow(startsAt, expiresAt);
+
+  if (await storage.getPromoCodeByCode(code)) {
+    throw new PromoCodeError(`Promo code '${code}' is already taken`, 409);
+  }
+
+  const promoCode: InsertPromoCode = {
+    schoolId,
+    fundraiserId,
+    code,
+    discountType,
+    discountValue,
+    maxRedemptions,
+    startsAt,
+    expiresAt,
+    isActive: true,
+  };
+  return storage.createPromoCode(promoCode);
+}
+
+/**
+ * Change when and how often a school's promo code can be used, or switch it off
+ *
+ * The code and its discount can't change once handed out, orders already
+ * placed with it keep the discount they were given.
+ *
+ * @param schoolId - The school the code belongs to
+ * @param promoCodeId - The code to update
+ * @param input - The submitted isActive, maxRedemptions, startsAt and expiresAt
+ * @returns The updated promo code
+ * @throws PromoCodeError if the code isn't the school's or the input is invalid
+ */
+export async function updatePromoCode(schoolId: number, promoCodeId: number, input: unknown): Promise<PromoCode> {
+  const promoCode = await storage.getPromoCode(promoCodeId);
+  if (!promoCode || promoCode.schoolId !== schoolId) {
+    throw new PromoCodeError("Promo code not found", 404);
+  }
+
+  const updates: Partial<InsertPromoCode> = parseBody(updatePromoCodeSchema, input, PromoCodeError);
+  checkWindow(
+    updates.startsAt !== undefined ? updates.startsAt : promoCode.startsAt,
+    updates.expiresAt !== undefined ? updates.expiresAt : promoCode.expiresAt
+  );
+
+  return storage.updatePromoCode(promoCode.id, updates);
+}
+
+export default {
+  normalizeCode,
+  unavailableReason,
+  countRedemptions,
+  isOverRedeemed,
+  getCheckoutPromoCode,
+  getPromoCodesWithRedemptions,
+  createPromoCode,
+  updatePromoCode
+};
@@ -0,0 +1,138 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import {
+  ReferralEventType,
+  type ReferralCode,
+  type ReferralEventTypeType,
+  type ReferralFunnel,
+  type Student
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+// Unambiguous characters only, codes end up in links that get copied by hand
+const REFERRAL_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const REFERRAL_CODE_LENGTH = 10;
+
+/**
+ * Raised when a referral link can't be made or used
+ */
+export class ReferralError extends HttpError {}
+
+function generateReferralCode(): string {
+  return Array.from(
+    randomBytes(REFERRAL_CODE_LENGTH),
+    (byte) => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]
+  ).join("");
+}
+
+async function findReferralCode(code: unknown): Promise<ReferralCode | undefined> {
+  if (typeof code !== "string" || !code.trim()) {
+    return undefined;
+  }
+  return storage.getReferralCode(code.trim().toUpperCase());
+}
+
+/**
+ * Get the code for a student's referral link to a fundraiser, making one the first time
+ *
+ * @param student - The student sharing the fundraiser
+ * @param fundraiserId - The fundraiser being shared
+ * @returns The student's code for the fundraiser
+ * @throws ReferralError if the fundraiser isn't the student's school's or they aren't enrolled in it
+ */
+export async function getReferralCode(student: Student, fundraiserId: number): Promise<ReferralCode> {
+  const fundraiser = await storage.getFundraiser(fundraiserId);
+  if (!fundraiser || fundraiser.schoolId !== student.schoolId) {
+    throw new ReferralError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+  }
+  if (!await storage.isStudentEnrolled(student.id, fundraiserId)) {
+    throw new ReferralError(`Join ${fundraiser.name} to get a referral link`, 403);
+  }
+
+  const existing = await storage.getReferralCodeByStudentAndFundraiser(student.id, fundraiserId);
+  if (existing) {
+    return existing;
+  }
+
+  // Another request may have made the code in the meantime
+  const created = await storage.createReferralCode(generateReferralCode(), student.id, fundraiserId);
+  return created ?? (await storage.getReferralCodeByStudentAndFundraiser(student.id, fundraiserId))!;
+}
+
+/**
+ * Log a step a visitor took after following a referral link
+ *
+ * @param code - The code from the link
+ * @param type - What the visitor did
+ * @returns The fundraiser the link is for
+ * @throws ReferralError if the code doesn't exist
+ */
+export async function recordReferralEvent(code: unknown, type: unknown): Promise<{ fundraiserId: number }> {
+  if (type !== ReferralEventType.VISIT && type !== ReferralEventType.CART) {
+    throw new ReferralError("Invalid referral event type");
+  }
+  const referralCode = await findReferralCode(code);
+  if (!referralCode) {
+    throw new ReferralError("Referral link not found", 404);
+  }
+
+  await storage.createReferralEvent(referralCode.id, type as ReferralEventTypeType);
+  return { fundraiserId: referralCode.fundraiserId };
+}
+
+/**
+ * Work out which student a checkout's referral code belongs to
+ *
+ * A code is only good for the fundraiser it was made for, a student's code for one
+ * fundraiser doesn't get them credit for sales of another.
+ *
+ * @param code - The code the buyer arrived with, if any
+ * @param fundraiserId - The fundraiser being paid for
+ * @returns The student, or null if there's no code, it doesn't exist or it is for another fundraiser
+ */
+export async function referredStudentId(code: unknown, fundraiserId: number): Promise<number | null> {
+  const referralCode = await findReferralCode(code);
+  if (!referralCode || referralCode.fundraiserId !== fundraiserId) {
+    return null;
+  }
+  return referralCode.studentId;
+}
+
+/**
+ * How a student's referral links are doing
+ *
+ * @param student - The student
+ * @returns A funnel per fundraiser the student has shared
+ */
+export async function getStudentFunnels(student: Student): Promise<ReferralFunnel[]> {
+  return storage.getReferralFunnels(student.schoolId, { studentId: student.id });
+}
+
+/**
+ * How the referral links of a school's students are doing
+ *
+ * @param schoolId - The school
+ * @param fundraiserId - The fundraiser to report on, every fundraiser when not given
+ * @returns A funnel per student and fundraiser shared
+ * @throws ReferralError if the fundraiser isn't the school's
+ */
+export async function getSchoolFunnels(schoolId: number, fundraiserId?: unknown): Promise<ReferralFunnel[]> {
+  if (fundraiserId === undefined || fundraiserId === "") {
+    return storage.getReferralFunnels(schoolId);
+  }
+
+  const id = parseInt(String(fundraiserId), 10);
+  const fundraiser = Number.isNaN(id) ? undefined : await storage.getFundraiser(id);
+  if (!fundraiser || fundraiser.schoolId !== schoolId) {
+    throw new ReferralError(`Fundraiser with ID ${fundraiserId} not found`, 404);
+  }
+  return storage.getReferralFunnels(schoolId, { fundraiserId: id });
+}
+
+export default {
+  getReferralCode,
+  recordReferralEvent,
+  referredStudentId,
+  getStudentFunnels,
+  getSchoolFunnels
+};
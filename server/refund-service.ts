@@ -0,0 +1,262 @@
+import { storage } from "./storage";
+import { afterCommit, inTransaction } from "./db";
+import { sendEmailInBackground } from "./email-service";
+import * as paymentGateway from "./payment-gateway";
+import {
+  PaymentStatus,
+  type Order,
+  type Refund,
+  type TicketPurchase
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+interface RefundOptions {
+  refundedBy: number;
+  reason?: string | null;
+  // School admins may only refund lines for their own school's fundraisers
+  schoolId?: number;
+}
+
+export interface RefundResult {
+  refund: Refund;
+  order: Order;
+  ticketPurchases: TicketPurchase[];
+  voidedTickets: number;
+}
+
+/**
+ * Raised when a refund can't be made
+ */
+export class RefundError extends HttpError {}
+
+function remainingAmount(purchase: TicketPurchase): number {
+  if (purchase.paymentStatus !== PaymentStatus.COMPLETED &&
+      purchase.paymentStatus !== PaymentStatus.PARTIALLY_REFUNDED) {
+    return 0;
+  }
+  return purchase.amount - purchase.refundedAmount;
+}
+
+async function belongsToSchool(purchase: TicketPurchase, schoolId: number): Promise<boolean> {
+  const fundraiser = await storage.getFundraiser(purchase.fundraiserId);
+  return !!fundraiser && fundraiser.schoolId === schoolId;
+}
+
+// Return the money through the provider that took it, cash refunds are only recorded
+async function refundWithProvider(order: Order, amount: number): Promise<string | null> {
+  try {
+    return await paymentGateway.getPaymentGateway(order.provider).refund(order.paymentReference, amount);
+  } catch (error) {
+    if (error instanceof paymentGateway.PaymentGatewayError) {
+      throw new RefundError(error.message, error.status);
+    }
+    throw error;
+  }
+}
+
+// Mark each line refunded by the given amount and void the tickets of lines refunded in full
+async function applyRefundToLines(
+  lines: { purchase: TicketPurchase; amount: number }[]
+): Promise<{ ticketPurchases: TicketPurchase[]; voidedTickets: number }> {
+  const ticketPurchases: TicketPurchase[] = [];
+  let voidedTickets = 0;
+
+  for (const line of lines) {
+    const updated = await storage.applyTicketPurchaseRefund(line.purchase.id, line.amount);
+    if (!updated) {
+      console.warn(`Ticket purchase ${line.purchase.id} was already refunded, skipping`);
+      continue;
+    }
+
+    ticketPurchases.push(updated);
+    if (updated.paymentStatus === PaymentStatus.REFUNDED) {
+      voidedTickets += (await storage.voidTicketsByPurchaseId(updated.id)).length;
+    }
+  }
+
+  return { ticketPurchases, voidedTickets };
+}
+
+function notifyBuyer(order: Order, amount: number) {
+  afterCommit(() => sendEmailInBackground({
+    to: order.customerEmail,
+    subject: `Refund for order ${order.orderNumber}`,
+    text: [
+      `Hi ${order.customerName},`,
+      `We've refunded R${(amount / 100).toFixed(2)} for order ${order.orderNumber}.`,
+      "Tickets covered by the refund can no longer be used.",
+    ].join("\n"),
+  }));
+}
+
+// Refunds of an order run one at a time: each locks the order, so the lines it reads are
+// what is left once any refund already under way has been recorded, and two admins
+// refunding at once can't both send the same money back through the provider
+function withLockedOrder<T>(orderId: number, work: (order: Order) => Promise<T>): Promise<T> {
+  return inTransaction(async () => {
+    const order = await storage.lockOrder(orderId);
+    if (!order) {
+      throw new RefundError("Order not found", 404);
+    }
+    return work(order);
+  });
+}
+
+async function refundLines(
+  order: Order,
+  purchases: TicketPurchase[],
+  ticketPurchaseId: number | null,
+  { refundedBy, reason }: RefundOptions
+): Promise<RefundResult> {
+  const lines = purchases
+    .map((purchase) => ({ purchase, amount: remainingAmount(purchase) }))
+    .filter((line) => line.amount > 0);
+
+  if (lines.length === 0) {
+    throw new RefundError("Nothing left to refund");
+  }
+
+  const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+  const providerRefundId = await refundWithProvider(order, amount);
+
+  const { ticketPurchases, voidedTickets } = await applyRefundToLines(lines);
+  const updatedOrder = await storage.applyOrderRefund(order.id, amount);
+  const refund = await storage.createRefund({
+    orderId: order.id,
+    ticketPurchaseId,
+    amount,
+    provider: order.provider,
+    providerRefundId,
+    reason: reason || null,
+    refundedBy,
+  });
+
+  console.log(`Refunded ${amount} cents on order ${order.orderNumber}, voided ${voidedTickets} tickets`);
+  notifyBuyer(order, amount);
+
+  return { refund, order: updatedOrder, ticketPurchases, voidedTickets };
+}
+
+/**
+ * Refund everything still paid on an order
+ *
+ * @param orderId - The order to refund
+ * @param options - Who is refunding and why, and the school they're limited to
+ * @returns The refund and the updated order and ticket purchases
+ * @throws RefundError if the order can't be refunded
+ */
+export async function refundOrder(orderId: number, options: RefundOptions): Promise<RefundResult> {
+  return withLockedOrder(orderId, async (order) => {
+    let purchases: TicketPurchase[] = await storage.getOrderItems(order.id);
+    if (options.schoolId !== undefined) {
+      const schoolPurchases: TicketPurchase[] = [];
+      for (const purchase of purchases) {
+        if (await belongsToSchool(purchase, options.schoolId)) {
+          schoolPurchases.push(purchase);
+        }
+      }
+      purchases = schoolPurchases;
+    }
+
+    if (purchases.length === 0) {
+      throw new RefundError("Order not found", 404);
+    }
+
+    return refundLines(order, purchases, null, options);
+  });
+}
+
+/**
+ * Refund a single ticket purchase of an order
+ *
+ * @param ticketPurchaseId - The ticket purchase to refund
+ * @param options - Who is refunding and why, and the school they're limited to
+ * @returns The refund and the updated order and ticket purchase
+ * @throws RefundError if the purchase can't be refunded
+ */
+export async function refundTicketPurchase(ticketPurchaseId: number, options: RefundOptions): Promise<RefundResult> {
+  const purchase = await storage.getTicketPurchase(ticketPurchaseId);
+  if (!purchase || (options.schoolId !== undefined && !await belongsToSchool(purchase, options.schoolId))) {
+    throw new RefundError("Ticket purchase not found", 404);
+  }
+
+  if (!purchase.orderId) {
+    throw new RefundError("Purchases recorded before orders were introduced can't be refunded here");
+  }
+
+  return withLockedOrder(purchase.orderId, async (order) => {
+    // Read again now no other refund of the order is under way
+    const current = await storage.getTicketPurchase(purchase.id);
+    return refundLines(order, current ? [current] : [], purchase.id, options);
+  });
+}
+
+/**
+ * Bring an order in line with a refund made outside the app, e.g. from the Stripe dashboard
+ *
+ * The refund is spread over the order's lines in order, so lines it covers in full are
+ * refunded and their tickets voided. Refunds the app made itself are already recorded
+ * and are skipped, one still under way is waited for.
+ *
+ * @param order - The refunded order
+ * @param totalRefunded - Total the provider has refunded on the payment so far in cents, null
+ *   if it only reports this refund, which is then added to what the order has recorded
+ * @param amount - This refund, in cents
+ * @param providerRefundId - The provider's ID for this refund
+ * @returns The recorded refund, or null if there was nothing new to record
+ */
+export async function recordProviderRefund(
+  order: Order,
+  totalRefunded: number | null,
+  amount: number,
+  providerRefundId: string | null
+): Promise<RefundResult | null> {
+  return withLockedOrder(order.id, async (locked) => {
+    if (providerRefundId) {
+      const recorded = await storage.getRefundsByOrderId(locked.id);
+      if (recorded.some((existing) => existing.providerRefundId === providerRefundId)) {
+        return null;
+      }
+    }
+
+    let unrecorded = totalRefunded === null ? amount : totalRefunded - locked.refundedAmount;
+    if (unrecorded <= 0) {
+      return null;
+    }
+
+    const lines: { purchase: TicketPurchase; amount: number }[] = [];
+    for (const purchase of await storage.getOrderItems(locked.id)) {
+      const lineAmount = Math.min(remainingAmount(purchase), unrecorded);
+      if (lineAmount > 0) {
+        lines.push({ purchase, amount: lineAmount });
+        unrecorded -= lineAmount;
+      }
+    }
+
+    const recordedAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (recordedAmount === 0) {
+      return null;
+    }
+
+    const { ticketPurchases, voidedTickets } = await applyRefundToLines(lines);
+    const updatedOrder = await storage.applyOrderRefund(locked.id, recordedAmount);
+    const refund = await storage.createRefund({
+      orderId: locked.id,
+      ticketPurchaseId: null,
+      amount: recordedAmount,
+      provider: locked.provider,
+      providerRefundId,
+      reason: "Refunded outside the app",
+      refundedBy: null,
+    });
+
+    console.log(`Recorded external refund of ${recordedAmount} cents on order ${locked.orderNumber}`);
+    return { refund, order: updatedOrder, ticketPurchases, voidedTickets };
+  });
+}
+
+export default {
+  refundOrder,
+  refundTicketPurchase,
+  recordProviderRefund
+};
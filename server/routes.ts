@@ -1,11 +1,45 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { UserRole } from "@shared/schema";
+import { setupAuth, appUrl } from "./auth";
+import {
+  UserRole,
+  TicketStatus,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentEventStatus,
+  type PaymentProviderType,
+  type PublicSchool,
+  type School
+} from "@shared/schema";
 import { sendNotificationEmail } from "./email-service";
-import Stripe from "stripe";
-import * as paystackService from "./paystack-service";
+import { stripeGateway } from "./stripe-service";
+import { paystackGateway } from "./paystack-service";
+import { fakeGateway } from "./fake-payment-service";
+import * as paymentGateway from "./payment-gateway";
+import type { PaymentWebhookEvent, ProviderPayment } from "./payment-gateway";
+import * as ticketService from "./ticket-service";
+import * as pricingService from "./pricing-service";
+import * as paymentRecordService from "./payment-record-service";
+import * as orderService from "./order-service";
+import * as refundService from "./refund-service";
+import * as cashPaymentService from "./cash-payment-service";
+import * as inventoryService from "./inventory-service";
+import * as ticketTypeService from "./ticket-type-service";
+import * as promoService from "./promo-service";
+import * as donationService from "./donation-service";
+import * as goalService from "./goal-service";
+import * as leaderboardService from "./leaderboard-service";
+import * as enrolmentService from "./enrolment-service";
+import * as referralService from "./referral-service";
+import * as paystackPaymentService from "./paystack-payment-service";
+import * as paymentWebhookService from "./payment-webhook-service";
+import * as cartService from "./cart-service";
+import * as accountService from "./account-service";
+import * as inviteService from "./invite-service";
+import * as studentImportService from "./student-import-service";
+import * as studentGroupService from "./student-group-service";
+import { sendHttpError } from "./http-error";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -42,18 +76,49 @@ const upload = multer({
   }
 });
 
-// Initialize Stripe
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error("Missing required environment variable: STRIPE_SECRET_KEY");
-}
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16",
+// Student import files are read straight from memory, they're never kept
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed') as any);
+    }
+  }
 });
 
+// Ticket limits on a fundraiser are optional whole numbers, an empty value removes the limit.
+// Anything else comes back as NaN
+function parseTicketLimit(value: unknown): number | null {
+  if (value === null || value === "") {
+    return null;
+  }
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : NaN;
+}
+
+// The join code lets students register without an invite, only the school and admins see it
+function toPublicSchool({ joinCode, ...school }: School): PublicSchool {
+  return school;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
 
+  // Payment providers checkouts, refunds and webhooks go through
+  paymentGateway.registerPaymentGateway(stripeGateway);
+  paymentGateway.registerPaymentGateway(paystackGateway);
+  paymentGateway.registerPaymentGateway(cashPaymentService.cashGateway);
+  // Anyone can mark its payments paid, so it's only there when asked for
+  if (process.env.ENABLE_FAKE_PAYMENTS === "true") {
+    paymentGateway.registerPaymentGateway(fakeGateway);
+  }
+
   // Middleware to check if user is authenticated
   const isAuthenticated = (req, res, next) => {
     if (req.isAuthenticated()) {
@@ -79,6 +144,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(403).json({ message: "Forbidden: School or Admin access required" });
   };
 
+  // Middleware to check the user has verified their email address, required before
+  // anything that reaches beyond their own account, such as mass notifications
+  const hasVerifiedEmail = (req, res, next) => {
+    if (req.isAuthenticated() && accountService.isEmailVerified(req.user)) {
+      return next();
+    }
+    res.status(403).json({ message: "Verify your email address first" });
+  };
+
   // Get current user with extended info
   app.get("/api/user/info", isAuthenticated, async (req, res) => {
     try {
@@ -95,7 +169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const student = await storage.getStudentByUserId(user.id);
         if (student) {
           const school = await storage.getSchool(student.schoolId);
-          extendedInfo.student = { ...student, school };
+          extendedInfo.student = { ...student, school: school && toPublicSchool(school) };
         }
       }
 
@@ -139,6 +213,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The grades, classes and houses the school puts its students in
+  app.get("/api/school/student-groups", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      res.json(await studentGroupService.listGroups(school.id));
+    } catch (error) {
+      console.error("Error fetching student groups:", error);
+      res.status(500).json({ message: "Failed to get student groups" });
+    }
+  });
+
+  app.post("/api/school/student-groups", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      const group = await studentGroupService.addGroup(school.id, req.body.kind, req.body.name);
+      res.status(201).json(group);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error creating student group:", error);
+      res.status(500).json({ message: "Failed to create student group" });
+    }
+  });
+
+  app.delete("/api/school/student-groups/:id", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const groupId = parseInt(req.params.id, 10);
+      if (isNaN(groupId)) {
+        return res.status(400).json({ message: "Invalid group ID" });
+      }
+
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      await studentGroupService.removeGroup(school.id, groupId);
+      res.status(204).end();
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error deleting student group:", error);
+      res.status(500).json({ message: "Failed to delete student group" });
+    }
+  });
+
+  // Put a student in a grade, class and house from the school's lists
+  app.patch("/api/school/students/:id/groups", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const studentId = parseInt(req.params.id, 10);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: "Invalid student ID" });
+      }
+
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      res.json(await studentGroupService.assignGroups(school.id, studentId, req.body));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error assigning student groups:", error);
+      res.status(500).json({ message: "Failed to update student" });
+    }
+  });
+
+  // Check a CSV of students to import without creating anything
+  app.post("/api/school/students/import/preview", isAuthenticated, hasRole(UserRole.SCHOOL), csvUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV file" });
+      }
+
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      res.json(await studentImportService.previewImport(school.id, req.file.buffer.toString("utf8")));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error previewing student import:", error);
+      res.status(500).json({ message: "Failed to read the import file" });
+    }
+  });
+
+  // Create the students in a CSV and email each an activation link
+  app.post("/api/school/students/import", isAuthenticated, hasRole(UserRole.SCHOOL), csvUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV file" });
+      }
+
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      const result = await studentImportService.importStudents(school, req.file.buffer.toString("utf8"), appUrl(req));
+      res.status(201).json(result);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error importing students:", error);
+      res.status(500).json({ message: "Failed to import students" });
+    }
+  });
+
   // Update school information
   app.put("/api/school/update", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
     try {
@@ -161,6 +359,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The code students register with to join the school
+  app.get("/api/school/join-code", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      res.json({ joinCode: await inviteService.getJoinCode(school) });
+    } catch (error) {
+      console.error("Error fetching join code:", error);
+      res.status(500).json({ message: "Failed to get join code" });
+    }
+  });
+
+  // Replace the join code, the old one stops working
+  app.post("/api/school/join-code", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+
+      res.json({ joinCode: await inviteService.regenerateJoinCode(school) });
+    } catch (error) {
+      console.error("Error regenerating join code:", error);
+      res.status(500).json({ message: "Failed to regenerate join code" });
+    }
+  });
+
+  // Invite routes - admins invite schools, schools invite their students
+  app.get("/api/invites", isAuthenticated, isSchoolOrAdmin, async (req, res) => {
+    try {
+      res.json(await inviteService.listPendingInvites(req.user.id));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Failed to get invites" });
+    }
+  });
+
+  app.post("/api/invites", isAuthenticated, isSchoolOrAdmin, async (req, res) => {
+    try {
+      const invite = await inviteService.createInvite(req.user.id, req.body.email, appUrl(req));
+      res.status(201).json(invite);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error creating invite:", error);
+      res.status(500).json({ message: "Failed to send invite" });
+    }
+  });
+
+  app.delete("/api/invites/:id", isAuthenticated, isSchoolOrAdmin, async (req, res) => {
+    try {
+      const inviteId = parseInt(req.params.id, 10);
+      if (isNaN(inviteId)) {
+        return res.status(400).json({ message: "Invalid invite ID" });
+      }
+
+      await inviteService.revokeInvite(req.user.id, inviteId);
+      res.status(204).end();
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  // Public, so the registration form can show who an invite link is for
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      res.json(await inviteService.getInviteSummary(req.params.token));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Failed to get invite" });
+    }
+  });
+
   // Student routes
   app.get("/api/student/school", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
     try {
@@ -170,7 +455,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const school = await storage.getSchool(student.schoolId);
-      res.json(school);
+      res.json(school && toPublicSchool(school));
     } catch (error) {
       res.status(500).json({ message: "Failed to get school info" });
     }
@@ -185,7 +470,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const fundraisers = await storage.getFundraisersBySchoolId(school.id);
-      res.json(fundraisers);
+      res.json(await inventoryService.withAvailability(fundraisers));
     } catch (error) {
       res.status(500).json({ message: "Failed to get fundraisers" });
     }
@@ -200,7 +485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log("Received fundraiser data:", req.body);
       
-      const { event_name, location, eventDate, price, imageUrl, description } = req.body;
+      const { event_name, location, eventDate, price, imageUrl, description, capacity, maxTicketsPerOrder, ticketTypes } = req.body;
       
       // Ensure we're passing a valid date
       let formattedDate;
@@ -228,6 +513,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Validate ticket limits, both are optional
+      const ticketCapacity = parseTicketLimit(capacity ?? null);
+      const ticketsPerOrder = parseTicketLimit(maxTicketsPerOrder ?? null);
+      if (Number.isNaN(ticketCapacity) || Number.isNaN(ticketsPerOrder)) {
+        return res.status(400).json({ message: "Ticket limits must be positive whole numbers" });
+      }
+      
+      // Ticket types are optional, without them every ticket sells at the fundraiser's price
+      const ticketTypeInputs = ticketTypes === undefined ? [] : ticketTypeService.parseTicketTypes(ticketTypes);
+      
+      // Ticket sales only by default, a donation drive also sets its goal and suggested amounts
+      const donationSettings = donationService.parseDonationSettings(req.body);
+      
+      // Sales targets for the fundraiser and each of its students, both optional
+      const goalSettings = goalService.parseGoalSettings(req.body);
+      
       // Handle image upload
       let imagePath = null;
       
@@ -249,7 +550,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         schoolId: school.id,
         isActive: true,
         image: imagePath,
-        description: description || null
+        description: description || null,
+        capacity: ticketCapacity,
+        maxTicketsPerOrder: ticketsPerOrder,
+        ...donationSettings,
+        ...goalSettings
       });
 
       // Create the fundraiser with the validated date
@@ -262,8 +567,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         schoolId: school.id,
         isActive: true,
         image: imagePath,
-        description: description || null
+        description: description || null,
+        capacity: ticketCapacity,
+        maxTicketsPerOrder: ticketsPerOrder,
+        ...donationSettings,
+        ...goalSettings
       });
+      
+      if (ticketTypeInputs.length > 0) {
+        await ticketTypeService.saveTicketTypes(fundraiser.id, ticketTypeInputs);
+      }
 
       // Find students associated with this school and create notifications for them
       const schoolStudents = await storage.getStudentsWithUserInfoBySchoolId(school.id);
@@ -297,6 +610,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json(fundraiser);
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       res.status(500).json({ message: "Failed to create fundraiser" });
     }
   });
@@ -319,13 +635,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return fundraiser.eventDate >= today;
       });
       
-      res.json(upcomingFundraisers);
+      res.json(await inventoryService.withAvailability(upcomingFundraisers));
     } catch (error) {
       console.error("Error fetching student fundraisers:", error);
       res.status(500).json({ message: "Failed to get fundraisers" });
     }
   });
   
+  // List the fundraisers the student takes part in
+  app.get("/api/student/enrolments", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      
+      res.json(await enrolmentService.getEnrolledFundraiserIds(student.id));
+    } catch (error) {
+      console.error("Error fetching student enrolments:", error);
+      res.status(500).json({ message: "Failed to get enrolments" });
+    }
+  });
+  
+  // Sign the student up to one of their school's fundraisers
+  app.post("/api/student/fundraisers/:id/enrolment", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      
+      await enrolmentService.optIn(student, fundraiserId);
+      res.status(204).end();
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error enrolling student:", error);
+      res.status(500).json({ message: "Failed to join fundraiser" });
+    }
+  });
+  
+  // Take the student off one of their school's fundraisers
+  app.delete("/api/student/fundraisers/:id/enrolment", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      
+      await enrolmentService.optOut(student, fundraiserId);
+      res.status(204).end();
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error removing student enrolment:", error);
+      res.status(500).json({ message: "Failed to leave fundraiser" });
+    }
+  });
+  
   // Get past fundraisers for a student
   app.get("/api/student/past-fundraisers", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
     try {
@@ -436,7 +815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Mass notification endpoint for sending to all students in a school
-  app.post("/api/notifications/mass", isAuthenticated, isSchoolOrAdmin, async (req, res) => {
+  app.post("/api/notifications/mass", isAuthenticated, isSchoolOrAdmin, hasVerifiedEmail, async (req, res) => {
     try {
       const { title, message, type, schoolId } = req.body;
       
@@ -456,8 +835,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         senderUserId: req.user.id
       });
       
-      // Get all students for this school
-      const students = await storage.getStudentsWithUserInfoBySchoolId(schoolId);
+      // Get the students for this school, only those in the grade, class and house given if any are
+      const students = studentGroupService.filterStudents(
+        await storage.getStudentsWithUserInfoBySchoolId(schoolId),
+        req.body
+      );
       console.log(`Found ${students.length} students for schoolId ${schoolId}`);
       
       if (students.length === 0) {
@@ -509,6 +891,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         count: notifications.length 
       });
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error('Error creating mass notifications:', error);
       res.status(500).json({ message: "Failed to send mass notifications" });
     }
@@ -548,13 +933,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Fundraiser not found" });
       }
       
-      res.json(fundraiser);
+      const [fundraiserWithAvailability] = await inventoryService.withAvailability([fundraiser]);
+      res.json(fundraiserWithAvailability);
     } catch (error) {
       console.error("Error getting fundraiser details:", error);
       res.status(500).json({ message: "Could not retrieve fundraiser details" });
     }
   });
   
+  // Get a fundraiser's donations against its goal (public endpoint, no authentication required)
+  app.get("/api/fundraisers/:id/donations", async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id);
+      
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const fundraiser = await storage.getFundraiser(fundraiserId);
+      
+      if (!fundraiser) {
+        return res.status(404).json({ message: "Fundraiser not found" });
+      }
+      
+      res.json(await donationService.getDonationProgress(fundraiser));
+    } catch (error) {
+      console.error("Error getting fundraiser donations:", error);
+      res.status(500).json({ message: "Could not retrieve donations" });
+    }
+  });
+  
+  // Log a visit to a referral link or a referred ticket added to a cart (public endpoint, no authentication required)
+  app.post("/api/referrals/:code/events", async (req, res) => {
+    try {
+      res.status(201).json(await referralService.recordReferralEvent(req.params.code, req.body.type));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error recording referral event:", error);
+      res.status(500).json({ message: "Could not record referral" });
+    }
+  });
+  
+  // The signed-in user's cart, or the cart of the guest whose browser sent its cart token
+  function cartOwner(req: Request): cartService.CartOwner {
+    const token = req.headers["x-cart-token"];
+    return {
+      userId: req.isAuthenticated() && req.user ? req.user.id : null,
+      token: typeof token === "string" && token ? token : null
+    };
+  }
+  
+  // Get the cart, with every item repriced and checked (public endpoint, guests send their cart token)
+  app.get("/api/cart", async (req, res) => {
+    try {
+      res.json(await cartService.getCart(cartOwner(req)));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting cart:", error);
+      res.status(500).json({ message: "Could not retrieve cart" });
+    }
+  });
+  
+  // Add tickets to the cart, making the cart on the first add (public endpoint)
+  app.post("/api/cart/items", async (req, res) => {
+    try {
+      res.status(201).json(await cartService.addItem(cartOwner(req), req.body));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error adding to cart:", error);
+      res.status(500).json({ message: "Could not add to cart" });
+    }
+  });
+  
+  // Change the quantity of a cart item (public endpoint)
+  app.patch("/api/cart/items/:id", async (req, res) => {
+    try {
+      res.json(await cartService.updateItem(cartOwner(req), parseInt(req.params.id), req.body.quantity));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error updating cart item:", error);
+      res.status(500).json({ message: "Could not update cart item" });
+    }
+  });
+  
+  // Take an item out of the cart (public endpoint)
+  app.delete("/api/cart/items/:id", async (req, res) => {
+    try {
+      res.json(await cartService.removeItem(cartOwner(req), parseInt(req.params.id)));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error removing cart item:", error);
+      res.status(500).json({ message: "Could not remove cart item" });
+    }
+  });
+  
+  // Empty the cart, e.g. once it has been paid for (public endpoint)
+  app.delete("/api/cart", async (req, res) => {
+    try {
+      res.json(await cartService.clearCart(cartOwner(req)));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error clearing cart:", error);
+      res.status(500).json({ message: "Could not clear cart" });
+    }
+  });
+  
   // Get school by ID (public endpoint, no authentication required)
   app.get("/api/schools/:id", async (req, res) => {
     try {
@@ -570,13 +1065,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "School not found" });
       }
       
-      res.json(school);
+      res.json(toPublicSchool(school));
     } catch (error) {
       console.error("Error getting school details:", error);
       res.status(500).json({ message: "Could not retrieve school details" });
     }
   });
 
+  // The student a checkout line is credited to: the student whose referral code for the
+  // fundraiser the buyer arrived with, otherwise the logged-in student buying for themselves
+  async function checkoutStudentId(req: Request, fundraiserId: number, referralCode?: unknown): Promise<number | null> {
+    if (referralCode) {
+      return referralService.referredStudentId(referralCode, fundraiserId);
+    }
+    return selfPurchaseStudentId(req);
+  }
+  
+  // The logged-in student, credited with what they buy for themselves
+  async function selfPurchaseStudentId(req: Request): Promise<number | null> {
+    if (req.isAuthenticated() && req.user && req.user.role === UserRole.STUDENT) {
+      const student = await storage.getStudentByUserId(req.user.id);
+      return student ? student.id : null;
+    }
+    return null;
+  }
+  
+  // Track a checkout as a pending order, holding its tickets until its payment is confirmed.
+  // The buyer can still pay if recording it fails, the order is then created when the payment
+  // comes in. A checkout that would oversell a fundraiser, use up a promo code or go over the
+  // buyer's unpaid checkouts is stopped instead
+  async function startCheckout(req: Request, input: orderService.CreateOrderInput) {
+    try {
+      await orderService.createPendingOrder({ ...input, buyerIp: req.ip ?? null });
+    } catch (error) {
+      if (error instanceof pricingService.PricingError) {
+        await paymentGateway.getPaymentGateway(input.provider).cancelCheckout(input.paymentReference);
+        throw error;
+      }
+      console.error(`Error recording checkout for payment ${input.paymentReference}:`, error);
+    }
+  }
+
   // Stripe payment endpoints - allow both authenticated and non-authenticated users
   app.post("/api/create-payment-intent", async (req, res) => {
     // Log the request details to help debug
@@ -586,33 +1115,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       user: req.isAuthenticated() && req.user ? { id: req.user.id } : null,
     });
     try {
-      const { fundraiserId, quantity, customerInfo, studentId, referral } = req.body;
+      const { fundraiserId, ticketTypeId, quantity, customerInfo, referralCode, referral, promoCode } = req.body;
       
       if (!fundraiserId || !quantity || quantity < 1) {
         return res.status(400).json({ message: "Missing or invalid parameters" });
       }
       
-      // Validate quantity to prevent abuse
-      if (quantity > 10) {
-        return res.status(400).json({ message: "Maximum 10 tickets per order" });
-      }
-      
-      // Get fundraiser details
-      const fundraiser = await storage.getFundraiser(fundraiserId);
-      if (!fundraiser) {
-        return res.status(404).json({ message: "Fundraiser not found" });
-      }
-      
-      // Make sure fundraiser is active
-      if (!fundraiser.isActive) {
-        return res.status(400).json({ message: "This fundraiser is not currently active" });
-      }
-      
-      // Use a fixed price for now (in cents)
-      const ticketPrice = 1000; // $10 in cents
-      
-      // Calculate amount
-      const amount = ticketPrice * quantity;
+      // Price the order from the stored fundraiser or ticket type price
+      const priced = await pricingService.priceOrder([{ fundraiserId, ticketTypeId, quantity }], { promoCode });
+      const { items: [pricedItem], totalAmount: amount } = priced;
       
       // Validate customer info
       if (!customerInfo || !customerInfo.name || !customerInfo.email) {
@@ -620,6 +1131,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       try {
+        const studentId = await checkoutStudentId(req, pricedItem.fundraiserId, referralCode);
+        
         // Create payment intent metadata
         const metadata: Record<string, string> = {
           fundraiserId: fundraiserId.toString(),
@@ -632,6 +1145,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (customerInfo.phone) {
           metadata.customerPhone = customerInfo.phone;
         }
+        if (pricedItem.ticketTypeId) {
+          metadata.ticketTypeId = pricedItem.ticketTypeId.toString();
+        }
         
         // Add student referral info if available
         if (studentId) {
@@ -648,24 +1164,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
           metadata.userId = req.user.id.toString();
         }
         
+        // Keep the promo code in case the checkout isn't recorded before the payment comes in
+        if (priced.promoCode) {
+          metadata.promoCodeId = priced.promoCode.id.toString();
+          metadata.discountAmount = priced.discountAmount.toString();
+        }
+        
         // Create a payment intent
-        const paymentIntent = await stripe.paymentIntents.create({
+        const checkout = await paymentGateway.getPaymentGateway(PaymentProvider.STRIPE).createCheckout({
           amount,
-          currency: "usd",
+          customerEmail: customerInfo.email,
           metadata,
         });
         
+        await startCheckout(req, {
+          provider: PaymentProvider.STRIPE,
+          paymentReference: checkout.reference,
+          customerName: customerInfo.name,
+          customerEmail: customerInfo.email,
+          customerPhone: customerInfo.phone,
+          lines: [{
+            fundraiserId: pricedItem.fundraiserId,
+            ticketTypeId: pricedItem.ticketTypeId,
+            studentId,
+            quantity: pricedItem.quantity,
+            amount
+          }],
+          promoCodeId: priced.promoCode ? priced.promoCode.id : null,
+          discountAmount: priced.discountAmount
+        });
+        
         // Return the client secret to the client
         res.json({
-          clientSecret: paymentIntent.client_secret,
+          clientSecret: checkout.clientSecret,
           amount: amount / 100, // Convert back to dollars for display
+          discountAmount: priced.discountAmount / 100,
         });
       } catch (stripeError: any) {
-        console.error("Stripe API error:", stripeError);
+        if (stripeError instanceof pricingService.PricingError) {
+          throw stripeError;
+        }
         const errorMessage = stripeError.message || "Payment processing error";
         return res.status(400).json({ message: errorMessage });
       }
     } catch (error: any) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error creating payment intent:", error);
       res.status(500).json({ message: error.message || "Could not process payment" });
     }
@@ -681,7 +1226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
     
     try {
-      const { items, customerInfo } = req.body;
+      const { items, customerInfo, promoCode } = req.body;
       
       if (!items || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({ message: "Cart items are required" });
@@ -692,49 +1237,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer information is required" });
       }
       
-      // Fixed ticket price (in cents)
-      const ticketPrice = 1000; // $10 in cents
-      
-      // Calculate total amount and prepare item details
-      let totalAmount = 0;
+      // Price every item from the stored fundraiser prices
+      const priced = await pricingService.priceOrder(items, { promoCode });
+      const { items: pricedItems, totalAmount } = priced;
       const itemDetails = [];
+      const lines: orderService.OrderLineInput[] = [];
       
-      for (const item of items) {
-        if (!item.fundraiserId || !item.quantity || item.quantity < 1) {
-          return res.status(400).json({ message: "Invalid item data" });
-        }
-        
-        // Validate quantity to prevent abuse
-        if (item.quantity > 10) {
-          return res.status(400).json({ message: "Maximum 10 tickets per fundraiser" });
-        }
-        
-        // Get fundraiser details
-        const fundraiser = await storage.getFundraiser(item.fundraiserId);
-        if (!fundraiser) {
-          return res.status(400).json({ message: `Fundraiser with ID ${item.fundraiserId} not found` });
-        }
-        
-        // Make sure fundraiser is active
-        if (!fundraiser.isActive) {
-          return res.status(400).json({ message: `Fundraiser '${fundraiser.name}' is not currently active` });
-        }
-        
-        // Calculate item amount
-        const itemAmount = ticketPrice * item.quantity;
-        totalAmount += itemAmount;
+      for (let index = 0; index < pricedItems.length; index++) {
+        const pricedItem = pricedItems[index];
+        const item = items[index];
+        const studentId = await checkoutStudentId(req, pricedItem.fundraiserId, item.referralCode);
         
         // Prepare item details with referral information if available
         const itemDetail: any = {
-          fundraiserId: item.fundraiserId,
-          name: fundraiser.name,
-          quantity: item.quantity,
-          amount: itemAmount
+          fundraiserId: pricedItem.fundraiserId,
+          ticketTypeId: pricedItem.ticketTypeId,
+          name: pricedItem.fundraiser.name,
+          quantity: pricedItem.quantity,
+          amount: pricedItem.amount
         };
         
         // Include student referral info if available
-        if (item.studentId) {
-          itemDetail.studentId = item.studentId;
+        if (studentId) {
+          itemDetail.studentId = studentId;
         }
         
         // Include referral type if available
@@ -744,6 +1269,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Add to item details
         itemDetails.push(itemDetail);
+        
+        lines.push({
+          fundraiserId: pricedItem.fundraiserId,
+          ticketTypeId: pricedItem.ticketTypeId,
+          studentId,
+          quantity: pricedItem.quantity,
+          amount: pricedItem.amount
+        });
       }
       
       try {
@@ -765,80 +1298,240 @@ export async function registerRoutes(app: Express): Promise<Server> {
           metadata.userId = req.user.id.toString();
         }
         
+        // Keep the promo code in case the checkout isn't recorded before the payment comes in
+        if (priced.promoCode) {
+          metadata.promoCodeId = priced.promoCode.id.toString();
+          metadata.discountAmount = priced.discountAmount.toString();
+        }
+        
         // Create a payment intent
-        const paymentIntent = await stripe.paymentIntents.create({
+        const checkout = await paymentGateway.getPaymentGateway(PaymentProvider.STRIPE).createCheckout({
           amount: totalAmount,
-          currency: "usd",
+          customerEmail: customerInfo.email,
           metadata,
         });
         
+        await startCheckout(req, {
+          provider: PaymentProvider.STRIPE,
+          paymentReference: checkout.reference,
+          customerName: customerInfo.name,
+          customerEmail: customerInfo.email,
+          customerPhone: customerInfo.phone,
+          lines,
+          promoCodeId: priced.promoCode ? priced.promoCode.id : null,
+          discountAmount: priced.discountAmount
+        });
+        
         // Return the client secret to the client
         res.json({
-          clientSecret: paymentIntent.client_secret,
+          clientSecret: checkout.clientSecret,
           amount: totalAmount / 100, // Convert back to dollars for display
+          discountAmount: priced.discountAmount / 100,
         });
       } catch (stripeError: any) {
-        console.error("Stripe API error:", stripeError);
+        if (stripeError instanceof pricingService.PricingError) {
+          throw stripeError;
+        }
         const errorMessage = stripeError.message || "Payment processing error";
         return res.status(400).json({ message: errorMessage });
       }
     } catch (error: any) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error creating cart payment intent:", error);
       res.status(500).json({ message: error.message || "Could not process payment" });
     }
   });
 
-  // Stripe webhook for handling payment events
-  app.post("/api/stripe-webhook", async (req, res) => {
-    const sig = req.headers["stripe-signature"];
-    let event;
-
-    // Verify webhook signature
+  // Price a cart on the server so the cart shows exactly what will be charged
+  app.post("/api/cart/quote", async (req, res) => {
+    try {
+      const { items, promoCode } = req.body;
+      const { items: pricedItems, totalAmount, discountAmount, promoCode: appliedCode } = await pricingService.priceOrder(
+        items,
+        { promoCode }
+      );
+      
+      res.json({
+        items: pricedItems.map(item => ({
+          fundraiserId: item.fundraiserId,
+          ticketTypeId: item.ticketTypeId,
+          name: item.fundraiser.name,
+          ticketTypeName: item.ticketType ? item.ticketType.name : null,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discountAmount: item.discountAmount,
+          amount: item.amount
+        })),
+        promoCode: appliedCode ? appliedCode.code : null,
+        discountAmount,
+        totalAmount
+      });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error pricing cart:", error);
+      res.status(500).json({ message: "Could not price cart" });
+    }
+  });
+  
+  // Donation by card - create a payment intent for the amount the donor chose
+  app.post("/api/donations/create-payment-intent", async (req, res) => {
     try {
-      // In a production application, you should use a proper webhook secret
-      // const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
-      // event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+      const { fundraiserId, referralCode } = req.body;
+      const donation = await donationService.prepareDonation(fundraiserId, req.body);
+      const donorStudentId = await checkoutStudentId(req, donation.fundraiser.id, referralCode);
+      
+      // Keep the donation in the metadata in case it isn't recorded before the payment comes in
+      const metadata: Record<string, string> = {
+        donation: "true",
+        fundraiserId: donation.fundraiser.id.toString(),
+        customerName: donation.donorName,
+        customerEmail: donation.donorEmail,
+        isAnonymous: donation.isAnonymous.toString(),
+      };
+      if (donation.message) {
+        metadata.message = donation.message;
+      }
+      if (donorStudentId) {
+        metadata.studentId = donorStudentId.toString();
+      }
+      
+      const checkout = await paymentGateway.getPaymentGateway(PaymentProvider.STRIPE).createCheckout({
+        amount: donation.amount,
+        customerEmail: donation.donorEmail,
+        metadata,
+      });
+      
+      await donationService.startDonation(donation, PaymentProvider.STRIPE, checkout.reference, donorStudentId);
       
-      // For development/testing, we'll trust the request
-      event = req.body;
+      res.json({
+        clientSecret: checkout.clientSecret,
+        amount: donation.amount / 100, // Convert back to dollars for display
+      });
     } catch (error: any) {
-      console.error('Webhook signature verification failed:', error.message);
-      return res.status(400).send(`Webhook Error: ${error.message}`);
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error creating donation payment intent:", error);
+      res.status(500).json({ message: error.message || "Could not process donation" });
     }
+  });
 
-    // Handle the event
-    if (event.type === 'payment_intent.succeeded') {
+  // Webhook handler for a payment provider. Every event received is logged, providers redeliver
+  // events so one we've already handled is acknowledged without being processed again
+  function paymentWebhook(provider: PaymentProviderType, recordPayment: (payment: ProviderPayment) => Promise<void>) {
+    return async (req: Request, res: Response) => {
+      // Verify the event against the raw request body
+      let event: PaymentWebhookEvent;
       try {
-        const paymentIntent = event.data.object;
+        event = paymentGateway.getPaymentGateway(provider).parseWebhook(req.rawBody as Buffer, req.headers);
+      } catch (error: any) {
+        console.error(`${provider} webhook verification failed:`, error.message);
+        const status = error instanceof paymentGateway.PaymentGatewayError ? error.status : 400;
+        return res.status(status).send(`Webhook Error: ${error.message}`);
+      }
+      
+      let paymentEvent;
+      try {
+        paymentEvent = await storage.createPaymentEvent({
+          provider,
+          eventId: event.id,
+          type: event.type,
+          status: PaymentEventStatus.RECEIVED
+        });
         
-        // Extract metadata
-        const metadata = paymentIntent.metadata || {};
+        if (!paymentEvent) {
+          paymentEvent = await storage.getPaymentEvent(provider, event.id);
+          if (!paymentEvent) {
+            throw new Error(`Payment event ${event.id} could not be logged`);
+          }
+          if (paymentEvent.status === PaymentEventStatus.PROCESSED || paymentEvent.status === PaymentEventStatus.IGNORED) {
+            console.log(`${provider} event ${event.id} already handled, skipping`);
+            return res.json({received: true});
+          }
+        }
+      } catch (error) {
+        console.error(`Error logging ${provider} event:`, error);
+        return res.status(500).json({ message: "Failed to log webhook event" });
+      }
+      
+      // Handle the event
+      try {
+        const handled = await paymentWebhookService.handleWebhookEvent(event, recordPayment);
         
-        console.log('Payment succeeded - processing payment record:', metadata);
+        await storage.updatePaymentEventStatus(
+          paymentEvent.id,
+          handled ? PaymentEventStatus.PROCESSED : PaymentEventStatus.IGNORED
+        );
         
-        // Check if this is a cart payment (multiple items)
-        if (metadata.cartItems) {
-          // Handle cart purchase - multiple fundraisers
-          await handleCartPaymentSuccess(paymentIntent, metadata);
-        } else {
-          // Handle single fundraiser purchase
-          await handleSinglePaymentSuccess(paymentIntent, metadata);
+        if (handled) {
+          console.log(`${provider} event ${event.id} (${event.type}) processed successfully`);
         }
-        
-        console.log('Payment processing completed successfully');
-      } catch (error) {
-        console.error('Error processing payment success:', error);
-        // We still return 200 to Stripe as we don't want them to retry
+      } catch (error: any) {
+        console.error(`Error processing ${provider} event ${event.id} (${event.type}):`, error);
+        await storage.updatePaymentEventStatus(paymentEvent.id, PaymentEventStatus.FAILED, error.message || String(error))
+          .catch(logError => {
+            console.error(`Error updating ${provider} event status:`, logError);
+          });
+        // A payment that can't be recorded as it stands won't get any better on a retry,
+        // it stays logged as failed for someone to look at
+        if (error instanceof paystackPaymentService.PaystackPaymentError) {
+          return res.json({received: true});
+        }
+        // Let the provider retry, recording a payment is idempotent so a retry can't double-count it
+        return res.status(500).json({ message: "Failed to process webhook event" });
       }
+      
+      // Return a 200 response to acknowledge receipt of the event
+      res.json({received: true});
+    };
+  }
+  
+  // Stripe webhook for handling payment events
+  app.post("/api/stripe-webhook", paymentWebhook(PaymentProvider.STRIPE, recordStripePayment));
+  
+  // Record a successful Stripe payment from what its payment intent's metadata says it paid for
+  async function recordStripePayment(payment: ProviderPayment) {
+    const { metadata } = payment;
+    
+    console.log('Payment succeeded - processing payment record:', metadata);
+    
+    // Check if this is a donation or a cart payment (multiple items)
+    if (metadata.donation) {
+      await handleDonationPaymentSuccess(payment);
+    } else if (metadata.cartItems) {
+      // Handle cart purchase - multiple fundraisers
+      await handleCartPaymentSuccess(payment);
+    } else {
+      // Handle single fundraiser purchase
+      await handleSinglePaymentSuccess(payment);
     }
-
-    // Return a 200 response to acknowledge receipt of the event
-    res.json({received: true});
-  });
+  }
+  
+  // Helper function to handle a successful donation by card
+  async function handleDonationPaymentSuccess(payment: ProviderPayment) {
+    const { metadata } = payment;
+    const donation = await donationService.completeDonation(payment.reference, payment.capturedAmount, {
+      fundraiserId: parseInt(metadata.fundraiserId, 10),
+      studentId: metadata.studentId ? parseInt(metadata.studentId, 10) : null,
+      donorName: metadata.customerName,
+      donorEmail: metadata.customerEmail,
+      amount: payment.amount,
+      message: metadata.message || null,
+      isAnonymous: metadata.isAnonymous === "true",
+      provider: PaymentProvider.STRIPE,
+      paymentReference: payment.reference,
+    });
+    console.log(`Donation ${donation?.id} paid with payment intent ${payment.reference}`);
+  }
   
   // Helper function to handle cart payment success (multiple items)
-  async function handleCartPaymentSuccess(paymentIntent: any, metadata: any) {
+  async function handleCartPaymentSuccess(payment: ProviderPayment) {
     try {
+      const { metadata } = payment;
       const {
         cartItems,
         customerName,
@@ -865,7 +1558,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Record each ticket purchase separately
+      // Work out the line items of the order
+      const lines: orderService.OrderLineInput[] = [];
       for (const item of items) {
         // Check if this item has a specific student referral
         let purchaseStudentId = null;
@@ -883,19 +1577,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
           purchaseStudentId = loggedInStudentId;
         }
         
-        await storage.createTicketPurchase({
+        lines.push({
           fundraiserId: item.fundraiserId,
+          ticketTypeId: item.ticketTypeId ?? null,
           studentId: purchaseStudentId,
-          customerName,
-          customerEmail, 
-          customerPhone: customerPhone || null,
           quantity: item.quantity,
-          amount: item.amount,
-          paymentIntentId: paymentIntent.id,
-          paymentStatus: 'completed'
+          amount: item.amount
         });
       }
       
+      // Record the cart as one order, once per payment intent
+      const { duplicate } = await paymentRecordService.recordPaymentOnce(
+        PaymentProvider.STRIPE,
+        payment.reference,
+        () => orderService.recordPaidOrder({
+          provider: PaymentProvider.STRIPE,
+          paymentReference: payment.reference,
+          customerName,
+          customerEmail,
+          customerPhone,
+          lines,
+          capturedAmount: payment.capturedAmount,
+          promoCodeId: metadata.promoCodeId ? parseInt(metadata.promoCodeId, 10) : null,
+          discountAmount: metadata.discountAmount ? parseInt(metadata.discountAmount, 10) : 0
+        })
+      );
+      
+      if (duplicate) {
+        console.log(`Payment intent ${payment.reference} was already recorded, skipping`);
+        return;
+      }
+      
       console.log(`Successfully recorded ${items.length} ticket purchases from cart`);
     } catch (error) {
       console.error('Error handling cart payment success:', error);
@@ -904,10 +1616,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
   
   // Helper function to handle single fundraiser payment success
-  async function handleSinglePaymentSuccess(paymentIntent: any, metadata: any) {
+  async function handleSinglePaymentSuccess(payment: ProviderPayment) {
     try {
+      const { metadata } = payment;
       const {
         fundraiserId,
+        ticketTypeId,
         quantity,
         customerName,
         customerEmail,
@@ -945,18 +1659,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Record the ticket purchase
-      await storage.createTicketPurchase({
-        fundraiserId: parseInt(fundraiserId, 10),
-        studentId,
-        customerName,
-        customerEmail,
-        customerPhone: customerPhone || null,
-        quantity: parseInt(quantity, 10),
-        amount: paymentIntent.amount,
-        paymentIntentId: paymentIntent.id,
-        paymentStatus: 'completed'
-      });
+      // Record the ticket purchase as an order, once per payment intent
+      const { duplicate } = await paymentRecordService.recordPaymentOnce(
+        PaymentProvider.STRIPE,
+        payment.reference,
+        () => orderService.recordPaidOrder({
+          provider: PaymentProvider.STRIPE,
+          paymentReference: payment.reference,
+          customerName,
+          customerEmail,
+          customerPhone,
+          lines: [{
+            fundraiserId: parseInt(fundraiserId, 10),
+            ticketTypeId: ticketTypeId ? parseInt(ticketTypeId, 10) : null,
+            studentId,
+            quantity: parseInt(quantity, 10),
+            amount: payment.amount
+          }],
+          capturedAmount: payment.capturedAmount,
+          promoCodeId: metadata.promoCodeId ? parseInt(metadata.promoCodeId, 10) : null,
+          discountAmount: metadata.discountAmount ? parseInt(metadata.discountAmount, 10) : 0
+        })
+      );
+      
+      if (duplicate) {
+        console.log(`Payment intent ${payment.reference} was already recorded, skipping`);
+        return;
+      }
       
       console.log('Single ticket purchase recorded successfully');
     } catch (error) {
@@ -978,13 +1707,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const summary = await storage.getTicketSalesSummaryByStudent(student.id);
-      res.json(summary);
+      const donations = await storage.getDonationSummaryByStudent(student.id);
+      res.json({ ...summary, ...donations });
     } catch (error) {
       console.error("Error getting student sales summary:", error);
       res.status(500).json({ message: "Could not retrieve sales summary" });
     }
   });
   
+  // Get a student's progress towards their school's fundraiser goals and their own
+  app.get("/api/student/goal-progress", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student record not found" });
+      }
+      
+      const fundraisers = await storage.getFundraisersBySchoolId(student.schoolId);
+      res.json(await goalService.getGoalProgress(fundraisers, student.id));
+    } catch (error) {
+      console.error("Error getting student goal progress:", error);
+      res.status(500).json({ message: "Could not retrieve goal progress" });
+    }
+  });
+  
+  // Get the leaderboard of the student's school, school-wide or for one fundraiser
+  app.get("/api/student/leaderboard", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student record not found" });
+      }
+      
+      const leaderboard = await leaderboardService.getLeaderboard(
+        { schoolId: student.schoolId, studentId: student.id },
+        req.query.fundraiserId
+      );
+      res.json({ showNameOnLeaderboard: student.showNameOnLeaderboard, entries: leaderboard });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting student leaderboard:", error);
+      res.status(500).json({ message: "Could not retrieve leaderboard" });
+    }
+  });
+  
+  // Get the student's referral code for a fundraiser, made the first time they share it
+  app.get("/api/student/fundraisers/:id/referral-code", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student record not found" });
+      }
+      
+      const referralCode = await referralService.getReferralCode(student, fundraiserId);
+      res.json({ code: referralCode.code });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting referral code:", error);
+      res.status(500).json({ message: "Could not get referral link" });
+    }
+  });
+  
+  // Get visits, carts and purchases from the student's referral links
+  app.get("/api/student/referral-funnels", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student record not found" });
+      }
+      
+      res.json(await referralService.getStudentFunnels(student));
+    } catch (error) {
+      console.error("Error getting student referral funnels:", error);
+      res.status(500).json({ message: "Could not retrieve referrals" });
+    }
+  });
+  
+  // Let a student choose whether other students see their name on the leaderboard
+  app.patch("/api/student/leaderboard-preferences", isAuthenticated, hasRole(UserRole.STUDENT), async (req, res) => {
+    try {
+      const student = await storage.getStudentByUserId(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "Student record not found" });
+      }
+      
+      const { showNameOnLeaderboard } = req.body;
+      if (typeof showNameOnLeaderboard !== "boolean") {
+        return res.status(400).json({ message: "showNameOnLeaderboard must be true or false" });
+      }
+      
+      const updated = await storage.updateStudent(student.id, { showNameOnLeaderboard });
+      res.json({ showNameOnLeaderboard: updated.showNameOnLeaderboard });
+    } catch (error) {
+      console.error("Error updating leaderboard preferences:", error);
+      res.status(500).json({ message: "Could not update leaderboard preferences" });
+    }
+  });
+  
   // Get sales summary for a school (all students in the school)
   app.get("/api/school/sales-summary", isAuthenticated, async (req, res) => {
     try {
@@ -998,13 +1826,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const salesSummary = await storage.getTicketSalesSummaryBySchool(school.id);
-      res.json(salesSummary);
+      const ticketTypes = await storage.getTicketTypeSalesBySchoolId(school.id);
+      const groupSales = await studentGroupService.getSalesByGroup(school.id);
+      res.json({ ...salesSummary, ticketTypes, groupSales });
     } catch (error) {
       console.error("Error fetching school sales summary:", error);
       res.status(500).json({ message: "Failed to fetch sales summary" });
     }
   });
   
+  // Get a school's progress towards its fundraiser goals
+  app.get("/api/school/goal-progress", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const fundraisers = await storage.getFundraisersBySchoolId(school.id);
+      res.json(await goalService.getGoalProgress(fundraisers));
+    } catch (error) {
+      console.error("Error getting school goal progress:", error);
+      res.status(500).json({ message: "Could not retrieve goal progress" });
+    }
+  });
+  
+  // Get the leaderboard of the school's students, school-wide or for one fundraiser
+  app.get("/api/school/leaderboard", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      res.json({ entries: await leaderboardService.getLeaderboard({ schoolId: school.id }, req.query.fundraiserId) });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting school leaderboard:", error);
+      res.status(500).json({ message: "Could not retrieve leaderboard" });
+    }
+  });
+  
+  // Get visits, carts and purchases from the referral links of the school's students
+  app.get("/api/school/referral-funnels", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      res.json(await referralService.getSchoolFunnels(school.id, req.query.fundraiserId));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting school referral funnels:", error);
+      res.status(500).json({ message: "Could not retrieve referrals" });
+    }
+  });
+  
   // Get sales summary for all schools (admin only)
   app.get("/api/admin/sales-summary", isAuthenticated, async (req, res) => {
     try {
@@ -1053,41 +1935,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only students and school admins can record cash payments" });
       }
       
-      const { fundraiserId, quantity, customerInfo, studentId: referralStudentId } = req.body;
+      const { fundraiserId, ticketTypeId, quantity, customerInfo, referralCode, promoCode } = req.body;
       
       if (!fundraiserId || !quantity || quantity < 1) {
         return res.status(400).json({ message: "Missing or invalid parameters" });
       }
       
-      // Validate quantity to prevent abuse
-      if (quantity > 10) {
-        return res.status(400).json({ message: "Maximum 10 tickets per order" });
-      }
-      
       // Validate customer info
       if (!customerInfo || !customerInfo.name || !customerInfo.email) {
         return res.status(400).json({ message: "Customer information is required" });
       }
       
-      // Get fundraiser details
-      const fundraiser = await storage.getFundraiser(fundraiserId);
-      if (!fundraiser) {
-        return res.status(404).json({ message: "Fundraiser not found" });
-      }
+      // Price the order from the stored fundraiser or ticket type price
+      const priced = await pricingService.priceOrder([{ fundraiserId, ticketTypeId, quantity }], { promoCode });
+      const { items: [pricedItem], totalAmount: amount } = priced;
       
-      // Fixed price at $10 per ticket (in cents)
-      const ticketPrice = 1000;
-      const amount = ticketPrice * quantity;
+      // A school's cash counts at once, so only for its own fundraisers
+      if (req.user.role === UserRole.SCHOOL) {
+        await cashPaymentService.checkSchoolFundraisers(req.user.id, priced.items);
+      }
       
       // Determine which student ID to use (priority: referral > logged-in user)
       let studentId = null;
       
-      // First priority: referral student ID from request (shared link)
-      if (referralStudentId) {
+      // First priority: referral code from request (shared link)
+      if (referralCode) {
         try {
-          const student = await storage.getStudent(parseInt(referralStudentId.toString(), 10));
-          if (student) {
-            studentId = student.id;
+          studentId = await referralService.referredStudentId(referralCode, pricedItem.fundraiserId);
+          if (studentId) {
             console.log(`Using referral student ID ${studentId} for cash payment`);
           }
         } catch (err) {
@@ -1104,37 +1979,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create a payment record for cash payment
-      const paymentId = `cash_payment_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+      const { reference: paymentId } = await paymentGateway.getPaymentGateway(PaymentProvider.CASH).createCheckout({
+        amount,
+        customerEmail: customerInfo.email,
+        metadata: {}
+      });
       
-      // Record the ticket purchase
-      const ticketPurchase = await storage.createTicketPurchase({
-        fundraiserId: parseInt(fundraiserId, 10),
-        studentId: studentId,
+      // Cash taken by a student only counts once the school confirms it was handed in
+      const cashInput: orderService.CreateOrderInput = {
+        provider: PaymentProvider.CASH,
+        paymentReference: paymentId,
         customerName: customerInfo.name,
         customerEmail: customerInfo.email,
-        quantity: parseInt(quantity, 10),
-        amount: amount,
-        paymentIntentId: paymentId,
-        paymentStatus: "completed"
-      });
+        customerPhone: customerInfo.phone,
+        lines: [{
+          fundraiserId: pricedItem.fundraiserId,
+          ticketTypeId: pricedItem.ticketTypeId,
+          studentId: studentId,
+          quantity: pricedItem.quantity,
+          amount: amount
+        }],
+        recordedBy: req.user.id,
+        promoCodeId: priced.promoCode ? priced.promoCode.id : null,
+        discountAmount: priced.discountAmount
+      };
+      const awaitingConfirmation = req.user.role === UserRole.STUDENT;
+      const { order, ticketPurchases: [ticketPurchase], tickets } = awaitingConfirmation
+        ? await orderService.createCashPendingOrder(cashInput)
+        : await orderService.createOrder(cashInput);
       
       res.status(201).json({
         success: true,
-        message: "Cash payment recorded successfully",
-        ticketPurchase
+        message: awaitingConfirmation
+          ? "Cash payment recorded, it will count once the school confirms the cash was handed in"
+          : "Cash payment recorded successfully",
+        order,
+        ticketPurchase,
+        tickets
       });
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error processing cash payment:", error);
       res.status(500).json({ message: "Failed to process cash payment" });
     }
   });
   
   // Cash payment endpoint for cart purchases
-  app.post("/api/cart/cash-payment", async (req, res) => {
+  app.post("/api/cart/cash-payment", isAuthenticated, async (req, res) => {
     try {
-      // Allow anyone to record cash payments (authenticated or not)
+      // Check if user is a student or school admin (only they can record cash payments)
+      if (req.user.role !== UserRole.STUDENT && req.user.role !== UserRole.SCHOOL) {
+        return res.status(403).json({ message: "Only students and school admins can record cash payments" });
+      }
       
-      const { items, customerInfo } = req.body;
+      const { items, customerInfo, promoCode } = req.body;
       
       if (!items || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({ message: "Cart items are required" });
@@ -1145,51 +2045,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer information is required" });
       }
       
-      // Fixed ticket price (in cents)
-      const ticketPrice = 1000; // $10 in cents
+      // Price every item from the stored fundraiser prices before recording anything
+      const priced = await pricingService.priceOrder(items, { promoCode });
+      const { items: pricedItems } = priced;
+      
+      // A school's cash counts at once, so only for its own fundraisers
+      if (req.user.role === UserRole.SCHOOL) {
+        await cashPaymentService.checkSchoolFundraisers(req.user.id, pricedItems);
+      }
       
       // Generate a unique cash payment identifier
-      const paymentId = `cash_payment_cart_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+      const { reference: paymentId } = await paymentGateway.getPaymentGateway(PaymentProvider.CASH).createCheckout({
+        amount: priced.totalAmount,
+        customerEmail: customerInfo.email,
+        metadata: {}
+      });
       
-      // Find student ID if the user is authenticated and is a student (for self-purchases)
+      // Find student ID if the user is a student (for self-purchases)
       let loggedInStudentId = null;
-      if (req.isAuthenticated() && req.user && req.user.role === UserRole.STUDENT) {
+      if (req.user.role === UserRole.STUDENT) {
         const student = await storage.getStudentByUserId(req.user.id);
         if (student) {
           loggedInStudentId = student.id;
         }
       }
       
-      // Record each ticket purchase separately
-      const ticketPurchases = [];
-      for (const item of items) {
-        if (!item.fundraiserId || !item.quantity || item.quantity < 1) {
-          return res.status(400).json({ message: "Invalid item data" });
-        }
-        
-        // Validate quantity to prevent abuse
-        if (item.quantity > 10) {
-          return res.status(400).json({ message: "Maximum 10 tickets per fundraiser" });
-        }
-        
-        // Get fundraiser details
-        const fundraiser = await storage.getFundraiser(item.fundraiserId);
-        if (!fundraiser) {
-          return res.status(400).json({ message: `Fundraiser with ID ${item.fundraiserId} not found` });
-        }
-        
-        // Calculate amount for this item
-        const itemAmount = ticketPrice * item.quantity;
+      // Work out the line items of the order
+      const lines: orderService.OrderLineInput[] = [];
+      for (let index = 0; index < pricedItems.length; index++) {
+        const pricedItem = pricedItems[index];
+        const item = items[index];
         
         // Determine which student ID to use for this item
         let purchaseStudentId = null;
         
-        // First priority: item-specific student ID (from shared link)
-        if (item.studentId) {
-          // Verify the student exists
-          const student = await storage.getStudent(parseInt(item.studentId.toString(), 10));
-          if (student) {
-            purchaseStudentId = student.id;
+        // First priority: item-specific referral code (from shared link)
+        if (item.referralCode) {
+          purchaseStudentId = await referralService.referredStudentId(item.referralCode, pricedItem.fundraiserId);
+          if (purchaseStudentId) {
             console.log(`Using referral student ID ${purchaseStudentId} for cash payment`);
           }
         } 
@@ -1199,27 +2092,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`Using logged-in student ID ${purchaseStudentId} for cash payment`);
         }
         
-        // Record this purchase
-        const purchase = await storage.createTicketPurchase({
-          fundraiserId: item.fundraiserId,
+        lines.push({
+          fundraiserId: pricedItem.fundraiserId,
+          ticketTypeId: pricedItem.ticketTypeId,
           studentId: purchaseStudentId,
-          customerName: customerInfo.name,
-          customerEmail: customerInfo.email,
-          quantity: item.quantity,
-          amount: itemAmount,
-          paymentIntentId: paymentId, // Same ID for all items in cart
-          paymentStatus: "completed"
+          quantity: pricedItem.quantity,
+          amount: pricedItem.amount
         });
-        
-        ticketPurchases.push(purchase);
       }
       
+      // Record the whole cart as one order, cash taken by a student waits for the school to confirm it
+      const cashInput: orderService.CreateOrderInput = {
+        provider: PaymentProvider.CASH,
+        paymentReference: paymentId,
+        customerName: customerInfo.name,
+        customerEmail: customerInfo.email,
+        customerPhone: customerInfo.phone,
+        lines,
+        recordedBy: req.user.id,
+        promoCodeId: priced.promoCode ? priced.promoCode.id : null,
+        discountAmount: priced.discountAmount
+      };
+      const awaitingConfirmation = req.user.role === UserRole.STUDENT;
+      const { order, ticketPurchases, tickets } = awaitingConfirmation
+        ? await orderService.createCashPendingOrder(cashInput)
+        : await orderService.createOrder(cashInput);
+      
       res.status(201).json({
         success: true,
-        message: `Successfully recorded ${ticketPurchases.length} cash payments from cart`,
-        ticketPurchases
+        message: awaitingConfirmation
+          ? `Recorded ${ticketPurchases.length} cash payments from cart, they will count once the school confirms the cash was handed in`
+          : `Successfully recorded ${ticketPurchases.length} cash payments from cart`,
+        paymentReference: paymentId,
+        order,
+        ticketPurchases,
+        tickets
       });
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error processing cart cash payment:", error);
       res.status(500).json({ message: "Failed to process cart cash payment" });
     }
@@ -1264,120 +2176,228 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Paystack payment verification for individual fundraiser
-  app.post("/api/paystack/verify", async (req, res) => {
-    try {
-      const { reference } = req.body;
-      
-      if (!reference) {
-        return res.status(400).json({ message: "Transaction reference is required" });
+  // Start a checkout with a provider that only needs a reference from us: price it on the
+  // server and record it as a pending order under the reference the client then pays with
+  function initializeCheckout(provider: PaymentProviderType) {
+    return async (req: Request, res: Response) => {
+      try {
+        const { items, customerInfo, promoCode } = req.body;
+        
+        if (!items || !Array.isArray(items) || items.length === 0) {
+          return res.status(400).json({ message: "Items are required" });
+        }
+        
+        if (!customerInfo || !customerInfo.name || !customerInfo.email) {
+          return res.status(400).json({ message: "Customer information is required" });
+        }
+        
+        const priced = await pricingService.priceOrder(items, { promoCode });
+        const { items: pricedItems, totalAmount } = priced;
+        const { reference } = await paymentGateway.getPaymentGateway(provider).createCheckout({
+          amount: totalAmount,
+          customerEmail: customerInfo.email,
+          metadata: {}
+        });
+        
+        const lines: orderService.OrderLineInput[] = [];
+        for (let index = 0; index < pricedItems.length; index++) {
+          lines.push({
+            fundraiserId: pricedItems[index].fundraiserId,
+            ticketTypeId: pricedItems[index].ticketTypeId,
+            studentId: await checkoutStudentId(req, pricedItems[index].fundraiserId, items[index].referralCode),
+            quantity: pricedItems[index].quantity,
+            amount: pricedItems[index].amount
+          });
+        }
+        
+        await startCheckout(req, {
+          provider,
+          paymentReference: reference,
+          customerName: customerInfo.name,
+          customerEmail: customerInfo.email,
+          customerPhone: customerInfo.phone,
+          lines,
+          promoCodeId: priced.promoCode ? priced.promoCode.id : null,
+          discountAmount: priced.discountAmount
+        });
+        
+        res.json({ reference, amount: totalAmount, discountAmount: priced.discountAmount });
+      } catch (error) {
+        if (sendHttpError(res, error)) {
+          return;
+        }
+        console.error(`Error initializing ${provider} checkout:`, error);
+        res.status(500).json({ message: "Could not start checkout" });
       }
+    };
+  }
+  
+  // Start a Paystack checkout, the client opens the Paystack popup with its reference
+  app.post("/api/paystack/initialize", initializeCheckout(PaymentProvider.PAYSTACK));
+
+  // Paystack payment verification for individual fundraiser
+  app.post("/api/paystack/verify", async (req, res) => {
+    try {
+      const { reference } = req.body;
       
-      // Verify the transaction with Paystack
-      const transaction = await paystackService.verifyTransaction(reference);
-      
-      if (!transaction) {
-        return res.status(400).json({ message: "Failed to verify transaction" });
+      if (!reference) {
+        return res.status(400).json({ message: "Transaction reference is required" });
       }
       
-      if (transaction.status !== 'success') {
-        return res.status(400).json({ message: `Transaction status: ${transaction.status}` });
+      // A repeated verification returns the purchase recorded the first time
+      const existing = await paymentRecordService.findRecordedPayment(PaymentProvider.PAYSTACK, reference);
+      if (existing) {
+        return res.status(200).json({
+          success: true,
+          message: "Payment already verified",
+          order: existing.order,
+          ticketPurchase: existing.ticketPurchases[0],
+          tickets: existing.tickets
+        });
       }
       
-      // Get metadata from the transaction
-      const metadata = transaction.metadata || {};
-      console.log("Paystack single purchase metadata received:", JSON.stringify(metadata));
-      
-      // Extract data from metadata
-      const { fundraiserId, quantity, customerInfo, studentId: referralStudentId } = metadata;
+      // Verify the transaction with Paystack
+      const payment = await paymentGateway.getPaymentGateway(PaymentProvider.PAYSTACK).verifyPayment(reference);
       
-      if (!fundraiserId || !quantity) {
-        return res.status(400).json({ message: "Invalid transaction metadata" });
+      if (!payment) {
+        return res.status(400).json({ message: "Failed to verify transaction" });
       }
       
-      // Validate customer info
-      if (!customerInfo || !customerInfo.name || !customerInfo.email) {
-        return res.status(400).json({ message: "Customer information is missing" });
+      if (payment.status !== "succeeded") {
+        if (payment.status === "failed") {
+          await orderService.failPendingOrder(reference);
+        }
+        return res.status(400).json({ message: `Transaction status: ${payment.status}` });
       }
       
-      // Log the fundraiser and transaction amount for debugging
-      console.log("Single purchase details:", JSON.stringify({
-        fundraiserId,
-        quantity,
-        customerInfo,
-        referralStudentId
-      }));
-      console.log("Transaction amount (kobo):", transaction.amount);
-      
-      // For test accounts, we'll skip the amount validation since test accounts might have restrictions
-      // In production, we would validate the amount carefully
+      // Record the ticket purchase, unless the webhook or a concurrent verification got there first
+      const { order, ticketPurchases: [ticketPurchase], tickets, duplicate } = await paystackPaymentService.recordTicketPayment(
+        payment,
+        await selfPurchaseStudentId(req)
+      );
       
-      // Calculate expected amount for logging purposes
-      const ticketPrice = 1000; // $10 in cents
-      const expectedAmount = ticketPrice * quantity;
+      res.status(200).json({
+        success: true,
+        message: duplicate ? "Payment already verified" : "Payment verified and ticket purchase recorded",
+        order,
+        ticketPurchase,
+        tickets
+      });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error verifying Paystack payment:", error);
+      res.status(500).json({ message: "Failed to verify payment" });
+    }
+  });
+  
+  // Paystack payment verification for cart checkout
+  app.post("/api/paystack/verify-cart", async (req, res) => {
+    try {
+      const { reference } = req.body;
       
-      // Log the expected vs actual amount
-      console.log("Expected amount (cents):", expectedAmount);
-      console.log("Transaction amount (cents):", transaction.amount / 100);
+      if (!reference) {
+        return res.status(400).json({ message: "Transaction reference is required" });
+      }
       
-      // Since we're using a test account, we'll skip the amount validation
-      // In production, uncomment the code below
-      /*
-      const transactionAmount = transaction.amount / 100; // Convert kobo to dollars
-      if (transactionAmount < expectedAmount) {
-        return res.status(400).json({ message: "Payment amount is insufficient" });
+      // A repeated verification returns the purchases recorded the first time
+      const existing = await paymentRecordService.findRecordedPayment(PaymentProvider.PAYSTACK, reference);
+      if (existing) {
+        return res.status(200).json({
+          success: true,
+          message: "Payment already verified",
+          order: existing.order,
+          ticketPurchases: existing.ticketPurchases,
+          tickets: existing.tickets
+        });
       }
-      */
       
-      // Determine which student ID to use for this purchase
-      let purchaseStudentId = null;
+      // Verify the transaction with Paystack
+      const payment = await paymentGateway.getPaymentGateway(PaymentProvider.PAYSTACK).verifyPayment(reference);
       
-      // First priority: referral student ID from metadata (shared link)
-      if (referralStudentId) {
-        try {
-          const student = await storage.getStudent(parseInt(referralStudentId, 10));
-          if (student) {
-            purchaseStudentId = student.id;
-            console.log(`Using referral student ID ${purchaseStudentId} from Paystack metadata`);
-          }
-        } catch (err) {
-          console.error("Error retrieving referral student:", err);
-        }
+      if (!payment) {
+        return res.status(400).json({ message: "Failed to verify transaction" });
       }
-      // Second priority: logged-in student (self-purchase)
-      else if (req.isAuthenticated() && req.user && req.user.role === UserRole.STUDENT) {
-        const student = await storage.getStudentByUserId(req.user.id);
-        if (student) {
-          purchaseStudentId = student.id;
-          console.log(`Using logged-in student ID ${purchaseStudentId}`);
+      
+      if (payment.status !== "succeeded") {
+        if (payment.status === "failed") {
+          await orderService.failPendingOrder(reference);
         }
+        return res.status(400).json({ message: `Transaction status: ${payment.status}` });
       }
       
-      // Record the ticket purchase
-      const ticketPurchase = await storage.createTicketPurchase({
-        fundraiserId: parseInt(fundraiserId, 10),
-        studentId: purchaseStudentId,
-        customerName: customerInfo.name,
-        customerEmail: customerInfo.email,
-        quantity: parseInt(quantity, 10),
-        amount: expectedAmount, // Using the calculated expected amount
-        paymentIntentId: reference,
-        paymentStatus: "completed"
-      });
+      // Record the cart as one order, unless the webhook or a concurrent verification got there first
+      const { order, ticketPurchases, tickets, duplicate } = await paystackPaymentService.recordTicketPayment(
+        payment,
+        await selfPurchaseStudentId(req)
+      );
       
       res.status(200).json({
         success: true,
-        message: "Payment verified and ticket purchase recorded",
-        ticketPurchase
+        message: duplicate
+          ? "Payment already verified"
+          : `Successfully verified payment and recorded ${ticketPurchases.length} ticket purchases`,
+        order,
+        ticketPurchases,
+        tickets
       });
     } catch (error) {
-      console.error("Error verifying Paystack payment:", error);
-      res.status(500).json({ message: "Failed to verify payment" });
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error verifying Paystack cart payment:", error);
+      res.status(500).json({ message: "Failed to verify cart payment" });
     }
   });
   
-  // Paystack payment verification for cart checkout
-  app.post("/api/paystack/verify-cart", async (req, res) => {
+  // Paystack webhook, records payments whether or not the buyer's browser gets back to verify them
+  app.post("/api/paystack-webhook", paymentWebhook(PaymentProvider.PAYSTACK, recordPaystackPayment));
+  
+  // Record a successful Paystack transaction as the donation or tickets it paid for
+  async function recordPaystackPayment(payment: ProviderPayment) {
+    const donation = await paystackPaymentService.recordDonationPayment(payment);
+    if (donation) {
+      console.log(`Donation ${donation.id} paid with Paystack transaction ${payment.reference}`);
+      return;
+    }
+    
+    const { order, duplicate } = await paystackPaymentService.recordTicketPayment(payment);
+    if (!duplicate) {
+      console.log(`Order ${order?.orderNumber} paid with Paystack transaction ${payment.reference}`);
+    }
+  }
+  
+  // Start a Paystack donation, the donor pays the amount they chose in the Paystack popup
+  app.post("/api/donations/paystack/initialize", async (req, res) => {
+    try {
+      const { fundraiserId, referralCode } = req.body;
+      const donation = await donationService.prepareDonation(fundraiserId, req.body);
+      const { reference } = await paymentGateway.getPaymentGateway(PaymentProvider.PAYSTACK).createCheckout({
+        amount: donation.amount,
+        customerEmail: donation.donorEmail,
+        metadata: {}
+      });
+      
+      await donationService.startDonation(
+        donation,
+        PaymentProvider.PAYSTACK,
+        reference,
+        await checkoutStudentId(req, donation.fundraiser.id, referralCode)
+      );
+      
+      res.json({ reference, amount: donation.amount });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error initializing Paystack donation:", error);
+      res.status(500).json({ message: "Could not start donation" });
+    }
+  });
+  
+  // Paystack payment verification for a donation
+  app.post("/api/donations/paystack/verify", async (req, res) => {
     try {
       const { reference } = req.body;
       
@@ -1385,132 +2405,509 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Transaction reference is required" });
       }
       
+      const pending = await storage.getDonationByPaymentReference(reference);
+      if (!pending) {
+        return res.status(404).json({ message: "Donation not found" });
+      }
+      if (pending.status === PaymentStatus.COMPLETED) {
+        return res.status(200).json({ success: true, message: "Donation already verified", donation: pending });
+      }
+      
       // Verify the transaction with Paystack
-      const transaction = await paystackService.verifyTransaction(reference);
+      const payment = await paymentGateway.getPaymentGateway(PaymentProvider.PAYSTACK).verifyPayment(reference);
       
-      if (!transaction) {
+      if (!payment) {
         return res.status(400).json({ message: "Failed to verify transaction" });
       }
       
-      if (transaction.status !== 'success') {
-        return res.status(400).json({ message: `Transaction status: ${transaction.status}` });
+      if (payment.status !== "succeeded") {
+        if (payment.status === "failed") {
+          await donationService.failDonation(reference);
+        }
+        return res.status(400).json({ message: `Transaction status: ${payment.status}` });
       }
       
-      // Get metadata from the transaction
-      const metadata = transaction.metadata || {};
-      console.log("Paystack cart metadata received:", JSON.stringify(metadata));
+      const donation = await paystackPaymentService.recordDonationPayment(payment);
       
-      // Extract cart data from metadata
-      const { isCart, customerInfo, items } = metadata;
+      res.status(200).json({ success: true, message: "Donation verified", donation });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error verifying Paystack donation:", error);
+      res.status(500).json({ message: "Failed to verify donation" });
+    }
+  });
+
+  // Record a payment for exactly what its checkout was started with, for providers that keep nothing else
+  async function recordCheckoutPayment(provider: PaymentProviderType, payment: ProviderPayment) {
+    const input = await orderService.getCheckoutInput(payment.reference);
+    if (!input) {
+      if (await paymentRecordService.findRecordedPayment(provider, payment.reference)) {
+        console.log(`Payment ${payment.reference} was already recorded, skipping`);
+        return;
+      }
+      throw new Error(`No checkout was started for payment ${payment.reference}`);
+    }
+    
+    const { order, duplicate } = await paymentRecordService.recordPaymentOnce(
+      provider,
+      payment.reference,
+      () => orderService.recordPaidOrder({ ...input, capturedAmount: payment.capturedAmount })
+    );
+    if (!duplicate) {
+      console.log(`Order ${order?.orderNumber} paid with ${provider} payment ${payment.reference}`);
+    }
+  }
+  
+  // Checkouts through the in-memory fake provider, to try the whole payment flow locally with
+  // ENABLE_FAKE_PAYMENTS=true. Settle a payment by posting { "type": "payment.succeeded", "reference": "..." } to the webhook
+  if (paymentGateway.hasPaymentGateway(PaymentProvider.FAKE)) {
+    app.post("/api/fake-payment/initialize", initializeCheckout(PaymentProvider.FAKE));
+    app.post("/api/fake-payment-webhook", paymentWebhook(
+      PaymentProvider.FAKE,
+      (payment) => recordCheckoutPayment(PaymentProvider.FAKE, payment)
+    ));
+  }
+
+  // Look up the tickets issued for a payment (public, the buyer's email acts as the secret)
+  app.get("/api/tickets/lookup", async (req, res) => {
+    try {
+      const reference = typeof req.query.reference === "string" ? req.query.reference : "";
+      const email = typeof req.query.email === "string" ? req.query.email : "";
       
-      if (!isCart) {
-        return res.status(400).json({ message: "Transaction is not marked as a cart purchase" });
+      if (!reference || !email) {
+        return res.status(400).json({ message: "Payment reference and email are required" });
       }
       
-      if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ message: "Invalid cart data in transaction metadata" });
+      const tickets = await storage.getTicketsByPaymentReference(reference, email);
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error looking up tickets:", error);
+      res.status(500).json({ message: "Could not retrieve tickets" });
+    }
+  });
+
+  // All orders across every school (admin only)
+  app.get("/api/admin/orders", isAuthenticated, hasRole(UserRole.ADMIN), async (req, res) => {
+    try {
+      const orders = await storage.getAllOrders(orderService.PAID_ORDER_STATUSES);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching all orders:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Refund everything still paid on an order. School admins only refund their own school's lines
+  app.post("/api/orders/:id/refund", isSchoolOrAdmin, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
       }
       
-      // Validate customer info
-      if (!customerInfo || !customerInfo.name || !customerInfo.email) {
-        return res.status(400).json({ message: "Customer information is missing" });
+      let schoolId: number | undefined;
+      if (req.user.role === UserRole.SCHOOL) {
+        const school = await storage.getSchoolByUserId(req.user.id);
+        if (!school) {
+          return res.status(404).json({ message: "School record not found" });
+        }
+        schoolId = school.id;
       }
       
-      // Find student ID if the user is authenticated and is a student (for self-purchases)
-      let loggedInStudentId = null;
-      if (req.isAuthenticated() && req.user && req.user.role === UserRole.STUDENT) {
-        const student = await storage.getStudentByUserId(req.user.id);
-        if (student) {
-          loggedInStudentId = student.id;
+      const result = await refundService.refundOrder(orderId, {
+        refundedBy: req.user.id,
+        reason: req.body.reason,
+        schoolId
+      });
+      res.json(result);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error refunding order:", error);
+      res.status(500).json({ message: "Failed to refund order" });
+    }
+  });
+
+  // Refund a single ticket purchase of an order
+  app.post("/api/ticket-purchases/:id/refund", isSchoolOrAdmin, async (req, res) => {
+    try {
+      const ticketPurchaseId = parseInt(req.params.id);
+      if (isNaN(ticketPurchaseId)) {
+        return res.status(400).json({ message: "Invalid ticket purchase ID" });
+      }
+      
+      let schoolId: number | undefined;
+      if (req.user.role === UserRole.SCHOOL) {
+        const school = await storage.getSchoolByUserId(req.user.id);
+        if (!school) {
+          return res.status(404).json({ message: "School record not found" });
         }
+        schoolId = school.id;
       }
       
-      // Log the items and transaction amount for debugging
-      console.log("Cart items for verification:", JSON.stringify(items));
-      console.log("Transaction amount (kobo):", transaction.amount);
+      const result = await refundService.refundTicketPurchase(ticketPurchaseId, {
+        refundedBy: req.user.id,
+        reason: req.body.reason,
+        schoolId
+      });
+      res.json(result);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error refunding ticket purchase:", error);
+      res.status(500).json({ message: "Failed to refund ticket purchase" });
+    }
+  });
+
+  // Look up an order for the buyer who placed it (public, the buyer's email acts as the secret)
+  app.get("/api/orders/lookup", async (req, res) => {
+    try {
+      const reference = typeof req.query.reference === "string" ? req.query.reference : "";
+      const email = typeof req.query.email === "string" ? req.query.email : "";
       
-      // For test accounts, we'll skip the amount validation since test accounts might have restrictions
-      // In production, we would validate the amount carefully
+      if (!reference || !email) {
+        return res.status(400).json({ message: "Payment reference and email are required" });
+      }
       
-      // Calculate total expected amount for logging purposes
-      const ticketPrice = 1000; // $10 in cents
-      let expectedAmount = 0;
-      for (const item of items) {
-        expectedAmount += ticketPrice * item.quantity;
+      const order = await orderService.getOrderDetailsForBuyer(reference, email);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
       
-      // Log the expected vs actual amount
-      console.log("Expected amount (cents):", expectedAmount);
-      console.log("Transaction amount (cents):", transaction.amount / 100);
+      res.json(order);
+    } catch (error) {
+      console.error("Error looking up order:", error);
+      res.status(500).json({ message: "Could not retrieve order" });
+    }
+  });
+
+  // Orders that include the school's fundraisers
+  app.get("/api/school/orders", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
       
-      // Since we're using a test account, we'll skip the amount validation
-      // In production, uncomment the code below
-      /*
-      if (transactionAmount < expectedAmount) {
-        return res.status(400).json({ message: "Payment amount is insufficient" });
+      const orders = await storage.getOrdersBySchoolId(school.id, orderService.PAID_ORDER_STATUSES);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching school orders:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Checkouts for the school's fundraisers that were started but never paid for
+  app.get("/api/school/abandoned-checkouts", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
       }
-      */
       
-      // Record each ticket purchase separately
-      const ticketPurchases = [];
-      for (const item of items) {
-        if (!item.fundraiserId || !item.quantity || item.quantity < 1) {
-          return res.status(400).json({ message: "Invalid item in cart" });
-        }
-        
-        // Get fundraiser details to validate it exists
-        const fundraiser = await storage.getFundraiser(item.fundraiserId);
-        if (!fundraiser) {
-          return res.status(400).json({ message: `Fundraiser with ID ${item.fundraiserId} not found` });
-        }
-        
-        // Calculate amount for this item
-        const itemAmount = ticketPrice * item.quantity;
-        
-        // Determine which student ID to use for this purchase
-        let purchaseStudentId = null;
-        
-        // First priority: item-specific student ID (from shared link)
-        if (item.studentId) {
-          try {
-            const student = await storage.getStudent(parseInt(item.studentId.toString(), 10));
-            if (student) {
-              purchaseStudentId = student.id;
-              console.log(`Using referral student ID ${purchaseStudentId} for Paystack cart item`);
-            }
-          } catch (err) {
-            console.error("Error retrieving referral student for cart item:", err);
-          }
-        } 
-        // Second priority: logged-in student (for self-purchases)
-        else if (loggedInStudentId) {
-          purchaseStudentId = loggedInStudentId;
-          console.log(`Using logged-in student ID ${purchaseStudentId} for Paystack cart item`);
-        }
-        
-        // Record this purchase
-        const purchase = await storage.createTicketPurchase({
-          fundraiserId: item.fundraiserId,
-          studentId: purchaseStudentId,
-          customerName: customerInfo.name,
-          customerEmail: customerInfo.email,
-          quantity: item.quantity,
-          amount: itemAmount,
-          paymentIntentId: reference, // Same reference for all items in cart
-          paymentStatus: "completed"
+      const orders = await storage.getOrdersBySchoolId(school.id, orderService.UNPAID_ORDER_STATUSES);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching abandoned checkouts:", error);
+      res.status(500).json({ message: "Failed to fetch abandoned checkouts" });
+    }
+  });
+
+  // Cash taken by students that the treasurer hasn't confirmed yet
+  app.get("/api/school/cash-payments", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const orders = await cashPaymentService.getPendingCashOrders(school.id);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching pending cash payments:", error);
+      res.status(500).json({ message: "Failed to fetch cash payments" });
+    }
+  });
+
+  // Confirm the cash for one or more orders was handed in
+  app.post("/api/school/cash-payments/confirm", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const result = await cashPaymentService.confirmCashOrders(
+        req.body.orderIds,
+        school.id,
+        req.user.id,
+        req.body.note || null
+      );
+      res.json(result);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error confirming cash payments:", error);
+      res.status(500).json({ message: "Failed to confirm cash payments" });
+    }
+  });
+
+  // Reject cash that was never handed in, or didn't add up
+  app.post("/api/school/cash-payments/reject", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const result = await cashPaymentService.rejectCashOrders(
+        req.body.orderIds,
+        school.id,
+        req.user.id,
+        req.body.reason
+      );
+      res.json(result);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error rejecting cash payments:", error);
+      res.status(500).json({ message: "Failed to reject cash payments" });
+    }
+  });
+
+  // The school's promo codes with how often each has been redeemed
+  app.get("/api/school/promo-codes", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      res.json(await promoService.getPromoCodesWithRedemptions(school.id));
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ message: "Failed to fetch promo codes" });
+    }
+  });
+
+  app.post("/api/school/promo-codes", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const promoCode = await promoService.createPromoCode(school.id, req.body);
+      res.status(201).json(promoCode);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ message: "Failed to create promo code" });
+    }
+  });
+
+  // Switch a promo code off or change its usage limit and validity window
+  app.patch("/api/school/promo-codes/:id", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const promoCodeId = parseInt(req.params.id, 10);
+      if (isNaN(promoCodeId)) {
+        return res.status(400).json({ message: "Invalid promo code ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const promoCode = await promoService.updatePromoCode(school.id, promoCodeId, req.body);
+      res.json(promoCode);
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error updating promo code:", error);
+      res.status(500).json({ message: "Failed to update promo code" });
+    }
+  });
+
+  // List the students taking part in one of the school's fundraisers
+  app.get("/api/school/fundraisers/:id/students", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      res.json(await enrolmentService.getEnrolledStudents(school.id, fundraiserId));
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error getting fundraiser students:", error);
+      res.status(500).json({ message: "Failed to get fundraiser students" });
+    }
+  });
+  
+  // Assign some or all of the school's students to one of its fundraisers
+  app.post("/api/school/fundraisers/:id/students", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      const enrolments = await enrolmentService.assignStudents(school.id, fundraiserId, req.body);
+      res.status(201).json({ assigned: enrolments.length });
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error assigning students:", error);
+      res.status(500).json({ message: "Failed to assign students" });
+    }
+  });
+  
+  // Take a student off one of the school's fundraisers
+  app.delete("/api/school/fundraisers/:id/students/:studentId", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id, 10);
+      const studentId = parseInt(req.params.studentId, 10);
+      if (isNaN(fundraiserId) || isNaN(studentId)) {
+        return res.status(400).json({ message: "Invalid fundraiser or student ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School record not found" });
+      }
+      
+      await enrolmentService.unassignStudent(school.id, fundraiserId, studentId);
+      res.status(204).end();
+    } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
+      console.error("Error removing student from fundraiser:", error);
+      res.status(500).json({ message: "Failed to remove student" });
+    }
+  });
+
+  // Check a ticket in at the door of one of the school's fundraisers
+  app.post("/api/school/fundraisers/:id/check-in", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      const fundraiser = await storage.getFundraiser(fundraiserId);
+      if (!school || !fundraiser || fundraiser.schoolId !== school.id) {
+        return res.status(404).json({ message: "Fundraiser not found" });
+      }
+      
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ message: "Ticket code is required" });
+      }
+      
+      // Reject forged or mistyped codes before touching the database
+      const ticketCode = ticketService.normalizeTicketCode(code);
+      if (!ticketService.verifyTicketCode(ticketCode)) {
+        return res.status(400).json({ message: "Invalid ticket code" });
+      }
+      
+      const ticket = await storage.getTicketByCode(ticketCode);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      if (ticket.fundraiserId !== fundraiserId) {
+        return res.status(400).json({ message: "This ticket is for a different event" });
+      }
+      
+      if (ticket.status === TicketStatus.VOID) {
+        return res.status(400).json({ message: "This ticket has been voided" });
+      }
+      
+      const redeemedTicket = await storage.redeemTicket(ticket.id, req.user.id);
+      if (!redeemedTicket) {
+        // Already redeemed, either earlier or by a simultaneous scan. The scanner shows the
+        // time in the device's own time zone
+        const existing = await storage.getTicketByCode(ticketCode);
+        return res.status(409).json({
+          message: "Ticket already checked in",
+          redeemedAt: existing?.redeemedAt ? new Date(existing.redeemedAt).toISOString() : null
         });
-        
-        ticketPurchases.push(purchase);
       }
       
-      res.status(200).json({
+      const summary = await storage.getCheckInSummaryByFundraiserId(fundraiserId);
+      
+      res.json({
         success: true,
-        message: `Successfully verified payment and recorded ${ticketPurchases.length} ticket purchases`,
-        ticketPurchases
+        message: "Ticket checked in",
+        ticket: redeemedTicket,
+        summary
       });
     } catch (error) {
-      console.error("Error verifying Paystack cart payment:", error);
-      res.status(500).json({ message: "Failed to verify cart payment" });
+      console.error("Error checking in ticket:", error);
+      res.status(500).json({ message: "Failed to check in ticket" });
+    }
+  });
+  
+  // Admitted vs sold counts for a single fundraiser
+  app.get("/api/school/fundraisers/:id/check-in-summary", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const fundraiserId = parseInt(req.params.id);
+      if (isNaN(fundraiserId)) {
+        return res.status(400).json({ message: "Invalid fundraiser ID" });
+      }
+      
+      const school = await storage.getSchoolByUserId(req.user.id);
+      const fundraiser = await storage.getFundraiser(fundraiserId);
+      if (!school || !fundraiser || fundraiser.schoolId !== school.id) {
+        return res.status(404).json({ message: "Fundraiser not found" });
+      }
+      
+      const summary = await storage.getCheckInSummaryByFundraiserId(fundraiserId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error getting check-in summary:", error);
+      res.status(500).json({ message: "Failed to get check-in summary" });
+    }
+  });
+  
+  // Admitted vs sold counts for all of the school's fundraisers
+  app.get("/api/school/check-in-summary", isAuthenticated, hasRole(UserRole.SCHOOL), async (req, res) => {
+    try {
+      const school = await storage.getSchoolByUserId(req.user.id);
+      if (!school) {
+        return res.status(404).json({ message: "School not found" });
+      }
+      
+      const summaries = await storage.getCheckInSummariesBySchoolId(school.id);
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error getting check-in summaries:", error);
+      res.status(500).json({ message: "Failed to get check-in summaries" });
     }
   });
 
@@ -1525,7 +2922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "School not found" });
       }
       
-      const { name, location, eventDate, price, isActive, image, description } = req.body;
+      const { name, location, eventDate, price, isActive, image, description, capacity, maxTicketsPerOrder, ticketTypes } = req.body;
       
       // Ensure we're passing a valid date
       let formattedDate;
@@ -1553,6 +2950,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Validate ticket limits, both are optional
+      const ticketCapacity = parseTicketLimit(capacity ?? null);
+      const ticketsPerOrder = parseTicketLimit(maxTicketsPerOrder ?? null);
+      if (Number.isNaN(ticketCapacity) || Number.isNaN(ticketsPerOrder)) {
+        return res.status(400).json({ message: "Ticket limits must be positive whole numbers" });
+      }
+      
+      // Ticket types are optional, without them every ticket sells at the fundraiser's price
+      const ticketTypeInputs = ticketTypes === undefined ? [] : ticketTypeService.parseTicketTypes(ticketTypes);
+      
+      // Ticket sales only by default, a donation drive also sets its goal and suggested amounts
+      const donationSettings = donationService.parseDonationSettings(req.body);
+      
+      // Sales targets for the fundraiser and each of its students, both optional
+      const goalSettings = goalService.parseGoalSettings(req.body);
+      
       console.log("Creating fundraiser with:", {
         name,
         location,
@@ -1561,7 +2974,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         schoolId: school.id,
         isActive: isActive !== undefined ? isActive : true,
         image: image || null,
-        description: description || null
+        description: description || null,
+        capacity: ticketCapacity,
+        maxTicketsPerOrder: ticketsPerOrder,
+        ...donationSettings,
+        ...goalSettings
       });
       
       // Create the fundraiser
@@ -1573,9 +2990,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         schoolId: school.id,
         isActive: isActive !== undefined ? isActive : true,
         image: image || null,
-        description: description || null
+        description: description || null,
+        capacity: ticketCapacity,
+        maxTicketsPerOrder: ticketsPerOrder,
+        ...donationSettings,
+        ...goalSettings
       });
       
+      if (ticketTypeInputs.length > 0) {
+        await ticketTypeService.saveTicketTypes(fundraiser.id, ticketTypeInputs);
+      }
+      
       // Find students associated with this school and create notifications for them
       const schoolStudents = await storage.getStudentsWithUserInfoBySchoolId(school.id);
       
@@ -1608,6 +3033,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json(fundraiser);
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error creating fundraiser:", error);
       res.status(500).json({ message: "Failed to create fundraiser" });
     }
@@ -1638,7 +3066,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to update this fundraiser" });
       }
       
-      const { name, location, eventDate, price, isActive, image, description } = req.body;
+      const { name, location, eventDate, price, isActive, image, description, capacity, maxTicketsPerOrder, ticketTypes } = req.body;
       
       // Process the updates
       const updates: Record<string, any> = {};
@@ -1683,11 +3111,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.description = description;
       }
       
+      // Lowering the capacity below the tickets already sold just stops further sales
+      if (capacity !== undefined) {
+        updates.capacity = parseTicketLimit(capacity);
+        if (Number.isNaN(updates.capacity)) {
+          return res.status(400).json({ message: "Capacity must be a positive whole number" });
+        }
+      }
+      
+      if (maxTicketsPerOrder !== undefined) {
+        updates.maxTicketsPerOrder = parseTicketLimit(maxTicketsPerOrder);
+        if (Number.isNaN(updates.maxTicketsPerOrder)) {
+          return res.status(400).json({ message: "Maximum tickets per order must be a positive whole number" });
+        }
+      }
+      
+      Object.assign(updates, donationService.parseDonationSettings(req.body));
+      Object.assign(updates, goalService.parseGoalSettings(req.body));
+      
+      // Validate the ticket types before anything is saved
+      const ticketTypeInputs = ticketTypes === undefined ? null : ticketTypeService.parseTicketTypes(ticketTypes);
+      
       // Update the fundraiser
       const updatedFundraiser = await storage.updateFundraiser(fundraiserId, updates);
       
+      if (ticketTypeInputs) {
+        await ticketTypeService.saveTicketTypes(fundraiserId, ticketTypeInputs);
+      }
+      
       res.json(updatedFundraiser);
     } catch (error) {
+      if (sendHttpError(res, error)) {
+        return;
+      }
       console.error("Error updating fundraiser:", error);
       res.status(500).json({ message: "Failed to update fundraiser" });
     }
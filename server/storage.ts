@@ -1,13 +1,22 @@
 import { db } from "./db";
 import { 
-  users, schools, students, fundraisers, studentFundraisers, notifications, ticketPurchases,
+  users, schools, students, fundraisers, ticketTypes, promoCodes, studentFundraisers, notifications, orders, ticketPurchases, tickets, payments, paymentEvents, refunds, donations, goalMilestones, referralCodes, referralEvents, carts, cartItems, authTokens, invites, studentGroups,
   type User, type InsertUser, type School, type InsertSchool,
   type Student, type InsertStudent, type Fundraiser, 
-  type InsertFundraiser, type StudentFundraiser, type InsertStudentFundraiser,
+  type InsertFundraiser, type TicketType, type InsertTicketType, type TicketTypeSales,
+  type PromoCode, type InsertPromoCode, type Donation, type InsertDonation,
+  type StudentFundraiser, type InsertStudentFundraiser, type EnrolledStudent,
   type Notification, type InsertNotification, type TicketPurchase, type InsertTicketPurchase,
-  UserRole
+  type Order, type InsertOrder, type OrderItem, type OrderWithItems,
+  type Ticket, type InsertTicket, type TicketWithFundraiser, type CheckInSummary,
+  type Payment, type PaymentProviderType, type PaymentEvent, type InsertPaymentEvent,
+  type PaymentEventStatusType, type PaymentStatusType, type Refund, type InsertRefund, type GoalMilestone,
+  type StudentSalesTotal, type ReferralCode, type ReferralEventTypeType, type ReferralFunnel,
+  type Cart, type CartItem, type AuthToken, type AuthTokenPurposeType, type Invite, type UserRoleType,
+  type StudentGroup, type StudentGroupKindType, type StudentGroupSales,
+  FundraiserMode, PaymentRecordStatus, PaymentStatus, ReferralEventType, StudentGroupField, TicketStatus, UserRole
 } from "@shared/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, desc, lt, gt, isNull, sql, inArray } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPgSimple from "connect-pg-simple";
@@ -20,11 +29,29 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUsersByEmails(emails: string[]): Promise<User[]>;
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<Pick<User, "password" | "emailVerifiedAt">>): Promise<User | undefined>;
+  
+  // Emailed token operations
+  createAuthToken(token: Omit<AuthToken, "id" | "usedAt" | "createdAt">): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurposeType): Promise<AuthToken | undefined>;
+  deleteUnusedAuthTokens(userId: number, purpose: AuthTokenPurposeType): Promise<void>;
+  
+  // Invite operations
+  getInvite(id: number): Promise<Invite | undefined>;
+  getInviteByTokenHash(tokenHash: string): Promise<Invite | undefined>;
+  getPendingInvites(role: UserRoleType, schoolId: number | null): Promise<Invite[]>;
+  createInvite(invite: Omit<Invite, "id" | "acceptedAt" | "createdAt">): Promise<Invite>;
+  acceptInvite(id: number): Promise<Invite | undefined>;
+  deleteInvite(id: number): Promise<void>;
+  deletePendingInvites(email: string, role: UserRoleType, schoolId: number | null): Promise<void>;
   
   // School operations
   getSchool(id: number): Promise<School | undefined>;
   getSchoolByUserId(userId: number): Promise<School | undefined>;
+  getSchoolByJoinCode(joinCode: string): Promise<School | undefined>;
   getAllSchools(): Promise<School[]>;
   createSchool(school: InsertSchool): Promise<School>;
   updateSchool(id: number, data: Partial<InsertSchool>): Promise<School>;
@@ -36,14 +63,53 @@ export interface IStorage {
   getStudentByUserId(userId: number): Promise<Student | undefined>;
   getAllStudents(): Promise<Student[]>;
   createStudent(student: InsertStudent): Promise<Student>;
+  createStudentsWithUsers(entries: { user: InsertUser; student: Omit<InsertStudent, "userId"> }[]): Promise<User[]>;
+  updateStudent(id: number, updates: Partial<InsertStudent>): Promise<Student>;
   getStudentsWithUserInfoBySchoolId(schoolId: number): Promise<any[]>;
   getAllStudentsWithUserInfo(): Promise<any[]>;
+  
+  // Student group operations
+  getStudentGroup(id: number): Promise<StudentGroup | undefined>;
+  getStudentGroupsBySchoolId(schoolId: number): Promise<StudentGroup[]>;
+  createStudentGroups(groups: Omit<StudentGroup, "id" | "createdAt">[]): Promise<StudentGroup[]>;
+  deleteStudentGroup(group: StudentGroup): Promise<void>;
+  getTicketSalesByStudentGroup(schoolId: number, kind: StudentGroupKindType): Promise<StudentGroupSales[]>;
 
   // Fundraiser operations
   getFundraiser(id: number): Promise<Fundraiser | undefined>;
   getFundraisersBySchoolId(schoolId: number): Promise<Fundraiser[]>;
   createFundraiser(fundraiser: InsertFundraiser): Promise<Fundraiser>;
   
+  // Ticket type operations
+  getTicketType(id: number): Promise<TicketType | undefined>;
+  getTicketTypesByFundraiserIds(fundraiserIds: number[]): Promise<TicketType[]>;
+  createTicketType(ticketType: InsertTicketType): Promise<TicketType>;
+  updateTicketType(id: number, updates: Partial<InsertTicketType>): Promise<TicketType>;
+  deleteTicketType(id: number): Promise<void>;
+  
+  // Promo code operations
+  getPromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  getPromoCodesBySchoolId(schoolId: number): Promise<PromoCode[]>;
+  createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: number, updates: Partial<InsertPromoCode>): Promise<PromoCode>;
+  getPromoCodeRedemptions(promoCodeIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, { redemptions: number; discountTotal: number }>>;
+  
+  // Donation operations
+  createDonation(donation: InsertDonation): Promise<Donation>;
+  getDonationByPaymentReference(reference: string): Promise<Donation | undefined>;
+  updateDonation(id: number, updates: Partial<InsertDonation>): Promise<Donation>;
+  getDonationsByFundraiserId(fundraiserId: number, statuses: PaymentStatusType[], limit?: number): Promise<Donation[]>;
+  getDonationTotals(fundraiserIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, { amount: number; donorCount: number }>>;
+  getDonationSummaryByStudent(studentId: number): Promise<{ donationAmount: number; donationCount: number }>;
+  
+  // Student fundraiser operations
+  getStudentFundraisersByStudentId(studentId: number): Promise<StudentFundraiser[]>;
+  getEnrolledStudents(fundraiserId: number): Promise<EnrolledStudent[]>;
+  isStudentEnrolled(studentId: number, fundraiserId: number): Promise<boolean>;
+  createStudentFundraisers(enrolments: InsertStudentFundraiser[]): Promise<StudentFundraiser[]>;
+  deleteStudentFundraiser(studentId: number, fundraiserId: number): Promise<void>;
+  
   // Notification operations
   getNotificationsByUserId(userId: number): Promise<Notification[]>;
   getUnreadNotificationsByUserId(userId: number): Promise<Notification[]>;
@@ -51,14 +117,88 @@ export interface IStorage {
   markNotificationAsRead(notificationId: number): Promise<Notification>;
   markAllNotificationsAsRead(userId: number): Promise<void>;
   
+  // Order operations
+  createOrder(order: InsertOrder): Promise<Order>;
+  getOrder(id: number): Promise<Order | undefined>;
+  getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
+  getOrderByPaymentReference(reference: string): Promise<Order | undefined>;
+  getOrderItems(orderId: number): Promise<OrderItem[]>;
+  getOrdersBySchoolId(schoolId: number, statuses: PaymentStatusType[]): Promise<OrderWithItems[]>;
+  getAllOrders(statuses: PaymentStatusType[]): Promise<OrderWithItems[]>;
+  updateOrder(id: number, data: Partial<InsertOrder>): Promise<Order>;
+  lockOrder(id: number): Promise<Order | undefined>;
+  applyOrderRefund(orderId: number, amount: number): Promise<Order>;
+  updateOrderStatusByPaymentReference(reference: string, status: PaymentStatusType): Promise<Order | undefined>;
+  abandonPendingOrders(createdBefore: Date): Promise<Order[]>;
+  countPendingOrdersByBuyer(buyerIp: string | null, customerEmail: string): Promise<number>;
+  
   // Ticket purchase operations
   createTicketPurchase(ticketPurchase: InsertTicketPurchase): Promise<TicketPurchase>;
+  deleteUnpaidTicketPurchasesByOrderId(orderId: number): Promise<void>;
+  updateTicketPurchaseStatus(id: number, status: PaymentStatusType): Promise<TicketPurchase | undefined>;
+  getTicketPurchase(id: number): Promise<TicketPurchase | undefined>;
+  applyTicketPurchaseRefund(ticketPurchaseId: number, amount: number): Promise<TicketPurchase | undefined>;
   getTicketPurchasesByFundraiserId(fundraiserId: number): Promise<TicketPurchase[]>;
   getTicketPurchasesByStudentId(studentId: number): Promise<TicketPurchase[]>;
-  getTicketSalesSummaryByStudent(studentId: number): Promise<{ totalAmount: number; totalTickets: number }>;
+  getTicketPurchasesByPaymentReference(reference: string): Promise<TicketPurchase[]>;
+  updateTicketPurchaseStatusByPaymentReference(reference: string, status: PaymentStatusType): Promise<TicketPurchase[]>;
+  flagTicketPurchasesForReview(reference: string, reason: string): Promise<TicketPurchase[]>;
+  getTicketSalesSummaryByStudent(studentId: number): Promise<{ totalAmount: number; totalTickets: number; pendingCashAmount: number; pendingCashTickets: number }>;
+  getTicketCountsByFundraiserIds(fundraiserIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, number>>;
+  getTicketCountsByTicketTypeIds(ticketTypeIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, number>>;
+  getSalesTotalsByFundraiserIds(fundraiserIds: number[], studentId?: number): Promise<Map<number, number>>;
+  getStudentSalesTotals(schoolId: number, fundraiserId?: number): Promise<StudentSalesTotal[]>;
+  getTicketTypeSalesBySchoolId(schoolId: number): Promise<TicketTypeSales[]>;
+  
+  // Ticket operations
+  createTickets(tickets: InsertTicket[]): Promise<Ticket[]>;
+  getTicketsByPurchaseId(ticketPurchaseId: number): Promise<Ticket[]>;
+  getTicketsByPaymentReference(reference: string, customerEmail: string): Promise<TicketWithFundraiser[]>;
+  getTicketByCode(code: string): Promise<Ticket | undefined>;
+  redeemTicket(ticketId: number, userId: number): Promise<Ticket | undefined>;
+  getCheckInSummaryByFundraiserId(fundraiserId: number): Promise<CheckInSummary>;
+  getCheckInSummariesBySchoolId(schoolId: number): Promise<CheckInSummary[]>;
+  voidTicketsByPaymentReference(reference: string): Promise<Ticket[]>;
+  voidTicketsByPurchaseId(ticketPurchaseId: number): Promise<Ticket[]>;
+  
+  // Payment operations
+  claimPayment(provider: PaymentProviderType, reference: string): Promise<Payment | undefined>;
+  getPayment(provider: PaymentProviderType, reference: string): Promise<Payment | undefined>;
+  markPaymentRecorded(paymentId: number): Promise<Payment>;
+  
+  // Goal milestone operations
+  claimGoalMilestone(fundraiserId: number, studentId: number | null, percentage: number): Promise<GoalMilestone | undefined>;
+  
+  // Referral operations
+  getReferralCode(code: string): Promise<ReferralCode | undefined>;
+  getReferralCodeByStudentAndFundraiser(studentId: number, fundraiserId: number): Promise<ReferralCode | undefined>;
+  createReferralCode(code: string, studentId: number, fundraiserId: number): Promise<ReferralCode | undefined>;
+  createReferralEvent(referralCodeId: number, type: ReferralEventTypeType): Promise<void>;
+  getReferralFunnels(schoolId: number, filter?: { studentId?: number; fundraiserId?: number }): Promise<ReferralFunnel[]>;
+  
+  // Cart operations
+  getCartByToken(token: string): Promise<Cart | undefined>;
+  getCartByUserId(userId: number): Promise<Cart | undefined>;
+  createCart(cart: { token?: string | null; userId?: number | null }): Promise<Cart | undefined>;
+  deleteCart(id: number): Promise<void>;
+  getCartItems(cartId: number): Promise<CartItem[]>;
+  createCartItem(item: Omit<CartItem, "id" | "createdAt">): Promise<CartItem>;
+  updateCartItem(id: number, values: Partial<Pick<CartItem, "quantity" | "referralCode">>): Promise<CartItem | undefined>;
+  deleteCartItem(id: number): Promise<void>;
+  deleteCartItems(cartId: number): Promise<void>;
+  
+  // Refund operations
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getRefundsByOrderId(orderId: number): Promise<Refund[]>;
+  
+  // Payment event operations
+  createPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined>;
+  getPaymentEvent(provider: PaymentProviderType, eventId: string): Promise<PaymentEvent | undefined>;
+  updatePaymentEventStatus(id: number, status: PaymentEventStatusType, error?: string | null): Promise<PaymentEvent>;
   
   // Session store
   sessionStore: session.Store;
+  deleteSessionsByUserId(userId: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -77,6 +217,11 @@ export class DatabaseStorage implements IStorage {
     console.log(`Using PostgreSQL session store with ${process.env.NEON_DATABASE_URL ? 'NEON_DATABASE_URL' : 'DATABASE_URL'}`);
   }
 
+  // Sign a user out everywhere, passport keeps the logged-in user's ID in the session
+  async deleteSessionsByUserId(userId: number): Promise<void> {
+    await db.execute(sql`DELETE FROM "session" WHERE sess->'passport'->>'user' = ${String(userId)}`);
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -93,11 +238,117 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Matches regardless of case, the emails should be lowercase
+  async getUsersByEmails(emails: string[]): Promise<User[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+    return db.select().from(users).where(inArray(sql`lower(${users.email})`, emails));
+  }
+
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (usernames.length === 0) {
+      return [];
+    }
+    return db.select().from(users).where(inArray(users.username, usernames));
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [createdUser] = await db.insert(users).values(user).returning();
     return createdUser;
   }
 
+  async updateUser(id: number, updates: Partial<Pick<User, "password" | "emailVerifiedAt">>): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  // Emailed token operations
+  async createAuthToken(token: Omit<AuthToken, "id" | "usedAt" | "createdAt">): Promise<AuthToken> {
+    const [createdToken] = await db.insert(authTokens).values(token).returning();
+    return createdToken;
+  }
+
+  // Marks the token used in the same statement that finds it, so two requests can't both use it
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurposeType): Promise<AuthToken | undefined> {
+    const [consumed] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return consumed;
+  }
+
+  async deleteUnusedAuthTokens(userId: number, purpose: AuthTokenPurposeType): Promise<void> {
+    await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  // Invite operations
+  async getInvite(id: number): Promise<Invite | undefined> {
+    const [invite] = await db.select().from(invites).where(eq(invites.id, id));
+    return invite;
+  }
+
+  async getInviteByTokenHash(tokenHash: string): Promise<Invite | undefined> {
+    const [invite] = await db.select().from(invites).where(eq(invites.tokenHash, tokenHash));
+    return invite;
+  }
+
+  // Invites that haven't been accepted and still work, newest first
+  async getPendingInvites(role: UserRoleType, schoolId: number | null): Promise<Invite[]> {
+    return db
+      .select()
+      .from(invites)
+      .where(and(
+        eq(invites.role, role),
+        schoolId === null ? isNull(invites.schoolId) : eq(invites.schoolId, schoolId),
+        isNull(invites.acceptedAt),
+        gt(invites.expiresAt, new Date())
+      ))
+      .orderBy(desc(invites.createdAt));
+  }
+
+  async createInvite(invite: Omit<Invite, "id" | "acceptedAt" | "createdAt">): Promise<Invite> {
+    const [createdInvite] = await db.insert(invites).values(invite).returning();
+    return createdInvite;
+  }
+
+  // Marks the invite accepted in the same statement that checks it still works, so it can only be used once
+  async acceptInvite(id: number): Promise<Invite | undefined> {
+    const [accepted] = await db
+      .update(invites)
+      .set({ acceptedAt: new Date() })
+      .where(and(eq(invites.id, id), isNull(invites.acceptedAt), gt(invites.expiresAt, new Date())))
+      .returning();
+    return accepted;
+  }
+
+  async deleteInvite(id: number): Promise<void> {
+    await db.delete(invites).where(eq(invites.id, id));
+  }
+
+  async deletePendingInvites(email: string, role: UserRoleType, schoolId: number | null): Promise<void> {
+    await db
+      .delete(invites)
+      .where(and(
+        eq(invites.email, email),
+        eq(invites.role, role),
+        schoolId === null ? isNull(invites.schoolId) : eq(invites.schoolId, schoolId),
+        isNull(invites.acceptedAt)
+      ));
+  }
+
   // School operations
   async getSchool(id: number): Promise<School | undefined> {
     const [school] = await db.select().from(schools).where(eq(schools.id, id));
@@ -109,6 +360,11 @@ export class DatabaseStorage implements IStorage {
     return school;
   }
 
+  async getSchoolByJoinCode(joinCode: string): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.joinCode, joinCode));
+    return school;
+  }
+
   async getAllSchools(): Promise<School[]> {
     return db.select().from(schools).orderBy(desc(schools.createdAt));
   }
@@ -173,6 +429,28 @@ export class DatabaseStorage implements IStorage {
     return createdStudent;
   }
 
+  // All or nothing, so a failed import can be fixed and run again
+  async createStudentsWithUsers(entries: { user: InsertUser; student: Omit<InsertStudent, "userId"> }[]): Promise<User[]> {
+    return db.transaction(async (tx) => {
+      const created: User[] = [];
+      for (const entry of entries) {
+        const [user] = await tx.insert(users).values(entry.user).returning();
+        await tx.insert(students).values({ ...entry.student, userId: user.id });
+        created.push(user);
+      }
+      return created;
+    });
+  }
+
+  async updateStudent(id: number, updates: Partial<InsertStudent>): Promise<Student> {
+    const [updatedStudent] = await db
+      .update(students)
+      .set(updates)
+      .where(eq(students.id, id))
+      .returning();
+    return updatedStudent;
+  }
+
   async getStudentsWithUserInfoBySchoolId(schoolId: number): Promise<any[]> {
     const studentsData = await db.select().from(students).where(eq(students.schoolId, schoolId));
     const result = [];
@@ -225,6 +503,73 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Student group operations
+  async getStudentGroup(id: number): Promise<StudentGroup | undefined> {
+    const [group] = await db.select().from(studentGroups).where(eq(studentGroups.id, id));
+    return group;
+  }
+
+  async getStudentGroupsBySchoolId(schoolId: number): Promise<StudentGroup[]> {
+    return db
+      .select()
+      .from(studentGroups)
+      .where(eq(studentGroups.schoolId, schoolId))
+      .orderBy(studentGroups.kind, studentGroups.name);
+  }
+
+  // Groups the school already has are skipped, and left out of the result
+  async createStudentGroups(groups: Omit<StudentGroup, "id" | "createdAt">[]): Promise<StudentGroup[]> {
+    if (groups.length === 0) {
+      return [];
+    }
+    return db
+      .insert(studentGroups)
+      .values(groups)
+      .onConflictDoNothing({ target: [studentGroups.schoolId, studentGroups.kind, studentGroups.name] })
+      .returning();
+  }
+
+  // Students in the group are left without one of that kind
+  async deleteStudentGroup(group: StudentGroup): Promise<void> {
+    const field = StudentGroupField[group.kind];
+    await db.transaction(async (tx) => {
+      await tx
+        .update(students)
+        .set({ [field]: null })
+        .where(and(eq(students.schoolId, group.schoolId), eq(students[field], group.name)));
+      await tx.delete(studentGroups).where(eq(studentGroups.id, group.id));
+    });
+  }
+
+  async getTicketSalesByStudentGroup(schoolId: number, kind: StudentGroupKindType): Promise<StudentGroupSales[]> {
+    const column = students[StudentGroupField[kind]];
+    const totalAmount = sql<string>`SUM(${ticketPurchases.amount} - ${ticketPurchases.refundedAmount})`;
+    const rows = await db
+      .select({
+        name: column,
+        totalAmount,
+        totalTickets: sql<string>`SUM(${ticketPurchases.quantity})`,
+        studentCount: sql<string>`COUNT(DISTINCT ${ticketPurchases.studentId})`
+      })
+      .from(ticketPurchases)
+      .innerJoin(students, eq(ticketPurchases.studentId, students.id))
+      .where(and(
+        eq(students.schoolId, schoolId),
+        inArray(ticketPurchases.paymentStatus, [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED])
+      ))
+      .groupBy(column)
+      .orderBy(desc(totalAmount));
+
+    return rows.map(row => ({
+      kind,
+      name: row.name,
+      totalAmount: parseInt(row.totalAmount || '0', 10) / 100, // Convert back from cents to dollars
+      totalTickets: parseInt(row.totalTickets || '0', 10),
+      studentCount: parseInt(row.studentCount || '0', 10)
+    }));
+  }
+
+
   // Fundraiser operations
   async getFundraiser(id: number): Promise<Fundraiser | undefined> {
     try {
@@ -232,7 +577,9 @@ export class DatabaseStorage implements IStorage {
       const result = await db.execute(
         sql`SELECT id, name, location, school_id as "schoolId", is_active as "isActive", 
              event_date as "eventDate", created_at as "createdAt", price,
-             image, description
+             image, description, capacity, max_tickets_per_order as "maxTicketsPerOrder",
+             mode, donation_goal as "donationGoal", suggested_donations as "suggestedDonations",
+             goal_amount as "goalAmount", student_goal_amount as "studentGoalAmount"
              FROM fundraisers 
              WHERE id = ${id}`
       );
@@ -254,7 +601,9 @@ export class DatabaseStorage implements IStorage {
       const result = await db.execute(
         sql`SELECT id, name, location, school_id as "schoolId", is_active as "isActive", 
              event_date as "eventDate", created_at as "createdAt", price,
-             image, description
+             image, description, capacity, max_tickets_per_order as "maxTicketsPerOrder",
+             mode, donation_goal as "donationGoal", suggested_donations as "suggestedDonations",
+             goal_amount as "goalAmount", student_goal_amount as "studentGoalAmount"
              FROM fundraisers 
              WHERE school_id = ${schoolId} 
              ORDER BY event_date DESC`
@@ -272,12 +621,20 @@ export class DatabaseStorage implements IStorage {
       console.log("Creating fundraiser with direct SQL:", fundraiser);
       // Use a raw SQL query to insert the data, avoiding Drizzle mapping issues
       const result = await db.execute(
-        sql`INSERT INTO fundraisers (name, location, school_id, is_active, event_date, price, image, description) 
+        sql`INSERT INTO fundraisers (name, location, school_id, is_active, event_date, price, image, description, capacity, max_tickets_per_order,
+                                     mode, donation_goal, suggested_donations, goal_amount, student_goal_amount) 
             VALUES (${fundraiser.name}, ${fundraiser.location}, ${fundraiser.schoolId}, 
                    ${fundraiser.isActive ?? true}, ${fundraiser.eventDate}, 
-                   ${fundraiser.price ?? 1000}, ${fundraiser.image ?? null}, ${fundraiser.description ?? null})
+                   ${fundraiser.price ?? 1000}, ${fundraiser.image ?? null}, ${fundraiser.description ?? null},
+                   ${fundraiser.capacity ?? null}, ${fundraiser.maxTicketsPerOrder ?? null},
+                   ${fundraiser.mode ?? FundraiserMode.TICKETS}, ${fundraiser.donationGoal ?? null},
+                   ${fundraiser.suggestedDonations ? JSON.stringify(fundraiser.suggestedDonations) : null}::jsonb,
+                   ${fundraiser.goalAmount ?? null}, ${fundraiser.studentGoalAmount ?? null})
             RETURNING id, name, location, school_id as "schoolId", is_active as "isActive", 
-                     event_date as "eventDate", price, image, description, created_at as "createdAt"`
+                     event_date as "eventDate", price, image, description, capacity,
+                     max_tickets_per_order as "maxTicketsPerOrder", mode, donation_goal as "donationGoal",
+                     suggested_donations as "suggestedDonations", goal_amount as "goalAmount",
+                     student_goal_amount as "studentGoalAmount", created_at as "createdAt"`
       );
       console.log("Create fundraiser result:", result);
       // Return the first row
@@ -331,6 +688,41 @@ export class DatabaseStorage implements IStorage {
         values.push(updates.description);
       }
       
+      if (updates.capacity !== undefined) {
+        updateFields.push("capacity = $" + (values.length + 1));
+        values.push(updates.capacity);
+      }
+      
+      if (updates.maxTicketsPerOrder !== undefined) {
+        updateFields.push("max_tickets_per_order = $" + (values.length + 1));
+        values.push(updates.maxTicketsPerOrder);
+      }
+      
+      if (updates.mode !== undefined) {
+        updateFields.push("mode = $" + (values.length + 1));
+        values.push(updates.mode);
+      }
+      
+      if (updates.donationGoal !== undefined) {
+        updateFields.push("donation_goal = $" + (values.length + 1));
+        values.push(updates.donationGoal);
+      }
+      
+      if (updates.suggestedDonations !== undefined) {
+        updateFields.push("suggested_donations = $" + (values.length + 1) + "::jsonb");
+        values.push(updates.suggestedDonations ? JSON.stringify(updates.suggestedDonations) : null);
+      }
+      
+      if (updates.goalAmount !== undefined) {
+        updateFields.push("goal_amount = $" + (values.length + 1));
+        values.push(updates.goalAmount);
+      }
+      
+      if (updates.studentGoalAmount !== undefined) {
+        updateFields.push("student_goal_amount = $" + (values.length + 1));
+        values.push(updates.studentGoalAmount);
+      }
+      
       if (updateFields.length === 0) {
         // No updates to make
         const currentFundraiser = await this.getFundraiser(id);
@@ -348,7 +740,10 @@ export class DatabaseStorage implements IStorage {
         SET ${updateFields.join(", ")} 
         WHERE id = $${values.length}
         RETURNING id, name, location, school_id as "schoolId", is_active as "isActive", 
-                 event_date as "eventDate", price, image, description, created_at as "createdAt"
+                 event_date as "eventDate", price, image, description, capacity,
+                 max_tickets_per_order as "maxTicketsPerOrder", mode, donation_goal as "donationGoal",
+                 suggested_donations as "suggestedDonations", goal_amount as "goalAmount",
+                 student_goal_amount as "studentGoalAmount", created_at as "createdAt"
       `;
       
       const result = await db.execute(sql.raw(updateQuery), ...values);
@@ -365,6 +760,224 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Ticket type operations
+  async getTicketType(id: number): Promise<TicketType | undefined> {
+    const [ticketType] = await db.select().from(ticketTypes).where(eq(ticketTypes.id, id));
+    return ticketType;
+  }
+
+  async getTicketTypesByFundraiserIds(fundraiserIds: number[]): Promise<TicketType[]> {
+    if (fundraiserIds.length === 0) {
+      return [];
+    }
+    return db.select()
+      .from(ticketTypes)
+      .where(inArray(ticketTypes.fundraiserId, fundraiserIds))
+      .orderBy(ticketTypes.sortOrder, ticketTypes.id);
+  }
+
+  async createTicketType(ticketType: InsertTicketType): Promise<TicketType> {
+    const [createdTicketType] = await db.insert(ticketTypes).values(ticketType).returning();
+    return createdTicketType;
+  }
+
+  async updateTicketType(id: number, updates: Partial<InsertTicketType>): Promise<TicketType> {
+    const [updatedTicketType] = await db
+      .update(ticketTypes)
+      .set(updates)
+      .where(eq(ticketTypes.id, id))
+      .returning();
+    return updatedTicketType;
+  }
+
+  async deleteTicketType(id: number): Promise<void> {
+    // Unsold ticket types may still be sitting in carts
+    await db.delete(cartItems).where(eq(cartItems.ticketTypeId, id));
+    await db.delete(ticketTypes).where(eq(ticketTypes.id, id));
+  }
+
+  // Promo code operations
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+    return promoCode;
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select().from(promoCodes).where(eq(promoCodes.code, code));
+    return promoCode;
+  }
+
+  async getPromoCodesBySchoolId(schoolId: number): Promise<PromoCode[]> {
+    return db.select()
+      .from(promoCodes)
+      .where(eq(promoCodes.schoolId, schoolId))
+      .orderBy(desc(promoCodes.createdAt));
+  }
+
+  async createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode> {
+    const [createdPromoCode] = await db.insert(promoCodes).values(promoCode).returning();
+    return createdPromoCode;
+  }
+
+  async updatePromoCode(id: number, updates: Partial<InsertPromoCode>): Promise<PromoCode> {
+    const [updatedPromoCode] = await db
+      .update(promoCodes)
+      .set(updates)
+      .where(eq(promoCodes.id, id))
+      .returning();
+    return updatedPromoCode;
+  }
+
+  // Orders placed with each promo code and the discount they were given, in cents
+  async getPromoCodeRedemptions(
+    promoCodeIds: number[],
+    statuses: PaymentStatusType[]
+  ): Promise<Map<number, { redemptions: number; discountTotal: number }>> {
+    const redemptions = new Map<number, { redemptions: number; discountTotal: number }>();
+    if (promoCodeIds.length === 0 || statuses.length === 0) {
+      return redemptions;
+    }
+
+    const rows = await db.select({
+        promoCodeId: orders.promoCodeId,
+        redemptions: sql<number>`count(*)::int`,
+        discountTotal: sql<number>`coalesce(sum(${orders.discountAmount}), 0)::int`,
+      })
+      .from(orders)
+      .where(and(inArray(orders.promoCodeId, promoCodeIds), inArray(orders.status, statuses)))
+      .groupBy(orders.promoCodeId);
+
+    for (const row of rows) {
+      if (row.promoCodeId !== null) {
+        redemptions.set(row.promoCodeId, { redemptions: row.redemptions, discountTotal: row.discountTotal });
+      }
+    }
+    return redemptions;
+  }
+
+  // Donation operations
+  async createDonation(donation: InsertDonation): Promise<Donation> {
+    const [createdDonation] = await db.insert(donations).values(donation).returning();
+    return createdDonation;
+  }
+
+  async getDonationByPaymentReference(reference: string): Promise<Donation | undefined> {
+    const [donation] = await db.select().from(donations).where(eq(donations.paymentReference, reference));
+    return donation;
+  }
+
+  async updateDonation(id: number, updates: Partial<InsertDonation>): Promise<Donation> {
+    const [updatedDonation] = await db.update(donations)
+      .set(updates)
+      .where(eq(donations.id, id))
+      .returning();
+    return updatedDonation;
+  }
+
+  async getDonationsByFundraiserId(fundraiserId: number, statuses: PaymentStatusType[], limit?: number): Promise<Donation[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+    const query = db.select()
+      .from(donations)
+      .where(and(eq(donations.fundraiserId, fundraiserId), inArray(donations.status, statuses)))
+      .orderBy(desc(donations.createdAt));
+    return limit !== undefined ? query.limit(limit) : query;
+  }
+
+  async getDonationTotals(
+    fundraiserIds: number[],
+    statuses: PaymentStatusType[]
+  ): Promise<Map<number, { amount: number; donorCount: number }>> {
+    const totals = new Map<number, { amount: number; donorCount: number }>();
+    if (fundraiserIds.length === 0 || statuses.length === 0) {
+      return totals;
+    }
+
+    const rows = await db.select({
+        fundraiserId: donations.fundraiserId,
+        amount: sql<number>`coalesce(sum(${donations.amount}), 0)::int`,
+        donorCount: sql<number>`count(*)::int`,
+      })
+      .from(donations)
+      .where(and(inArray(donations.fundraiserId, fundraiserIds), inArray(donations.status, statuses)))
+      .groupBy(donations.fundraiserId);
+
+    for (const row of rows) {
+      totals.set(row.fundraiserId, { amount: row.amount, donorCount: row.donorCount });
+    }
+    return totals;
+  }
+
+  async getDonationSummaryByStudent(studentId: number): Promise<{ donationAmount: number; donationCount: number }> {
+    const [summary] = await db.select({
+        donationAmount: sql<number>`coalesce(sum(${donations.amount}), 0)::int`,
+        donationCount: sql<number>`count(*)::int`,
+      })
+      .from(donations)
+      .where(and(eq(donations.studentId, studentId), eq(donations.status, PaymentStatus.COMPLETED)));
+
+    return {
+      donationAmount: (summary?.donationAmount ?? 0) / 100, // Convert from cents to dollars like the ticket sales summary
+      donationCount: summary?.donationCount ?? 0
+    };
+  }
+
+  // Student fundraiser operations
+  async getStudentFundraisersByStudentId(studentId: number): Promise<StudentFundraiser[]> {
+    return db
+      .select()
+      .from(studentFundraisers)
+      .where(eq(studentFundraisers.studentId, studentId));
+  }
+
+  async getEnrolledStudents(fundraiserId: number): Promise<EnrolledStudent[]> {
+    return db
+      .select({
+        studentId: studentFundraisers.studentId,
+        username: users.username,
+        email: users.email,
+        enrolledAt: studentFundraisers.createdAt,
+      })
+      .from(studentFundraisers)
+      .innerJoin(students, eq(students.id, studentFundraisers.studentId))
+      .innerJoin(users, eq(users.id, students.userId))
+      .where(eq(studentFundraisers.fundraiserId, fundraiserId))
+      .orderBy(users.username);
+  }
+
+  async isStudentEnrolled(studentId: number, fundraiserId: number): Promise<boolean> {
+    const [enrolment] = await db
+      .select({ id: studentFundraisers.id })
+      .from(studentFundraisers)
+      .where(and(
+        eq(studentFundraisers.studentId, studentId),
+        eq(studentFundraisers.fundraiserId, fundraiserId)
+      ));
+    return !!enrolment;
+  }
+
+  // Students already enrolled are skipped, only the new enrolments are returned
+  async createStudentFundraisers(enrolments: InsertStudentFundraiser[]): Promise<StudentFundraiser[]> {
+    if (enrolments.length === 0) {
+      return [];
+    }
+    return db
+      .insert(studentFundraisers)
+      .values(enrolments)
+      .onConflictDoNothing({ target: [studentFundraisers.studentId, studentFundraisers.fundraiserId] })
+      .returning();
+  }
+
+  async deleteStudentFundraiser(studentId: number, fundraiserId: number): Promise<void> {
+    await db
+      .delete(studentFundraisers)
+      .where(and(
+        eq(studentFundraisers.studentId, studentId),
+        eq(studentFundraisers.fundraiserId, fundraiserId)
+      ));
+  }
+
   // Notification operations
   async getNotificationsByUserId(userId: number): Promise<Notification[]> {
     try {
@@ -440,6 +1053,199 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Order operations
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [createdOrder] = await db.insert(orders).values(order).returning();
+    return createdOrder;
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  // Only takes effect in a transaction, other lockOrder calls on the order wait until it ends
+  async lockOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id)).for("update");
+    return order;
+  }
+
+  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+    return order;
+  }
+
+  async getOrderByPaymentReference(reference: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.paymentReference, reference));
+    return order;
+  }
+
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`SELECT 
+          tp.id, tp.order_id as "orderId", tp.fundraiser_id as "fundraiserId", tp.ticket_type_id as "ticketTypeId", tp.student_id as "studentId", 
+          tp.customer_name as "customerName", tp.customer_email as "customerEmail",
+          tp.quantity, tp.amount, tp.payment_intent_id as "paymentIntentId", 
+          tp.payment_status as "paymentStatus", tp.payment_method as "paymentMethod",
+          tp.captured_amount as "capturedAmount", tp.refunded_amount as "refundedAmount",
+          tp.flagged_for_review as "flaggedForReview", tp.review_reason as "reviewReason",
+          tp.created_at as "createdAt",
+          f.name as "fundraiserName", tt.name as "ticketTypeName"
+        FROM ticket_purchases tp
+        JOIN fundraisers f ON tp.fundraiser_id = f.id
+        LEFT JOIN ticket_types tt ON tp.ticket_type_id = tt.id
+        WHERE tp.order_id = ${orderId}
+        ORDER BY tp.id`
+    );
+    
+    return result as unknown as OrderItem[];
+  }
+
+  // Orders that include at least one of the school's fundraisers, with only the
+  // school's own lines, as a cart can span several schools
+  async getOrdersBySchoolId(schoolId: number, statuses: PaymentStatusType[]): Promise<OrderWithItems[]> {
+    try {
+      const result = await db.execute(
+        sql`SELECT 
+            tp.id, tp.order_id as "orderId", tp.fundraiser_id as "fundraiserId", tp.ticket_type_id as "ticketTypeId", tp.student_id as "studentId", 
+            tp.customer_name as "customerName", tp.customer_email as "customerEmail",
+            tp.quantity, tp.amount, tp.payment_intent_id as "paymentIntentId", 
+            tp.payment_status as "paymentStatus", tp.payment_method as "paymentMethod",
+            tp.captured_amount as "capturedAmount", tp.refunded_amount as "refundedAmount",
+            tp.flagged_for_review as "flaggedForReview", tp.review_reason as "reviewReason",
+            tp.created_at as "createdAt",
+            f.name as "fundraiserName", tt.name as "ticketTypeName"
+          FROM ticket_purchases tp
+          JOIN fundraisers f ON tp.fundraiser_id = f.id
+          LEFT JOIN ticket_types tt ON tp.ticket_type_id = tt.id
+          WHERE f.school_id = ${schoolId}
+            AND tp.order_id IS NOT NULL
+          ORDER BY tp.id`
+      );
+      const items = result as unknown as OrderItem[];
+      
+      if (items.length === 0) {
+        return [];
+      }
+      
+      const orderIds = Array.from(new Set(items.map(item => item.orderId as number)));
+      const schoolOrders = await db
+        .select()
+        .from(orders)
+        .where(and(inArray(orders.id, orderIds), inArray(orders.status, statuses)))
+        .orderBy(desc(orders.createdAt));
+      
+      return schoolOrders.map(order => ({
+        ...order,
+        items: items.filter(item => item.orderId === order.id)
+      }));
+    } catch (error) {
+      console.error("Error getting orders by school ID:", error);
+      return [];
+    }
+  }
+
+  async getAllOrders(statuses: PaymentStatusType[]): Promise<OrderWithItems[]> {
+    try {
+      const allOrders = await db
+        .select()
+        .from(orders)
+        .where(inArray(orders.status, statuses))
+        .orderBy(desc(orders.createdAt));
+      const result = await db.execute(
+        sql`SELECT 
+            tp.id, tp.order_id as "orderId", tp.fundraiser_id as "fundraiserId", tp.ticket_type_id as "ticketTypeId", tp.student_id as "studentId", 
+            tp.customer_name as "customerName", tp.customer_email as "customerEmail",
+            tp.quantity, tp.amount, tp.payment_intent_id as "paymentIntentId", 
+            tp.payment_status as "paymentStatus", tp.payment_method as "paymentMethod",
+            tp.captured_amount as "capturedAmount", tp.refunded_amount as "refundedAmount",
+            tp.flagged_for_review as "flaggedForReview", tp.review_reason as "reviewReason",
+            tp.created_at as "createdAt",
+            f.name as "fundraiserName", tt.name as "ticketTypeName"
+          FROM ticket_purchases tp
+          JOIN fundraisers f ON tp.fundraiser_id = f.id
+          LEFT JOIN ticket_types tt ON tp.ticket_type_id = tt.id
+          WHERE tp.order_id IS NOT NULL
+          ORDER BY tp.id`
+      );
+      const items = result as unknown as OrderItem[];
+      
+      return allOrders.map(order => ({
+        ...order,
+        items: items.filter(item => item.orderId === order.id)
+      }));
+    } catch (error) {
+      console.error("Error getting all orders:", error);
+      return [];
+    }
+  }
+
+  async updateOrder(id: number, data: Partial<InsertOrder>): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  // The status follows from how much of the order has been refunded in total
+  async applyOrderRefund(orderId: number, amount: number): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({
+        refundedAmount: sql`${orders.refundedAmount} + ${amount}`,
+        status: sql`CASE WHEN ${orders.refundedAmount} + ${amount} >= ${orders.totalAmount}
+          THEN ${PaymentStatus.REFUNDED} ELSE ${PaymentStatus.PARTIALLY_REFUNDED} END`,
+        updatedAt: new Date()
+      })
+      .where(eq(orders.id, orderId))
+      .returning();
+    return order;
+  }
+
+  async updateOrderStatusByPaymentReference(reference: string, status: PaymentStatusType): Promise<Order | undefined> {
+    const [order] = await db
+      .update(orders)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(orders.paymentReference, reference))
+      .returning();
+    return order;
+  }
+
+  // Pending orders older than the cutoff are abandoned along with their ticket purchases
+  async abandonPendingOrders(createdBefore: Date): Promise<Order[]> {
+    const abandonedOrders = await db
+      .update(orders)
+      .set({ status: PaymentStatus.ABANDONED, updatedAt: new Date() })
+      .where(and(eq(orders.status, PaymentStatus.PENDING), lt(orders.createdAt, createdBefore)))
+      .returning();
+    
+    if (abandonedOrders.length > 0) {
+      await db.execute(
+        sql`UPDATE ticket_purchases 
+          SET payment_status = ${PaymentStatus.ABANDONED}
+          WHERE order_id IN (${sql.join(abandonedOrders.map(order => sql`${order.id}`), sql`, `)})
+            AND payment_status = ${PaymentStatus.PENDING}`
+      );
+    }
+    
+    return abandonedOrders;
+  }
+
+  // Unpaid checkouts started from the address or with the email, case-insensitively
+  async countPendingOrdersByBuyer(buyerIp: string | null, customerEmail: string): Promise<number> {
+    const sameEmail = sql`lower(${orders.customerEmail}) = ${customerEmail.trim().toLowerCase()}`;
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(
+        eq(orders.status, PaymentStatus.PENDING),
+        buyerIp ? or(eq(orders.buyerIp, buyerIp), sameEmail) : sameEmail
+      ));
+    return row.count;
+  }
+
   // Ticket purchase operations
   async createTicketPurchase(ticketPurchase: InsertTicketPurchase): Promise<TicketPurchase> {
     try {
@@ -448,10 +1254,13 @@ export class DatabaseStorage implements IStorage {
       // Use SQL query directly to avoid schema mismatch issues
       const result = await db.execute(
         sql`INSERT INTO ticket_purchases (
-          fundraiser_id, student_id, customer_name, customer_email, 
-          quantity, amount, payment_intent_id, payment_status, payment_method
+          order_id, fundraiser_id, ticket_type_id, student_id, customer_name, customer_email, 
+          quantity, amount, payment_intent_id, payment_status, payment_method,
+          captured_amount, flagged_for_review, review_reason
         ) VALUES (
+          ${ticketPurchase.orderId ?? null},
           ${ticketPurchase.fundraiserId}, 
+          ${ticketPurchase.ticketTypeId ?? null},
           ${ticketPurchase.studentId}, 
           ${ticketPurchase.customerName}, 
           ${ticketPurchase.customerEmail},
@@ -459,12 +1268,17 @@ export class DatabaseStorage implements IStorage {
           ${ticketPurchase.amount}, 
           ${ticketPurchase.paymentIntentId}, 
           ${ticketPurchase.paymentStatus},
-          'paystack'
+          'paystack',
+          ${ticketPurchase.capturedAmount ?? null},
+          ${ticketPurchase.flaggedForReview ?? false},
+          ${ticketPurchase.reviewReason ?? null}
         ) RETURNING 
-          id, fundraiser_id as "fundraiserId", student_id as "studentId",
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId",
           customer_name as "customerName", customer_email as "customerEmail",
           quantity, amount, payment_intent_id as "paymentIntentId",
           payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
           created_at as "createdAt"
       `);
       
@@ -480,15 +1294,86 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Unpaid lines have no tickets or refunds pointing at them, so they can be replaced outright
+  async deleteUnpaidTicketPurchasesByOrderId(orderId: number): Promise<void> {
+    await db.execute(
+      sql`DELETE FROM ticket_purchases 
+        WHERE order_id = ${orderId}
+          AND payment_status IN (${PaymentStatus.PENDING}, ${PaymentStatus.FAILED}, ${PaymentStatus.ABANDONED})`
+    );
+  }
+
+  async getTicketPurchase(id: number): Promise<TicketPurchase | undefined> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`SELECT 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"
+        FROM ticket_purchases 
+        WHERE id = ${id}`
+    );
+    
+    return result[0] as TicketPurchase | undefined;
+  }
+
+  async updateTicketPurchaseStatus(id: number, status: PaymentStatusType): Promise<TicketPurchase | undefined> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`UPDATE ticket_purchases 
+        SET payment_status = ${status}
+        WHERE id = ${id}
+        RETURNING 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"`
+    );
+    
+    return result[0] as TicketPurchase | undefined;
+  }
+
+  // Refuses to refund more than is left on the purchase, so a repeated request can't apply twice
+  async applyTicketPurchaseRefund(ticketPurchaseId: number, amount: number): Promise<TicketPurchase | undefined> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`UPDATE ticket_purchases 
+        SET refunded_amount = refunded_amount + ${amount},
+          payment_status = CASE WHEN refunded_amount + ${amount} >= amount
+            THEN ${PaymentStatus.REFUNDED} ELSE ${PaymentStatus.PARTIALLY_REFUNDED} END
+        WHERE id = ${ticketPurchaseId}
+          AND amount - refunded_amount >= ${amount}
+        RETURNING 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"`
+    );
+    
+    return result[0] as TicketPurchase | undefined;
+  }
+
   async getTicketPurchasesByFundraiserId(fundraiserId: number): Promise<TicketPurchase[]> {
     try {
       // Use raw SQL query to avoid schema mismatch issues
       const result = await db.execute(
         sql`SELECT 
-            id, fundraiser_id as "fundraiserId", student_id as "studentId", 
+            id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
             customer_name as "customerName", customer_email as "customerEmail",
             quantity, amount, payment_intent_id as "paymentIntentId", 
             payment_status as "paymentStatus", payment_method as "paymentMethod",
+            captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+            flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
             created_at as "createdAt"
           FROM ticket_purchases 
           WHERE fundraiser_id = ${fundraiserId}
@@ -507,13 +1392,16 @@ export class DatabaseStorage implements IStorage {
       // Use raw SQL query to avoid schema mismatch issues
       const result = await db.execute(
         sql`SELECT 
-            id, fundraiser_id as "fundraiserId", student_id as "studentId", 
+            id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
             customer_name as "customerName", customer_email as "customerEmail",
             quantity, amount, payment_intent_id as "paymentIntentId", 
             payment_status as "paymentStatus", payment_method as "paymentMethod",
+            captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+            flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
             created_at as "createdAt"
           FROM ticket_purchases 
           WHERE student_id = ${studentId}
+            AND payment_status NOT IN (${PaymentStatus.PENDING}, ${PaymentStatus.FAILED}, ${PaymentStatus.ABANDONED})
           ORDER BY created_at DESC`
       );
       
@@ -524,43 +1412,567 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTicketSalesSummaryByStudent(studentId: number): Promise<{ totalAmount: number; totalTickets: number }> {
+  async getTicketPurchasesByPaymentReference(reference: string): Promise<TicketPurchase[]> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`SELECT 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"
+        FROM ticket_purchases 
+        WHERE payment_intent_id = ${reference}
+        ORDER BY id`
+    );
+    
+    return result as unknown as TicketPurchase[];
+  }
+
+  async updateTicketPurchaseStatusByPaymentReference(reference: string, status: PaymentStatusType): Promise<TicketPurchase[]> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`UPDATE ticket_purchases 
+        SET payment_status = ${status}
+        WHERE payment_intent_id = ${reference}
+        RETURNING 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"`
+    );
+    
+    return result as unknown as TicketPurchase[];
+  }
+
+  async flagTicketPurchasesForReview(reference: string, reason: string): Promise<TicketPurchase[]> {
+    // Use raw SQL query to avoid schema mismatch issues
+    const result = await db.execute(
+      sql`UPDATE ticket_purchases 
+        SET flagged_for_review = true, review_reason = ${reason}
+        WHERE payment_intent_id = ${reference}
+        RETURNING 
+          id, order_id as "orderId", fundraiser_id as "fundraiserId", ticket_type_id as "ticketTypeId", student_id as "studentId", 
+          customer_name as "customerName", customer_email as "customerEmail",
+          quantity, amount, payment_intent_id as "paymentIntentId", 
+          payment_status as "paymentStatus", payment_method as "paymentMethod",
+          captured_amount as "capturedAmount", refunded_amount as "refundedAmount",
+          flagged_for_review as "flaggedForReview", review_reason as "reviewReason",
+          created_at as "createdAt"`
+    );
+    
+    return result as unknown as TicketPurchase[];
+  }
+
+  // Cash the student hasn't handed in yet is counted separately, it isn't a sale until the school confirms it
+  async getTicketSalesSummaryByStudent(studentId: number): Promise<{ totalAmount: number; totalTickets: number; pendingCashAmount: number; pendingCashTickets: number }> {
     try {
       // Using SQL directly for aggregate functions
       const result = await db.execute(
         sql`SELECT 
-            SUM(amount) as "totalAmount", 
-            SUM(quantity) as "totalTickets" 
+            SUM(amount - refunded_amount) FILTER (
+              WHERE payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
+            ) as "totalAmount", 
+            SUM(quantity) FILTER (
+              WHERE payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
+            ) as "totalTickets",
+            SUM(amount) FILTER (WHERE payment_status = ${PaymentStatus.CASH_PENDING}) as "pendingCashAmount",
+            SUM(quantity) FILTER (WHERE payment_status = ${PaymentStatus.CASH_PENDING}) as "pendingCashTickets"
           FROM ticket_purchases 
-          WHERE student_id = ${studentId} 
-            AND payment_status = 'completed'`
+          WHERE student_id = ${studentId}`
       );
       
-      const summary = result[0] as { totalAmount: string; totalTickets: string };
+      const summary = result[0] as { totalAmount: string; totalTickets: string; pendingCashAmount: string; pendingCashTickets: string };
       
       return {
         totalAmount: parseInt(summary.totalAmount || '0', 10) / 100, // Convert back from cents to dollars
-        totalTickets: parseInt(summary.totalTickets || '0', 10)
+        totalTickets: parseInt(summary.totalTickets || '0', 10),
+        pendingCashAmount: parseInt(summary.pendingCashAmount || '0', 10) / 100,
+        pendingCashTickets: parseInt(summary.pendingCashTickets || '0', 10)
       };
     } catch (error) {
       console.error("Error getting ticket sales summary:", error);
-      return { totalAmount: 0, totalTickets: 0 };
+      return { totalAmount: 0, totalTickets: 0, pendingCashAmount: 0, pendingCashTickets: 0 };
+    }
+  }
+  
+  async getTicketCountsByFundraiserIds(fundraiserIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (fundraiserIds.length === 0 || statuses.length === 0) {
+      return counts;
+    }
+
+    const result = await db.execute(
+      sql`SELECT fundraiser_id as "fundraiserId", SUM(quantity) as "tickets"
+        FROM ticket_purchases
+        WHERE fundraiser_id IN (${sql.join(fundraiserIds.map(id => sql`${id}`), sql`, `)})
+          AND payment_status IN (${sql.join(statuses.map(status => sql`${status}`), sql`, `)})
+        GROUP BY fundraiser_id`
+    );
+
+    for (const row of result as any[]) {
+      counts.set(row.fundraiserId, parseInt(row.tickets || '0', 10));
+    }
+    return counts;
+  }
+  
+  async getTicketCountsByTicketTypeIds(ticketTypeIds: number[], statuses: PaymentStatusType[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (ticketTypeIds.length === 0 || statuses.length === 0) {
+      return counts;
+    }
+
+    const result = await db.execute(
+      sql`SELECT ticket_type_id as "ticketTypeId", SUM(quantity) as "tickets"
+        FROM ticket_purchases
+        WHERE ticket_type_id IN (${sql.join(ticketTypeIds.map(id => sql`${id}`), sql`, `)})
+          AND payment_status IN (${sql.join(statuses.map(status => sql`${status}`), sql`, `)})
+        GROUP BY ticket_type_id`
+    );
+
+    for (const row of result as any[]) {
+      counts.set(row.ticketTypeId, parseInt(row.tickets || '0', 10));
+    }
+    return counts;
+  }
+
+  // Sales net of refunds in cents, optionally only those credited to one student
+  async getSalesTotalsByFundraiserIds(fundraiserIds: number[], studentId?: number): Promise<Map<number, number>> {
+    const totals = new Map<number, number>();
+    if (fundraiserIds.length === 0) {
+      return totals;
+    }
+
+    const result = await db.execute(
+      sql`SELECT fundraiser_id as "fundraiserId", SUM(amount - refunded_amount) as "totalAmount"
+        FROM ticket_purchases
+        WHERE fundraiser_id IN (${sql.join(fundraiserIds.map(id => sql`${id}`), sql`, `)})
+          AND payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
+          ${studentId !== undefined ? sql`AND student_id = ${studentId}` : sql``}
+        GROUP BY fundraiser_id`
+    );
+
+    for (const row of result as any[]) {
+      totals.set(row.fundraiserId, parseInt(row.totalAmount || '0', 10));
+    }
+    return totals;
+  }
+
+  // Every student of the school with their sales, best seller first. For one fundraiser only
+  // the students selling it or signed up to it are included
+  async getStudentSalesTotals(schoolId: number, fundraiserId?: number): Promise<StudentSalesTotal[]> {
+    const result = await db.execute(
+      sql`SELECT s.id as "studentId", u.username, s.show_name_on_leaderboard as "showNameOnLeaderboard",
+            COALESCE(SUM(tp.quantity), 0) as "ticketsSold",
+            COALESCE(SUM(tp.amount - tp.refunded_amount), 0) as "amountRaised"
+          FROM students s
+          JOIN users u ON u.id = s.user_id
+          LEFT JOIN ticket_purchases tp ON tp.student_id = s.id
+            AND tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
+            ${fundraiserId !== undefined ? sql`AND tp.fundraiser_id = ${fundraiserId}` : sql``}
+          WHERE s.school_id = ${schoolId}
+          GROUP BY s.id, u.username, s.show_name_on_leaderboard
+          ${fundraiserId !== undefined
+            ? sql`HAVING COUNT(tp.id) > 0 OR EXISTS (
+                SELECT 1 FROM student_fundraisers sf WHERE sf.student_id = s.id AND sf.fundraiser_id = ${fundraiserId}
+              )`
+            : sql``}
+          ORDER BY "amountRaised" DESC, "ticketsSold" DESC, s.id`
+    );
+
+    return (result as any[]).map(row => ({
+      studentId: row.studentId,
+      username: row.username,
+      showNameOnLeaderboard: row.showNameOnLeaderboard,
+      ticketsSold: parseInt(row.ticketsSold || '0', 10),
+      amountRaised: parseInt(row.amountRaised || '0', 10)
+    }));
+  }
+
+  // Every sale of the school's fundraisers, not only those credited to a student.
+  // Purchases of fundraisers without ticket types are grouped with a null ticket type
+  async getTicketTypeSalesBySchoolId(schoolId: number): Promise<TicketTypeSales[]> {
+    try {
+      const result = await db.execute(
+        sql`SELECT 
+            f.id as "fundraiserId",
+            f.name as "fundraiserName",
+            tt.id as "ticketTypeId",
+            tt.name as "ticketTypeName",
+            SUM(tp.amount - tp.refunded_amount) as "totalAmount",
+            SUM(tp.quantity) as "totalTickets"
+          FROM ticket_purchases tp
+          JOIN fundraisers f ON tp.fundraiser_id = f.id
+          LEFT JOIN ticket_types tt ON tp.ticket_type_id = tt.id
+          WHERE f.school_id = ${schoolId}
+            AND tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
+          GROUP BY f.id, f.name, tt.id, tt.name, tt.sort_order
+          ORDER BY f.name, tt.sort_order, tt.id`
+      );
+
+      return (result as any[]).map(row => ({
+        fundraiserId: row.fundraiserId,
+        fundraiserName: row.fundraiserName,
+        ticketTypeId: row.ticketTypeId ?? null,
+        ticketTypeName: row.ticketTypeName ?? null,
+        totalAmount: parseInt(row.totalAmount || '0', 10) / 100, // Convert back from cents to dollars
+        totalTickets: parseInt(row.totalTickets || '0', 10)
+      }));
+    } catch (error) {
+      console.error("Error getting ticket type sales:", error);
+      return [];
+    }
+  }
+  
+  // Ticket operations
+  async createTickets(ticketData: InsertTicket[]): Promise<Ticket[]> {
+    if (ticketData.length === 0) {
+      return [];
+    }
+
+    try {
+      return await db.insert(tickets).values(ticketData).returning();
+    } catch (error) {
+      console.error("Error creating tickets:", error);
+      throw error;
+    }
+  }
+
+  async getTicketsByPurchaseId(ticketPurchaseId: number): Promise<Ticket[]> {
+    return db.select()
+      .from(tickets)
+      .where(eq(tickets.ticketPurchaseId, ticketPurchaseId))
+      .orderBy(tickets.id);
+  }
+
+  async getTicketsByPaymentReference(reference: string, customerEmail: string): Promise<TicketWithFundraiser[]> {
+    try {
+      const rows = await db.select({
+          ticket: tickets,
+          fundraiserName: fundraisers.name,
+          eventDate: fundraisers.eventDate,
+          location: fundraisers.location,
+        })
+        .from(tickets)
+        .innerJoin(ticketPurchases, eq(tickets.ticketPurchaseId, ticketPurchases.id))
+        .innerJoin(fundraisers, eq(tickets.fundraiserId, fundraisers.id))
+        .where(and(
+          eq(ticketPurchases.paymentIntentId, reference),
+          sql`lower(${tickets.customerEmail}) = lower(${customerEmail})`
+        ))
+        .orderBy(tickets.id);
+
+      return rows.map(({ ticket, ...event }) => ({ ...ticket, ...event }));
+    } catch (error) {
+      console.error("Error getting tickets by payment reference:", error);
+      return [];
     }
   }
   
+  async getTicketByCode(code: string): Promise<Ticket | undefined> {
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.code, code));
+    return ticket;
+  }
+
+  // Only a valid ticket can be redeemed, so two simultaneous scans can't both succeed
+  async redeemTicket(ticketId: number, userId: number): Promise<Ticket | undefined> {
+    const [redeemedTicket] = await db
+      .update(tickets)
+      .set({ status: TicketStatus.REDEEMED, redeemedAt: new Date(), redeemedBy: userId })
+      .where(and(
+        eq(tickets.id, ticketId),
+        eq(tickets.status, TicketStatus.VALID)
+      ))
+      .returning();
+    return redeemedTicket;
+  }
+
+  async getCheckInSummaryByFundraiserId(fundraiserId: number): Promise<CheckInSummary> {
+    const result = await db.execute(
+      sql`SELECT 
+          COUNT(*) FILTER (WHERE status <> ${TicketStatus.VOID}) as "sold",
+          COUNT(*) FILTER (WHERE status = ${TicketStatus.REDEEMED}) as "admitted"
+        FROM tickets
+        WHERE fundraiser_id = ${fundraiserId}`
+    );
+
+    const summary = result[0] as { sold: string; admitted: string };
+
+    return {
+      fundraiserId,
+      sold: parseInt(summary.sold || '0', 10),
+      admitted: parseInt(summary.admitted || '0', 10)
+    };
+  }
+
+  async getCheckInSummariesBySchoolId(schoolId: number): Promise<CheckInSummary[]> {
+    try {
+      const result = await db.execute(
+        sql`SELECT 
+            f.id as "fundraiserId",
+            COUNT(t.id) FILTER (WHERE t.status <> ${TicketStatus.VOID}) as "sold",
+            COUNT(t.id) FILTER (WHERE t.status = ${TicketStatus.REDEEMED}) as "admitted"
+          FROM fundraisers f
+          LEFT JOIN tickets t ON t.fundraiser_id = f.id
+          WHERE f.school_id = ${schoolId}
+          GROUP BY f.id`
+      );
+
+      return (result as any[]).map(row => ({
+        fundraiserId: row.fundraiserId,
+        sold: parseInt(row.sold || '0', 10),
+        admitted: parseInt(row.admitted || '0', 10)
+      }));
+    } catch (error) {
+      console.error("Error getting check-in summaries:", error);
+      return [];
+    }
+  }
+
+  // Tickets already used at the door stay redeemed, only unused ones are voided
+  async voidTicketsByPaymentReference(reference: string): Promise<Ticket[]> {
+    return db
+      .update(tickets)
+      .set({ status: TicketStatus.VOID })
+      .where(and(
+        eq(tickets.status, TicketStatus.VALID),
+        sql`${tickets.ticketPurchaseId} IN (
+          SELECT id FROM ticket_purchases WHERE payment_intent_id = ${reference}
+        )`
+      ))
+      .returning();
+  }
+
+  async voidTicketsByPurchaseId(ticketPurchaseId: number): Promise<Ticket[]> {
+    return db
+      .update(tickets)
+      .set({ status: TicketStatus.VOID })
+      .where(and(
+        eq(tickets.ticketPurchaseId, ticketPurchaseId),
+        eq(tickets.status, TicketStatus.VALID)
+      ))
+      .returning();
+  }
+
+  // Refund operations
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    const [createdRefund] = await db.insert(refunds).values(refund).returning();
+    return createdRefund;
+  }
+
+  async getRefundsByOrderId(orderId: number): Promise<Refund[]> {
+    return db.select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  // Payment operations
+  // Returns undefined when the payment has already been claimed by an earlier call
+  async claimPayment(provider: PaymentProviderType, reference: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .insert(payments)
+      .values({ provider, reference })
+      .onConflictDoNothing({ target: [payments.provider, payments.reference] })
+      .returning();
+    return payment;
+  }
+
+  async getPayment(provider: PaymentProviderType, reference: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.provider, provider),
+        eq(payments.reference, reference)
+      ));
+    return payment;
+  }
+
+  async markPaymentRecorded(paymentId: number): Promise<Payment> {
+    const [payment] = await db
+      .update(payments)
+      .set({ status: PaymentRecordStatus.RECORDED, recordedAt: new Date() })
+      .where(eq(payments.id, paymentId))
+      .returning();
+    return payment;
+  }
+
+  // Goal milestone operations
+  // Returns undefined when the milestone has already been claimed by an earlier call
+  async claimGoalMilestone(fundraiserId: number, studentId: number | null, percentage: number): Promise<GoalMilestone | undefined> {
+    const [milestone] = await db
+      .insert(goalMilestones)
+      .values({ fundraiserId, studentId, percentage })
+      .onConflictDoNothing({ target: [goalMilestones.fundraiserId, goalMilestones.studentId, goalMilestones.percentage] })
+      .returning();
+    return milestone;
+  }
+
+  // Referral operations
+  async getReferralCode(code: string): Promise<ReferralCode | undefined> {
+    const [referralCode] = await db.select().from(referralCodes).where(eq(referralCodes.code, code));
+    return referralCode;
+  }
+
+  async getReferralCodeByStudentAndFundraiser(studentId: number, fundraiserId: number): Promise<ReferralCode | undefined> {
+    const [referralCode] = await db
+      .select()
+      .from(referralCodes)
+      .where(and(eq(referralCodes.studentId, studentId), eq(referralCodes.fundraiserId, fundraiserId)));
+    return referralCode;
+  }
+
+  // Returns undefined when the student already has a code for the fundraiser
+  async createReferralCode(code: string, studentId: number, fundraiserId: number): Promise<ReferralCode | undefined> {
+    const [referralCode] = await db
+      .insert(referralCodes)
+      .values({ code, studentId, fundraiserId })
+      .onConflictDoNothing({ target: [referralCodes.studentId, referralCodes.fundraiserId] })
+      .returning();
+    return referralCode;
+  }
+
+  async createReferralEvent(referralCodeId: number, type: ReferralEventTypeType): Promise<void> {
+    await db.insert(referralEvents).values({ referralCodeId, type });
+  }
+
+  // Visits, carts and credited orders of every referral link of the school, optionally of one
+  // student or fundraiser. Orders from before a student had a link aren't counted
+  async getReferralFunnels(schoolId: number, filter: { studentId?: number; fundraiserId?: number } = {}): Promise<ReferralFunnel[]> {
+    const result = await db.execute(
+      sql`SELECT rc.fundraiser_id as "fundraiserId", f.name as "fundraiserName",
+            rc.student_id as "studentId", u.username,
+            (SELECT COUNT(*) FROM referral_events re
+              WHERE re.referral_code_id = rc.id AND re.type = ${ReferralEventType.VISIT}) as "visits",
+            (SELECT COUNT(*) FROM referral_events re
+              WHERE re.referral_code_id = rc.id AND re.type = ${ReferralEventType.CART}) as "carts",
+            (SELECT COUNT(DISTINCT COALESCE(tp.order_id::text, tp.payment_intent_id)) FROM ticket_purchases tp
+              WHERE tp.student_id = rc.student_id AND tp.fundraiser_id = rc.fundraiser_id
+                AND tp.created_at >= rc.created_at
+                AND tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})) as "purchases"
+          FROM referral_codes rc
+          JOIN fundraisers f ON f.id = rc.fundraiser_id
+          JOIN students s ON s.id = rc.student_id
+          JOIN users u ON u.id = s.user_id
+          WHERE f.school_id = ${schoolId}
+            ${filter.studentId !== undefined ? sql`AND rc.student_id = ${filter.studentId}` : sql``}
+            ${filter.fundraiserId !== undefined ? sql`AND rc.fundraiser_id = ${filter.fundraiserId}` : sql``}
+          ORDER BY f.name, "visits" DESC, u.username`
+    );
+
+    return (result as any[]).map(row => ({
+      fundraiserId: row.fundraiserId,
+      fundraiserName: row.fundraiserName,
+      studentId: row.studentId,
+      username: row.username,
+      visits: parseInt(row.visits || '0', 10),
+      carts: parseInt(row.carts || '0', 10),
+      purchases: parseInt(row.purchases || '0', 10)
+    }));
+  }
+
+  // Cart operations
+  async getCartByToken(token: string): Promise<Cart | undefined> {
+    const [cart] = await db.select().from(carts).where(eq(carts.token, token));
+    return cart;
+  }
+
+  async getCartByUserId(userId: number): Promise<Cart | undefined> {
+    const [cart] = await db.select().from(carts).where(eq(carts.userId, userId));
+    return cart;
+  }
+
+  // Returns undefined when the account already has a cart
+  async createCart(cart: { token?: string | null; userId?: number | null }): Promise<Cart | undefined> {
+    const [createdCart] = await db
+      .insert(carts)
+      .values(cart)
+      .onConflictDoNothing()
+      .returning();
+    return createdCart;
+  }
+
+  async deleteCart(id: number): Promise<void> {
+    await db.delete(cartItems).where(eq(cartItems.cartId, id));
+    await db.delete(carts).where(eq(carts.id, id));
+  }
+
+  async getCartItems(cartId: number): Promise<CartItem[]> {
+    return db.select().from(cartItems).where(eq(cartItems.cartId, cartId)).orderBy(cartItems.id);
+  }
+
+  async createCartItem(item: Omit<CartItem, "id" | "createdAt">): Promise<CartItem> {
+    const [createdItem] = await db.insert(cartItems).values(item).returning();
+    return createdItem;
+  }
+
+  async updateCartItem(id: number, values: Partial<Pick<CartItem, "quantity" | "referralCode">>): Promise<CartItem | undefined> {
+    const [updatedItem] = await db
+      .update(cartItems)
+      .set(values)
+      .where(eq(cartItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteCartItem(id: number): Promise<void> {
+    await db.delete(cartItems).where(eq(cartItems.id, id));
+  }
+
+  async deleteCartItems(cartId: number): Promise<void> {
+    await db.delete(cartItems).where(eq(cartItems.cartId, cartId));
+  }
+
+  // Payment event operations
+  // Returns undefined when the provider has delivered this event before
+  async createPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined> {
+    const [createdEvent] = await db
+      .insert(paymentEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [paymentEvents.provider, paymentEvents.eventId] })
+      .returning();
+    return createdEvent;
+  }
+
+  async getPaymentEvent(provider: PaymentProviderType, eventId: string): Promise<PaymentEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(paymentEvents)
+      .where(and(
+        eq(paymentEvents.provider, provider),
+        eq(paymentEvents.eventId, eventId)
+      ));
+    return event;
+  }
+
+  async updatePaymentEventStatus(id: number, status: PaymentEventStatusType, error: string | null = null): Promise<PaymentEvent> {
+    const [event] = await db
+      .update(paymentEvents)
+      .set({ status, error, processedAt: new Date() })
+      .where(eq(paymentEvents.id, id))
+      .returning();
+    return event;
+  }
+
   // Get ticket sales summary for all students in a school
   async getTicketSalesSummaryBySchool(schoolId: number): Promise<{ totalAmount: number; totalTickets: number; studentCount: number }> {
     try {
       // Using SQL to get ticket sales for all students in a school
       const result = await db.execute(
         sql`SELECT 
-            SUM(tp.amount) as "totalAmount", 
+            SUM(tp.amount - tp.refunded_amount) as "totalAmount", 
             SUM(tp.quantity) as "totalTickets",
             COUNT(DISTINCT tp.student_id) as "studentCount"
           FROM ticket_purchases tp
           JOIN students s ON tp.student_id = s.id
           WHERE s.school_id = ${schoolId}
-            AND tp.payment_status = 'completed'`
+            AND tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})`
       );
       
       const summary = result[0] as { totalAmount: string; totalTickets: string; studentCount: string };
@@ -584,12 +1996,13 @@ export class DatabaseStorage implements IStorage {
         sql`SELECT 
             sc.id as "schoolId",
             sc.name as "schoolName",
-            SUM(tp.amount) as "totalAmount", 
+            SUM(tp.amount - tp.refunded_amount) as "totalAmount", 
             SUM(tp.quantity) as "totalTickets",
             COUNT(DISTINCT tp.student_id) as "studentCount"
           FROM schools sc
           LEFT JOIN students s ON s.school_id = sc.id
-          LEFT JOIN ticket_purchases tp ON tp.student_id = s.id AND tp.payment_status = 'completed'
+          LEFT JOIN ticket_purchases tp ON tp.student_id = s.id
+            AND tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})
           GROUP BY sc.id, sc.name
           ORDER BY SUM(tp.quantity) DESC NULLS LAST`
       );
@@ -613,13 +2026,13 @@ export class DatabaseStorage implements IStorage {
       // Using SQL to get overall total ticket sales
       const result = await db.execute(
         sql`SELECT 
-            SUM(tp.amount) as "totalAmount", 
+            SUM(tp.amount - tp.refunded_amount) as "totalAmount", 
             SUM(tp.quantity) as "totalTickets",
             COUNT(DISTINCT s.school_id) as "schoolCount",
             COUNT(DISTINCT tp.student_id) as "studentCount"
           FROM ticket_purchases tp
           JOIN students s ON tp.student_id = s.id
-          WHERE tp.payment_status = 'completed'`
+          WHERE tp.payment_status IN (${PaymentStatus.COMPLETED}, ${PaymentStatus.PARTIALLY_REFUNDED})`
       );
       
       const summary = result[0] as { 
@@ -0,0 +1,178 @@
+import Stripe from "stripe";
+import type { IncomingHttpHeaders } from "http";
+import { PaymentProvider } from "@shared/schema";
+import {
+  PaymentGatewayError,
+  type PaymentGateway,
+  type PaymentWebhookEvent,
+  type ProviderPayment
+} from "./payment-gateway";
+
+// Initialize Stripe
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error("Missing required environment variable: STRIPE_SECRET_KEY");
+}
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2023-10-16",
+});
+
+const STRIPE_CURRENCY = "usd";
+
+// Stripe objects reference their payment intent either by ID or expanded
+function paymentIntentIdOf(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) {
+    return null;
+  }
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+}
+
+function toProviderPayment(paymentIntent: Stripe.PaymentIntent): ProviderPayment {
+  let status: ProviderPayment["status"] = "pending";
+  if (paymentIntent.status === "succeeded") {
+    status = "succeeded";
+  } else if (paymentIntent.status === "canceled") {
+    status = "failed";
+  }
+
+  return {
+    reference: paymentIntent.id,
+    status,
+    amount: paymentIntent.amount,
+    capturedAmount: paymentIntent.amount_received ?? paymentIntent.amount,
+    currency: paymentIntent.currency,
+    metadata: paymentIntent.metadata || {}
+  };
+}
+
+/**
+ * Check a webhook request was signed by Stripe and read its event
+ *
+ * @param rawBody - The request body exactly as received
+ * @param headers - The request headers, carrying the stripe-signature
+ * @returns The event in the form the app handles
+ * @throws PaymentGatewayError if the signature doesn't match, or the webhook secret isn't configured
+ */
+function parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    throw new PaymentGatewayError("STRIPE_WEBHOOK_SECRET is not set, refusing Stripe webhook", 500);
+  }
+
+  const signature = headers["stripe-signature"];
+  if (typeof signature !== "string" || !rawBody) {
+    throw new PaymentGatewayError("Missing Stripe signature or request body", 400);
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(rawBody, signature, webhookSecret);
+  } catch (error: any) {
+    throw new PaymentGatewayError(error.message, 400);
+  }
+
+  const logged = { id: event.id, type: event.type };
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      return { ...logged, kind: "payment.succeeded", payment: toProviderPayment(event.data.object) };
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object;
+      return {
+        ...logged,
+        kind: "payment.failed",
+        reference: paymentIntent.id,
+        reason: paymentIntent.last_payment_error?.message || "unknown reason"
+      };
+    }
+    case "charge.refunded": {
+      const charge = event.data.object;
+      const reference = paymentIntentIdOf(charge.payment_intent);
+      if (!reference) {
+        console.warn(`Refunded charge ${charge.id} has no payment intent, nothing to update`);
+        return { ...logged, kind: "ignored" };
+      }
+      const latestRefund = charge.refunds?.data[0];
+      return {
+        ...logged,
+        kind: "refund.processed",
+        reference,
+        refundId: latestRefund?.id ?? null,
+        amount: latestRefund?.amount ?? charge.amount_refunded,
+        totalRefunded: charge.amount_refunded,
+        paymentAmount: charge.amount,
+        fullyRefunded: charge.refunded
+      };
+    }
+    case "charge.dispute.created": {
+      const dispute = event.data.object;
+      const reference = paymentIntentIdOf(dispute.payment_intent);
+      if (!reference) {
+        console.warn(`Dispute ${dispute.id} has no payment intent, nothing to update`);
+        return { ...logged, kind: "ignored" };
+      }
+      return {
+        ...logged,
+        kind: "payment.disputed",
+        reference,
+        disputeId: dispute.id,
+        reason: dispute.reason,
+        amount: dispute.amount
+      };
+    }
+    default:
+      return { ...logged, kind: "ignored" };
+  }
+}
+
+// Card payments through Stripe. The browser confirms the payment intent with its client secret
+export const stripeGateway: PaymentGateway = {
+  provider: PaymentProvider.STRIPE,
+
+  async createCheckout({ amount, metadata }) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount,
+        currency: STRIPE_CURRENCY,
+        metadata,
+      });
+      return { reference: paymentIntent.id, clientSecret: paymentIntent.client_secret };
+    } catch (error: any) {
+      console.error("Stripe API error:", error);
+      throw new PaymentGatewayError(error.message || "Payment processing error", 400);
+    }
+  },
+
+  async cancelCheckout(reference) {
+    await stripe.paymentIntents.cancel(reference).catch((error) => {
+      console.error(`Error cancelling payment intent ${reference}:`, error);
+    });
+  },
+
+  async verifyPayment(reference) {
+    try {
+      return toProviderPayment(await stripe.paymentIntents.retrieve(reference));
+    } catch (error) {
+      console.error(`Error retrieving payment intent ${reference}:`, error);
+      return null;
+    }
+  },
+
+  async refund(reference, amount) {
+    try {
+      const refund = await stripe.refunds.create({
+        payment_intent: reference,
+        amount
+      });
+      return refund.id;
+    } catch (error) {
+      console.error("Error creating Stripe refund:", error);
+      throw new PaymentGatewayError("Stripe refund failed");
+    }
+  },
+
+  parseWebhook
+};
+
+export default {
+  stripe,
+  stripeGateway
+};
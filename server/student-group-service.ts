@@ -0,0 +1,180 @@
+import { storage } from "./storage";
+import {
+  StudentGroupField,
+  StudentGroupKind,
+  type Student,
+  type StudentGroup,
+  type StudentGroupKindType,
+  type StudentGroupSales
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+const MAX_GROUP_NAME_LENGTH = 50;
+
+const GROUP_KINDS = Object.values(StudentGroupKind);
+
+/**
+ * Raised when a student group can't be made, removed or assigned
+ */
+export class StudentGroupError extends HttpError {}
+
+function isGroupKind(kind: unknown): kind is StudentGroupKindType {
+  return GROUP_KINDS.includes(kind as StudentGroupKindType);
+}
+
+// Read names given by student field, e.g. className, into names by kind. A field that isn't
+// there stays undefined, an empty one is null
+function readGroupNames(values: Record<string, unknown>): Partial<Record<StudentGroupKindType, string | null>> {
+  const names: Partial<Record<StudentGroupKindType, string | null>> = {};
+  for (const kind of GROUP_KINDS) {
+    const field = StudentGroupField[kind];
+    if (!(field in values)) {
+      continue;
+    }
+    const value = values[field];
+    if (value !== null && value !== undefined && typeof value !== "string") {
+      throw new StudentGroupError(`Invalid ${kind}`);
+    }
+    names[kind] = value?.trim() || null;
+  }
+  return names;
+}
+
+/**
+ * List a school's grades, classes and houses
+ *
+ * @param schoolId - The school
+ * @returns The groups, by kind then name
+ */
+export async function listGroups(schoolId: number): Promise<StudentGroup[]> {
+  return storage.getStudentGroupsBySchoolId(schoolId);
+}
+
+/**
+ * Add a grade, class or house to a school's lists
+ *
+ * @param schoolId - The school
+ * @param kind - Which list it goes in
+ * @param name - What it's called, e.g. "Grade 7"
+ * @returns The new group
+ * @throws StudentGroupError if the kind or name is invalid, or the school already has it
+ */
+export async function addGroup(schoolId: number, kind: unknown, name: unknown): Promise<StudentGroup> {
+  if (!isGroupKind(kind)) {
+    throw new StudentGroupError("Group must be a grade, class or house");
+  }
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed || trimmed.length > MAX_GROUP_NAME_LENGTH) {
+    throw new StudentGroupError(`Name must be between 1 and ${MAX_GROUP_NAME_LENGTH} characters`);
+  }
+
+  const [group] = await storage.createStudentGroups([{ schoolId, kind, name: trimmed }]);
+  if (!group) {
+    throw new StudentGroupError(`There's already a ${kind} called ${trimmed}`, 409);
+  }
+  return group;
+}
+
+/**
+ * Add the grades, classes and houses of newly imported students that the school doesn't list yet
+ *
+ * @param schoolId - The school
+ * @param students - The imported students
+ */
+export async function addMissingGroups(
+  schoolId: number,
+  students: Pick<Student, "grade" | "className" | "house">[]
+): Promise<void> {
+  const groups = GROUP_KINDS.flatMap(kind => {
+    const names = new Set(students.map(student => student[StudentGroupField[kind]]).filter(Boolean) as string[]);
+    return Array.from(names, name => ({ schoolId, kind, name }));
+  });
+  await storage.createStudentGroups(groups);
+}
+
+/**
+ * Take a grade, class or house off a school's lists. Its students are left without one of that kind
+ *
+ * @param schoolId - The school
+ * @param groupId - The group
+ * @throws StudentGroupError if the school has no such group
+ */
+export async function removeGroup(schoolId: number, groupId: number): Promise<void> {
+  const group = await storage.getStudentGroup(groupId);
+  if (!group || group.schoolId !== schoolId) {
+    throw new StudentGroupError("Group not found", 404);
+  }
+  await storage.deleteStudentGroup(group);
+}
+
+/**
+ * Put one of a school's students in a grade, class and house. Fields left out aren't changed,
+ * null or an empty name takes the student out of that kind of group
+ *
+ * @param schoolId - The school
+ * @param studentId - The student
+ * @param assignment - Names from the school's lists by student field, i.e. grade, className and house
+ * @returns The updated student
+ * @throws StudentGroupError if the student isn't at the school or a name isn't on the school's lists
+ */
+export async function assignGroups(schoolId: number, studentId: number, assignment: Record<string, unknown>): Promise<Student> {
+  const student = await storage.getStudent(studentId);
+  if (!student || student.schoolId !== schoolId) {
+    throw new StudentGroupError("Student not found", 404);
+  }
+
+  const names = readGroupNames(assignment);
+  const groups = await storage.getStudentGroupsBySchoolId(schoolId);
+  const updates: Partial<Pick<Student, "grade" | "className" | "house">> = {};
+  for (const kind of GROUP_KINDS) {
+    const name = names[kind];
+    if (name === undefined) {
+      continue;
+    }
+    if (name !== null && !groups.some(group => group.kind === kind && group.name === name)) {
+      throw new StudentGroupError(`${name} isn't one of the school's ${kind} options`);
+    }
+    updates[StudentGroupField[kind]] = name;
+  }
+
+  return storage.updateStudent(student.id, updates);
+}
+
+/**
+ * Narrow students down to a grade, class and house, e.g. to notify only them
+ *
+ * @param students - The students to choose from
+ * @param filter - Names by student field, i.e. grade, className and house. Missing or empty matches any
+ * @returns The students in every group given
+ * @throws StudentGroupError if the filter isn't made of names
+ */
+export function filterStudents<T extends Pick<Student, "grade" | "className" | "house">>(
+  students: T[],
+  filter: Record<string, unknown>
+): T[] {
+  const names = readGroupNames(filter);
+  return students.filter(student =>
+    GROUP_KINDS.every(kind => !names[kind] || student[StudentGroupField[kind]] === names[kind])
+  );
+}
+
+/**
+ * Break a school's ticket sales down by its students' grades, classes and houses
+ *
+ * @param schoolId - The school
+ * @returns Sales for every group of each kind that has sold, biggest first within a kind
+ */
+export async function getSalesByGroup(schoolId: number): Promise<StudentGroupSales[]> {
+  const sales = await Promise.all(GROUP_KINDS.map(kind => storage.getTicketSalesByStudentGroup(schoolId, kind)));
+  return sales.flat();
+}
+
+export default {
+  listGroups,
+  addGroup,
+  addMissingGroups,
+  removeGroup,
+  assignGroups,
+  filterStudents,
+  getSalesByGroup
+};
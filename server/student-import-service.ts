@@ -0,0 +1,260 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import * as accountService from "./account-service";
+import * as studentGroupService from "./student-group-service";
+import {
+  UserRole,
+  type School,
+  type StudentImportPreview,
+  type StudentImportRow
+} from "@shared/schema";
+import { HttpError } from "./http-error";
+
+const MAX_IMPORT_ROWS = 2000;
+
+// Columns as they're matched, ignoring case, spaces and punctuation in the header
+const REQUIRED_COLUMNS = ["name", "email", "grade", "class"] as const;
+const GUARDIAN_EMAIL_COLUMN = "guardianemail";
+
+const emailSchema = z.string().email();
+
+/**
+ * Raised when an import file can't be read or still has errors
+ */
+export class StudentImportError extends HttpError {}
+
+// Split CSV text into rows of fields. Quoted fields may hold commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+// The rows of the file with each one's own problems, before checking them against each other
+function readRows(csv: string): StudentImportRow[] {
+  const [header, ...lines] = parseCsv(csv.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new StudentImportError("The file is empty");
+  }
+
+  const columns = header.map(normalizeHeader);
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new StudentImportError(`The file is missing the ${missing.join(", ")} column${missing.length > 1 ? "s" : ""}`);
+  }
+
+  const rows: StudentImportRow[] = [];
+  lines.forEach((fields, index) => {
+    // Spreadsheets often leave blank lines at the end
+    if (fields.every(field => !field.trim())) {
+      return;
+    }
+    const value = (column: string) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? "" : (fields[position] ?? "").trim();
+    };
+
+    const row: StudentImportRow = {
+      line: index + 2,
+      name: value("name"),
+      email: value("email").toLowerCase(),
+      grade: value("grade"),
+      className: value("class"),
+      guardianEmail: value(GUARDIAN_EMAIL_COLUMN).toLowerCase() || null,
+      errors: []
+    };
+    if (row.name.length < 2) {
+      row.errors.push("Name is required");
+    }
+    if (!emailSchema.safeParse(row.email).success) {
+      row.errors.push(row.email ? "Email is invalid" : "Email is required");
+    }
+    if (!row.grade) {
+      row.errors.push("Grade is required");
+    }
+    if (!row.className) {
+      row.errors.push("Class is required");
+    }
+    if (row.guardianEmail && !emailSchema.safeParse(row.guardianEmail).success) {
+      row.errors.push("Guardian email is invalid");
+    }
+    rows.push(row);
+  });
+
+  if (rows.length === 0) {
+    throw new StudentImportError("The file has no students in it");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new StudentImportError(`Import at most ${MAX_IMPORT_ROWS} students at a time`);
+  }
+  return rows;
+}
+
+/**
+ * Check an import file without creating anything, flagging invalid rows and emails that appear
+ * twice in the file or belong to one of the school's students already
+ *
+ * Accounts at other schools aren't looked up here, or a file of guessed emails would show who
+ * has an account. Importing stops at them instead.
+ *
+ * @param schoolId - The school the students would join
+ * @param csv - The file's contents, with name, email, grade, class and optionally guardian email columns
+ * @returns Every row with its errors
+ * @throws StudentImportError if the file can't be read at all
+ */
+export async function previewImport(schoolId: number, csv: string): Promise<StudentImportPreview> {
+  const rows = readRows(csv);
+
+  const firstLineByEmail = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.email) {
+      continue;
+    }
+    const firstLine = firstLineByEmail.get(row.email);
+    if (firstLine !== undefined) {
+      row.errors.push(`Same email as line ${firstLine}`);
+    } else {
+      firstLineByEmail.set(row.email, row.line);
+    }
+  }
+
+  const schoolStudents = await storage.getStudentsWithUserInfoBySchoolId(schoolId);
+  const enrolled = new Set(schoolStudents.map(student => String(student.user.email).toLowerCase()));
+  for (const row of rows) {
+    if (enrolled.has(row.email)) {
+      row.errors.push("Already one of your students");
+    }
+  }
+
+  return {
+    rows,
+    errorCount: rows.filter(row => row.errors.length > 0).length
+  };
+}
+
+// Usernames are unique, so learners who share a name are told apart by a number
+async function assignUsernames(names: string[]): Promise<string[]> {
+  const taken = new Set(
+    (await storage.getUsersByUsernames(Array.from(new Set(names)))).map(user => user.username)
+  );
+
+  const usernames: string[] = [];
+  for (const name of names) {
+    let username = name;
+    for (let suffix = 2; taken.has(username); suffix++) {
+      username = `${name} ${suffix}`;
+      if (await storage.getUserByUsername(username)) {
+        taken.add(username);
+      }
+    }
+    taken.add(username);
+    usernames.push(username);
+  }
+  return usernames;
+}
+
+/**
+ * Create the students in an import file, all of them or none, and email each an activation link
+ * to choose their password. The file is checked again, it may have changed since the preview,
+ * and emails with an account at another school are only reported now
+ *
+ * @param school - The school the students join
+ * @param csv - The file's contents
+ * @param appUrl - Where the app is served from, the activation links point there
+ * @returns How many students were created
+ * @throws StudentImportError if the file can't be read, any row has an error or an email already has an account
+ */
+export async function importStudents(school: School, csv: string, appUrl: string): Promise<{ imported: number }> {
+  const { rows, errorCount } = await previewImport(school.id, csv);
+  if (errorCount > 0) {
+    throw new StudentImportError(`Fix the ${errorCount} row${errorCount > 1 ? "s" : ""} with errors before importing`);
+  }
+
+  const existing = await storage.getUsersByEmails(rows.map(row => row.email));
+  const registered = new Set(existing.map(user => user.email.toLowerCase()));
+  const takenLines = rows.filter(row => registered.has(row.email)).map(row => row.line);
+  if (takenLines.length > 0) {
+    throw new StudentImportError(
+      `The email on line${takenLines.length > 1 ? "s" : ""} ${takenLines.join(", ")} already has an account, ` +
+      "remove those students from the file or ask them to join with your school's code",
+      409
+    );
+  }
+
+  const usernames = await assignUsernames(rows.map(row => row.name));
+  // Nobody knows it, each student chooses their own through the activation link
+  const unusablePassword = await hashPassword(randomBytes(32).toString("hex"));
+  const entries = rows.map((row, index) => ({
+    user: {
+      email: row.email,
+      username: usernames[index],
+      password: unusablePassword,
+      role: UserRole.STUDENT
+    },
+    student: {
+      schoolId: school.id,
+      grade: row.grade,
+      className: row.className,
+      guardianEmail: row.guardianEmail
+    }
+  }));
+
+  const users = await storage.createStudentsWithUsers(entries);
+  // The file's grades and classes become options for the school's other students
+  await studentGroupService.addMissingGroups(school.id, entries.map(entry => ({ ...entry.student, house: null })));
+  console.log(`Imported ${users.length} students into school ${school.id}`);
+
+  for (const user of users) {
+    accountService.sendActivationEmail(user, school.name, appUrl).catch(error => {
+      console.error(`Error sending activation email to user ${user.id}:`, error);
+    });
+  }
+
+  return { imported: users.length };
+}
+
+export default {
+  previewImport,
+  importStudents
+};
@@ -0,0 +1,99 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { afterCommit } from "./db";
+import { sendEmailInBackground } from "./email-service";
+import { TicketStatus, type Ticket, type TicketPurchase } from "@shared/schema";
+
+// Secret used to sign ticket codes so they can't be forged at the door. Anyone who knows it
+// can make valid tickets, so production won't start on the development fallback
+if (!process.env.TICKET_SIGNING_SECRET && !process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("Missing required environment variable: TICKET_SIGNING_SECRET or SESSION_SECRET");
+}
+const signingSecret =
+  process.env.TICKET_SIGNING_SECRET ||
+  process.env.SESSION_SECRET ||
+  "schoolraise-ticket-secret";
+
+function sign(serial: string): string {
+  return createHmac("sha256", signingSecret)
+    .update(serial)
+    .digest("hex")
+    .slice(0, 12)
+    .toUpperCase();
+}
+
+/**
+ * Generate a new signed ticket code
+ *
+ * @returns A code of the form SERIAL-SIGNATURE, e.g. 9F2C4A7B1E3D5C60-1A2B3C4D5E6F
+ */
+export function generateTicketCode(): string {
+  const serial = randomBytes(8).toString("hex").toUpperCase();
+  return `${serial}-${sign(serial)}`;
+}
+
+/**
+ * Normalise a scanned or typed ticket code
+ *
+ * @param code - Raw code as entered by the user or read from the QR image
+ * @returns The code trimmed and upper-cased
+ */
+export function normalizeTicketCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check that a ticket code carries a valid signature
+ *
+ * @param code - The ticket code to check
+ * @returns true if the code was signed by this server
+ */
+export function verifyTicketCode(code: string): boolean {
+  const [serial, signature, ...rest] = normalizeTicketCode(code).split("-");
+  if (!serial || !signature || rest.length > 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(serial));
+  const supplied = Buffer.from(signature);
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+/**
+ * Mint one ticket per unit of a completed purchase and email the codes to the buyer
+ *
+ * Inside a transaction the email waits for it to commit, so buyers only get codes that were saved.
+ *
+ * @param purchase - The recorded ticket purchase
+ * @returns The issued tickets
+ */
+export async function issueTicketsForPurchase(purchase: TicketPurchase): Promise<Ticket[]> {
+  const issued = await storage.createTickets(
+    Array.from({ length: purchase.quantity }, () => ({
+      code: generateTicketCode(),
+      ticketPurchaseId: purchase.id,
+      fundraiserId: purchase.fundraiserId,
+      customerEmail: purchase.customerEmail,
+      status: TicketStatus.VALID,
+    }))
+  );
+
+  afterCommit(() => sendEmailInBackground({
+    to: purchase.customerEmail,
+    subject: "Your fundraiser tickets",
+    text: [
+      `Hi ${purchase.customerName}, thank you for your purchase.`,
+      "Show these codes at the door:",
+      ...issued.map((ticket) => ticket.code),
+    ].join("\n"),
+  }));
+
+  return issued;
+}
+
+export default {
+  generateTicketCode,
+  normalizeTicketCode,
+  verifyTicketCode,
+  issueTicketsForPurchase
+};
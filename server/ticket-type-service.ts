@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  PaymentStatus,
+  centsSchema,
+  clearableSchema,
+  insertTicketTypeSchema,
+  type PaymentStatusType,
+  type TicketType
+} from "@shared/schema";
+import { HttpError, parseBody } from "./http-error";
+
+// Every status a purchase can have, a ticket type that was ever bought is kept for the record
+const ALL_PAYMENT_STATUSES = Object.values(PaymentStatus) as PaymentStatusType[];
+
+export interface TicketTypeInput {
+  id: number | null; // Null for a new ticket type
+  name: string;
+  price: number; // in cents
+  capacity: number | null;
+  salesStartAt: Date | null;
+  salesEndAt: Date | null;
+}
+
+/**
+ * Raised when ticket types can't be saved
+ */
+export class TicketTypeError extends HttpError {}
+
+function positiveIntegerSchema(label: string) {
+  const message = `${label} must be a positive whole number`;
+  return z.coerce.number({ message }).int(message).positive(message);
+}
+
+function dateSchema(label: string) {
+  return z.coerce.date({ message: `${label} is not a valid date` });
+}
+
+// Settings sent empty or left out are cleared, a ticket type without an ID is a new one
+const ticketTypeSchema = insertTicketTypeSchema
+  .pick({ name: true, price: true, capacity: true, salesStartAt: true, salesEndAt: true })
+  .extend({
+    id: clearableSchema(positiveIntegerSchema("Ticket type ID")).optional(),
+    name: z.string({ message: "Every ticket type needs a name" }).trim().min(1, "Every ticket type needs a name"),
+    price: centsSchema("Ticket type price"),
+    capacity: clearableSchema(positiveIntegerSchema("Ticket type capacity")).optional(),
+    salesStartAt: clearableSchema(dateSchema("Sales start")).optional(),
+    salesEndAt: clearableSchema(dateSchema("Sales end")).optional()
+  })
+  .refine(
+    (input) => !input.salesStartAt || !input.salesEndAt || input.salesEndAt > input.salesStartAt,
+    (input) => ({ message: `Sales of '${input.name}' must end after they start` })
+  )
+  .transform((input): TicketTypeInput => ({
+    id: input.id ?? null,
+    name: input.name,
+    price: input.price,
+    capacity: input.capacity ?? null,
+    salesStartAt: input.salesStartAt ?? null,
+    salesEndAt: input.salesEndAt ?? null
+  }));
+
+const ticketTypesSchema = z.array(ticketTypeSchema, { message: "Ticket types must be a list" });
+
+/**
+ * Validate the ticket types sent with a fundraiser form
+ *
+ * @param value - The submitted ticket types, as an array or a JSON string from a multipart form
+ * @returns The validated ticket types
+ * @throws TicketTypeError if a ticket type is invalid
+ */
+export function parseTicketTypes(value: unknown): TicketTypeInput[] {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch (error) {
+      throw new TicketTypeError("Ticket types are not valid JSON");
+    }
+  }
+  return parseBody(ticketTypesSchema, raw, TicketTypeError);
+}
+
+/**
+ * Replace a fundraiser's ticket types with the ones from its form
+ *
+ * Ticket types left out are deleted, or retired if tickets of that type were
+ * ever bought, so past orders keep their ticket type.
+ *
+ * @param fundraiserId - The fundraiser the ticket types belong to
+ * @param inputs - The ticket types in the order they are offered
+ * @returns The fundraiser's active ticket types
+ * @throws TicketTypeError if a ticket type belongs to another fundraiser
+ */
+export async function saveTicketTypes(fundraiserId: number, inputs: TicketTypeInput[]): Promise<TicketType[]> {
+  const existing = await storage.getTicketTypesByFundraiserIds([fundraiserId]);
+  for (const input of inputs) {
+    if (input.id !== null && !existing.some((ticketType) => ticketType.id === input.id)) {
+      throw new TicketTypeError(`Ticket type with ID ${input.id} not found`, 404);
+    }
+  }
+
+  const saved: TicketType[] = [];
+  for (let index = 0; index < inputs.length; index++) {
+    const { id, ...fields } = inputs[index];
+    const values = { ...fields, fundraiserId, sortOrder: index, isActive: true };
+    saved.push(id !== null
+      ? await storage.updateTicketType(id, values)
+      : await storage.createTicketType(values));
+  }
+
+  const removed = existing.filter((ticketType) => !inputs.some((input) => input.id === ticketType.id));
+  const sold = await storage.getTicketCountsByTicketTypeIds(
+    removed.map((ticketType) => ticketType.id),
+    ALL_PAYMENT_STATUSES
+  );
+  for (const ticketType of removed) {
+    if (sold.has(ticketType.id)) {
+      await storage.updateTicketType(ticketType.id, { isActive: false });
+    } else {
+      await storage.deleteTicketType(ticketType.id);
+    }
+  }
+
+  return saved;
+}
+
+export default {
+  parseTicketTypes,
+  saveTicketTypes
+};
@@ -5,6 +5,8 @@ import {
   integer,
   boolean,
   timestamp,
+  unique,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -21,6 +23,115 @@ export const UserRole = {
 
 export type UserRoleType = (typeof UserRole)[keyof typeof UserRole];
 
+// The ways a school can group its students, each from a list the school defines
+export const StudentGroupKind = {
+  GRADE: "grade",
+  CLASS: "class",
+  HOUSE: "house",
+} as const;
+
+export type StudentGroupKindType = (typeof StudentGroupKind)[keyof typeof StudentGroupKind];
+
+// The student field holding each kind of group
+export const StudentGroupField = {
+  [StudentGroupKind.GRADE]: "grade",
+  [StudentGroupKind.CLASS]: "className",
+  [StudentGroupKind.HOUSE]: "house",
+} as const;
+
+export const TicketStatus = {
+  VALID: "valid",
+  REDEEMED: "redeemed",
+  VOID: "void",
+} as const;
+
+export type TicketStatusType = (typeof TicketStatus)[keyof typeof TicketStatus];
+
+export const PaymentProvider = {
+  STRIPE: "stripe",
+  PAYSTACK: "paystack",
+  CASH: "cash",
+  FAKE: "fake", // In-memory provider for local testing, never available in production
+} as const;
+
+export type PaymentProviderType = (typeof PaymentProvider)[keyof typeof PaymentProvider];
+
+// Tickets a buyer may order for one fundraiser when the school hasn't set a limit
+export const DEFAULT_MAX_TICKETS_PER_ORDER = 10;
+
+// What a fundraiser raises money with
+export const FundraiserMode = {
+  TICKETS: "tickets",
+  DONATIONS: "donations",
+  TICKETS_AND_DONATIONS: "tickets_and_donations",
+} as const;
+
+export type FundraiserModeType = (typeof FundraiserMode)[keyof typeof FundraiserMode];
+
+// Smallest donation accepted, in cents
+export const MIN_DONATION_AMOUNT = 500;
+
+// Smallest order total a promo code can bring an order down to, in cents. Payment providers
+// won't charge less (Stripe's minimum is 50 cents)
+export const MIN_ORDER_AMOUNT = 50;
+
+// Percentages of a fundraiser's or student's goal that are celebrated with a notification
+export const GOAL_MILESTONES = [50, 100];
+
+export const DiscountType = {
+  PERCENTAGE: "percentage",
+  FIXED: "fixed",
+} as const;
+
+export type DiscountTypeType = (typeof DiscountType)[keyof typeof DiscountType];
+
+export const PaymentRecordStatus = {
+  PROCESSING: "processing",
+  RECORDED: "recorded",
+} as const;
+
+export type PaymentRecordStatusType = (typeof PaymentRecordStatus)[keyof typeof PaymentRecordStatus];
+
+// Values of ticket_purchases.payment_status
+export const PaymentStatus = {
+  PENDING: "pending", // Checkout started, payment not confirmed yet
+  COMPLETED: "completed",
+  FAILED: "failed",
+  REFUNDED: "refunded",
+  PARTIALLY_REFUNDED: "partially_refunded",
+  ABANDONED: "abandoned", // Checkout never paid and expired
+  CASH_PENDING: "cash_pending", // Cash taken by a student, not yet handed in to the school
+  CASH_REJECTED: "cash_rejected", // The school never received the cash
+} as const;
+
+export type PaymentStatusType = (typeof PaymentStatus)[keyof typeof PaymentStatus];
+
+export const PaymentEventStatus = {
+  RECEIVED: "received",
+  PROCESSED: "processed",
+  IGNORED: "ignored", // Event type we don't act on
+  FAILED: "failed",
+} as const;
+
+export type PaymentEventStatusType = (typeof PaymentEventStatus)[keyof typeof PaymentEventStatus];
+
+// Steps of a referral before the purchase, purchases are counted from the sales credited to the student
+export const ReferralEventType = {
+  VISIT: "visit", // Referral link opened
+  CART: "cart", // Referred ticket added to a cart
+} as const;
+
+export type ReferralEventTypeType = (typeof ReferralEventType)[keyof typeof ReferralEventType];
+
+// What an emailed link lets its holder do
+export const AuthTokenPurpose = {
+  PASSWORD_RESET: "password_reset",
+  EMAIL_VERIFICATION: "email_verification",
+  ACCOUNT_ACTIVATION: "account_activation", // For students a school imported, who choose their own password
+} as const;
+
+export type AuthTokenPurposeType = (typeof AuthTokenPurpose)[keyof typeof AuthTokenPurpose];
+
 // -----------------------------
 // Tables
 // -----------------------------
@@ -30,6 +141,7 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   role: text("role").$type<UserRoleType>().notNull(),
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the user follows the link emailed on registration
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -39,6 +151,7 @@ export const schools = pgTable("schools", {
   adminName: text("admin_name").notNull(),
   address: text("address"),
   userId: integer("user_id").references(() => users.id).notNull(),
+  joinCode: text("join_code").unique(), // Students register with it instead of an invite, made the first time the school looks
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -46,9 +159,25 @@ export const students = pgTable("students", {
   id: serial("id").primaryKey(),
   schoolId: integer("school_id").references(() => schools.id).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  showNameOnLeaderboard: boolean("show_name_on_leaderboard").default(true).notNull(), // Other students see "Anonymous" otherwise
+  grade: text("grade"), // Names from the school's student groups, null until the school assigns one
+  className: text("class_name"),
+  house: text("house"),
+  guardianEmail: text("guardian_email"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// The grades, classes and houses a school can put its students in
+export const studentGroups = pgTable("student_groups", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id).notNull(),
+  kind: text("kind").$type<StudentGroupKindType>().notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("student_groups_school_kind_name_unique").on(table.schoolId, table.kind, table.name),
+]);
+
 export const fundraisers = pgTable("fundraisers", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(), // Using 'name' column in the database
@@ -59,15 +188,57 @@ export const fundraisers = pgTable("fundraisers", {
   price: integer("price").default(1000).notNull(), // Price in cents, default 10.00
   image: text("image"), // URL to the fundraiser image
   description: text("description"), // Longer description of the fundraiser
+  capacity: integer("capacity"), // Tickets available in total, null means unlimited
+  maxTicketsPerOrder: integer("max_tickets_per_order"), // null uses DEFAULT_MAX_TICKETS_PER_ORDER
+  mode: text("mode").$type<FundraiserModeType>().notNull().default(FundraiserMode.TICKETS),
+  donationGoal: integer("donation_goal"), // Target for donations in cents, null means no goal
+  suggestedDonations: jsonb("suggested_donations").$type<number[]>(), // Amounts in cents offered to donors
+  goalAmount: integer("goal_amount"), // Sales target in cents, null means no goal
+  studentGoalAmount: integer("student_goal_amount"), // Sales target for each student in cents, null means none
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A kind of ticket sold for a fundraiser, e.g. adult, learner or family, each priced
+// and limited separately. Fundraisers without ticket types sell one ticket at their price
+export const ticketTypes = pgTable("ticket_types", {
+  id: serial("id").primaryKey(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  name: text("name").notNull(),
+  price: integer("price").notNull(), // Price in cents
+  capacity: integer("capacity"), // Tickets of this type available, null means unlimited
+  salesStartAt: timestamp("sales_start_at"), // Null means on sale straight away
+  salesEndAt: timestamp("sales_end_at"), // Null means on sale until the fundraiser ends
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").default(true).notNull(), // Types that have been sold are retired, not deleted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A discount code a school hands out, for one of its fundraisers or all of them.
+// Redemptions are the orders placed with the code
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id).notNull(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id), // Null applies to every fundraiser of the school
+  code: text("code").notNull().unique(), // Stored upper case, buyers can type it in any case
+  discountType: text("discount_type").$type<DiscountTypeType>().notNull(),
+  discountValue: integer("discount_value").notNull(), // Percentage, or amount in cents for fixed discounts
+  maxRedemptions: integer("max_redemptions"), // Null means unlimited
+  startsAt: timestamp("starts_at"), // Null means usable straight away
+  expiresAt: timestamp("expires_at"), // Null means it never expires, an early-bird code ends well before the event
+  isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// A student taking part in a fundraiser, assigned by the school or opted in themselves.
+// Only enrolled students are credited with the sales they refer
 export const studentFundraisers = pgTable("student_fundraisers", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").references(() => students.id).notNull(),
   fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("student_fundraisers_student_fundraiser_unique").on(table.studentId, table.fundraiserId),
+]);
 
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -79,9 +250,36 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// A buyer's checkout, paid in one payment and made up of one or more ticket purchases
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  orderNumber: text("order_number").notNull().unique(), // Shown to buyers and schools, e.g. SR-250601-7KQ2XD
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email").notNull(),
+  customerPhone: text("customer_phone"),
+  provider: text("provider").$type<PaymentProviderType>().notNull(),
+  paymentReference: text("payment_reference").notNull(),
+  status: text("status").$type<PaymentStatusType>().notNull().default(PaymentStatus.COMPLETED),
+  totalAmount: integer("total_amount").notNull(), // stored in cents
+  capturedAmount: integer("captured_amount"), // What the provider actually took, in cents
+  refundedAmount: integer("refunded_amount").notNull().default(0), // stored in cents
+  ticketCount: integer("ticket_count").notNull(),
+  promoCodeId: integer("promo_code_id").references(() => promoCodes.id),
+  discountAmount: integer("discount_amount").notNull().default(0), // Taken off the total by the promo code, in cents
+  recordedBy: integer("recorded_by").references(() => users.id), // Who took a cash payment, null for online payments
+  reconciledBy: integer("reconciled_by").references(() => users.id), // Treasurer who confirmed or rejected the cash
+  reconciledAt: timestamp("reconciled_at"),
+  reconciliationNote: text("reconciliation_note"),
+  buyerIp: text("buyer_ip"), // Where an online checkout was started, limits how many one buyer holds unpaid
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const ticketPurchases = pgTable("ticket_purchases", {
   id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id), // Null for purchases recorded before orders existed
   fundraiserId: integer("fundraiser_id").notNull(),
+  ticketTypeId: integer("ticket_type_id").references(() => ticketTypes.id), // Null when the fundraiser has no ticket types
   studentId: integer("student_id"), // Made nullable to support guest purchases
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
@@ -90,6 +288,155 @@ export const ticketPurchases = pgTable("ticket_purchases", {
   amount: integer("amount").notNull(), // stored in cents
   paymentIntentId: text("payment_intent_id").notNull(),
   paymentStatus: text("payment_status").notNull().default("completed"),
+  capturedAmount: integer("captured_amount"), // What the provider actually took, in cents
+  refundedAmount: integer("refunded_amount").notNull().default(0), // stored in cents, excluded from sales totals
+  flaggedForReview: boolean("flagged_for_review").notNull().default(false),
+  reviewReason: text("review_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A gift to a fundraiser, paid on its own and credited to the student who shared the link
+export const donations = pgTable("donations", {
+  id: serial("id").primaryKey(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  studentId: integer("student_id").references(() => students.id), // Null when nobody referred the donor
+  donorName: text("donor_name").notNull(),
+  donorEmail: text("donor_email").notNull(),
+  amount: integer("amount").notNull(), // stored in cents
+  message: text("message"),
+  isAnonymous: boolean("is_anonymous").notNull().default(false), // Name and message are hidden on the public page
+  provider: text("provider").$type<PaymentProviderType>().notNull(),
+  paymentReference: text("payment_reference").notNull().unique(),
+  status: text("status").$type<PaymentStatusType>().notNull().default(PaymentStatus.PENDING),
+  capturedAmount: integer("captured_amount"), // What the provider actually took, in cents
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Money returned to a buyer, for a single ticket purchase or a whole order
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  ticketPurchaseId: integer("ticket_purchase_id").references(() => ticketPurchases.id), // Null when the whole order was refunded
+  amount: integer("amount").notNull(), // stored in cents
+  provider: text("provider").$type<PaymentProviderType>().notNull(),
+  providerRefundId: text("provider_refund_id"), // Null for cash refunds
+  reason: text("reason"),
+  refundedBy: integer("refunded_by").references(() => users.id), // Null when the refund came from the provider's dashboard
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Individual admission tickets, one per unit of a ticket purchase
+export const tickets = pgTable("tickets", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Signed code encoded in the QR image
+  ticketPurchaseId: integer("ticket_purchase_id").references(() => ticketPurchases.id).notNull(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  customerEmail: text("customer_email").notNull(),
+  status: text("status").$type<TicketStatusType>().notNull().default(TicketStatus.VALID),
+  redeemedAt: timestamp("redeemed_at"), // Set when the ticket is scanned at the door
+  redeemedBy: integer("redeemed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per provider payment, claimed before its purchases are recorded so a
+// repeated verification or webhook delivery can't record the same payment twice
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").$type<PaymentProviderType>().notNull(),
+  reference: text("reference").notNull(), // Paystack reference or Stripe payment intent ID
+  status: text("status").$type<PaymentRecordStatusType>().notNull().default(PaymentRecordStatus.PROCESSING),
+  recordedAt: timestamp("recorded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("payments_provider_reference_unique").on(table.provider, table.reference),
+]);
+
+// Every webhook event received from a payment provider, and what became of it
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").$type<PaymentProviderType>().notNull(),
+  eventId: text("event_id").notNull(), // The provider's own event ID
+  type: text("type").notNull(),
+  status: text("status").$type<PaymentEventStatusType>().notNull().default(PaymentEventStatus.RECEIVED),
+  error: text("error"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("payment_events_provider_event_id_unique").on(table.provider, table.eventId),
+]);
+
+// A goal milestone that has been reached and notified, claimed so it's only notified once
+export const goalMilestones = pgTable("goal_milestones", {
+  id: serial("id").primaryKey(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  studentId: integer("student_id").references(() => students.id), // Null for the fundraiser's own goal
+  percentage: integer("percentage").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("goal_milestones_fundraiser_student_percentage_unique")
+    .on(table.fundraiserId, table.studentId, table.percentage)
+    .nullsNotDistinct(),
+]);
+
+// Code shared in a student's referral link for a fundraiser, so links don't expose student IDs
+export const referralCodes = pgTable("referral_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  studentId: integer("student_id").references(() => students.id).notNull(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("referral_codes_student_fundraiser_unique").on(table.studentId, table.fundraiserId),
+]);
+
+export const referralEvents = pgTable("referral_events", {
+  id: serial("id").primaryKey(),
+  referralCodeId: integer("referral_code_id").references(() => referralCodes.id).notNull(),
+  type: text("type").notNull(), // ReferralEventType
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A buyer's cart, found by the token a guest's browser keeps or by the account it belongs to
+export const carts = pgTable("carts", {
+  id: serial("id").primaryKey(),
+  token: text("token").unique(), // Guest carts only
+  userId: integer("user_id").references(() => users.id).unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// What a cart holds. Prices aren't kept, every read prices the items from the fundraiser
+export const cartItems = pgTable("cart_items", {
+  id: serial("id").primaryKey(),
+  cartId: integer("cart_id").references(() => carts.id).notNull(),
+  fundraiserId: integer("fundraiser_id").references(() => fundraisers.id).notNull(),
+  ticketTypeId: integer("ticket_type_id").references(() => ticketTypes.id),
+  quantity: integer("quantity").notNull(),
+  referralCode: text("referral_code"), // Code of the student whose link the buyer followed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// An emailed link to register: admins invite schools, schools invite their students.
+// Only a hash of the link's token is stored
+export const invites = pgTable("invites", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  role: text("role").$type<UserRoleType>().notNull(), // The account the invitee registers
+  schoolId: integer("school_id").references(() => schools.id), // The school a student joins
+  invitedByUserId: integer("invited_by_user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use tokens sent by email, only a hash of the token is stored
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").$type<AuthTokenPurposeType>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -135,6 +482,15 @@ export const fundraisersRelations = relations(fundraisers, ({ one, many }) => ({
     references: [schools.id],
   }),
   studentFundraisers: many(studentFundraisers),
+  ticketTypes: many(ticketTypes),
+  donations: many(donations),
+}));
+
+export const ticketTypesRelations = relations(ticketTypes, ({ one }) => ({
+  fundraiser: one(fundraisers, {
+    fields: [ticketTypes.fundraiserId],
+    references: [fundraisers.id],
+  }),
 }));
 
 export const studentFundraisersRelations = relations(studentFundraisers, ({ one }) => ({
@@ -155,15 +511,86 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
-export const ticketPurchasesRelations = relations(ticketPurchases, ({ one }) => ({
+export const promoCodesRelations = relations(promoCodes, ({ one, many }) => ({
+  school: one(schools, {
+    fields: [promoCodes.schoolId],
+    references: [schools.id],
+  }),
+  fundraiser: one(fundraisers, {
+    fields: [promoCodes.fundraiserId],
+    references: [fundraisers.id],
+  }),
+  orders: many(orders),
+}));
+
+export const ordersRelations = relations(orders, ({ one, many }) => ({
+  promoCode: one(promoCodes, {
+    fields: [orders.promoCodeId],
+    references: [promoCodes.id],
+  }),
+  ticketPurchases: many(ticketPurchases),
+  refunds: many(refunds),
+}));
+
+export const donationsRelations = relations(donations, ({ one }) => ({
+  fundraiser: one(fundraisers, {
+    fields: [donations.fundraiserId],
+    references: [fundraisers.id],
+  }),
+  student: one(students, {
+    fields: [donations.studentId],
+    references: [students.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  ticketPurchase: one(ticketPurchases, {
+    fields: [refunds.ticketPurchaseId],
+    references: [ticketPurchases.id],
+  }),
+  refundedByUser: one(users, {
+    fields: [refunds.refundedBy],
+    references: [users.id],
+  }),
+}));
+
+export const ticketPurchasesRelations = relations(ticketPurchases, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [ticketPurchases.orderId],
+    references: [orders.id],
+  }),
   fundraiser: one(fundraisers, {
     fields: [ticketPurchases.fundraiserId],
     references: [fundraisers.id],
   }),
+  ticketType: one(ticketTypes, {
+    fields: [ticketPurchases.ticketTypeId],
+    references: [ticketTypes.id],
+  }),
   student: one(students, {
     fields: [ticketPurchases.studentId],
     references: [students.id],
   }),
+  tickets: many(tickets),
+}));
+
+export const ticketsRelations = relations(tickets, ({ one }) => ({
+  ticketPurchase: one(ticketPurchases, {
+    fields: [tickets.ticketPurchaseId],
+    references: [ticketPurchases.id],
+  }),
+  fundraiser: one(fundraisers, {
+    fields: [tickets.fundraiserId],
+    references: [fundraisers.id],
+  }),
+  redeemedByUser: one(users, {
+    fields: [tickets.redeemedBy],
+    references: [users.id],
+  }),
 }));
 
 // -----------------------------
@@ -173,6 +600,7 @@ export const insertUserSchema = createInsertSchema(users, {
   role: z.enum([UserRole.ADMIN, UserRole.SCHOOL, UserRole.STUDENT]),
 }).omit({
   id: true,
+  emailVerifiedAt: true,
   createdAt: true,
 });
 
@@ -191,21 +619,117 @@ export const insertFundraiserSchema = createInsertSchema(fundraisers).omit({
   createdAt: true,
 });
 
+export const insertTicketTypeSchema = createInsertSchema(ticketTypes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  discountType: z.enum([DiscountType.PERCENTAGE, DiscountType.FIXED]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertStudentFundraiserSchema = createInsertSchema(studentFundraisers).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertCartItemSchema = createInsertSchema(cartItems).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertOrderSchema = createInsertSchema(orders, {
+  provider: z.enum([PaymentProvider.STRIPE, PaymentProvider.PAYSTACK, PaymentProvider.CASH, PaymentProvider.FAKE]),
+  status: z.enum([
+    PaymentStatus.PENDING,
+    PaymentStatus.COMPLETED,
+    PaymentStatus.FAILED,
+    PaymentStatus.REFUNDED,
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.ABANDONED,
+    PaymentStatus.CASH_PENDING,
+    PaymentStatus.CASH_REJECTED,
+  ]),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDonationSchema = createInsertSchema(donations, {
+  provider: z.enum([PaymentProvider.STRIPE, PaymentProvider.PAYSTACK, PaymentProvider.CASH, PaymentProvider.FAKE]),
+  status: z.enum([
+    PaymentStatus.PENDING,
+    PaymentStatus.COMPLETED,
+    PaymentStatus.FAILED,
+    PaymentStatus.REFUNDED,
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.ABANDONED,
+    PaymentStatus.CASH_PENDING,
+    PaymentStatus.CASH_REJECTED,
+  ]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds, {
+  provider: z.enum([PaymentProvider.STRIPE, PaymentProvider.PAYSTACK, PaymentProvider.CASH, PaymentProvider.FAKE]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTicketPurchaseSchema = createInsertSchema(ticketPurchases).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertPaymentEventSchema = createInsertSchema(paymentEvents, {
+  provider: z.enum([PaymentProvider.STRIPE, PaymentProvider.PAYSTACK, PaymentProvider.CASH, PaymentProvider.FAKE]),
+  status: z.enum([
+    PaymentEventStatus.RECEIVED,
+    PaymentEventStatus.PROCESSED,
+    PaymentEventStatus.IGNORED,
+    PaymentEventStatus.FAILED,
+  ]),
+}).omit({
+  id: true,
+  processedAt: true,
+  createdAt: true,
+});
+
+export const insertTicketSchema = createInsertSchema(tickets, {
+  status: z.enum([TicketStatus.VALID, TicketStatus.REDEEMED, TicketStatus.VOID]),
+}).omit({
+  id: true,
+  redeemedAt: true,
+  redeemedBy: true,
+  createdAt: true,
+});
+
+// -----------------------------
+// Form Field Schemas
+// -----------------------------
+// An amount in cents, multipart forms send it as a string
+export function centsSchema(label: string) {
+  const message = `${label} must be a positive number of cents`;
+  return z.coerce.number({ message }).int(message).positive(message);
+}
+
+// An optional setting sent empty or null is cleared
+export function clearableSchema<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (value === "" ? null : value), schema.nullable());
+}
+
 // -----------------------------
 // Extended Registration Schemas
 // -----------------------------
@@ -213,10 +737,13 @@ export const schoolRegisterSchema = insertUserSchema.extend({
   name: z.string().min(2, "School name is required"),
   adminName: z.string().min(2, "Admin name is required"),
   address: z.string().optional(),
+  inviteToken: z.string().optional(), // From an admin's invite link
 });
 
+// Students join a school through its invite link or its join code
 export const studentRegisterSchema = insertUserSchema.extend({
-  schoolId: z.number().min(1, "Please select a school"),
+  inviteToken: z.string().optional(),
+  joinCode: z.string().optional(),
 });
 
 // -----------------------------
@@ -226,22 +753,252 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type School = typeof schools.$inferSelect;
+// A school as anyone but its owner and admins see it, without the code students join with
+export type PublicSchool = Omit<School, "joinCode">;
 export type InsertSchool = z.infer<typeof insertSchoolSchema>;
 
 export type Student = typeof students.$inferSelect;
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 
+export type StudentGroup = typeof studentGroups.$inferSelect;
+
+// Ticket sales by the students in one grade, class or house, amounts in dollars.
+// A null name covers the students who haven't been given one
+export type StudentGroupSales = {
+  kind: StudentGroupKindType;
+  name: string | null;
+  totalAmount: number;
+  totalTickets: number;
+  studentCount: number;
+};
+
 export type Fundraiser = typeof fundraisers.$inferSelect;
 export type InsertFundraiser = z.infer<typeof insertFundraiserSchema>;
 
+export type TicketType = typeof ticketTypes.$inferSelect;
+export type InsertTicketType = z.infer<typeof insertTicketTypeSchema>;
+
+// Ticket type with the tickets of it still on sale, null when it has no capacity
+export type TicketTypeWithAvailability = TicketType & {
+  ticketsRemaining: number | null;
+};
+
+// Fundraiser with the tickets still on sale, null when it has no capacity, and the
+// ticket types buyers can currently choose from
+export type FundraiserWithAvailability = Fundraiser & {
+  ticketsRemaining: number | null;
+  ticketTypes: TicketTypeWithAvailability[];
+};
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+
+// Promo code with the orders placed with it, discountTotal in cents
+export type PromoCodeWithRedemptions = PromoCode & {
+  fundraiserName: string | null;
+  redemptions: number;
+  discountTotal: number;
+};
+
 export type StudentFundraiser = typeof studentFundraisers.$inferSelect;
 export type InsertStudentFundraiser = z.infer<typeof insertStudentFundraiserSchema>;
 
+// Student enrolled in a fundraiser, as listed for the school
+export type EnrolledStudent = {
+  studentId: number;
+  username: string;
+  email: string;
+  enrolledAt: Date;
+};
+
 export type SchoolRegister = z.infer<typeof schoolRegisterSchema>;
 export type StudentRegister = z.infer<typeof studentRegisterSchema>;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+
+export type Donation = typeof donations.$inferSelect;
+export type InsertDonation = z.infer<typeof insertDonationSchema>;
+
+// Donation as shown on the public fundraiser page, anonymous donors are left unnamed
+export type PublicDonation = {
+  id: number;
+  donorName: string | null;
+  message: string | null;
+  amount: number; // in cents
+  createdAt: Date;
+};
+
+// Donations received by a fundraiser against its goal, amounts in cents
+export type DonationProgress = {
+  fundraiserId: number;
+  goal: number | null;
+  raised: number;
+  donorCount: number;
+  recentDonations: PublicDonation[];
+};
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
 export type TicketPurchase = typeof ticketPurchases.$inferSelect;
 export type InsertTicketPurchase = z.infer<typeof insertTicketPurchaseSchema>;
+
+export type Payment = typeof payments.$inferSelect;
+
+export type GoalMilestone = typeof goalMilestones.$inferSelect;
+
+export type ReferralCode = typeof referralCodes.$inferSelect;
+export type ReferralEvent = typeof referralEvents.$inferSelect;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+
+export type Invite = typeof invites.$inferSelect;
+
+// An invite as listed for whoever sent it, without its token
+export type SentInvite = Omit<Invite, "tokenHash">;
+
+// What the registration form shows about an invite before it's accepted
+export type InviteSummary = {
+  email: string;
+  role: UserRoleType;
+  schoolName: string | null;
+  expiresAt: Date;
+};
+
+// A row of a student import file as checked before anything is created
+export type StudentImportRow = {
+  line: number; // In the file, counting the header as line 1
+  name: string;
+  email: string;
+  grade: string;
+  className: string;
+  guardianEmail: string | null;
+  errors: string[];
+};
+
+export type StudentImportPreview = {
+  rows: StudentImportRow[];
+  errorCount: number; // Rows that would stop the import
+};
+
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+
+// A cart item as priced and checked when the cart is read, amounts in cents
+export type CartLine = {
+  id: number;
+  fundraiserId: number;
+  ticketTypeId: number | null;
+  name: string;
+  ticketTypeName: string | null;
+  eventDate: string;
+  location: string;
+  image: string | null;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  maxQuantity: number; // Tickets the buyer may order right now
+  referralCode: string | null;
+  issue: string | null; // Why the item can't be bought as it stands, e.g. the event has passed
+};
+
+export type CartWithLines = {
+  token: string | null; // For guests to keep, null once the cart belongs to an account
+  items: CartLine[];
+  totalAmount: number; // Of the items that can be bought, in cents
+};
+
+// How a student's referral links for a fundraiser turned into sales
+export type ReferralFunnel = {
+  fundraiserId: number;
+  fundraiserName: string;
+  studentId: number;
+  username: string;
+  visits: number;
+  carts: number;
+  purchases: number; // Orders credited to the student
+};
+
+// A student's sales as counted for a leaderboard, amountRaised in cents
+export type StudentSalesTotal = {
+  studentId: number;
+  username: string;
+  showNameOnLeaderboard: boolean;
+  ticketsSold: number;
+  amountRaised: number;
+};
+
+// A row of a leaderboard, displayName is null when it's hidden from the viewer
+export type LeaderboardEntry = {
+  rank: number;
+  studentId: number | null; // Null with the name, an anonymous student can't be looked up by ID
+  displayName: string | null;
+  ticketsSold: number;
+  amountRaised: number; // in cents
+  isCurrentStudent: boolean;
+};
+
+// Sales of a fundraiser against its goals, amounts in cents from completed ticket purchases.
+// The student fields are only filled in for a student's own progress
+export type GoalProgress = {
+  fundraiserId: number;
+  fundraiserName: string;
+  goal: number | null;
+  raised: number;
+  studentGoal: number | null;
+  studentRaised: number | null;
+};
+
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+
+export type Ticket = typeof tickets.$inferSelect;
+export type InsertTicket = z.infer<typeof insertTicketSchema>;
+
+// Ticket joined with the event details needed to present it to the buyer
+export type TicketWithFundraiser = Ticket & {
+  fundraiserName: string;
+  eventDate: string;
+  location: string;
+};
+
+// Ticket purchase presented as a line of its order
+export type OrderItem = TicketPurchase & {
+  fundraiserName: string;
+  ticketTypeName: string | null;
+};
+
+export type OrderWithItems = Order & {
+  items: OrderItem[];
+};
+
+// Everything a buyer needs to see about their order
+export type OrderDetails = OrderWithItems & {
+  tickets: TicketWithFundraiser[];
+};
+
+// Cash order awaiting the treasurer, with who took the cash
+export type CashOrder = OrderWithItems & {
+  recordedByName: string | null;
+};
+
+// Sales of one ticket type, amounts in dollars like the other sales summaries
+export type TicketTypeSales = {
+  fundraiserId: number;
+  fundraiserName: string;
+  ticketTypeId: number | null;
+  ticketTypeName: string | null;
+  totalAmount: number;
+  totalTickets: number;
+};
+
+// Door check-in progress for a fundraiser
+export type CheckInSummary = {
+  fundraiserId: number;
+  sold: number;
+  admitted: number;
+};